@@ -0,0 +1,49 @@
+// agent/chunkCache.ts
+import fs from "fs";
+import path from "path";
+import { payloadObjectKey } from "../payload";
+
+// Verified plaintext chunks of downloads in progress, so an interrupted download resumes instead of starting over
+export interface ChunkCache {
+  get: (digest: string, index: number) => Promise<Uint8Array | null>;
+  put: (digest: string, index: number, chunk: Uint8Array) => Promise<void>;
+  // Drops a blob's chunks once it is downloaded in full
+  clear: (digest: string) => Promise<void>;
+}
+
+// Lost when the agent stops; resumes downloads interrupted while it runs
+export function memoryChunkCache(): ChunkCache {
+  const blobs = new Map<string, Map<number, Uint8Array>>();
+  return {
+    get: async (digest, index) => blobs.get(payloadObjectKey(digest))?.get(index) ?? null,
+    async put(digest, index, chunk) {
+      const key = payloadObjectKey(digest);
+      if (!blobs.has(key)) blobs.set(key, new Map());
+      blobs.get(key)!.set(index, chunk);
+    },
+    async clear(digest) {
+      blobs.delete(payloadObjectKey(digest));
+    },
+  };
+}
+
+// One file per chunk under <dir>/<digest hex>/, so a restarted agent picks up where it stopped
+export function directoryChunkCache(dir: string): ChunkCache {
+  const file = (digest: string, index: number) => path.join(dir, payloadObjectKey(digest), String(index));
+  return {
+    async get(digest, index) {
+      const target = file(digest, index);
+      return fs.existsSync(target) ? new Uint8Array(await fs.promises.readFile(target)) : null;
+    },
+    async put(digest, index, chunk) {
+      const target = file(digest, index);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      // Written aside and renamed, so a crash never leaves half a chunk behind
+      await fs.promises.writeFile(`${target}.partial`, chunk);
+      await fs.promises.rename(`${target}.partial`, target);
+    },
+    async clear(digest) {
+      await fs.promises.rm(path.join(dir, payloadObjectKey(digest)), { recursive: true, force: true });
+    },
+  };
+}
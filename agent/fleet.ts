@@ -0,0 +1,481 @@
+// agent/fleet.ts
+import { randomBytes, randomInt } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { readDeployments } from "../deploy/deploy";
+import { UpdateStatus, isTerminal, toUpdateStatus } from "../lifecycle";
+import { createDelta } from "../delta";
+import { FirmwareManifest, ManifestDelta, SignedManifest, hashManifest, manifestDomain, signManifest } from "../manifest";
+import { BPS } from "../rollout";
+import { OtaUpdateFHE, OtaUpdateFHE__factory } from "../types";
+import {
+  PayloadStore,
+  chunkRoot,
+  encryptPayload,
+  generatePayloadKey,
+  payloadKeyToUint256,
+  payloadObjectKey,
+  s3PayloadStore,
+} from "../payload";
+import { fsPayloadStore } from "../payload/fsStore";
+import { ChunkCache, directoryChunkCache, memoryChunkCache } from "./chunkCache";
+import { ManifestSource, directoryImageSource, indexerManifestSource, memoryManifestSource } from "./sources";
+import { AgentEntry, AgentOutcome, VehicleAgent, createVehicleAgent, toHandle } from "./vehicleAgent";
+
+export interface FleetOptions {
+  // Defaults to the address recorded in deployments/<network>.json
+  contract: string;
+  // Private keys of agents already set on registry vehicles
+  keys: string[];
+  // Vehicles to enroll with fresh agent keys before starting
+  spawn: number;
+  // Sends one campaign to the spawned vehicles and verifies its payload
+  submit: boolean;
+  // Payload store: a local directory, or the path-style URL of an S3-compatible bucket
+  payloadDir: string;
+  payloadUrl: string;
+  payloadSize: number;
+  // Download chunk size of the --submit payload
+  chunkSize: number;
+  // Installed images of the vehicles, for deltas; --delta puts the base image of its campaign here
+  imagesDir: string;
+  // Ships the --submit payload as a delta as well
+  delta: boolean;
+  // Makes the --submit campaign a rollback: vehicles spawn on the newer version and are pinned back to the older one
+  rollback: boolean;
+  indexer: string;
+  downloadFailureRate: number;
+  installFailureRate: number;
+  interruptRate: number;
+  healthFailureRate: number;
+  // Keeps the chunks of unfinished downloads on disk, one directory per vehicle, so a restarted fleet resumes them
+  downloadsDir: string;
+  downloadMs: number;
+  installMs: number;
+  verifyMs: number;
+  pollMs: number;
+  // First block scanned for submissions; negative starts at the deployment block
+  fromBlock: number;
+  // Seconds to run; 0 runs until interrupted
+  duration: number;
+  // Stops once every update of the fleet has been taken as far as the agents can take it
+  untilIdle: boolean;
+  quiet: boolean;
+}
+
+interface AgentKey {
+  wallet: ethers.Wallet;
+  vehicleIndices: number[];
+}
+
+interface TrackedEntry {
+  entry: AgentEntry;
+  agent: VehicleAgent;
+  status: UpdateStatus;
+  handled: boolean;
+}
+
+// Networks whose clock may be moved forward instead of waiting out the submission cooldown
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+// Statuses the vehicle agent moves on from; a restarted agent resumes updates in any of them
+const AGENT_STATUSES: UpdateStatus[] = ["downloading", "installing", "verifying"];
+
+// Registry fields of spawned vehicles; the model carries a run tag so a campaign only reaches this run's vehicles
+const SPAWN_ECU = "LOADTEST-ECU";
+const SPAWN_REGION = "LAB";
+const SPAWN_FIRMWARE = "1.0.0";
+const SUBMIT_VERSION = "1.1.0";
+// Installed and target version of the --submit campaign; a rollback goes the other way
+const submitVersions = (rollback: boolean) =>
+  rollback ? { installed: SUBMIT_VERSION, target: SPAWN_FIRMWARE } : { installed: SPAWN_FIRMWARE, target: SUBMIT_VERSION };
+// Gas money for the status reports of each spawned agent
+const AGENT_FUNDING = ethers.parseEther("1");
+// Vehicles per dispatchCampaign transaction; each dispatch is a batch of its own
+const DISPATCH_CHUNK = 20;
+// One changed byte per this many in the base image of a --delta run
+const DELTA_EDIT_EVERY = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const entryKey = (batchId: number, entryIndex: number) => `${batchId}:${entryIndex}`;
+const errorMessage = (e: unknown) => (e as { shortMessage?: string }).shortMessage ?? (e as Error).message;
+
+function eventsOf(receipt: ethers.ContractTransactionReceipt | null, address: string, name: string): ethers.EventLog[] {
+  if (!receipt) throw new Error(`Transaction emitting ${name} was not mined`);
+  return receipt.logs.filter(
+    (log): log is ethers.EventLog =>
+      log instanceof ethers.EventLog && log.eventName === name && log.address.toLowerCase() === address.toLowerCase(),
+  );
+}
+
+async function waitForCooldown(hre: HardhatRuntimeEnvironment, contract: OtaUpdateFHE, account: string) {
+  const [last, cooldown, block] = await Promise.all([
+    contract.lastSubmissionTime(account),
+    contract.cooldownSeconds(),
+    hre.ethers.provider.getBlock("latest"),
+  ]);
+  const wait = Number(last + cooldown) - block!.timestamp;
+  if (wait <= 0) return;
+  if (LOCAL_NETWORKS.includes(hre.network.name)) {
+    await hre.network.provider.send("evm_increaseTime", [wait]);
+    await hre.network.provider.send("evm_mine", []);
+  } else {
+    console.log(`Waiting ${wait}s for the submission cooldown`);
+    await sleep(wait * 1000);
+  }
+}
+
+// Vehicles each key is agent of, found by scanning the registry
+async function findAgentVehicles(hre: HardhatRuntimeEnvironment, contract: OtaUpdateFHE, keys: string[]) {
+  const found: AgentKey[] = keys.map((key) => ({ wallet: new ethers.Wallet(key, hre.ethers.provider), vehicleIndices: [] }));
+  const vehicleCount = Number(await contract.vehicleCount());
+  for (let index = 1; index <= vehicleCount; index++) {
+    const { agent } = await contract.vehicles(index);
+    found.find((k) => k.wallet.address.toLowerCase() === agent.toLowerCase())?.vehicleIndices.push(index);
+  }
+  for (const { wallet, vehicleIndices } of found) {
+    if (vehicleIndices.length === 0) console.warn(`${wallet.address} is not the agent of any registry vehicle`);
+  }
+  return found.filter((k) => k.vehicleIndices.length > 0);
+}
+
+async function spawnVehicles(
+  hre: HardhatRuntimeEnvironment,
+  contract: OtaUpdateFHE,
+  provider: ethers.Signer,
+  count: number,
+  model: string,
+  firmware: string,
+): Promise<AgentKey[]> {
+  const address = await contract.getAddress();
+  const providerAddress = await provider.getAddress();
+  const spawned: AgentKey[] = [];
+  for (let i = 0; i < count; i++) {
+    const wallet = new ethers.Wallet(ethers.hexlify(randomBytes(32)), hre.ethers.provider);
+    const input = await hre.fhevm
+      .createEncryptedInput(address, providerAddress)
+      .add32(randomInt(1, 2 ** 31))
+      .encrypt();
+    const enrolled = await (
+      await contract
+        .connect(provider)
+        .enrollVehicle(input.handles[0], input.inputProof, model, SPAWN_ECU, SPAWN_REGION, firmware)
+    ).wait();
+    const vehicleIndex = Number(eventsOf(enrolled, address, "VehicleEnrolled")[0].args.vehicleIndex);
+    await (await contract.connect(provider).setVehicleAgent(vehicleIndex, wallet.address)).wait();
+    await (await provider.sendTransaction({ to: wallet.address, value: AGENT_FUNDING })).wait();
+    spawned.push({ wallet, vehicleIndices: [vehicleIndex] });
+  }
+  console.log(`Enrolled ${count} ${model} vehicles on ${firmware} with fresh agent keys`);
+  return spawned;
+}
+
+/**
+ * Stores a random payload encrypted under a fresh key, and a delta to it when
+ * `imagesDir` is given, wraps the key on chain, signs the manifest and sends it
+ * to `vehicleIndices` as a single-wave campaign, then verifies every entry so
+ * the agents can start. A rollback campaign pins the vehicles to the older
+ * version instead.
+ */
+async function submitCampaign(
+  hre: HardhatRuntimeEnvironment,
+  contract: OtaUpdateFHE,
+  provider: ethers.Signer,
+  domain: ethers.TypedDataDomain,
+  vehicleIndices: number[],
+  model: string,
+  payloads: PayloadStore,
+  payloadSize: number,
+  chunkSize: number,
+  imagesDir: string | undefined,
+  rollback: boolean,
+): Promise<SignedManifest> {
+  const { installed, target } = submitVersions(rollback);
+  const address = await contract.getAddress();
+  const providerAddress = await provider.getAddress();
+  const payload = randomBytes(payloadSize);
+  const payloadDigest = ethers.sha256(payload);
+  const key = generatePayloadKey();
+  await payloads.put(payloadDigest, await encryptPayload(payload, key, payloadDigest, chunkSize));
+
+  // With an images directory the vehicles run a base image the payload is a small edit of, and get a delta from it
+  const deltas: ManifestDelta[] = [];
+  if (imagesDir) {
+    const base = Buffer.from(payload);
+    for (let i = 0; i < Math.ceil(payloadSize / DELTA_EDIT_EVERY); i++) base[randomInt(payloadSize)] ^= 0xff;
+    const baseDigest = ethers.sha256(base);
+    fs.mkdirSync(imagesDir, { recursive: true });
+    fs.writeFileSync(path.join(imagesDir, payloadObjectKey(baseDigest)), base);
+    const patch = await createDelta(base, payload);
+    const digest = ethers.sha256(patch);
+    await payloads.put(digest, await encryptPayload(patch, key, digest, chunkSize));
+    deltas.push({ baseVersion: installed, baseDigest, digest, size: patch.length });
+    console.log(`Delta ${digest} from the ${installed} image in ${imagesDir}: ${patch.length} bytes`);
+  }
+  // Before dispatch: agents are granted the key when their entry is recorded
+  const keyInput = await hre.fhevm.createEncryptedInput(address, providerAddress).add256(payloadKeyToUint256(key)).encrypt();
+  await (await contract.connect(provider).setPayloadKey(payloadDigest, keyInput.handles[0], keyInput.inputProof)).wait();
+
+  const manifest: FirmwareManifest = {
+    packageId: randomInt(1, 2 ** 31),
+    version: target,
+    targetModels: [model],
+    targetEcus: [SPAWN_ECU],
+    dependencies: [],
+    minPriorVersion: installed,
+    maxPriorVersion: installed,
+    payloadDigest,
+    payloadSize,
+    chunkSize,
+    chunkRoot: chunkRoot(payload, chunkSize),
+    deltas,
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+  const signed = await signManifest(provider, manifest, domain);
+  const manifestHash = hashManifest(manifest, domain);
+  const input = await hre.fhevm.createEncryptedInput(address, providerAddress).add32(manifest.packageId).encrypt();
+  // One wave that never halts: the load test wants every vehicle to report
+  const plan = {
+    model,
+    region: "",
+    firmwareVersion: rollback ? installed : "",
+    targetCount: vehicleIndices.length,
+    waves: [BPS],
+    failureThresholdBps: BPS,
+    rollbackVersion: rollback ? target : "",
+  };
+  const created = await (
+    await contract.connect(provider).createCampaign(input.handles[0], input.inputProof, manifestHash, payloadDigest, plan)
+  ).wait();
+  const campaignId = eventsOf(created, address, "CampaignCreated")[0].args.campaignId;
+
+  for (let i = 0; i < vehicleIndices.length; i += DISPATCH_CHUNK) {
+    await waitForCooldown(hre, contract, providerAddress);
+    const dispatched = await (
+      await contract.connect(provider).dispatchCampaign(campaignId, vehicleIndices.slice(i, i + DISPATCH_CHUNK))
+    ).wait();
+    for (const event of eventsOf(dispatched, address, "CampaignDispatched")) {
+      await (
+        await contract.connect(provider).verifyPayloadIntegrity(event.args.batchId, event.args.entryIndex, payloadDigest)
+      ).wait();
+    }
+  }
+  console.log(
+    `${rollback ? "Rollback campaign" : "Campaign"} #${campaignId} sent package ${manifest.packageId} (${installed} → ${target}) to ${vehicleIndices.length} vehicles`,
+  );
+  console.log(
+    `Payload ${payloadDigest} (${payloadSize} bytes in ${Math.ceil(payloadSize / chunkSize)} chunks) stored encrypted in ${payloads.location}`,
+  );
+  return signed;
+}
+
+/**
+ * Runs one simulated agent per vehicle against a deployed OtaUpdateFHE. A
+ * single poller reads UpdateSubmitted and UpdateStatusChanged and hands
+ * every verified update to the agent of its vehicle; each vehicle installs
+ * one update at a time and all vehicles work concurrently.
+ */
+export async function runFleet(hre: HardhatRuntimeEnvironment, options: FleetOptions) {
+  await hre.fhevm.initializeCLIApi();
+  const network = hre.network.name;
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const record = readDeployments(network, chainId).contracts.OtaUpdateFHE;
+  const address = options.contract || record?.address;
+  if (!address) throw new Error(`No OtaUpdateFHE deployment recorded for ${network}; run ota:deploy or pass --contract`);
+  const contract = OtaUpdateFHE__factory.connect(address, hre.ethers.provider);
+  const domain = manifestDomain(chainId, address);
+  const log = options.quiet ? () => undefined : (message: string) => console.log(message);
+
+  const keys = options.keys.length ? await findAgentVehicles(hre, contract, options.keys) : [];
+  let manifests: ManifestSource | undefined = options.indexer ? indexerManifestSource(options.indexer) : undefined;
+  let payloads: PayloadStore | undefined = options.payloadUrl
+    ? s3PayloadStore(options.payloadUrl)
+    : options.payloadDir
+      ? fsPayloadStore(options.payloadDir)
+      : undefined;
+  let imagesDir = options.imagesDir;
+  if (options.spawn > 0) {
+    const [provider] = await hre.ethers.getSigners();
+    if (!(await contract.isProvider(provider.address))) throw new Error(`${provider.address} is not a provider`);
+    const model = `LOADTEST-${Date.now().toString(36).toUpperCase()}`;
+    const firmware = submitVersions(options.submit && options.rollback).installed;
+    const spawned = await spawnVehicles(hre, contract, provider, options.spawn, model, firmware);
+    keys.push(...spawned);
+    if (options.submit) {
+      payloads ??= fsPayloadStore(fs.mkdtempSync(path.join(os.tmpdir(), "ota-payloads-")));
+      if (options.delta) imagesDir ||= fs.mkdtempSync(path.join(os.tmpdir(), "ota-images-"));
+      const vehicleIndices = spawned.flatMap((k) => k.vehicleIndices);
+      const signed = await submitCampaign(
+        hre,
+        contract,
+        provider,
+        domain,
+        vehicleIndices,
+        model,
+        payloads,
+        options.payloadSize,
+        options.chunkSize,
+        imagesDir,
+        options.rollback,
+      );
+      manifests = memoryManifestSource(new Map([[hashManifest(signed.manifest, domain).toLowerCase(), signed]]));
+    }
+  } else if (options.submit) {
+    throw new Error("--submit sends its campaign to spawned vehicles; pass --spawn as well");
+  }
+  if (options.delta && !options.submit) throw new Error("--delta applies to the campaign of --submit");
+  if (options.rollback && !options.submit) throw new Error("--rollback applies to the campaign of --submit");
+  const images = imagesDir ? directoryImageSource(imagesDir) : undefined;
+  const chunkCache = (vehicleIndex: number): ChunkCache =>
+    options.downloadsDir ? directoryChunkCache(path.join(options.downloadsDir, `vehicle-${vehicleIndex}`)) : memoryChunkCache();
+  if (!manifests) console.warn("No manifest source (--indexer): manifests are not checked");
+  if (!payloads) console.warn("No payload store (--payload-dir or --payload-url): payloads are not downloaded");
+
+  const agents: VehicleAgent[] = [];
+  for (const { wallet, vehicleIndices } of keys) {
+    const sender = new ethers.NonceManager(wallet);
+    for (const vehicleIndex of vehicleIndices) {
+      agents.push(
+        await createVehicleAgent({
+          contract,
+          fhevm: hre.fhevm,
+          wallet,
+          sender,
+          vehicleIndex,
+          manifestDomain: domain,
+          manifests,
+          payloads,
+          images,
+          chunks: chunkCache(vehicleIndex),
+          failureRates: {
+            download: options.downloadFailureRate,
+            install: options.installFailureRate,
+            interrupt: options.interruptRate,
+            health: options.healthFailureRate,
+          },
+          delays: { downloadMs: options.downloadMs, installMs: options.installMs, verifyMs: options.verifyMs },
+          log,
+        }),
+      );
+    }
+  }
+  if (agents.length === 0) throw new Error("No vehicle agents: pass --keys of registry agents or --spawn");
+  console.log(`Running ${agents.length} vehicle agents against ${address} on ${network}`);
+
+  const tracked = new Map<string, TrackedEntry>();
+  // Vehicles with an update in progress
+  const busy = new Set<number>();
+  const running = new Set<Promise<void>>();
+  const outcomes: AgentOutcome[] = [];
+  let errors = 0;
+  const deployBlock = record && record.address.toLowerCase() === address.toLowerCase() ? record.blockNumber : 0;
+  let fromBlock = options.fromBlock >= 0 ? options.fromBlock : deployBlock;
+
+  const poll = async () => {
+    const latest = await hre.ethers.provider.getBlockNumber();
+    if (latest < fromBlock) return;
+    for (const event of await contract.queryFilter(contract.filters.UpdateSubmitted(), fromBlock, latest)) {
+      const entry: AgentEntry = {
+        batchId: Number(event.args.batchId),
+        entryIndex: Number(event.args.entryIndex),
+        vehicleIdEncrypted: toHandle(event.args.vehicleIdEncrypted),
+        updatePackageIdEncrypted: toHandle(event.args.updatePackageIdEncrypted),
+        manifestHash: event.args.manifestHash,
+        payloadDigest: event.args.payloadDigest,
+      };
+      const agent = agents.find((a) => a.accepts(entry));
+      if (agent) tracked.set(entryKey(entry.batchId, entry.entryIndex), { entry, agent, status: "none", handled: false });
+    }
+    for (const event of await contract.queryFilter(contract.filters.UpdateStatusChanged(), fromBlock, latest)) {
+      const entry = tracked.get(entryKey(Number(event.args.batchId), Number(event.args.entryIndex)));
+      if (entry) entry.status = toUpdateStatus(event.args.to);
+    }
+    fromBlock = latest + 1;
+  };
+
+  const dispatch = () => {
+    for (const [key, tracking] of tracked) {
+      const { entry, agent, status } = tracking;
+      if (tracking.handled || !AGENT_STATUSES.includes(status) || busy.has(agent.vehicleIndex)) {
+        continue;
+      }
+      tracking.handled = true;
+      busy.add(agent.vehicleIndex);
+      const work: Promise<void> = agent
+        .process(entry, status)
+        .then(
+          (outcome) => {
+            outcomes.push(outcome);
+          },
+          (e) => {
+            errors++;
+            console.error(`Entry ${key} of vehicle #${agent.vehicleIndex}: ${errorMessage(e)}`);
+          },
+        )
+        .finally(() => {
+          busy.delete(agent.vehicleIndex);
+          running.delete(work);
+        });
+      running.add(work);
+    }
+  };
+
+  const startedAt = Date.now();
+  const deadline = options.duration > 0 ? startedAt + options.duration * 1000 : Infinity;
+  let interrupted = false;
+  // A second Ctrl+C exits without waiting for the updates in progress
+  process.once("SIGINT", () => {
+    interrupted = true;
+  });
+  while (!interrupted && Date.now() < deadline) {
+    await poll();
+    dispatch();
+    const entries = Array.from(tracked.values());
+    if (
+      options.untilIdle &&
+      running.size === 0 &&
+      entries.length > 0 &&
+      entries.every((t) => t.handled || isTerminal(t.status))
+    ) {
+      break;
+    }
+    await sleep(options.pollMs);
+  }
+  if (running.size) console.log(`Waiting for ${running.size} updates in progress...`);
+  await Promise.all(running);
+
+  const seconds = (Date.now() - startedAt) / 1000;
+  const failed = outcomes.filter((o) => o.status === "failed");
+  const rolledBack = outcomes.filter((o) => o.status === "rolledBack");
+  const reasons = new Map<string, number>();
+  for (const { reason } of [...failed, ...rolledBack]) reasons.set(reason, (reasons.get(reason) ?? 0) + 1);
+  const waiting = Array.from(tracked.values()).filter((t) => t.status === "pending").length;
+
+  console.log(`\n${agents.length} agents handled ${outcomes.length} updates in ${seconds.toFixed(1)}s`);
+  const completed = outcomes.length - failed.length - rolledBack.length;
+  console.log(`  completed ${completed}, failed ${failed.length}, rolled back ${rolledBack.length}, errors ${errors}`);
+  for (const [reason, count] of reasons) console.log(`    ${count} × ${reason}`);
+  if (waiting) console.log(`  ${waiting} updates still pending payload verification by a provider`);
+  const versions = new Map<string, number>();
+  for (const agent of agents) {
+    const version = agent.slots.version() ?? "unknown";
+    versions.set(version, (versions.get(version) ?? 0) + 1);
+  }
+  console.log(`  vehicles now run ${Array.from(versions, ([version, count]) => `${version} × ${count}`).join(", ")}`);
+  if (outcomes.length) {
+    const transactions = outcomes.reduce((sum, o) => sum + o.transactions, 0);
+    const averageMs = outcomes.reduce((sum, o) => sum + o.elapsedMs, 0) / outcomes.length;
+    console.log(`  ${((outcomes.length / seconds) * 60).toFixed(1)} updates/min, ${transactions} agent transactions`);
+    console.log(`  ${Math.round(averageMs)}ms on average from pick-up to the final report`);
+    const downloaded = outcomes.reduce((sum, o) => sum + o.downloadedBytes, 0);
+    const imageBytes = outcomes.reduce((sum, o) => sum + o.payloadBytes, 0);
+    if (imageBytes) {
+      const saved = ((1 - downloaded / imageBytes) * 100).toFixed(1);
+      console.log(`  ${downloaded} bytes downloaded for ${imageBytes} bytes of images (${saved}% saved by deltas)`);
+    }
+    const resumes = outcomes.reduce((sum, o) => sum + o.resumes, 0);
+    if (resumes) console.log(`  ${resumes} interrupted chunk transfers resumed`);
+  }
+}
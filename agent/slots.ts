@@ -0,0 +1,46 @@
+// agent/slots.ts
+
+export type SlotName = "A" | "B";
+
+// A/B partitions of a simulated ECU: updates are flashed to the slot not running, so the previous image stays bootable
+export interface BootSlots {
+  // Slot the ECU runs from, and the firmware version in each slot (null while empty)
+  active: () => SlotName;
+  version: (slot?: SlotName) => string | null;
+  // Whether the active slot was booted on trial and still awaits its health checks
+  onTrial: () => boolean;
+  // Writes an image to the inactive slot and boots from it on trial
+  flashAndBoot: (version: string) => SlotName;
+  // Health checks passed: the trial slot becomes the one to boot from
+  commit: () => void;
+  // Health checks failed: the watchdog switches back to the previous slot and resolves to it
+  revert: () => SlotName;
+}
+
+const other = (slot: SlotName): SlotName => (slot === "A" ? "B" : "A");
+
+// Starts running `installed` from slot A with slot B empty
+export function createBootSlots(installed: string): BootSlots {
+  const versions: Record<SlotName, string | null> = { A: installed, B: null };
+  let active: SlotName = "A";
+  let trial = false;
+  return {
+    active: () => active,
+    version: (slot = active) => versions[slot],
+    onTrial: () => trial,
+    flashAndBoot(version) {
+      active = other(active);
+      versions[active] = version;
+      trial = true;
+      return active;
+    },
+    commit() {
+      trial = false;
+    },
+    revert() {
+      if (trial) active = other(active);
+      trial = false;
+      return active;
+    },
+  };
+}
@@ -0,0 +1,38 @@
+// agent/sources.ts
+import fs from "fs";
+import path from "path";
+import { SignedManifest, parseSignedManifest } from "../manifest";
+import { payloadObjectKey } from "../payload";
+
+// Looks up the signed manifest whose EIP-712 hash a submission committed to
+export type ManifestSource = (manifestHash: string) => Promise<SignedManifest | null>;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+// Firmware images installed on the simulated vehicles, by SHA-256 digest; deltas are applied to them
+export type ImageSource = (digest: string) => Promise<Uint8Array | null>;
+
+// Plain images named like payload store blobs
+export function directoryImageSource(dir: string): ImageSource {
+  return async (digest) => {
+    const file = path.join(dir, payloadObjectKey(digest));
+    return fs.existsSync(file) ? new Uint8Array(await fs.promises.readFile(file)) : null;
+  };
+}
+
+// Manifests published to the indexer with POST /manifests
+export function indexerManifestSource(indexerUrl: string): ManifestSource {
+  return async (manifestHash) => {
+    const response = await fetch(`${trimSlash(indexerUrl)}/manifests/${manifestHash}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Manifest lookup failed with HTTP ${response.status}`);
+    const parsed = parseSignedManifest(((await response.json()) as { document: unknown }).document);
+    if (!parsed.ok) throw new Error(`The indexer returned an invalid manifest: ${parsed.errors.join("; ")}`);
+    return parsed.value;
+  };
+}
+
+// Keyed by lowercase manifest hash
+export function memoryManifestSource(manifests: Map<string, SignedManifest>): ManifestSource {
+  return async (manifestHash) => manifests.get(manifestHash.toLowerCase()) ?? null;
+}
@@ -0,0 +1,437 @@
+// agent/vehicleAgent.ts
+import { FhevmType, HardhatFhevmRuntimeEnvironment } from "@fhevm/hardhat-plugin";
+import { ethers } from "ethers";
+import { UpdateStatus } from "../lifecycle";
+import { DeltaError, applyDelta } from "../delta";
+import {
+  FirmwareManifest,
+  ManifestError,
+  compareSemver,
+  deltaFor,
+  isSemver,
+  targetMismatches,
+  verifySignedManifest,
+} from "../manifest";
+import { OtaUpdateFHE } from "../types";
+import {
+  EnvelopeHeader,
+  PayloadError,
+  PayloadStore,
+  chunkLeafHash,
+  merkleRoot,
+  readChunk,
+  readEnvelopeHeader,
+  uint256ToPayloadKey,
+} from "../payload";
+import { ChunkCache, memoryChunkCache } from "./chunkCache";
+import { BootSlots, createBootSlots } from "./slots";
+import { ImageSource, ManifestSource } from "./sources";
+
+export interface FailureRates {
+  // Probability, from 0 to 1, that the simulated step fails
+  download: number;
+  install: number;
+  // Probability that a chunk transfer drops; the download resumes at that chunk
+  interrupt: number;
+  // Probability that the health checks after booting the new slot fail; the watchdog reverts to the previous slot
+  health: number;
+}
+
+export interface StepDelays {
+  downloadMs: number;
+  installMs: number;
+  // Time the watchdog gives a freshly booted slot to pass its health checks
+  verifyMs: number;
+}
+
+// A batch entry as announced by UpdateSubmitted; handles are bytes32 hex
+export interface AgentEntry {
+  batchId: number;
+  entryIndex: number;
+  vehicleIdEncrypted: string;
+  updatePackageIdEncrypted: string;
+  manifestHash: string;
+  payloadDigest: string;
+}
+
+export interface AgentOutcome {
+  status: "completed" | "failed" | "rolledBack";
+  // Failure or rollback reason as reported on chain
+  reason: string;
+  elapsedMs: number;
+  transactions: number;
+  // Size of the delta or full image fetched from the payload store, and of the image installed
+  downloadedBytes: number;
+  payloadBytes: number;
+  // Chunk transfers that were interrupted and retried
+  resumes: number;
+}
+
+type Rejected = { ok: false; reason: string };
+type DownloadResult = { ok: true; downloadedBytes: number; payloadBytes: number } | Rejected;
+type OpenedBlob = { ok: true; content: Uint8Array } | Rejected;
+
+// Chunking the manifest commits the full payload to
+type ChunkLayout = Pick<FirmwareManifest, "chunkSize" | "payloadSize" | "chunkRoot">;
+
+// One entry's download, across the blobs it fetches
+interface DownloadProgress {
+  label: string;
+  resumes: number;
+  onChunk: (done: number, total: number) => Promise<void>;
+}
+
+export interface VehicleAgentOptions {
+  contract: OtaUpdateFHE;
+  fhevm: HardhatFhevmRuntimeEnvironment;
+  // The vehicle keypair: signs the user decryptions and, through `sender`, the status reports
+  wallet: ethers.Wallet;
+  // Shared by every vehicle the wallet is agent of, so concurrent reports do not reuse nonces
+  sender: ethers.Signer;
+  vehicleIndex: number;
+  manifestDomain: ethers.TypedDataDomain;
+  manifests?: ManifestSource;
+  // Encrypted payloads, opened with the key OtaUpdateFHE shares with the vehicle agent
+  payloads?: PayloadStore;
+  // The vehicle's installed image is looked up here to apply a delta the manifest lists for its version
+  images?: ImageSource;
+  // Verified chunks of unfinished downloads; kept in memory when not given
+  chunks?: ChunkCache;
+  failureRates: FailureRates;
+  delays: StepDelays;
+  random?: () => number;
+  log: (message: string) => void;
+}
+
+export interface VehicleAgent {
+  vehicleIndex: number;
+  address: string;
+  // Whether the entry is addressed to this vehicle's encrypted id
+  accepts: (entry: AgentEntry) => boolean;
+  // Takes a downloading, installing or verifying entry to completed, failed or rolled back
+  process: (entry: AgentEntry, status: UpdateStatus) => Promise<AgentOutcome>;
+  // The A/B slots of the ECU, starting with the registry firmware in slot A
+  slots: BootSlots;
+}
+
+export const toHandle = (value: bigint) => ethers.toBeHex(value, 32);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Tries per chunk before the download is reported failed
+const MAX_CHUNK_ATTEMPTS = 5;
+// Download progress is reported on chain each time it passes another multiple of this many percent
+const PROGRESS_STEP = 25;
+
+// The fhevm mock replays coprocessor events for every user decryption and
+// fails requests that overlap, so the agents of a fleet take turns
+let decryptions: Promise<unknown> = Promise.resolve();
+const oneAtATime = <T>(decrypt: () => Promise<T>): Promise<T> => {
+  const result = decryptions.then(decrypt);
+  decryptions = result.catch(() => undefined);
+  return result;
+};
+
+/**
+ * Creates the simulated ECU of one registry vehicle. It only acts on entries
+ * whose vehicle id handle is the one stored in the registry, and rejects any
+ * update whose package, manifest or payload do not line up before installing.
+ * Updates are flashed to the inactive A/B slot and only kept once the booted
+ * image passes its health checks.
+ */
+export async function createVehicleAgent(options: VehicleAgentOptions): Promise<VehicleAgent> {
+  const { contract, fhevm, wallet, sender, vehicleIndex, failureRates, delays, log } = options;
+  const random = options.random ?? Math.random;
+  const chunks = options.chunks ?? memoryChunkCache();
+  const contractAddress = await contract.getAddress();
+  const vehicle = await contract.vehicles(vehicleIndex);
+  if (vehicle.agent.toLowerCase() !== wallet.address.toLowerCase()) {
+    throw new Error(`${wallet.address} is not the agent of vehicle #${vehicleIndex}`);
+  }
+  const vehicleIdEncrypted = toHandle(vehicle.vehicleIdEncrypted);
+  const writer = contract.connect(sender);
+  const slots = createBootSlots(vehicle.firmwareVersion);
+
+  const decryptPackageId = async (entry: AgentEntry) => {
+    try {
+      // A fresh decryption keypair per request; the wallet signature binds it to this agent
+      return Number(
+        await oneAtATime(() =>
+          fhevm.userDecryptEuint(FhevmType.euint32, entry.updatePackageIdEncrypted, contractAddress, wallet),
+        ),
+      );
+    } catch (e) {
+      return null;
+    }
+  };
+
+  const decryptPayloadKey = async (keyEncrypted: bigint) => {
+    try {
+      return uint256ToPayloadKey(
+        await oneAtATime(() => fhevm.userDecryptEuint(FhevmType.euint256, toHandle(keyEncrypted), contractAddress, wallet)),
+      );
+    } catch (e) {
+      return null;
+    }
+  };
+
+  // Fetches a blob chunk by chunk and keeps every verified chunk, so a dropped transfer resumes where it stopped.
+  // Resolves to null when the store does not have the blob. The header is not authenticated, so the size it
+  // declares is held to `maxSize` from the signed manifest before the blob's buffer is allocated.
+  const fetchBlob = async (
+    store: PayloadStore,
+    digest: string,
+    key: Uint8Array,
+    what: "payload" | "delta",
+    layout: ChunkLayout | null,
+    maxSize: number | undefined,
+    progress: DownloadProgress,
+  ): Promise<OpenedBlob | null> => {
+    const rejected = (why: string): Rejected => ({ ok: false, reason: what === "delta" ? `delta rejected: ${why}` : why });
+    let header: EnvelopeHeader | null;
+    try {
+      header = await readEnvelopeHeader(store, digest, maxSize);
+    } catch (e) {
+      if (e instanceof PayloadError) return rejected(e.message);
+      throw e;
+    }
+    if (!header) return null;
+    // The chunk hashes travel with the blob; the signed manifest's root vouches for them
+    if (
+      layout &&
+      (header.chunkSize !== layout.chunkSize ||
+        header.payloadSize !== layout.payloadSize ||
+        merkleRoot(header.leaves) !== layout.chunkRoot.toLowerCase())
+    ) {
+      return rejected("chunk hashes do not match the manifest chunk root");
+    }
+
+    const content = new Uint8Array(header.payloadSize);
+    for (let i = 0; i < header.chunkCount; i++) {
+      let chunk = await chunks.get(digest, i);
+      if (chunk && chunkLeafHash(chunk) !== header.leaves[i]) chunk = null;
+      for (let attempt = 1; !chunk; attempt++) {
+        try {
+          await sleep(delays.downloadMs / header.chunkCount);
+          if (random() < failureRates.interrupt) throw new Error("connection dropped (injected)");
+          chunk = await readChunk(store, digest, header, key, i);
+          await chunks.put(digest, i, chunk);
+        } catch (e) {
+          const why = e instanceof Error ? e.message : String(e);
+          if (attempt === MAX_CHUNK_ATTEMPTS) return rejected(`download failed at chunk ${i + 1} of ${header.chunkCount}: ${why}`);
+          progress.resumes++;
+          log(`${progress.label}: ${what} download interrupted at chunk ${i + 1} of ${header.chunkCount} (${why}); resuming`);
+        }
+      }
+      content.set(chunk, i * header.chunkSize);
+      await progress.onChunk(i + 1, header.chunkCount);
+    }
+    // Also checks the plaintext against the digest the blob is addressed by
+    if (ethers.sha256(content) !== digest.toLowerCase()) return rejected(`${what} digest mismatch`);
+    await chunks.clear(digest);
+    return { ok: true, content };
+  };
+
+  // Version a rollback campaign pins the entry's vehicles to; empty for entries outside rollback campaigns
+  const rollbackVersion = async (entry: AgentEntry) => {
+    const { campaignId } = await contract.campaignBatches(entry.batchId);
+    return campaignId === 0n ? "" : (await contract.campaigns(campaignId)).rollbackVersion;
+  };
+
+  // Version of the entry's manifest once its signature checks out against the submitted hash; empty when no
+  // manifest source is configured or the manifest does not verify
+  const manifestVersion = async (entry: AgentEntry) => {
+    const signed = options.manifests && (await options.manifests(entry.manifestHash));
+    if (!signed) return "";
+    try {
+      const hash = verifySignedManifest(signed, options.manifestDomain);
+      return hash.toLowerCase() === entry.manifestHash.toLowerCase() ? signed.manifest.version : "";
+    } catch (e) {
+      if (e instanceof ManifestError) return "";
+      throw e;
+    }
+  };
+
+  // Resolves to the reason the update must not be installed, or the transfer once the payload checks out
+  const download = async (entry: AgentEntry, progress: DownloadProgress): Promise<DownloadResult> => {
+    const rejected = (why: string): DownloadResult => ({ ok: false, reason: why });
+    const packageId = await decryptPackageId(entry);
+    if (packageId === null) return rejected("package id not shared with the vehicle agent");
+
+    let manifest: FirmwareManifest | null = null;
+    if (options.manifests) {
+      const signed = await options.manifests(entry.manifestHash);
+      if (!signed) return rejected("manifest not found");
+      try {
+        if (verifySignedManifest(signed, options.manifestDomain).toLowerCase() !== entry.manifestHash.toLowerCase()) {
+          return rejected("manifest does not match the submitted hash");
+        }
+      } catch (e) {
+        if (e instanceof ManifestError) return rejected(`manifest rejected: ${e.errors.join("; ")}`);
+        throw e;
+      }
+      if (!(await contract.isProvider(signed.signer))) return rejected(`manifest signer ${signed.signer} is not a provider`);
+      manifest = signed.manifest;
+      if (manifest.packageId !== packageId) {
+        return rejected(`package ${packageId} does not match manifest package ${manifest.packageId}`);
+      }
+      if (manifest.payloadDigest.toLowerCase() !== entry.payloadDigest.toLowerCase()) {
+        return rejected("manifest payload digest does not match the submission");
+      }
+      // Checked against the slot the ECU runs, which moves on from the registry version with every update
+      const installed = slots.version() ?? "";
+      const target = { model: vehicle.model, ecuType: vehicle.ecuType, firmwareVersion: installed };
+      const mismatches = targetMismatches(manifest, target);
+      if (mismatches.length) return rejected(mismatches.join("; "));
+      // Anti-rollback: an older image is only installed when a rollback campaign pins the vehicle to it
+      const pinned = await rollbackVersion(entry);
+      if (pinned && manifest.version !== pinned) {
+        return rejected(`rollback campaign is pinned to ${pinned}, the manifest is for ${manifest.version}`);
+      }
+      if (!pinned && isSemver(installed) && compareSemver(manifest.version, installed) < 0) {
+        return rejected(`${manifest.version} is older than the installed ${installed} and not a rollback campaign`);
+      }
+    }
+
+    let transfer: DownloadResult = { ok: true, downloadedBytes: 0, payloadBytes: 0 };
+
+    if (options.payloads) {
+      const { keyEncrypted } = await contract.payloadKeys(entry.payloadDigest);
+      if (keyEncrypted === 0n) return rejected("payload key not stored");
+      const key = await decryptPayloadKey(keyEncrypted);
+      if (!key) return rejected("payload key not shared with the vehicle agent");
+
+      // A delta for the installed version is used when the installed image is the one it was made from and the
+      // store has the delta; otherwise the full image is downloaded
+      const delta = manifest ? deltaFor(manifest, slots.version() ?? "") : undefined;
+      const base = delta && options.images ? await options.images(delta.baseDigest) : null;
+      let payload: Uint8Array | null = null;
+      let downloadedBytes = 0;
+      if (delta && base && ethers.sha256(base) === delta.baseDigest) {
+        const patch = await fetchBlob(options.payloads, delta.digest, key, "delta", null, delta.size, progress);
+        if (patch && !patch.ok) return patch;
+        if (patch) {
+          try {
+            payload = await applyDelta(base, patch.content, manifest?.payloadSize);
+          } catch (e) {
+            if (e instanceof DeltaError) return rejected(`delta rejected: ${e.message}`);
+            throw e;
+          }
+          if (ethers.sha256(payload) !== entry.payloadDigest.toLowerCase()) return rejected("patched image digest mismatch");
+          downloadedBytes = patch.content.length;
+        }
+      }
+      if (!payload) {
+        const full = await fetchBlob(
+          options.payloads,
+          entry.payloadDigest,
+          key,
+          "payload",
+          manifest,
+          manifest?.payloadSize,
+          progress,
+        );
+        if (!full) return rejected("payload not found");
+        if (!full.ok) return full;
+        payload = full.content;
+        downloadedBytes = payload.length;
+      }
+      if (manifest && payload.length !== manifest.payloadSize) {
+        return rejected(`payload is ${payload.length} bytes, manifest says ${manifest.payloadSize}`);
+      }
+      transfer = { ok: true, downloadedBytes, payloadBytes: payload.length };
+    } else {
+      await sleep(delays.downloadMs);
+    }
+
+    return random() < failureRates.download ? rejected("download failed (injected)") : transfer;
+  };
+
+  const processEntry = async (entry: AgentEntry, status: UpdateStatus): Promise<AgentOutcome> => {
+    const startedAt = Date.now();
+    const label = `vehicle #${vehicleIndex} batch #${entry.batchId} entry #${entry.entryIndex}`;
+    let transactions = 0;
+    const send = async (tx: Promise<ethers.ContractTransactionResponse>) => {
+      await (await tx).wait();
+      transactions++;
+    };
+    let downloadedBytes = 0;
+    let payloadBytes = 0;
+    let reported = 0;
+    const progress: DownloadProgress = {
+      label,
+      resumes: 0,
+      onChunk: async (done, total) => {
+        const percent = Math.floor((done * 100) / total);
+        // A finished download is reported as installing instead
+        if (percent < 100 && Math.floor(percent / PROGRESS_STEP) > Math.floor(reported / PROGRESS_STEP)) {
+          await send(writer.reportDownloadProgress(entry.batchId, entry.entryIndex, percent));
+        }
+        reported = percent;
+      },
+    };
+    const outcome = (result: AgentOutcome["status"], reason: string): AgentOutcome => ({
+      status: result,
+      reason,
+      elapsedMs: Date.now() - startedAt,
+      transactions,
+      downloadedBytes,
+      payloadBytes,
+      resumes: progress.resumes,
+    });
+    const fail = async (reason: string): Promise<AgentOutcome> => {
+      await send(writer.reportFailed(entry.batchId, entry.entryIndex, reason));
+      log(`${label}: failed (${reason})`);
+      return outcome("failed", reason);
+    };
+
+    if (status === "downloading") {
+      const transfer = await download(entry, progress);
+      if (!transfer.ok) return fail(transfer.reason);
+      ({ downloadedBytes, payloadBytes } = transfer);
+      await send(writer.reportInstalling(entry.batchId, entry.entryIndex));
+      log(`${label}: installing (${downloadedBytes} of ${payloadBytes} bytes downloaded)`);
+    } else if (status !== "installing" && status !== "verifying") {
+      throw new Error(`${label} is ${status}; only downloading, installing and verifying updates are processed`);
+    }
+
+    const verified = await manifestVersion(entry);
+    const version = verified || "unknown";
+    if (status !== "verifying") {
+      // An agent restarted mid-install picks the entry up here; a failed flash leaves the running slot untouched
+      await sleep(delays.installMs);
+      if (random() < failureRates.install) return fail("install failed (injected)");
+      const slot = slots.flashAndBoot(version);
+      await send(writer.reportBooted(entry.batchId, entry.entryIndex));
+      log(`${label}: booted ${version} from slot ${slot}, running health checks`);
+    } else if (!slots.onTrial()) {
+      // A restarted agent no longer knows its slots; the bootloader is still on the trial slot it booted
+      slots.flashAndBoot(version);
+    }
+
+    // The watchdog gives the trial slot verifyMs to pass its health checks before switching back
+    await sleep(delays.verifyMs);
+    if (random() < failureRates.health) {
+      const reason = "health checks failed (injected)";
+      const trialSlot = slots.active();
+      const slot = slots.revert();
+      await send(writer.reportRolledBack(entry.batchId, entry.entryIndex, reason));
+      log(`${label}: rolled back from slot ${trialSlot} to slot ${slot} (${slots.version() ?? "empty"}): ${reason}`);
+      return outcome("rolledBack", reason);
+    }
+    slots.commit();
+    // Vehicles enrolled without a public firmware label keep their version private, and a version no verified
+    // manifest vouches for leaves the label as it is
+    await send(writer.reportCompleted(entry.batchId, entry.entryIndex, vehicle.firmwareVersion ? verified : ""));
+    log(`${label}: completed, running ${version} from slot ${slots.active()}`);
+    return outcome("completed", "");
+  };
+
+  return {
+    vehicleIndex,
+    address: wallet.address,
+    accepts: (entry) => entry.vehicleIdEncrypted.toLowerCase() === vehicleIdEncrypted.toLowerCase(),
+    process: processEntry,
+    slots,
+  };
+}
@@ -1,6 +1,7 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint256, ebool, externalEuint32, externalEuint256 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract OtaUpdateFHE is SepoliaConfig {
@@ -14,19 +15,187 @@ contract OtaUpdateFHE is SepoliaConfig {
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
+    // Legal moves are checked in each transition function; lifecycle/index.ts documents the same table for clients
+    enum UpdateStatus {
+        None,
+        Pending,
+        Downloading,
+        Installing,
+        Completed,
+        Failed,
+        // Flashed to the inactive A/B slot and booted from it; health checks decide whether the vehicle keeps it
+        Verifying,
+        // Health checks failed after the boot and the watchdog switched back to the previous slot
+        RolledBack
+    }
+
     struct Batch {
         uint256 id;
         bool isOpen;
-        uint256 updatePackageIdEncrypted;
-        uint256 vehicleIdEncrypted;
+        // Submissions are appended as entries 0..entryCount-1 and never overwritten
+        uint256 entryCount;
         uint256 timestamp;
     }
     mapping(uint256 => Batch) public batches;
     uint256 public currentBatchId;
     uint256 public totalBatches;
 
+    // One encrypted (package, vehicle) update; each entry runs through the status machine on its own
+    struct BatchEntry {
+        address provider;
+        uint256 updatePackageIdEncrypted;
+        uint256 vehicleIdEncrypted;
+        // Registry vehicle the update targets, 0 for a raw encrypted vehicle id; its agent reports install progress
+        uint256 vehicleIndex;
+        // EIP-712 digest of the provider-signed firmware manifest for the submitted package
+        bytes32 manifestHash;
+        // SHA-256 of the firmware payload, copied from the manifest so the contract can compare against it
+        bytes32 payloadDigest;
+        UpdateStatus status;
+        // Percent of the payload chunks the vehicle agent has downloaded and verified, as last reported while downloading
+        uint8 downloadProgress;
+        uint256 statusUpdatedAt;
+        uint256 timestamp;
+    }
+    mapping(uint256 => mapping(uint256 => BatchEntry)) public batchEntries;
+    // Largest page getBatchEntries returns
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    // Entries per oracle request: two euint32 each stays within the 2048 bits a decryption may cover
+    uint256 public constant MAX_DECRYPTION_ENTRIES = 32;
+    // Seconds an update may stay in a non-terminal status before anyone can expire it; 0 disables the timeout
+    mapping(UpdateStatus => uint256) public statusTimeouts;
+
+    struct Vehicle {
+        uint256 vehicleIdEncrypted;
+        string model;
+        string ecuType;
+        // Market the vehicle is sold in, e.g. "EU"; rollout campaigns can target it
+        string region;
+        // Public label that campaign cohorts match on-chain, so it is stored and emitted in the clear; eligibility
+        // never reads it. Opt-in: left empty, the installed version stays private, completions never fill the label in,
+        // and campaigns target the vehicle by model/region
+        string firmwareVersion;
+        // euint32 handle of the installed version packed by encodeVersion; 0 until a provider sets it
+        uint256 firmwareVersionEncrypted;
+        address enrolledBy;
+        uint256 enrolledAt;
+        uint256 updatedAt;
+        address agent;
+    }
+    // Indexed from 1; the vehicle id itself stays encrypted and is only user-decryptable by the enroller and owner
+    mapping(uint256 => Vehicle) public vehicles;
+    uint256 public vehicleCount;
+
+    // Encrypted version range of a package, keyed by manifest hash: a vehicle needs it when min <= installed < target.
+    // Write-once, and only the manifest's provider may set it
+    struct PackageVersions {
+        uint256 minVersionEncrypted;
+        uint256 targetVersionEncrypted;
+        address setBy;
+        uint256 updatedAt;
+    }
+    mapping(bytes32 => PackageVersions) public packageVersions;
+    // Provider that first used each manifest hash, to submit it, start a campaign with it or set its range. Only that
+    // provider may set the range, so no other provider can take or retarget the range of a package it ships
+    mapping(bytes32 => address) public manifestProviders;
+    // ebool handle of the last eligibility check per vehicle and manifest hash, decryptable by the vehicle agent only
+    mapping(uint256 => mapping(bytes32 => uint256)) public eligibility;
+
+    // AES-256 key a payload is stored encrypted with, keyed by the payload's SHA-256 digest
+    struct PayloadKey {
+        // euint256 handle; granted to the provider that set it and to the agent of every vehicle later sent the payload
+        uint256 keyEncrypted;
+        address setBy;
+        uint256 setAt;
+    }
+    mapping(bytes32 => PayloadKey) public payloadKeys;
+
+    struct IntegrityCheck {
+        address verifier;
+        bytes32 payloadDigest;
+        bool passed;
+        uint256 timestamp;
+    }
+    // Latest payload check per batch entry; IntegrityVerified keeps the full record
+    mapping(uint256 => mapping(uint256 => IntegrityCheck)) public integrityChecks;
+
+    // Waves are cumulative shares of the cohort in basis points, e.g. [100, 1000, 10000] for 1% -> 10% -> 100%
+    uint256 public constant MAX_WAVES = 10;
+    uint16 internal constant BPS = 10000;
+
+    enum CampaignState {
+        Active,
+        Halted,
+        Completed,
+        Cancelled
+    }
+
+    struct CampaignPlan {
+        // Cohort filter matched against the vehicle registry; an empty field matches every vehicle
+        string model;
+        string region;
+        string firmwareVersion;
+        // Cohort size the wave percentages apply to
+        uint256 targetCount;
+        uint16[] waves;
+        // Share of a wave that may fail before the campaign halts itself
+        uint16 failureThresholdBps;
+        // Known-good version a rollback campaign takes the cohort back to; empty for a regular update. Vehicle agents
+        // only install an older version than they run when the campaign is pinned to it
+        string rollbackVersion;
+    }
+
+    struct Campaign {
+        uint256 id;
+        address provider;
+        uint256 updatePackageIdEncrypted;
+        bytes32 manifestHash;
+        bytes32 payloadDigest;
+        string model;
+        string region;
+        string firmwareVersion;
+        uint256 targetCount;
+        uint16[] waves;
+        uint16 failureThresholdBps;
+        string rollbackVersion;
+        uint256 currentWave;
+        CampaignState state;
+        uint256 createdAt;
+        uint256 updatedAt;
+    }
+    mapping(uint256 => Campaign) public campaigns;
+    uint256 public campaignCount;
+
+    struct WaveStats {
+        uint256 dispatched;
+        uint256 completed;
+        uint256 failed;
+    }
+    mapping(uint256 => mapping(uint256 => WaveStats)) public waveStats;
+
+    struct CampaignBatch {
+        uint256 campaignId;
+        uint256 wave;
+    }
+    // Encrypted outcome counters as euint32 handles (0 until the first count); only the owner is granted them
+    struct Tally {
+        uint256 succeededEncrypted;
+        uint256 failedEncrypted;
+    }
+    Tally public fleetTally;
+    mapping(uint256 => Tally) public batchTallies;
+    mapping(uint256 => Tally) public campaignTallies;
+
+    // Campaign and wave each dispatched batch belongs to, with all of its entries; campaignId 0 for batches submitted by hand
+    mapping(uint256 => CampaignBatch) public campaignBatches;
+    // Batch a vehicle was dispatched in, per campaign, so no vehicle is targeted twice
+    mapping(uint256 => mapping(uint256 => uint256)) public campaignVehicleBatch;
+
+    // A batch with more than MAX_DECRYPTION_ENTRIES entries is decrypted by several requests, each covering a range
     struct DecryptionContext {
         uint256 batchId;
+        uint256 fromEntry;
+        uint256 entryCount;
         bytes32 stateHash;
         bool processed;
     }
@@ -40,9 +209,28 @@ contract OtaUpdateFHE is SepoliaConfig {
     event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
     event BatchOpened(uint256 indexed batchId, uint256 timestamp);
     event BatchClosed(uint256 indexed batchId, uint256 timestamp);
-    event UpdateSubmitted(uint256 indexed batchId, address indexed provider, uint256 updatePackageIdEncrypted, uint256 vehicleIdEncrypted, uint256 timestamp);
-    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
-    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 updatePackageId, uint256 vehicleId, uint256 timestamp);
+    event UpdateSubmitted(uint256 indexed batchId, uint256 entryIndex, address indexed provider, uint256 updatePackageIdEncrypted, uint256 vehicleIdEncrypted, uint256 vehicleIndex, bytes32 manifestHash, bytes32 payloadDigest, uint256 timestamp);
+    event UpdateStatusChanged(uint256 indexed batchId, uint256 entryIndex, UpdateStatus from, UpdateStatus to, address indexed actor, string reason, uint256 timestamp);
+    event StatusTimeoutSet(UpdateStatus status, uint256 timeoutSeconds);
+    event IntegrityVerified(uint256 indexed batchId, uint256 entryIndex, address indexed verifier, bytes32 payloadDigest, bool passed, uint256 timestamp);
+    event DownloadProgress(uint256 indexed batchId, uint256 entryIndex, uint8 percent, uint256 timestamp);
+    event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash, uint256 fromEntry, uint256 entryCount);
+    // updatePackageIds[i] and vehicleIds[i] belong to entry fromEntry + i; vehicleIds[i] is 0 for a registry vehicle,
+    // whose id is never decrypted publicly (UpdateSubmitted names it by vehicleIndex instead)
+    event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256 fromEntry, uint256[] updatePackageIds, uint256[] vehicleIds, uint256 timestamp);
+    event VehicleEnrolled(uint256 indexed vehicleIndex, address indexed enrolledBy, uint256 vehicleIdEncrypted, string model, string ecuType, string region, string firmwareVersion, uint256 timestamp);
+    event VehicleFirmwareUpdated(uint256 indexed vehicleIndex, string firmwareVersion, uint256 timestamp);
+    event VehicleAgentSet(uint256 indexed vehicleIndex, address indexed agent);
+    event VehicleVersionEncrypted(uint256 indexed vehicleIndex, uint256 firmwareVersionEncrypted, uint256 timestamp);
+    event PackageVersionsSet(bytes32 indexed manifestHash, address indexed provider, uint256 minVersionEncrypted, uint256 targetVersionEncrypted, uint256 timestamp);
+    event EligibilityChecked(uint256 indexed vehicleIndex, bytes32 indexed manifestHash, uint256 eligibleEncrypted, uint256 timestamp);
+    event PayloadKeySet(bytes32 indexed payloadDigest, address indexed provider, uint256 keyEncrypted, uint256 timestamp);
+    // Carries the fleet-wide tallies after each completed or failed update, so their history can be charted
+    event TallyUpdated(uint256 indexed batchId, uint256 indexed campaignId, uint256 succeededEncrypted, uint256 failedEncrypted, uint256 timestamp);
+    event CampaignCreated(uint256 indexed campaignId, address indexed provider, bytes32 manifestHash, bytes32 payloadDigest, uint256 targetCount, uint256 timestamp);
+    event CampaignDispatched(uint256 indexed campaignId, uint256 wave, uint256 indexed batchId, uint256 entryIndex, uint256 vehicleIndex);
+    event CampaignWaveAdvanced(uint256 indexed campaignId, uint256 wave, uint256 timestamp);
+    event CampaignStateChanged(uint256 indexed campaignId, CampaignState from, CampaignState to, uint256 wave, address indexed actor, string reason, uint256 timestamp);
 
     error NotOwner();
     error NotProvider();
@@ -50,11 +238,25 @@ contract OtaUpdateFHE is SepoliaConfig {
     error CooldownActive();
     error BatchClosedOrInvalid();
     error InvalidBatchId();
+    error UnknownEntry();
     error ReplayAttempt();
     error StateMismatch();
     error DecryptionFailed();
     error NotInitialized();
     error InvalidParameter();
+    error UnknownVehicle();
+    error InvalidTransition();
+    error NotVehicleAgent();
+    error NotTimedOut();
+    error UnknownCampaign();
+    error CampaignNotActive();
+    error NotInCohort();
+    error AlreadyTargeted();
+    error WaveFull();
+    error WaveNotFinished();
+    error PayloadKeyExists();
+    error PackageVersionsExist();
+    error NotManifestProvider();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -84,6 +286,10 @@ contract OtaUpdateFHE is SepoliaConfig {
         cooldownSeconds = 60; 
         currentBatchId = 1;
         totalBatches = 0;
+        statusTimeouts[UpdateStatus.Pending] = 7 days;
+        statusTimeouts[UpdateStatus.Downloading] = 1 days;
+        statusTimeouts[UpdateStatus.Installing] = 2 hours;
+        statusTimeouts[UpdateStatus.Verifying] = 1 hours;
         emit ProviderAdded(owner);
     }
 
@@ -124,22 +330,35 @@ contract OtaUpdateFHE is SepoliaConfig {
         cooldownSeconds = newCooldownSeconds;
     }
 
+    function setStatusTimeout(UpdateStatus status, uint256 timeoutSeconds) external onlyOwner {
+        if (!_isActive(status)) revert InvalidParameter();
+        statusTimeouts[status] = timeoutSeconds;
+        emit StatusTimeoutSet(status, timeoutSeconds);
+    }
+
     function openBatch() external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+        _openBatch();
+        lastSubmissionTime[msg.sender] = block.timestamp;
+    }
+
+    function closeBatch(uint256 batchId) external onlyProvider whenNotPaused {
+        if (batchId != currentBatchId) revert InvalidBatchId();
+        _closeBatch(batchId);
+    }
+
+    function _openBatch() internal {
         if (batches[currentBatchId].isOpen) revert BatchClosedOrInvalid(); // Batch already open or invalid state
         batches[currentBatchId] = Batch({
             id: currentBatchId,
             isOpen: true,
-            updatePackageIdEncrypted: 0, 
-            vehicleIdEncrypted: 0,
+            entryCount: 0,
             timestamp: block.timestamp
         });
         totalBatches++;
-        lastSubmissionTime[msg.sender] = block.timestamp;
         emit BatchOpened(currentBatchId, block.timestamp);
     }
 
-    function closeBatch(uint256 batchId) external onlyProvider whenNotPaused {
-        if (batchId != currentBatchId) revert InvalidBatchId();
+    function _closeBatch(uint256 batchId) internal {
         Batch storage batch = batches[batchId];
         if (!batch.isOpen) revert BatchClosedOrInvalid();
         batch.isOpen = false;
@@ -149,46 +368,596 @@ contract OtaUpdateFHE is SepoliaConfig {
     }
 
     function submitUpdate(
+        uint256 batchId,
+        externalEuint32 updatePackageIdInput,
+        externalEuint32 vehicleIdInput,
+        bytes calldata inputProof,
+        bytes32 manifestHash,
+        bytes32 payloadDigest
+    ) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) returns (uint256 entryIndex) {
+        euint32 encryptedUpdatePackageId = FHE.fromExternal(updatePackageIdInput, inputProof);
+        euint32 encryptedVehicleId = FHE.fromExternal(vehicleIdInput, inputProof);
+        return _recordSubmission(batchId, encryptedUpdatePackageId, encryptedVehicleId, manifestHash, payloadDigest, 0);
+    }
+
+    // Submits an update for an enrolled vehicle, reusing its stored encrypted id
+    function submitUpdateForVehicle(
+        uint256 batchId,
+        externalEuint32 updatePackageIdInput,
+        bytes calldata inputProof,
+        uint256 vehicleIndex,
+        bytes32 manifestHash,
+        bytes32 payloadDigest
+    ) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) returns (uint256 entryIndex) {
+        if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+        euint32 encryptedUpdatePackageId = FHE.fromExternal(updatePackageIdInput, inputProof);
+        euint32 encryptedVehicleId = euint32.wrap(bytes32(vehicles[vehicleIndex].vehicleIdEncrypted));
+        return _recordSubmission(batchId, encryptedUpdatePackageId, encryptedVehicleId, manifestHash, payloadDigest, vehicleIndex);
+    }
+
+    // Entries [offset, offset + limit) of a batch, with limit capped at MAX_PAGE_SIZE; empty past the last entry
+    function getBatchEntries(uint256 batchId, uint256 offset, uint256 limit) external view returns (BatchEntry[] memory page) {
+        uint256 count = batches[batchId].entryCount;
+        if (offset >= count) return new BatchEntry[](0);
+        if (limit > MAX_PAGE_SIZE) limit = MAX_PAGE_SIZE;
+        if (limit > count - offset) limit = count - offset;
+        page = new BatchEntry[](limit);
+        for (uint256 i = 0; i < limit; i++) {
+            page[i] = batchEntries[batchId][offset + i];
+        }
+    }
+
+    // Records a SHA-256 of the firmware payload computed by the verifier; only a match moves the update on to downloading
+    function verifyPayloadIntegrity(uint256 batchId, uint256 entryIndex, bytes32 payloadDigest)
+        external
+        onlyProvider
+        whenNotPaused
+        returns (bool passed)
+    {
+        BatchEntry storage entry = _entry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Pending) revert InvalidTransition();
+        if (payloadDigest == bytes32(0)) revert InvalidParameter();
+
+        passed = payloadDigest == entry.payloadDigest;
+        integrityChecks[batchId][entryIndex] = IntegrityCheck({
+            verifier: msg.sender,
+            payloadDigest: payloadDigest,
+            passed: passed,
+            timestamp: block.timestamp
+        });
+        emit IntegrityVerified(batchId, entryIndex, msg.sender, payloadDigest, passed, block.timestamp);
+        if (passed) _transition(batchId, entryIndex, UpdateStatus.Downloading, "");
+    }
+
+    // Progress only, not a status change: a resumed download may start over and report lower again
+    function reportDownloadProgress(uint256 batchId, uint256 entryIndex, uint8 percent) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Downloading) revert InvalidTransition();
+        if (percent > 100) revert InvalidParameter();
+        entry.downloadProgress = percent;
+        emit DownloadProgress(batchId, entryIndex, percent, block.timestamp);
+    }
+
+    // The vehicle agent has the verified payload and starts flashing it
+    function reportInstalling(uint256 batchId, uint256 entryIndex) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Downloading) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.Installing, "");
+    }
+
+    // The new image is in the inactive slot and the vehicle booted from it; the previous slot stays intact until
+    // health checks pass
+    function reportBooted(uint256 batchId, uint256 entryIndex) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Installing) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.Verifying, "");
+    }
+
+    // From verifying once health checks pass, or straight from installing on an ECU without A/B slots. The vehicle's
+    // encrypted installed version becomes the package's encrypted target, so eligibility follows without revealing it.
+    // The public label is opt-in: `firmwareVersion` only replaces it on a vehicle that already carries one
+    function reportCompleted(uint256 batchId, uint256 entryIndex, string calldata firmwareVersion) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Installing && entry.status != UpdateStatus.Verifying) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.Completed, "");
+
+        uint256 vehicleIndex = entry.vehicleIndex;
+        Vehicle storage vehicle = vehicles[vehicleIndex];
+        uint256 targetVersion = packageVersions[entry.manifestHash].targetVersionEncrypted;
+        if (targetVersion != 0) {
+            vehicle.firmwareVersionEncrypted = targetVersion;
+            emit VehicleVersionEncrypted(vehicleIndex, targetVersion, block.timestamp);
+        }
+        if (bytes(firmwareVersion).length != 0 && bytes(vehicle.firmwareVersion).length != 0) {
+            _setFirmwareLabel(vehicleIndex, firmwareVersion);
+        }
+    }
+
+    // The watchdog reverted to the previous slot; counts as a failure for tallies and campaign thresholds
+    function reportRolledBack(uint256 batchId, uint256 entryIndex, string calldata reason) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (entry.status != UpdateStatus.Verifying) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.RolledBack, reason);
+    }
+
+    function reportFailed(uint256 batchId, uint256 entryIndex, string calldata reason) external whenNotPaused {
+        BatchEntry storage entry = _agentEntry(batchId, entryIndex);
+        if (!_isActive(entry.status)) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.Failed, reason);
+    }
+
+    // Owner override for an update that must not proceed; allowed while paused
+    function abortUpdate(uint256 batchId, uint256 entryIndex, string calldata reason) external onlyOwner {
+        if (!_isActive(_entry(batchId, entryIndex).status)) revert InvalidTransition();
+        _transition(batchId, entryIndex, UpdateStatus.Failed, reason);
+    }
+
+    // Fails an update stuck past its status timeout; anyone may call it so stuck updates never need the owner
+    function expireUpdate(uint256 batchId, uint256 entryIndex) external whenNotPaused {
+        BatchEntry storage entry = _entry(batchId, entryIndex);
+        if (!_isActive(entry.status)) revert InvalidTransition();
+        uint256 timeout = statusTimeouts[entry.status];
+        if (timeout == 0 || block.timestamp < entry.statusUpdatedAt + timeout) revert NotTimedOut();
+        _transition(batchId, entryIndex, UpdateStatus.Failed, "timeout");
+    }
+
+    function enrollVehicle(
+        externalEuint32 vehicleIdInput,
+        bytes calldata inputProof,
+        string calldata model,
+        string calldata ecuType,
+        string calldata region,
+        string calldata firmwareVersion
+    ) external onlyProvider whenNotPaused returns (uint256 vehicleIndex) {
+        if (bytes(model).length == 0 || bytes(ecuType).length == 0) revert InvalidParameter();
+        euint32 encryptedVehicleId = FHE.fromExternal(vehicleIdInput, inputProof);
+        if (!encryptedVehicleId.isInitialized()) revert NotInitialized();
+
+        FHE.allowThis(encryptedVehicleId);
+        FHE.allow(encryptedVehicleId, msg.sender);
+        FHE.allow(encryptedVehicleId, owner);
+
+        vehicleIndex = ++vehicleCount;
+        vehicles[vehicleIndex] = Vehicle({
+            vehicleIdEncrypted: uint256(encryptedVehicleId.toBytes32()),
+            model: model,
+            ecuType: ecuType,
+            region: region,
+            firmwareVersion: firmwareVersion,
+            firmwareVersionEncrypted: 0,
+            enrolledBy: msg.sender,
+            enrolledAt: block.timestamp,
+            updatedAt: block.timestamp,
+            agent: address(0)
+        });
+        emit VehicleEnrolled(vehicleIndex, msg.sender, vehicles[vehicleIndex].vehicleIdEncrypted, model, ecuType, region, firmwareVersion, block.timestamp);
+    }
+
+    // Records the firmware a vehicle last reported as installed; the label is public, see Vehicle.firmwareVersion
+    function setVehicleFirmware(uint256 vehicleIndex, string calldata firmwareVersion) external onlyProvider whenNotPaused {
+        if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+        _setFirmwareLabel(vehicleIndex, firmwareVersion);
+    }
+
+    // Address the vehicle reports install progress from; the zero address leaves reporting to timeouts and the owner
+    function setVehicleAgent(uint256 vehicleIndex, address agent) external onlyProvider whenNotPaused {
+        if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+        vehicles[vehicleIndex].agent = agent;
+        vehicles[vehicleIndex].updatedAt = block.timestamp;
+        emit VehicleAgentSet(vehicleIndex, agent);
+    }
+
+    // Installed version compared under encryption; only the contract and the provider that set it can use the handle
+    function setVehicleVersionEncrypted(uint256 vehicleIndex, externalEuint32 versionInput, bytes calldata inputProof)
+        external
+        onlyProvider
+        whenNotPaused
+    {
+        if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+        euint32 version = FHE.fromExternal(versionInput, inputProof);
+        FHE.allowThis(version);
+        FHE.allow(version, msg.sender);
+
+        Vehicle storage vehicle = vehicles[vehicleIndex];
+        vehicle.firmwareVersionEncrypted = uint256(version.toBytes32());
+        vehicle.updatedAt = block.timestamp;
+        emit VehicleVersionEncrypted(vehicleIndex, vehicle.firmwareVersionEncrypted, block.timestamp);
+    }
+
+    // Write-once: stored blobs stay readable only with the key they were encrypted with
+    function setPayloadKey(bytes32 payloadDigest, externalEuint256 keyInput, bytes calldata inputProof)
+        external
+        onlyProvider
+        whenNotPaused
+    {
+        if (payloadDigest == bytes32(0)) revert InvalidParameter();
+        if (payloadKeys[payloadDigest].keyEncrypted != 0) revert PayloadKeyExists();
+        euint256 key = FHE.fromExternal(keyInput, inputProof);
+        FHE.allowThis(key);
+        FHE.allow(key, msg.sender);
+
+        payloadKeys[payloadDigest] = PayloadKey({
+            keyEncrypted: uint256(euint256.unwrap(key)),
+            setBy: msg.sender,
+            setAt: block.timestamp
+        });
+        emit PayloadKeySet(payloadDigest, msg.sender, payloadKeys[payloadDigest].keyEncrypted, block.timestamp);
+    }
+
+    function setPackageVersions(
+        bytes32 manifestHash,
+        externalEuint32 minVersionInput,
+        externalEuint32 targetVersionInput,
+        bytes calldata inputProof
+    ) external onlyProvider whenNotPaused {
+        if (manifestHash == bytes32(0)) revert InvalidParameter();
+        if (!_claimManifest(manifestHash)) revert NotManifestProvider();
+        if (packageVersions[manifestHash].targetVersionEncrypted != 0) revert PackageVersionsExist();
+        euint32 minVersion = FHE.fromExternal(minVersionInput, inputProof);
+        euint32 targetVersion = FHE.fromExternal(targetVersionInput, inputProof);
+        FHE.allowThis(minVersion);
+        FHE.allowThis(targetVersion);
+        FHE.allow(minVersion, msg.sender);
+        FHE.allow(targetVersion, msg.sender);
+
+        packageVersions[manifestHash] = PackageVersions({
+            minVersionEncrypted: uint256(minVersion.toBytes32()),
+            targetVersionEncrypted: uint256(targetVersion.toBytes32()),
+            setBy: msg.sender,
+            updatedAt: block.timestamp
+        });
+        emit PackageVersionsSet(
+            manifestHash,
+            msg.sender,
+            packageVersions[manifestHash].minVersionEncrypted,
+            packageVersions[manifestHash].targetVersionEncrypted,
+            block.timestamp
+        );
+    }
+
+    /**
+     * Computes whether the vehicle needs the package without revealing either version.
+     * Only the vehicle agent is granted the resulting ebool, so it learns one bit and never the versions themselves.
+     */
+    function checkEligibility(uint256 vehicleIndex, bytes32 manifestHash) external whenNotPaused returns (uint256 eligibleEncrypted) {
+        if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+        Vehicle storage vehicle = vehicles[vehicleIndex];
+        if (msg.sender != vehicle.agent) revert NotVehicleAgent();
+        PackageVersions storage versions = packageVersions[manifestHash];
+        if (vehicle.firmwareVersionEncrypted == 0 || versions.targetVersionEncrypted == 0) revert NotInitialized();
+
+        euint32 installed = euint32.wrap(bytes32(vehicle.firmwareVersionEncrypted));
+        euint32 minVersion = euint32.wrap(bytes32(versions.minVersionEncrypted));
+        euint32 targetVersion = euint32.wrap(bytes32(versions.targetVersionEncrypted));
+        ebool eligible = FHE.select(FHE.lt(installed, minVersion), FHE.asEbool(false), FHE.lt(installed, targetVersion));
+        FHE.allowThis(eligible);
+        FHE.allow(eligible, msg.sender);
+
+        eligibleEncrypted = uint256(ebool.unwrap(eligible));
+        eligibility[vehicleIndex][manifestHash] = eligibleEncrypted;
+        emit EligibilityChecked(vehicleIndex, manifestHash, eligibleEncrypted, block.timestamp);
+    }
+
+    // Starts a staged rollout of one encrypted package to a cohort of registry vehicles
+    function createCampaign(
+        externalEuint32 updatePackageIdInput,
+        bytes calldata inputProof,
+        bytes32 manifestHash,
+        bytes32 payloadDigest,
+        CampaignPlan calldata plan
+    ) external onlyProvider whenNotPaused returns (uint256 campaignId) {
+        if (manifestHash == bytes32(0) || payloadDigest == bytes32(0)) revert InvalidParameter();
+        if (plan.targetCount == 0 || plan.failureThresholdBps > BPS) revert InvalidParameter();
+        if (plan.waves.length == 0 || plan.waves.length > MAX_WAVES || plan.waves[plan.waves.length - 1] != BPS) {
+            revert InvalidParameter();
+        }
+        for (uint256 i = 0; i < plan.waves.length; i++) {
+            if (plan.waves[i] == 0 || (i > 0 && plan.waves[i] <= plan.waves[i - 1])) revert InvalidParameter();
+        }
+        // A rollback targets the vehicles on one version and pins them to another
+        if (
+            bytes(plan.rollbackVersion).length != 0 &&
+            (bytes(plan.firmwareVersion).length == 0 || keccak256(bytes(plan.rollbackVersion)) == keccak256(bytes(plan.firmwareVersion)))
+        ) {
+            revert InvalidParameter();
+        }
+        euint32 encryptedUpdatePackageId = FHE.fromExternal(updatePackageIdInput, inputProof);
+        if (!encryptedUpdatePackageId.isInitialized()) revert NotInitialized();
+        FHE.allowThis(encryptedUpdatePackageId);
+        FHE.allow(encryptedUpdatePackageId, msg.sender);
+
+        _claimManifest(manifestHash);
+        campaignId = ++campaignCount;
+        Campaign storage campaign = campaigns[campaignId];
+        campaign.id = campaignId;
+        campaign.provider = msg.sender;
+        campaign.updatePackageIdEncrypted = uint256(encryptedUpdatePackageId.toBytes32());
+        campaign.manifestHash = manifestHash;
+        campaign.payloadDigest = payloadDigest;
+        campaign.model = plan.model;
+        campaign.region = plan.region;
+        campaign.firmwareVersion = plan.firmwareVersion;
+        campaign.targetCount = plan.targetCount;
+        campaign.waves = plan.waves;
+        campaign.failureThresholdBps = plan.failureThresholdBps;
+        campaign.rollbackVersion = plan.rollbackVersion;
+        campaign.createdAt = block.timestamp;
+        campaign.updatedAt = block.timestamp;
+        emit CampaignCreated(campaignId, msg.sender, manifestHash, payloadDigest, plan.targetCount, block.timestamp);
+    }
+
+    // The public campaigns getter leaves out the wave array
+    function campaignWaves(uint256 campaignId) external view returns (uint16[] memory) {
+        return campaigns[campaignId].waves;
+    }
+
+    // Number of vehicles the given wave may target on top of the earlier waves
+    function waveQuota(uint256 campaignId, uint256 wave) public view returns (uint256) {
+        Campaign storage campaign = campaigns[campaignId];
+        uint256 end = _waveEnd(campaign.targetCount, campaign.waves[wave]);
+        return wave == 0 ? end : end - _waveEnd(campaign.targetCount, campaign.waves[wave - 1]);
+    }
+
+    /**
+     * Sends the campaign's package to cohort vehicles in the current wave. The
+     * vehicles become the entries of one batch that is opened, filled and
+     * closed in this call, so the usual update lifecycle and oracle decryption
+     * apply to them.
+     */
+    function dispatchCampaign(uint256 campaignId, uint256[] calldata vehicleIndices)
+        external
+        onlyProvider
+        whenNotPaused
+        respectCooldown(msg.sender, lastSubmissionTime)
+    {
+        Campaign storage campaign = _campaign(campaignId);
+        if (campaign.state != CampaignState.Active) revert CampaignNotActive();
+        if (vehicleIndices.length == 0) revert InvalidParameter();
+        uint256 wave = campaign.currentWave;
+        WaveStats storage stats = waveStats[campaignId][wave];
+        if (stats.dispatched + vehicleIndices.length > waveQuota(campaignId, wave)) revert WaveFull();
+
+        euint32 encryptedUpdatePackageId = euint32.wrap(bytes32(campaign.updatePackageIdEncrypted));
+        uint256 batchId = currentBatchId;
+        _openBatch();
+        campaignBatches[batchId] = CampaignBatch({ campaignId: campaignId, wave: wave });
+        for (uint256 i = 0; i < vehicleIndices.length; i++) {
+            uint256 vehicleIndex = vehicleIndices[i];
+            if (vehicleIndex == 0 || vehicleIndex > vehicleCount) revert UnknownVehicle();
+            if (!_inCohort(campaign, vehicles[vehicleIndex])) revert NotInCohort();
+            if (campaignVehicleBatch[campaignId][vehicleIndex] != 0) revert AlreadyTargeted();
+
+            euint32 encryptedVehicleId = euint32.wrap(bytes32(vehicles[vehicleIndex].vehicleIdEncrypted));
+            uint256 entryIndex = _recordSubmission(
+                batchId,
+                encryptedUpdatePackageId,
+                encryptedVehicleId,
+                campaign.manifestHash,
+                campaign.payloadDigest,
+                vehicleIndex
+            );
+            campaignVehicleBatch[campaignId][vehicleIndex] = batchId;
+            emit CampaignDispatched(campaignId, wave, batchId, entryIndex, vehicleIndex);
+        }
+        _closeBatch(batchId);
+        stats.dispatched += vehicleIndices.length;
+        campaign.updatedAt = block.timestamp;
+    }
+
+    // Moves on to the next wave once every update of the current one has completed or failed
+    function advanceCampaign(uint256 campaignId) external onlyProvider whenNotPaused {
+        Campaign storage campaign = _campaign(campaignId);
+        if (campaign.state != CampaignState.Active) revert CampaignNotActive();
+        uint256 wave = campaign.currentWave;
+        WaveStats storage stats = waveStats[campaignId][wave];
+        uint256 quota = waveQuota(campaignId, wave);
+        if (stats.dispatched < quota || stats.completed + stats.failed < quota) revert WaveNotFinished();
+
+        if (wave == campaign.waves.length - 1) {
+            _setCampaignState(campaign, CampaignState.Completed, "");
+        } else {
+            campaign.currentWave = wave + 1;
+            campaign.updatedAt = block.timestamp;
+            emit CampaignWaveAdvanced(campaignId, wave + 1, block.timestamp);
+        }
+    }
+
+    // Stops further dispatches; updates already sent keep their own lifecycle
+    function cancelCampaign(uint256 campaignId, string calldata reason) external {
+        Campaign storage campaign = _campaign(campaignId);
+        if (msg.sender != campaign.provider && msg.sender != owner) revert NotProvider();
+        if (campaign.state != CampaignState.Active && campaign.state != CampaignState.Halted) revert CampaignNotActive();
+        _setCampaignState(campaign, CampaignState.Cancelled, reason);
+    }
+
+    function _campaign(uint256 campaignId) internal view returns (Campaign storage campaign) {
+        campaign = campaigns[campaignId];
+        if (campaign.id == 0) revert UnknownCampaign();
+    }
+
+    function _inCohort(Campaign storage campaign, Vehicle storage vehicle) internal view returns (bool) {
+        return _matches(campaign.model, vehicle.model) &&
+            _matches(campaign.region, vehicle.region) &&
+            _matches(campaign.firmwareVersion, vehicle.firmwareVersion);
+    }
+
+    function _matches(string storage filter, string storage value) internal view returns (bool) {
+        return bytes(filter).length == 0 || keccak256(bytes(filter)) == keccak256(bytes(value));
+    }
+
+    // Rounds up so a 1% wave of a small cohort still reaches one vehicle
+    function _waveEnd(uint256 targetCount, uint16 cumulativeBps) internal pure returns (uint256) {
+        return (targetCount * cumulativeBps + BPS - 1) / BPS;
+    }
+
+    function _setCampaignState(Campaign storage campaign, CampaignState to, string memory reason) internal {
+        CampaignState from = campaign.state;
+        campaign.state = to;
+        campaign.updatedAt = block.timestamp;
+        emit CampaignStateChanged(campaign.id, from, to, campaign.currentWave, msg.sender, reason, block.timestamp);
+    }
+
+    // Counts finished campaign updates and halts the campaign once a wave fails more than its threshold allows
+    function _recordCampaignOutcome(uint256 batchId, UpdateStatus to) internal {
+        CampaignBatch storage link = campaignBatches[batchId];
+        if (link.campaignId == 0) return;
+        WaveStats storage stats = waveStats[link.campaignId][link.wave];
+        if (to == UpdateStatus.Completed) {
+            stats.completed++;
+            return;
+        }
+        stats.failed++;
+        Campaign storage campaign = campaigns[link.campaignId];
+        if (
+            campaign.state == CampaignState.Active &&
+            stats.failed * BPS > uint256(campaign.failureThresholdBps) * waveQuota(link.campaignId, link.wave)
+        ) {
+            _setCampaignState(campaign, CampaignState.Halted, "failure threshold exceeded");
+        }
+    }
+
+    // Records the caller as the manifest's provider on first use; true when the caller is that provider
+    function _claimManifest(bytes32 manifestHash) internal returns (bool) {
+        address provider = manifestProviders[manifestHash];
+        if (provider == address(0)) manifestProviders[manifestHash] = provider = msg.sender;
+        return provider == msg.sender;
+    }
+
+    function _recordSubmission(
         uint256 batchId,
         euint32 encryptedUpdatePackageId,
-        euint32 encryptedVehicleId
-    ) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+        euint32 encryptedVehicleId,
+        bytes32 manifestHash,
+        bytes32 payloadDigest,
+        uint256 vehicleIndex
+    ) internal returns (uint256 entryIndex) {
+        if (manifestHash == bytes32(0) || payloadDigest == bytes32(0)) revert InvalidParameter();
         if (batchId != currentBatchId) revert InvalidBatchId();
         Batch storage batch = batches[batchId];
         if (!batch.isOpen) revert BatchClosedOrInvalid();
         if (!encryptedUpdatePackageId.isInitialized()) revert NotInitialized();
         if (!encryptedVehicleId.isInitialized()) revert NotInitialized();
 
-        batch.updatePackageIdEncrypted = encryptedUpdatePackageId.toUint256();
-        batch.vehicleIdEncrypted = encryptedVehicleId.toUint256();
-        batch.timestamp = block.timestamp; 
+        // The contract needs ACL rights to request decryption later; the submitter may user-decrypt its own inputs,
+        // but a registry vehicle's id stays readable by its enroller and the owner only
+        FHE.allowThis(encryptedUpdatePackageId);
+        FHE.allowThis(encryptedVehicleId);
+        FHE.allow(encryptedUpdatePackageId, msg.sender);
+        if (vehicleIndex == 0) FHE.allow(encryptedVehicleId, msg.sender);
+        // The agent of a registry vehicle learns which package it was sent and can unwrap the payload key if one is
+        // stored; an agent set later is granted neither
+        address agent = vehicles[vehicleIndex].agent;
+        if (agent != address(0)) {
+            FHE.allow(encryptedUpdatePackageId, agent);
+            uint256 payloadKey = payloadKeys[payloadDigest].keyEncrypted;
+            if (payloadKey != 0) FHE.allow(euint256.wrap(bytes32(payloadKey)), agent);
+        }
+
+        _claimManifest(manifestHash);
+        entryIndex = batch.entryCount++;
+        BatchEntry storage entry = batchEntries[batchId][entryIndex];
+        entry.provider = msg.sender;
+        entry.updatePackageIdEncrypted = uint256(encryptedUpdatePackageId.toBytes32());
+        entry.vehicleIdEncrypted = uint256(encryptedVehicleId.toBytes32());
+        entry.vehicleIndex = vehicleIndex;
+        entry.manifestHash = manifestHash;
+        entry.payloadDigest = payloadDigest;
+        entry.timestamp = block.timestamp;
+        batch.timestamp = block.timestamp;
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit UpdateSubmitted(batchId, msg.sender, batch.updatePackageIdEncrypted, batch.vehicleIdEncrypted, block.timestamp);
+        emit UpdateSubmitted(
+            batchId,
+            entryIndex,
+            msg.sender,
+            entry.updatePackageIdEncrypted,
+            entry.vehicleIdEncrypted,
+            vehicleIndex,
+            manifestHash,
+            payloadDigest,
+            block.timestamp
+        );
+        _transition(batchId, entryIndex, UpdateStatus.Pending, "");
     }
 
-    function requestBatchDecryption(uint256 batchId) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
-        if (batchId >= currentBatchId || !batches[batchId].isOpen) revert InvalidBatchId(); // Must be a closed batch
+    function _transition(uint256 batchId, uint256 entryIndex, UpdateStatus to, string memory reason) internal {
+        BatchEntry storage entry = batchEntries[batchId][entryIndex];
+        UpdateStatus from = entry.status;
+        entry.status = to;
+        entry.statusUpdatedAt = block.timestamp;
+        emit UpdateStatusChanged(batchId, entryIndex, from, to, msg.sender, reason, block.timestamp);
+        if (to == UpdateStatus.Completed || to == UpdateStatus.Failed || to == UpdateStatus.RolledBack) {
+            _recordCampaignOutcome(batchId, to);
+            _recordTally(batchId, to == UpdateStatus.Completed);
+        }
+    }
 
-        euint32 memory encryptedUpdatePackageId = euint32.wrap(batches[batchId].updatePackageIdEncrypted);
-        euint32 memory encryptedVehicleId = euint32.wrap(batches[batchId].vehicleIdEncrypted);
+    function _recordTally(uint256 batchId, bool succeeded) internal {
+        uint256 campaignId = campaignBatches[batchId].campaignId;
+        _count(fleetTally, succeeded);
+        _count(batchTallies[batchId], succeeded);
+        if (campaignId != 0) _count(campaignTallies[campaignId], succeeded);
+        emit TallyUpdated(batchId, campaignId, fleetTally.succeededEncrypted, fleetTally.failedEncrypted, block.timestamp);
+    }
 
-        _initIfNeeded(encryptedUpdatePackageId);
-        _initIfNeeded(encryptedVehicleId);
+    // Adds one to the encrypted counter; every new handle is granted to the current owner for user decryption
+    function _count(Tally storage tally, bool succeeded) internal {
+        euint32 counter = euint32.wrap(bytes32(succeeded ? tally.succeededEncrypted : tally.failedEncrypted));
+        counter = FHE.add(counter, uint32(1));
+        FHE.allowThis(counter);
+        FHE.allow(counter, owner);
+        if (succeeded) tally.succeededEncrypted = uint256(euint32.unwrap(counter));
+        else tally.failedEncrypted = uint256(euint32.unwrap(counter));
+    }
 
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = encryptedUpdatePackageId.toBytes32();
-        cts[1] = encryptedVehicleId.toBytes32();
+    function _entry(uint256 batchId, uint256 entryIndex) internal view returns (BatchEntry storage) {
+        if (batches[batchId].id == 0) revert InvalidBatchId();
+        if (entryIndex >= batches[batchId].entryCount) revert UnknownEntry();
+        return batchEntries[batchId][entryIndex];
+    }
 
-        bytes32 stateHash = _hashCiphertexts(cts);
-        uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+    function _setFirmwareLabel(uint256 vehicleIndex, string calldata firmwareVersion) internal {
+        Vehicle storage vehicle = vehicles[vehicleIndex];
+        vehicle.firmwareVersion = firmwareVersion;
+        vehicle.updatedAt = block.timestamp;
+        emit VehicleFirmwareUpdated(vehicleIndex, firmwareVersion, block.timestamp);
+    }
 
-        decryptionContexts[requestId] = DecryptionContext({
-            batchId: batchId,
-            stateHash: stateHash,
-            processed: false
-        });
+    function _agentEntry(uint256 batchId, uint256 entryIndex) internal view returns (BatchEntry storage entry) {
+        entry = _entry(batchId, entryIndex);
+        if (entry.vehicleIndex == 0 || vehicles[entry.vehicleIndex].agent != msg.sender) revert NotVehicleAgent();
+    }
+
+    function _isActive(UpdateStatus status) internal pure returns (bool) {
+        return status == UpdateStatus.Pending ||
+            status == UpdateStatus.Downloading ||
+            status == UpdateStatus.Installing ||
+            status == UpdateStatus.Verifying;
+    }
+
+    function requestBatchDecryption(uint256 batchId) external onlyProvider whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
+        if (batchId >= currentBatchId || batches[batchId].id == 0 || batches[batchId].isOpen) revert InvalidBatchId(); // Must be a closed batch
+        uint256 entryCount = batches[batchId].entryCount;
+        if (entryCount == 0) revert NotInitialized();
+
+        // One oracle request per MAX_DECRYPTION_ENTRIES entries
+        for (uint256 fromEntry = 0; fromEntry < entryCount; fromEntry += MAX_DECRYPTION_ENTRIES) {
+            uint256 count = entryCount - fromEntry;
+            if (count > MAX_DECRYPTION_ENTRIES) count = MAX_DECRYPTION_ENTRIES;
+
+            bytes32[] memory cts = _entryCiphertexts(batchId, fromEntry, count);
+            bytes32 stateHash = _hashCiphertexts(cts);
+            uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
+
+            decryptionContexts[requestId] = DecryptionContext({
+                batchId: batchId,
+                fromEntry: fromEntry,
+                entryCount: count,
+                stateHash: stateHash,
+                processed: false
+            });
+            emit DecryptionRequested(requestId, batchId, stateHash, fromEntry, count);
+        }
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
-        emit DecryptionRequested(requestId, batchId, stateHash);
     }
 
     function myCallback(
@@ -196,45 +965,65 @@ contract OtaUpdateFHE is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        if (decryptionContexts[requestId].processed) revert ReplayAttempt();
-
-        uint256 batchId = decryptionContexts[requestId].batchId;
-        Batch storage batch = batches[batchId];
-
-        euint32 memory encryptedUpdatePackageId = euint32.wrap(batch.updatePackageIdEncrypted);
-        euint32 memory encryptedVehicleId = euint32.wrap(batch.vehicleIdEncrypted);
-
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = encryptedUpdatePackageId.toBytes32();
-        cts[1] = encryptedVehicleId.toBytes32();
+        DecryptionContext storage context = decryptionContexts[requestId];
+        if (context.processed) revert ReplayAttempt();
 
+        bytes32[] memory cts = _entryCiphertexts(context.batchId, context.fromEntry, context.entryCount);
         bytes32 currentHash = _hashCiphertexts(cts);
-        if (currentHash != decryptionContexts[requestId].stateHash) {
+        if (currentHash != context.stateHash) {
             revert StateMismatch();
         }
 
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert DecryptionFailed();
-        }
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
-        uint256 updatePackageId = abi.decode(cleartexts[0:32], (uint256));
-        uint256 vehicleId = abi.decode(cleartexts[32:64], (uint256));
+        // One 32-byte word per ciphertext, in the order of cts
+        if (cleartexts.length != cts.length * 32) revert DecryptionFailed();
+        uint256[] memory updatePackageIds = new uint256[](context.entryCount);
+        uint256[] memory vehicleIds = new uint256[](context.entryCount);
+        uint256 word = 0;
+        for (uint256 i = 0; i < context.entryCount; i++) {
+            updatePackageIds[i] = _cleartextAt(cleartexts, word++);
+            if (batchEntries[context.batchId][context.fromEntry + i].vehicleIndex == 0) {
+                vehicleIds[i] = _cleartextAt(cleartexts, word++);
+            }
+        }
 
-        decryptionContexts[requestId].processed = true;
-        emit DecryptionCompleted(requestId, batchId, updatePackageId, vehicleId, block.timestamp);
+        context.processed = true;
+        emit DecryptionCompleted(requestId, context.batchId, context.fromEntry, updatePackageIds, vehicleIds, block.timestamp);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
-        return keccak256(abi.encode(cts, address(this)));
+    // Package handles of entries [fromEntry, fromEntry + count), each followed by the vehicle handle of a raw
+    // submission; registry vehicle ids are left out so decrypting a batch never deanonymizes enrolled vehicles
+    function _entryCiphertexts(uint256 batchId, uint256 fromEntry, uint256 count) internal view returns (bytes32[] memory cts) {
+        cts = new bytes32[](count * 2);
+        uint256 length = 0;
+        for (uint256 i = 0; i < count; i++) {
+            BatchEntry storage entry = batchEntries[batchId][fromEntry + i];
+            euint32 encryptedUpdatePackageId = euint32.wrap(bytes32(entry.updatePackageIdEncrypted));
+            _requireInitialized(encryptedUpdatePackageId);
+            cts[length++] = encryptedUpdatePackageId.toBytes32();
+            if (entry.vehicleIndex == 0) {
+                euint32 encryptedVehicleId = euint32.wrap(bytes32(entry.vehicleIdEncrypted));
+                _requireInitialized(encryptedVehicleId);
+                cts[length++] = encryptedVehicleId.toBytes32();
+            }
+        }
+        assembly {
+            mstore(cts, length)
+        }
     }
 
-    function _initIfNeeded(euint32 s) internal {
-        if (!s.isInitialized()) {
-            revert NotInitialized();
+    function _cleartextAt(bytes memory cleartexts, uint256 index) internal pure returns (uint256 value) {
+        assembly {
+            value := mload(add(cleartexts, add(32, mul(index, 32))))
         }
     }
 
-    function _requireInitialized(euint32 s) internal view {
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
+        return keccak256(abi.encode(cts, address(this)));
+    }
+
+    function _requireInitialized(euint32 s) internal pure {
         if (!s.isInitialized()) {
             revert NotInitialized();
         }
@@ -0,0 +1,316 @@
+// index.ts
+// bsdiff-style binary deltas between firmware images, shared by the web app and the vehicle agent.
+
+// A patch is this tag, a format version and the base and target sizes, followed by the gzipped control, diff and extra blocks
+const PATCH_MAGIC = [0x4f, 0x54, 0x41, 0x44]; // "OTAD"
+const PATCH_VERSION = 1;
+const HEADER_BYTES = PATCH_MAGIC.length + 1 + 16;
+const BLOCK_HEADER_BYTES = 24;
+const CONTROL_BYTES = 24;
+// Firmware images are large, but not this large; bounds the buffer a patch header can make applyDelta allocate
+const MAX_TARGET_BYTES = 512 * 1024 * 1024;
+
+export class DeltaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeltaError";
+  }
+}
+
+const pipe = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Larsson-Sadakane suffix sorting as used by bsdiff: `I` ends up holding the
+ * suffix array of `base`, with the empty suffix first.
+ */
+function suffixSort(base: Uint8Array): Int32Array {
+  const size = base.length;
+  const I = new Int32Array(size + 1);
+  const V = new Int32Array(size + 1);
+  const buckets = new Int32Array(256);
+  for (let i = 0; i < size; i++) buckets[base[i]]++;
+  for (let i = 1; i < 256; i++) buckets[i] += buckets[i - 1];
+  for (let i = 255; i > 0; i--) buckets[i] = buckets[i - 1];
+  buckets[0] = 0;
+  for (let i = 0; i < size; i++) I[++buckets[base[i]]] = i;
+  I[0] = size;
+  for (let i = 0; i < size; i++) V[i] = buckets[base[i]];
+  V[size] = 0;
+  for (let i = 1; i < 256; i++) if (buckets[i] === buckets[i - 1] + 1) I[buckets[i]] = -1;
+  I[0] = -1;
+
+  for (let h = 1; I[0] !== -(size + 1); h += h) {
+    let len = 0;
+    let i = 0;
+    while (i < size + 1) {
+      if (I[i] < 0) {
+        len -= I[i];
+        i -= I[i];
+      } else {
+        if (len) I[i - len] = -len;
+        len = V[I[i]] + 1 - i;
+        split(I, V, i, len, h);
+        i += len;
+        len = 0;
+      }
+    }
+    if (len) I[i - len] = -len;
+  }
+  for (let i = 0; i < size + 1; i++) I[V[i]] = i;
+  return I;
+}
+
+function split(I: Int32Array, V: Int32Array, start: number, len: number, h: number) {
+  const swap = (a: number, b: number) => {
+    const tmp = I[a];
+    I[a] = I[b];
+    I[b] = tmp;
+  };
+  if (len < 16) {
+    for (let k = start, j = 1; k < start + len; k += j) {
+      j = 1;
+      let x = V[I[k] + h];
+      for (let i = 1; k + i < start + len; i++) {
+        if (V[I[k + i] + h] < x) {
+          x = V[I[k + i] + h];
+          j = 0;
+        }
+        if (V[I[k + i] + h] === x) {
+          swap(k + j, k + i);
+          j++;
+        }
+      }
+      for (let i = 0; i < j; i++) V[I[k + i]] = k + j - 1;
+      if (j === 1) I[k] = -1;
+    }
+    return;
+  }
+
+  const x = V[I[start + (len >> 1)] + h];
+  let jj = 0;
+  let kk = 0;
+  for (let i = start; i < start + len; i++) {
+    if (V[I[i] + h] < x) jj++;
+    if (V[I[i] + h] === x) kk++;
+  }
+  jj += start;
+  kk += jj;
+  let i = start;
+  let j = 0;
+  let k = 0;
+  while (i < jj) {
+    if (V[I[i] + h] < x) {
+      i++;
+    } else if (V[I[i] + h] === x) {
+      swap(i, jj + j);
+      j++;
+    } else {
+      swap(i, kk + k);
+      k++;
+    }
+  }
+  while (jj + j < kk) {
+    if (V[I[jj + j] + h] === x) {
+      j++;
+    } else {
+      swap(jj + j, kk + k);
+      k++;
+    }
+  }
+  if (jj > start) split(I, V, start, jj - start, h);
+  for (let n = 0; n < kk - jj; n++) V[I[jj + n]] = kk - 1;
+  if (jj === kk - 1) I[jj] = -1;
+  if (start + len > kk) split(I, V, kk, start + len - kk, h);
+}
+
+const matchLength = (base: Uint8Array, basePos: number, target: Uint8Array, targetPos: number) => {
+  let i = 0;
+  while (basePos + i < base.length && targetPos + i < target.length && base[basePos + i] === target[targetPos + i]) i++;
+  return i;
+};
+
+// Lexicographic order of base[basePos..] against target[targetPos..], over their common length
+const compareSuffix = (base: Uint8Array, basePos: number, target: Uint8Array, targetPos: number) => {
+  const n = Math.min(base.length - basePos, target.length - targetPos);
+  for (let i = 0; i < n; i++) {
+    if (base[basePos + i] !== target[targetPos + i]) return base[basePos + i] - target[targetPos + i];
+  }
+  return 0;
+};
+
+// Longest match for target[targetPos..] among the suffixes of base, by binary search over the suffix array
+function search(I: Int32Array, base: Uint8Array, target: Uint8Array, targetPos: number) {
+  let start = 0;
+  let end = base.length;
+  while (end - start >= 2) {
+    const middle = start + ((end - start) >> 1);
+    if (compareSuffix(base, I[middle], target, targetPos) < 0) start = middle;
+    else end = middle;
+  }
+  const x = matchLength(base, I[start], target, targetPos);
+  const y = matchLength(base, I[end], target, targetPos);
+  return x > y ? { pos: I[start], len: x } : { pos: I[end], len: y };
+}
+
+/**
+ * Builds a patch that turns `base` into `target`, following bsdiff 4: approximate
+ * matches become byte-wise differences that compress to almost nothing, the
+ * rest is carried as extra bytes. Memory is about nine times the base size.
+ */
+export async function createDelta(base: Uint8Array, target: Uint8Array): Promise<Uint8Array> {
+  const I = suffixSort(base);
+  const controls: number[] = [];
+  const diff = new Uint8Array(target.length);
+  const extra = new Uint8Array(target.length);
+  let diffLength = 0;
+  let extraLength = 0;
+
+  let scan = 0;
+  let len = 0;
+  let pos = 0;
+  let lastScan = 0;
+  let lastPos = 0;
+  let lastOffset = 0;
+  while (scan < target.length) {
+    let baseScore = 0;
+    scan += len;
+    for (let scsc = scan; scan < target.length; scan++) {
+      ({ pos, len } = search(I, base, target, scan));
+      for (; scsc < scan + len; scsc++) {
+        if (scsc + lastOffset < base.length && base[scsc + lastOffset] === target[scsc]) baseScore++;
+      }
+      if ((len === baseScore && len !== 0) || len > baseScore + 8) break;
+      if (scan + lastOffset < base.length && base[scan + lastOffset] === target[scan]) baseScore--;
+    }
+    if (len === baseScore && scan !== target.length) continue;
+
+    // Extend the previous match forwards and this one backwards while they mostly agree
+    let lengthForward = 0;
+    for (let i = 0, s = 0, best = 0; lastScan + i < scan && lastPos + i < base.length; ) {
+      if (base[lastPos + i] === target[lastScan + i]) s++;
+      i++;
+      if (s * 2 - i > best * 2 - lengthForward) {
+        best = s;
+        lengthForward = i;
+      }
+    }
+    let lengthBack = 0;
+    if (scan < target.length) {
+      for (let i = 1, s = 0, best = 0; scan >= lastScan + i && pos >= i; i++) {
+        if (base[pos - i] === target[scan - i]) s++;
+        if (s * 2 - i > best * 2 - lengthBack) {
+          best = s;
+          lengthBack = i;
+        }
+      }
+    }
+    if (lastScan + lengthForward > scan - lengthBack) {
+      const overlap = lastScan + lengthForward - (scan - lengthBack);
+      let s = 0;
+      let best = 0;
+      let lengthSplit = 0;
+      for (let i = 0; i < overlap; i++) {
+        if (target[lastScan + lengthForward - overlap + i] === base[lastPos + lengthForward - overlap + i]) s++;
+        if (target[scan - lengthBack + i] === base[pos - lengthBack + i]) s--;
+        if (s > best) {
+          best = s;
+          lengthSplit = i + 1;
+        }
+      }
+      lengthForward += lengthSplit - overlap;
+      lengthBack -= lengthSplit;
+    }
+
+    for (let i = 0; i < lengthForward; i++) diff[diffLength + i] = target[lastScan + i] - base[lastPos + i];
+    const extraBytes = scan - lengthBack - (lastScan + lengthForward);
+    extra.set(target.subarray(lastScan + lengthForward, scan - lengthBack), extraLength);
+    diffLength += lengthForward;
+    extraLength += extraBytes;
+    controls.push(lengthForward, extraBytes, pos - lengthBack - (lastPos + lengthForward));
+
+    lastScan = scan - lengthBack;
+    lastPos = pos - lengthBack;
+    lastOffset = pos - scan;
+  }
+
+  const body = new Uint8Array(BLOCK_HEADER_BYTES + controls.length * 8 + diffLength + extraLength);
+  const view = new DataView(body.buffer);
+  view.setBigUint64(0, BigInt(controls.length / 3));
+  view.setBigUint64(8, BigInt(diffLength));
+  view.setBigUint64(16, BigInt(extraLength));
+  controls.forEach((value, i) => view.setBigInt64(BLOCK_HEADER_BYTES + i * 8, BigInt(value)));
+  const diffStart = BLOCK_HEADER_BYTES + controls.length * 8;
+  body.set(diff.subarray(0, diffLength), diffStart);
+  body.set(extra.subarray(0, extraLength), diffStart + diffLength);
+
+  const compressed = await pipe(body, new CompressionStream("gzip"));
+  const patch = new Uint8Array(HEADER_BYTES + compressed.length);
+  patch.set(PATCH_MAGIC);
+  patch[4] = PATCH_VERSION;
+  const header = new DataView(patch.buffer);
+  header.setBigUint64(5, BigInt(base.length));
+  header.setBigUint64(13, BigInt(target.length));
+  patch.set(compressed, HEADER_BYTES);
+  return patch;
+}
+
+export const isDelta = (patch: Uint8Array) =>
+  patch.length > HEADER_BYTES && PATCH_MAGIC.every((byte, i) => patch[i] === byte) && patch[4] === PATCH_VERSION;
+
+/**
+ * Rebuilds the target image from `base` and a patch made by createDelta; throws DeltaError on a malformed patch, the
+ * wrong base, or a target size other than `expectedSize` (the manifest's payload size) before allocating the image.
+ */
+export async function applyDelta(base: Uint8Array, patch: Uint8Array, expectedSize?: number): Promise<Uint8Array> {
+  if (!isDelta(patch)) throw new DeltaError("not a firmware delta");
+  const header = new DataView(patch.buffer, patch.byteOffset, HEADER_BYTES);
+  const baseSize = Number(header.getBigUint64(5));
+  const targetSize = Number(header.getBigUint64(13));
+  if (baseSize !== base.length) throw new DeltaError(`delta is for a ${baseSize}-byte base, the installed image has ${base.length}`);
+  if (targetSize > MAX_TARGET_BYTES) throw new DeltaError(`delta target of ${targetSize} bytes exceeds the ${MAX_TARGET_BYTES}-byte limit`);
+  if (expectedSize !== undefined && targetSize !== expectedSize) {
+    throw new DeltaError(`delta builds a ${targetSize}-byte image, the manifest declares ${expectedSize}`);
+  }
+
+  let body: Uint8Array;
+  try {
+    body = await pipe(patch.subarray(HEADER_BYTES), new DecompressionStream("gzip"));
+  } catch (e) {
+    throw new DeltaError("delta body is corrupt");
+  }
+  if (body.length < BLOCK_HEADER_BYTES) throw new DeltaError("delta body is truncated");
+  const view = new DataView(body.buffer, body.byteOffset, body.length);
+  const controlCount = Number(view.getBigUint64(0));
+  const diffLength = Number(view.getBigUint64(8));
+  const extraLength = Number(view.getBigUint64(16));
+  let diffPos = BLOCK_HEADER_BYTES + controlCount * CONTROL_BYTES;
+  let extraPos = diffPos + diffLength;
+  if (extraPos + extraLength !== body.length) throw new DeltaError("delta body is truncated");
+
+  const target = new Uint8Array(targetSize);
+  let targetPos = 0;
+  let basePos = 0;
+  for (let c = 0; c < controlCount; c++) {
+    const at = BLOCK_HEADER_BYTES + c * CONTROL_BYTES;
+    const diffBytes = Number(view.getBigInt64(at));
+    const extraBytes = Number(view.getBigInt64(at + 8));
+    const seek = Number(view.getBigInt64(at + 16));
+    if (diffBytes < 0 || extraBytes < 0 || targetPos + diffBytes + extraBytes > targetSize) {
+      throw new DeltaError("delta controls run past the target image");
+    }
+    for (let i = 0; i < diffBytes; i++) {
+      const baseByte = basePos + i >= 0 && basePos + i < base.length ? base[basePos + i] : 0;
+      target[targetPos + i] = body[diffPos + i] + baseByte;
+    }
+    diffPos += diffBytes;
+    targetPos += diffBytes;
+    basePos += diffBytes;
+    target.set(body.subarray(extraPos, extraPos + extraBytes), targetPos);
+    extraPos += extraBytes;
+    targetPos += extraBytes;
+    basePos += seek;
+  }
+  if (targetPos !== targetSize) throw new DeltaError("delta controls do not cover the target image");
+  return target;
+}
@@ -0,0 +1,26 @@
+// deploy/config.ts
+import path from "path";
+
+export interface DeployTarget {
+  // Key under which the deployment is recorded in deployments/<network>.json
+  name: string;
+  // Artifact name passed to getContractFactory
+  contract: string;
+  args?: unknown[];
+  // The web app and the indexer are pointed at this contract
+  primary?: boolean;
+}
+
+export const deployTargets: DeployTarget[] = [{ name: "OtaUpdateFHE", contract: "OtaUpdateFHE", primary: true }];
+
+const root = path.join(__dirname, "..");
+
+export const paths = {
+  root,
+  deployments: path.join(root, "deployments"),
+  frontendConfig: path.join(root, "frontend", "web", "src", "config.json"),
+  frontendAbiDir: path.join(root, "frontend", "web", "src", "abi"),
+};
+
+// RPC the web app uses when a network has no URL of its own (the in-process hardhat network)
+export const LOCAL_RPC_URL = "http://127.0.0.1:8545";
@@ -1,112 +1,169 @@
-// deploy/deploy.ts
-import fs from "fs";
-import path from "path";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet } from "ethers";
-
-async function main() {
-  // --- 1. 定义文件路径 ---
-  // 私钥文件路径 (与此脚本同目录)
-  const privateKeysFile = path.join(__dirname, "sy.txt");
-  // CSV 输出文件路径 (与此脚本同目录)
-  const outputFile = path.join(__dirname, "bushu.csv");
-
-  // --- 2. 读取私钥 ---
-  if (!fs.existsSync(privateKeysFile)) {
-    console.error(`错误：未在 ${privateKeysFile} 找到私钥文件`);
-    process.exit(1);
-  }
-
-  const privateKeys = fs
-    .readFileSync(privateKeysFile, "utf8")
-    .split("\n")
-    .map((k) => k.trim())
-    .filter((k) => k.length > 0); // 过滤掉空行
-
-  if (privateKeys.length === 0) {
-    console.error(`在 ${privateKeysFile} 中未找到任何私钥`);
-    process.exit(1);
-  }
-
-  console.log(`找到 ${privateKeys.length} 个私钥，准备开始批量部署...`);
-
-  // --- 3. 准备 CSV 文件 ---
-  const csvHeader = "DeployerAddress,ContractAddress\n";
-  // 写入表头 (覆盖旧文件)
-  fs.writeFileSync(outputFile, csvHeader);
-  console.log(`部署结果将保存到: ${outputFile}`);
-
-  // --- 4. 批量部署 ---
-  // 从 hardhat.config.ts 获取当前 --network 标志指定的 provider
-  const provider = hardhatEthers.provider;
-  const UniversalAdapterFactoryBase =
-    await hardhatEthers.getContractFactory("UniversalAdapter");
-
-  for (const privateKey of privateKeys) {
-    let wallet: Wallet | undefined;
-    try {
-      // 使用当前 provider 连接钱包
-      wallet = new Wallet(privateKey, provider);
-      console.log(`\n[${privateKeys.indexOf(privateKey) + 1}/${privateKeys.length}] 正在使用地址部署: ${wallet.address}`);
-
-      // 将 factory 连接到当前的钱包
-      const factory = UniversalAdapterFactoryBase.connect(wallet);
-
-      // 部署合约
-      const contract = await factory.deploy();
-      await contract.waitForDeployment();
-
-      // 兼容 ethers v5 (address) 和 v6 (target)
-      const deployedAddress = (contract as any).target || (contract as any).address;
-      console.log(`  -> 成功! 合约地址: ${deployedAddress}`);
-
-      // 将结果追加到 CSV
-      const csvLine = `${wallet.address},${deployedAddress}\n`;
-      fs.appendFileSync(outputFile, csvLine);
-
-    } catch (error) {
-      const deployerAddress = wallet ? wallet.address : "InvalidKey";
-      // 格式化错误信息以安全存入 CSV
-      const errorMessage = (error as Error).message.replace(/\n/g, " ").replace(/,/g, ";");
-      
-      console.error(`  -> 失败! 地址: ${deployerAddress}. 错误:`, (error as Error).message);
-      
-      // 在 CSV 中记录错误
-      const csvErrorLine = `${deployerAddress},"Error: ${errorMessage}"\n`;
-      fs.appendFileSync(outputFile, csvErrorLine);
-    }
-  }
-
-  console.log("\n--- 批量部署完成 ---");
-
-  // --- 5. 复制 ABI 到前端 (此操作与部署次数无关，执行一次即可) ---
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("未找到前端 src 目录，跳过 ABI 复制:", frontendConfigDir);
-  } else {
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("已复制 ABI 到 frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "自动复制 ABI 失败。请手动复制 artifacts/.../UniversalAdapter.json 到 frontend/web/src/abi/",
-        e
-      );
-    }
-  }
-}
-
-main().catch((e) => {
-  console.error(e);
-  process.exit(1);
-});
\ No newline at end of file
+// deploy/deploy.ts
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployTarget, LOCAL_RPC_URL, deployTargets, paths } from "./config";
+
+export interface DeployOptions {
+  dryRun: boolean;
+  force: boolean;
+  skipFrontend: boolean;
+}
+
+export interface DeploymentRecord {
+  contract: string;
+  address: string;
+  deployer: string;
+  transactionHash: string;
+  blockNumber: number;
+  // keccak256 of the creation bytecode plus constructor arguments, used to detect changed contracts
+  bytecodeHash: string;
+  deployedAt: string;
+}
+
+export interface DeploymentFile {
+  version: 1;
+  network: string;
+  chainId: number;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+type PlanAction = "deploy" | "redeploy" | "skip";
+
+interface PlanStep {
+  target: DeployTarget;
+  action: PlanAction;
+  reason: string;
+  bytecodeHash: string;
+}
+
+const deploymentPath = (network: string) => path.join(paths.deployments, `${network}.json`);
+
+export function readDeployments(network: string, chainId: number): DeploymentFile {
+  const file = deploymentPath(network);
+  if (!fs.existsSync(file)) return { version: 1, network, chainId, contracts: {} };
+  const parsed = JSON.parse(fs.readFileSync(file, "utf8")) as DeploymentFile;
+  if (parsed.chainId !== chainId) {
+    throw new Error(`${file} was recorded for chain ${parsed.chainId} but ${network} is chain ${chainId}`);
+  }
+  return parsed;
+}
+
+function writeJson(file: string, value: unknown) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2) + "\n");
+}
+
+async function planStep(
+  hre: HardhatRuntimeEnvironment,
+  target: DeployTarget,
+  record: DeploymentRecord | undefined,
+  force: boolean,
+): Promise<PlanStep> {
+  const factory = await hre.ethers.getContractFactory(target.contract);
+  const deployTx = await factory.getDeployTransaction(...(target.args ?? []));
+  const bytecodeHash = ethers.keccak256(deployTx.data);
+
+  if (!record) return { target, action: "deploy", reason: "not deployed yet", bytecodeHash };
+  if (force) return { target, action: "redeploy", reason: "--force", bytecodeHash };
+  const code = await hre.ethers.provider.getCode(record.address);
+  if (code === "0x") {
+    return { target, action: "redeploy", reason: `no code at recorded address ${record.address}`, bytecodeHash };
+  }
+  if (record.bytecodeHash !== bytecodeHash) {
+    return { target, action: "redeploy", reason: "bytecode or constructor arguments changed", bytecodeHash };
+  }
+  return { target, action: "skip", reason: `already deployed at ${record.address}`, bytecodeHash };
+}
+
+async function deployStep(hre: HardhatRuntimeEnvironment, step: PlanStep): Promise<DeploymentRecord> {
+  const [signer] = await hre.ethers.getSigners();
+  const factory = await hre.ethers.getContractFactory(step.target.contract, signer);
+  const contract = await factory.deploy(...(step.target.args ?? []));
+  const receipt = await contract.deploymentTransaction()!.wait();
+  if (!receipt) throw new Error(`Deployment of ${step.target.name} was not mined`);
+
+  return {
+    contract: step.target.contract,
+    address: await contract.getAddress(),
+    deployer: signer.address,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    bytecodeHash: step.bytecodeHash,
+    deployedAt: new Date().toISOString(),
+  };
+}
+
+async function updateFrontend(hre: HardhatRuntimeEnvironment, primary: DeploymentRecord) {
+  const networkConfig = hre.network.config as { url?: string };
+  // The web app keeps one entry per network; other networks' entries are left as they are
+  const frontendConfig = fs.existsSync(paths.frontendConfig)
+    ? JSON.parse(fs.readFileSync(paths.frontendConfig, "utf8"))
+    : { defaultNetwork: hre.network.name, networks: {} };
+  frontendConfig.networks[hre.network.name] = {
+    chainId: Number((await hre.ethers.provider.getNetwork()).chainId),
+    rpcUrl: networkConfig.url ?? LOCAL_RPC_URL,
+    contractAddress: primary.address,
+    deployer: primary.deployer,
+    deployBlock: primary.blockNumber,
+  };
+  writeJson(paths.frontendConfig, frontendConfig);
+  console.log(`Updated ${hre.network.name} in ${path.relative(process.cwd(), paths.frontendConfig)}`);
+
+  const artifact = await hre.artifacts.readArtifact(primary.contract);
+  const abiFile = path.join(paths.frontendAbiDir, `${primary.contract}.json`);
+  writeJson(abiFile, artifact);
+  console.log(`Copied ${primary.contract} artifact to ${path.relative(process.cwd(), abiFile)}`);
+
+  for (const script of ["typechain:web", "typechain:indexer"]) {
+    execFileSync("npm", ["run", "--silent", script], { cwd: paths.root, stdio: "inherit" });
+  }
+}
+
+/**
+ * Deploys every configured target that is missing or changed on the selected
+ * network, records the result in deployments/<network>.json after each
+ * contract, and points the web app at the primary contract.
+ */
+export async function deployAll(hre: HardhatRuntimeEnvironment, options: DeployOptions) {
+  const network = hre.network.name;
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const deployments = readDeployments(network, chainId);
+  // The in-process network is thrown away when the command exits, so nothing is written for it
+  const persistent = network !== "hardhat";
+
+  const steps: PlanStep[] = [];
+  for (const target of deployTargets) {
+    steps.push(await planStep(hre, target, deployments.contracts[target.name], options.force));
+  }
+
+  console.log(`Deployment plan for ${network} (chain ${chainId}):`);
+  for (const step of steps) console.log(`  ${step.action.padEnd(8)} ${step.target.name}: ${step.reason}`);
+
+  if (options.dryRun) {
+    const [signer] = await hre.ethers.getSigners();
+    if (signer) console.log(`Deployer would be ${signer.address}`);
+    console.log("Dry run: no transactions sent, no files written");
+    return deployments;
+  }
+
+  for (const step of steps) {
+    if (step.action === "skip") continue;
+    const record = await deployStep(hre, step);
+    deployments.contracts[step.target.name] = record;
+    console.log(`Deployed ${step.target.name} at ${record.address} (tx ${record.transactionHash})`);
+    // Written per contract so an interrupted run resumes instead of redeploying
+    if (persistent) writeJson(deploymentPath(network), deployments);
+  }
+
+  const primaryTarget = deployTargets.find((t) => t.primary);
+  const primary = primaryTarget && deployments.contracts[primaryTarget.name];
+  if (!persistent) {
+    console.log("Network hardhat is ephemeral; deployments and web app config were not written");
+  } else if (primary && !options.skipFrontend) {
+    await updateFrontend(hre, primary);
+  }
+  return deployments;
+}
@@ -1,106 +1,207 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import React, { useEffect, useMemo, useState } from "react";
+import { DEFAULT_STATUS_TIMEOUTS, UpdateRole } from "../../../lifecycle";
+import {
+  FirmwareManifest,
+  encodeVersion,
+  manifestDomain,
+  parseManifest,
+  signManifest,
+  targetMismatches,
+  verifySignedManifest
+} from "../../../manifest";
+import { getContractAddress, getContractReadOnly, getContractWithSigner, getRpcPool, getSigner, readCritical } from "./contract";
+import { CooldownKind, explainContractError, formatContractError } from "./errors";
+import { encryptUint32Input, encryptVersionRange } from "./fhe";
+import AdminConsole from "./components/AdminConsole";
+import BatchDetailsModal from "./components/BatchDetailsModal";
+import DecryptionRequestsPanel from "./components/DecryptionRequestsPanel";
+import FleetStatistics from "./components/FleetStatistics";
+import ManifestEditor from "./components/ManifestEditor";
+import NetworkSelector from "./components/NetworkSelector";
+import RolloutCampaigns from "./components/RolloutCampaigns";
+import RpcStatusPanel from "./components/RpcStatusPanel";
+import VehicleRegistry from "./components/VehicleRegistry";
+import { OracleRequest, createDecryptionTracker } from "./decryptionTracker";
+import { BatchHistory, batchesFromHistory, buildBatchHistories, syncHistory } from "./history";
+import { fetchIndexedHistory, isIndexerEnabled, publishManifest } from "./indexerApi";
+import { explorerAddressUrl, getActiveNetwork } from "./networks";
+import { isPayloadStoreEnabled, uploadPayload } from "./payloadStore";
+import { QuorumMismatchError } from "./rpcPool";
+import {
+  AccountState,
+  OtaBatch,
+  OtaCampaign,
+  OtaEntry,
+  ProtocolState,
+  VehicleRecord,
+  activeUpdatesByVehicle,
+  closeBatch,
+  countStatuses,
+  fetchAccountState,
+  fetchBatches,
+  fetchCampaigns,
+  fetchManifestProvider,
+  fetchPayloadKeyHandle,
+  fetchProtocolState,
+  fetchVehicles,
+  filterVehicles,
+  hasPackageVersions,
+  hasSubmission,
+  openBatch as openBatchOnChain,
+  requestBatchDecryption,
+  setPackageVersions,
+  submitUpdateForVehicle
+} from "./otaService";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface OTAUpdateRecord {
-  id: string;
-  vehicleId: string;
-  encryptedFirmware: string;
-  version: string;
-  timestamp: number;
-  owner: string;
-  status: "pending" | "downloading" | "installing" | "completed" | "failed";
-  fileSize: number;
-  description: string;
-}
-
-// FHE encryption simulation for numerical data (file size, version numbers)
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}-${Date.now()}`;
-};
+import { useAccount } from 'wagmi';
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    const base64Data = encryptedData.substring(4, encryptedData.lastIndexOf('-'));
-    return parseFloat(atob(base64Data));
-  }
-  return parseFloat(encryptedData);
-};
+const network = getActiveNetwork();
 
-// Simulate FHE computation on encrypted data
-const FHECompute = (encryptedData: string, operation: string): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'verifyIntegrity':
-      // Simulate integrity check - in real FHE this would be done on encrypted data
-      result = value * 1.0; // No change, just verification
-      break;
-    case 'calculateHash':
-      // Simulate hash calculation
-      result = value + 12345; // Simple transformation
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
+const shortHandle = (handle: string) => `${handle.substring(0, 10)}...${handle.substring(60)}`;
 
-const generateVehicleId = () => `VEH${Math.floor(1000 + Math.random() * 9000)}`;
+const downloadJson = (filename: string, value: unknown) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
-  const [otaRecords, setOtaRecords] = useState<OTAUpdateRecord[]>([]);
+  const [batches, setBatches] = useState<OtaBatch[]>([]);
+  const [batchHistories, setBatchHistories] = useState<Map<number, BatchHistory>>(new Map());
+  const [protocol, setProtocol] = useState<ProtocolState | null>(null);
+  const [accountState, setAccountState] = useState<AccountState | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
   const [newUpdateData, setNewUpdateData] = useState({ 
-    vehicleId: "", 
-    version: "", 
-    fileSize: 0, 
-    description: "" 
+    vehicleIndex: 0, 
+    manifest: ""
   });
-  const [selectedRecord, setSelectedRecord] = useState<OTAUpdateRecord | null>(null);
-  const [decryptedSize, setDecryptedSize] = useState<number | null>(null);
-  const [isDecrypting, setIsDecrypting] = useState(false);
+  // Firmware image hashed into the manifest draft; uploaded encrypted with the update when a payload store is configured
+  const [payloadFile, setPayloadFile] = useState<File | null>(null);
+  // Patches built against that image, by digest; uploaded with it for the deltas the manifest lists
+  const [payloadDeltas, setPayloadDeltas] = useState<Record<string, Uint8Array>>({});
+  const [vehicleSearch, setVehicleSearch] = useState("");
+  const [selectedBatch, setSelectedBatch] = useState<OtaBatch | null>(null);
   const [activeTab, setActiveTab] = useState("dashboard");
   const [operationLogs, setOperationLogs] = useState<string[]>([]);
-  const [vehicles, setVehicles] = useState<string[]>([]);
+  const [vehicles, setVehicles] = useState<VehicleRecord[]>([]);
+  const [campaigns, setCampaigns] = useState<OtaCampaign[]>([]);
+  const [oracleRequests, setOracleRequests] = useState<OracleRequest[]>([]);
 
   // Statistics
-  const completedCount = otaRecords.filter(r => r.status === "completed").length;
-  const pendingCount = otaRecords.filter(r => r.status === "pending").length;
-  const failedCount = otaRecords.filter(r => r.status === "failed").length;
+  const openBatch = batches.find(b => b.isOpen && b.id === protocol?.currentBatchId) || null;
+  const closedCount = batches.filter(b => !b.isOpen).length;
+  const submittedCount = batches.filter(hasSubmission).length;
+  const activeUpdates = useMemo(() => activeUpdatesByVehicle(batches), [batches]);
+  const canOperate = !!accountState?.isProvider && !protocol?.paused;
+  const parsedManifest = useMemo(
+    () => newUpdateData.manifest.trim() ? parseManifest(newUpdateData.manifest) : null,
+    [newUpdateData.manifest]
+  );
+  const selectedVehicle = vehicles.find(v => v.index === newUpdateData.vehicleIndex);
+  const statusTimeouts = protocol?.statusTimeouts ?? DEFAULT_STATUS_TIMEOUTS;
+  // Follow refreshes so the modal shows status changes made from inside it
+  const detailBatch = selectedBatch && (batches.find(b => b.id === selectedBatch.id) ?? selectedBatch);
+
+  // The vehicle role belongs to whoever is registered as agent of the vehicle the update targets
+  const rolesFor = (entry: OtaEntry): UpdateRole[] => {
+    const roles: UpdateRole[] = [];
+    if (accountState?.isProvider) roles.push("provider");
+    if (accountState?.isOwner) roles.push("owner");
+    const agent = vehicles.find(v => v.index === entry.vehicleIndex)?.agent;
+    if (address && entry.vehicleIndex > 0 && agent?.toLowerCase() === address.toLowerCase()) roles.push("vehicle");
+    return roles;
+  };
 
   useEffect(() => {
-    loadOTARecords().finally(() => setLoading(false));
-    initializeVehicles();
     addLog("System initialized with Zama FHE encryption");
   }, []);
 
+  useEffect(() => {
+    loadBatches().finally(() => setLoading(false));
+  }, [address]);
+
+  useEffect(() => {
+    const pool = getRpcPool();
+    pool.start();
+    return () => pool.stop();
+  }, []);
+
+  useEffect(() => {
+    let stopTracker: (() => void) | null = null;
+    let cancelled = false;
+    (async () => {
+      const contract = await getContractReadOnly();
+      if (!contract || cancelled) return;
+      const tracker = createDecryptionTracker(contract, { fromBlock: network.deployBlock });
+      const unsubscribe = tracker.subscribe(setOracleRequests);
+      stopTracker = () => {
+        unsubscribe();
+        tracker.stop();
+      };
+      try {
+        await tracker.start();
+        addLog("Tracking oracle decryption requests");
+      } catch (e) {
+        console.error("Failed to start decryption tracker:", e);
+        addLog("Error: could not follow oracle decryption events");
+      }
+    })();
+    return () => {
+      cancelled = true;
+      stopTracker?.();
+    };
+  }, []);
+
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     setOperationLogs(prev => [`[${timestamp}] ${message}`, ...prev.slice(0, 49)]);
   };
 
-  const initializeVehicles = () => {
-    const defaultVehicles = [generateVehicleId(), generateVehicleId(), generateVehicleId()];
-    setVehicles(defaultVehicles);
-    addLog(`Initialized ${defaultVehicles.length} vehicles`);
+  const loadVehicles = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const loaded = await fetchVehicles(contract);
+      setVehicles(loaded);
+      addLog(`Loaded ${loaded.length} enrolled vehicles from the registry`);
+    } catch (e) {
+      console.error("Error loading vehicles:", e);
+      addLog("Error loading the vehicle registry");
+    }
   };
 
-  const loadOTARecords = async () => {
+  const loadCampaigns = async () => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setCampaigns(await fetchCampaigns(contract));
+    } catch (e) {
+      console.error("Error loading campaigns:", e);
+      addLog("Error loading rollout campaigns");
+    }
+  };
+
+  const openCreateModal = (vehicle?: VehicleRecord) => {
+    setNewUpdateData({ ...newUpdateData, vehicleIndex: vehicle?.index ?? 0 });
+    setVehicleSearch("");
+    setPayloadFile(null);
+    setPayloadDeltas({});
+    setShowCreateModal(true);
+  };
+
+  const loadBatches = async () => {
     setIsRefreshing(true);
-    addLog("Loading OTA update records from blockchain...");
+    addLog("Loading OTA batches from blockchain...");
     try {
       const contract = await getContractReadOnly();
       if (!contract) {
@@ -108,268 +209,223 @@ const App: React.FC = () => {
         return;
       }
 
-      // Check contract availability
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        addLog("Warning: Contract is not available");
-        return;
-      }
-
-      // Load record keys
-      const keysBytes = await contract.getData("ota_record_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { 
-          console.error("Error parsing record keys:", e);
-          addLog("Error parsing record keys from blockchain");
-        }
-      }
-
-      const records: OTAUpdateRecord[] = [];
-      for (const key of keys) {
-        try {
-          const recordBytes = await contract.getData(`ota_record_${key}`);
-          if (recordBytes.length > 0) {
-            try {
-              const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-              records.push({
-                id: key,
-                vehicleId: recordData.vehicleId,
-                encryptedFirmware: recordData.encryptedFirmware,
-                version: recordData.version,
-                timestamp: recordData.timestamp,
-                owner: recordData.owner,
-                status: recordData.status || "pending",
-                fileSize: recordData.fileSize,
-                description: recordData.description
-              });
-            } catch (e) { 
-              console.error(`Error parsing record data for ${key}:`, e);
-              addLog(`Error parsing data for record ${key}`);
-            }
-          }
-        } catch (e) { 
-          console.error(`Error loading record ${key}:`, e);
-          addLog(`Error loading record ${key}`);
-        }
+      const state = await readCritical(fetchProtocolState);
+      setProtocol(state);
+      setAccountState(address ? await readCritical(c => fetchAccountState(c, address, state.owner)) : null);
+      loadVehicles();
+      loadCampaigns();
+
+      try {
+        const snapshot = isIndexerEnabled() ? await fetchIndexedHistory() : await syncHistory(contract, { startBlock: network.deployBlock });
+        const histories = buildBatchHistories(snapshot.events);
+        const loaded = batchesFromHistory(histories);
+        setBatchHistories(histories);
+        setBatches(loaded);
+        addLog(isIndexerEnabled()
+          ? `Loaded ${loaded.length} batches from indexer (synced to block ${snapshot.syncedBlock})`
+          : `Synced history to block ${snapshot.syncedBlock} (${snapshot.newEvents} new events, ${loaded.length} batches)`);
+      } catch (historyError) {
+        // Without event history the batch list can still be read slot by slot
+        console.error("History sync failed:", historyError);
+        const loaded = await readCritical(c => fetchBatches(c, state));
+        setBatches(loaded);
+        addLog(`History sync failed; loaded ${loaded.length} OTA batches from contract state (current batch #${state.currentBatchId})`);
       }
-
-      records.sort((a, b) => b.timestamp - a.timestamp);
-      setOtaRecords(records);
-      addLog(`Loaded ${records.length} OTA update records`);
     } catch (e) { 
-      console.error("Error loading records:", e);
-      addLog("Error loading records from blockchain");
+      console.error("Error loading batches:", e);
+      addLog(e instanceof QuorumMismatchError ? `Error: ${e.message}` : "Error loading batches from blockchain");
     } finally { 
       setIsRefreshing(false);
       setLoading(false);
     }
   };
 
-  const submitOTAUpdate = async () => {
+  const runTransaction = async (
+    pendingMessage: string,
+    successMessage: string,
+    action: () => Promise<void>,
+    cooldownKind: CooldownKind = "submission"
+  ) => {
     if (!isConnected) { 
       alert("Please connect wallet first");
-      addLog("Wallet not connected - cannot submit OTA update");
-      return;
+      addLog("Wallet not connected - cannot send transaction");
+      return false;
     }
 
-    setCreating(true);
-    setTransactionStatus({ 
-      visible: true, 
-      status: "pending", 
-      message: "Encrypting firmware data with Zama FHE..." 
-    });
-    addLog("Starting FHE encryption for OTA update...");
-
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
     try {
-      // Encrypt file size using FHE simulation
-      const encryptedFileSize = FHEEncryptNumber(newUpdateData.fileSize);
-      
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordId = `ota-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const recordData = {
-        vehicleId: newUpdateData.vehicleId,
-        encryptedFirmware: encryptedFileSize, // In real scenario, this would be the actual encrypted firmware
-        version: newUpdateData.version,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: address,
-        status: "pending",
-        fileSize: newUpdateData.fileSize,
-        description: newUpdateData.description
-      };
-
-      await contract.setData(`ota_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(recordData)));
-      addLog(`OTA record ${recordId} stored on blockchain`);
-
-      // Update keys list
-      const keysBytes = await contract.getData("ota_record_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { 
-          keys = JSON.parse(ethers.toUtf8String(keysBytes)); 
-        } catch (e) { 
-          console.error("Error parsing keys:", e);
-          addLog("Error parsing existing record keys");
-        }
-      }
-      keys.push(recordId);
-      await contract.setData("ota_record_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
-      addLog("Record keys updated on blockchain");
-
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: "OTA update encrypted and submitted securely!" 
-      });
-      addLog("OTA update successfully encrypted with Zama FHE");
-
-      await loadOTARecords();
-      
-      setTimeout(() => {
-        setTransactionStatus({ visible: false, status: "pending", message: "" });
-        setShowCreateModal(false);
-        setNewUpdateData({ vehicleId: "", version: "", fileSize: 0, description: "" });
-      }, 2000);
-
+      await action();
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      await loadBatches();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      return true;
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
-      
+      console.error("Transaction failed:", e);
+      const decoded = await explainContractError(e, await getContractReadOnly(), address, cooldownKind);
+      const errorMessage = formatContractError(decoded);
+
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
-      addLog(`OTA update failed: ${errorMessage}`);
-      
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setCreating(false);
+      addLog(`Transaction failed: ${errorMessage}`);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 5000);
+      return false;
     }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
-    if (!isConnected) { 
-      alert("Please connect wallet first");
-      return null;
+  const handleOpenBatch = () => runTransaction(
+    "Opening a new OTA batch...",
+    "OTA batch opened!",
+    async () => {
+      const contract = await getContractWithSigner();
+      const batchId = await openBatchOnChain(contract);
+      addLog(`Batch #${batchId} opened on chain`);
+    }
+  );
+
+  /**
+   * Signs the manifest with the connected wallet, publishes the package's
+   * encrypted version range, hands the EIP-712 hash to `submit`, and once that
+   * succeeded publishes the manifest to the indexer (or downloads it when
+   * there is none).
+   */
+  const submitWithManifest = async (manifest: FirmwareManifest, submit: (manifestHash: string) => Promise<void>) => {
+    // Vehicles from minPriorVersion up to, but not including, this version need the package; encoded up front so an
+    // unencodable version fails before anything is sent
+    const minVersion = encodeVersion(manifest.minPriorVersion || "0.0.0");
+    const targetVersion = encodeVersion(manifest.version);
+    const domain = manifestDomain(network.chainId, getContractAddress());
+    addLog("Requesting EIP-712 manifest signature from wallet...");
+    const signed = await signManifest(await getSigner(), manifest, domain);
+    const manifestHash = verifySignedManifest(signed, domain);
+    addLog(`Manifest for package #${manifest.packageId} v${manifest.version} signed (hash ${shortHandle(manifestHash)})`);
+
+    // Lets vehicle agents check eligibility against this package without anyone learning their installed version.
+    // Sent before the package: the first provider to use a manifest hash owns its range, so nothing is submitted
+    // unless the range on chain is this wallet's
+    const contract = await getContractWithSigner();
+    const owner = await fetchManifestProvider(contract, manifestHash);
+    if (owner && owner.toLowerCase() !== address!.toLowerCase()) {
+      throw new Error(`Manifest ${shortHandle(manifestHash)} is already used by provider ${owner}; sign a new manifest for this release`);
+    }
+    if (!(await hasPackageVersions(contract, manifestHash))) {
+      const range = await encryptVersionRange(getContractAddress(), address!, minVersion, targetVersion);
+      await setPackageVersions(contract, manifestHash, range);
+      addLog(`Encrypted version range ${manifest.minPriorVersion || "0.0.0"} - ${manifest.version} published for eligibility checks`);
     }
 
-    setIsDecrypting(true);
-    addLog("Initiating wallet signature for FHE decryption...");
+    await submit(manifestHash);
 
+    if (!isIndexerEnabled()) {
+      downloadJson(`manifest-${manifestHash.substring(2, 10)}.json`, signed);
+      addLog("No indexer configured; the signed manifest was downloaded instead of published");
+      return;
+    }
     try {
-      const message = `Decrypt OTA firmware data with Zama FHE\nTimestamp: ${Date.now()}`;
-      await signMessageAsync({ message });
-      addLog("Wallet signature obtained for decryption");
-      
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate decryption process
-      const decryptedValue = FHEDecryptNumber(encryptedData);
-      addLog("FHE decryption completed successfully");
-      
-      return decryptedValue;
-    } catch (e) { 
-      console.error("Decryption failed:", e);
-      addLog("FHE decryption failed");
-      return null;
-    } finally { 
-      setIsDecrypting(false);
+      await publishManifest(signed);
+      addLog("Signed manifest published to the indexer");
+    } catch (e) {
+      console.error("Manifest publication failed:", e);
+      downloadJson(`manifest-${manifestHash.substring(2, 10)}.json`, signed);
+      addLog("Could not publish the signed manifest; it was downloaded instead");
     }
   };
 
-  const verifyUpdateIntegrity = async (recordId: string) => {
-    if (!isConnected) { 
-      alert("Please connect wallet first");
+  const submitOTAUpdate = async () => {
+    if (!openBatch) {
+      alert("Open a batch before submitting updates");
+      return;
+    }
+    const vehicle = selectedVehicle;
+    if (!vehicle) {
+      alert("Select a vehicle");
+      return;
+    }
+    if (!parsedManifest?.ok) {
+      alert("Provide a valid firmware manifest");
+      return;
+    }
+    const manifest = parsedManifest.value;
+    const mismatches = targetMismatches(manifest, vehicle);
+    if (mismatches.length && !confirm(`This package does not target the selected vehicle:\n${mismatches.join("\n")}\n\nSubmit anyway?`)) {
+      return;
+    }
+    const readOnly = isPayloadStoreEnabled() && !payloadFile ? await getContractReadOnly() : null;
+    if (
+      readOnly &&
+      !(await fetchPayloadKeyHandle(readOnly, manifest.payloadDigest)) &&
+      !confirm("No firmware image is stored for this payload digest, so the vehicle cannot download it.\n\nSubmit anyway?")
+    ) {
       return;
     }
 
-    setTransactionStatus({ 
-      visible: true, 
-      status: "pending", 
-      message: "Verifying firmware integrity with FHE..." 
-    });
-    addLog(`Starting FHE integrity verification for record ${recordId}`);
+    setCreating(true);
+    addLog("Starting FHE encryption for OTA update...");
+    const submitted = await runTransaction(
+      "Encrypting update data with Zama FHE...",
+      "OTA update encrypted and submitted securely!",
+      () => submitWithManifest(manifest, async manifestHash => {
+        // Before the submission: the vehicle agent is granted the payload key when its entry is recorded
+        if (payloadFile && isPayloadStoreEnabled()) {
+          const uploaded = await uploadPayload(await getContractWithSigner(), await getSigner(), payloadFile, manifest, {
+            deltas: manifest.deltas.map(delta => payloadDeltas[delta.digest]).filter(patch => patch !== undefined),
+            onProgress: addLog
+          });
+          addLog(
+            uploaded === "exists"
+              ? "Firmware image already in the payload store"
+              : `Firmware image ${uploaded} in the payload store, encrypted under its on-chain key`
+          );
+        }
 
-    try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const recordBytes = await contract.getData(`ota_record_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const verifiedData = FHECompute(recordData.encryptedFirmware, 'verifyIntegrity');
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedRecord = { ...recordData, status: "downloading" };
-      await contractWithSigner.setData(`ota_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: "FHE integrity verification completed!" 
-      });
-      addLog(`FHE integrity verification successful for ${recordId}`);
-      
-      await loadOTARecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "Verification failed: " + (e.message || "Unknown error") 
-      });
-      addLog(`FHE verification failed: ${e.message}`);
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        const encryptedInput = await encryptUint32Input(
+          getContractAddress(),
+          address!,
+          manifest.packageId,
+          "Update package id"
+        );
+        addLog(`Encrypted input created (package handle ${shortHandle(encryptedInput.handle)})`);
+
+        const contract = await getContractWithSigner();
+        const entryIndex = await submitUpdateForVehicle(
+          contract,
+          openBatch.id,
+          encryptedInput,
+          vehicle.index,
+          manifestHash,
+          manifest.payloadDigest
+        );
+        addLog(`Update for vehicle #${vehicle.index} submitted to batch #${openBatch.id} as entry #${entryIndex}`);
+      })
+    );
+    setCreating(false);
+
+    if (submitted) {
+      setShowCreateModal(false);
+      setNewUpdateData({ vehicleIndex: 0, manifest: "" });
+      setPayloadFile(null);
+      setPayloadDeltas({});
     }
   };
 
-  const completeUpdate = async (recordId: string) => {
-    if (!isConnected) return;
-
-    setTransactionStatus({ 
-      visible: true, 
-      status: "pending", 
-      message: "Completing OTA update with FHE..." 
-    });
-    addLog(`Completing OTA update for record ${recordId}`);
-
-    try {
+  const handleCloseBatch = (batchId: number) => runTransaction(
+    `Closing batch #${batchId}...`,
+    `Batch #${batchId} closed!`,
+    async () => {
       const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const recordBytes = await contract.getData(`ota_record_${recordId}`);
-      if (recordBytes.length === 0) throw new Error("Record not found");
-      
-      const recordData = JSON.parse(ethers.toUtf8String(recordBytes));
-      const updatedRecord = { ...recordData, status: "completed" };
-      
-      await contract.setData(`ota_record_${recordId}`, ethers.toUtf8Bytes(JSON.stringify(updatedRecord)));
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: "OTA update completed successfully!" 
-      });
-      addLog(`OTA update completed for ${recordId}`);
-      
-      await loadOTARecords();
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ 
-        visible: true, 
-        status: "error", 
-        message: "Completion failed: " + (e.message || "Unknown error") 
-      });
-      addLog(`OTA completion failed: ${e.message}`);
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      await closeBatch(contract, batchId);
+      addLog(`Batch #${batchId} closed on chain`);
     }
-  };
+  );
 
-  const isOwner = (recordAddress: string) => address?.toLowerCase() === recordAddress.toLowerCase();
+  const handleRequestDecryption = (batchId: number) => runTransaction(
+    `Requesting oracle decryption for batch #${batchId}...`,
+    "Decryption requested from the Zama oracle!",
+    async () => {
+      const contract = await getContractWithSigner();
+      const requestIds = await requestBatchDecryption(contract, batchId);
+      addLog(`Decryption request${requestIds.length > 1 ? "s" : ""} ${requestIds.join(", ")} submitted for batch #${batchId}`);
+    },
+    "decryption"
+  );
 
   if (loading) return (
     <div className="loading-screen">
@@ -417,6 +473,13 @@ const App: React.FC = () => {
             <div className="nav-icon">🚗</div>
             <span>Vehicle Management</span>
           </button>
+          <button 
+            className={`nav-item ${activeTab === "oracle" ? "active" : ""}`}
+            onClick={() => setActiveTab("oracle")}
+          >
+            <div className="nav-icon">🔑</div>
+            <span>Oracle Decryptions</span>
+          </button>
           <button 
             className={`nav-item ${activeTab === "logs" ? "active" : ""}`}
             onClick={() => setActiveTab("logs")}
@@ -424,9 +487,19 @@ const App: React.FC = () => {
             <div className="nav-icon">📋</div>
             <span>Operation Logs</span>
           </button>
+          {accountState?.isOwner && (
+            <button 
+              className={`nav-item ${activeTab === "admin" ? "active" : ""}`}
+              onClick={() => setActiveTab("admin")}
+            >
+              <div className="nav-icon">🛠️</div>
+              <span>Admin</span>
+            </button>
+          )}
         </nav>
 
         <div className="sidebar-footer">
+          <NetworkSelector />
           <div className="wallet-connect-wrapper">
             <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
           </div>
@@ -440,15 +513,23 @@ const App: React.FC = () => {
             activeTab === "dashboard" ? "Secure OTA Dashboard" :
             activeTab === "updates" ? "FHE-Encrypted OTA Updates" :
             activeTab === "vehicles" ? "Vehicle Management" :
+            activeTab === "oracle" ? "Oracle Decryptions" :
+            activeTab === "admin" ? "Admin Console" :
             "Operation Logs"
           }</h2>
           <div className="header-actions">
-            <button onClick={loadOTARecords} className="refresh-btn" disabled={isRefreshing}>
+            <button onClick={loadBatches} className="refresh-btn" disabled={isRefreshing}>
               {isRefreshing ? "🔄 Refreshing..." : "🔄 Refresh"}
             </button>
-            <button onClick={() => setShowCreateModal(true)} className="create-update-btn">
-              + New OTA Update
-            </button>
+            {openBatch ? (
+              <button onClick={() => openCreateModal()} className="create-update-btn" disabled={!canOperate}>
+                + New OTA Update
+              </button>
+            ) : (
+              <button onClick={handleOpenBatch} className="create-update-btn" disabled={!canOperate}>
+                + Open Batch
+              </button>
+            )}
           </div>
         </header>
 
@@ -466,26 +547,85 @@ const App: React.FC = () => {
               <div className="stat-card">
                 <div className="stat-icon">🔒</div>
                 <div className="stat-info">
-                  <div className="stat-value">{otaRecords.length}</div>
-                  <div className="stat-label">OTA Updates</div>
+                  <div className="stat-value">{protocol?.totalBatches ?? 0}</div>
+                  <div className="stat-label">OTA Batches</div>
                 </div>
               </div>
               <div className="stat-card">
                 <div className="stat-icon">✅</div>
                 <div className="stat-info">
-                  <div className="stat-value">{completedCount}</div>
-                  <div className="stat-label">Completed</div>
+                  <div className="stat-value">{closedCount}</div>
+                  <div className="stat-label">Closed</div>
                 </div>
               </div>
               <div className="stat-card">
-                <div className="stat-icon">⚠️</div>
+                <div className="stat-icon">📦</div>
                 <div className="stat-info">
-                  <div className="stat-value">{failedCount}</div>
-                  <div className="stat-label">Failed</div>
+                  <div className="stat-value">{submittedCount}</div>
+                  <div className="stat-label">With Submissions</div>
                 </div>
               </div>
             </div>
 
+            {protocol && (
+              <div className="protocol-status">
+                <h3>Protocol Status</h3>
+                <div className="detail-grid">
+                  <div className="detail-item">
+                    <label>Network:</label>
+                    <span>{network.name} ({network.chainId})</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Contract:</label>
+                    <span>{explorerAddressUrl(network, network.contractAddress)
+                      ? <a href={explorerAddressUrl(network, network.contractAddress)!} target="_blank" rel="noreferrer">{network.contractAddress}</a>
+                      : network.contractAddress}</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>State:</label>
+                    <span className={`status-badge ${protocol.paused ? "failed" : "completed"}`}>
+                      {protocol.paused ? "paused" : "active"}
+                    </span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Current Batch:</label>
+                    <span>#{protocol.currentBatchId} {openBatch ? "(open)" : "(not opened)"}</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Cooldown:</label>
+                    <span>{protocol.cooldownSeconds}s</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Your Role:</label>
+                    <span>{
+                      !accountState ? "Not connected" :
+                      accountState.isOwner ? "Owner" :
+                      accountState.isProvider ? "Provider" :
+                      "Viewer"
+                    }</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            <RolloutCampaigns
+              campaigns={campaigns}
+              vehicles={vehicles}
+              account={address}
+              canOperate={canOperate}
+              isOwner={!!accountState?.isOwner}
+              batchOpen={!!openBatch}
+              submitWithManifest={submitWithManifest}
+              runTransaction={runTransaction}
+              onLog={addLog}
+            />
+
+            {accountState?.isOwner && (
+              <FleetStatistics histories={batchHistories} campaigns={campaigns} account={address} onLog={addLog} />
+            )}
+
+            <RpcStatusPanel />
+
             <div className="fhe-info-section">
               <h3>Zama FHE Security Features</h3>
               <div className="feature-grid">
@@ -519,55 +659,61 @@ const App: React.FC = () => {
 
             <div className="records-table">
               <div className="table-header">
-                <div>Vehicle ID</div>
-                <div>Version</div>
-                <div>File Size</div>
+                <div>Batch</div>
+                <div>Entries</div>
+                <div>Updates</div>
                 <div>Status</div>
-                <div>Date</div>
+                <div>Updated</div>
                 <div>Actions</div>
               </div>
 
-              {otaRecords.length === 0 ? (
+              {batches.length === 0 ? (
                 <div className="no-records">
                   <div className="no-records-icon">🔒</div>
-                  <p>No OTA update records found</p>
-                  <button onClick={() => setShowCreateModal(true)} className="primary-btn">
-                    Create First OTA Update
+                  <p>No OTA batches found</p>
+                  <button onClick={handleOpenBatch} className="primary-btn" disabled={!canOperate}>
+                    Open First Batch
                   </button>
                 </div>
               ) : (
-                otaRecords.map(record => (
-                  <div key={record.id} className="table-row">
-                    <div>{record.vehicleId}</div>
-                    <div>{record.version}</div>
-                    <div>{record.fileSize} MB</div>
+                batches.map(batch => (
+                  <div key={batch.id} className="table-row">
+                    <div>#{batch.id}</div>
+                    <div>{batch.entries.length}</div>
+                    <div>
+                      {hasSubmission(batch)
+                        ? countStatuses(batch.entries, statusTimeouts, Math.floor(Date.now() / 1000)).map(([status, count]) => (
+                          <span key={status} className={`status-badge ${status}`}>{count} {status}</span>
+                        ))
+                        : "—"}
+                    </div>
                     <div>
-                      <span className={`status-badge ${record.status}`}>
-                        {record.status}
+                      <span className={`status-badge ${batch.isOpen ? "pending" : "completed"}`}>
+                        {batch.isOpen ? "open" : "closed"}
                       </span>
                     </div>
-                    <div>{new Date(record.timestamp * 1000).toLocaleDateString()}</div>
+                    <div>{new Date(batch.timestamp * 1000).toLocaleDateString()}</div>
                     <div className="action-buttons">
                       <button 
-                        onClick={() => setSelectedRecord(record)}
+                        onClick={() => setSelectedBatch(batch)}
                         className="action-btn view"
                       >
                         View
                       </button>
-                      {isOwner(record.owner) && record.status === "pending" && (
+                      {canOperate && batch.isOpen && (
                         <button 
-                          onClick={() => verifyUpdateIntegrity(record.id)}
+                          onClick={() => handleCloseBatch(batch.id)}
                           className="action-btn verify"
                         >
-                          Verify
+                          Close
                         </button>
                       )}
-                      {isOwner(record.owner) && record.status === "downloading" && (
+                      {canOperate && !batch.isOpen && hasSubmission(batch) && (
                         <button 
-                          onClick={() => completeUpdate(record.id)}
+                          onClick={() => handleRequestDecryption(batch.id)}
                           className="action-btn complete"
                         >
-                          Complete
+                          Decrypt
                         </button>
                       )}
                     </div>
@@ -586,28 +732,45 @@ const App: React.FC = () => {
               <p>Manage your vehicle fleet with FHE-protected identities</p>
             </div>
 
-            <div className="vehicles-grid">
-              {vehicles.map((vehicleId, index) => (
-                <div key={vehicleId} className="vehicle-card">
-                  <div className="vehicle-icon">🚗</div>
-                  <div className="vehicle-info">
-                    <h4>{vehicleId}</h4>
-                    <p>Vehicle #{index + 1}</p>
-                    <div className="vehicle-status">
-                      <span className="status-online">Online</span>
-                    </div>
-                  </div>
-                  <div className="vehicle-actions">
-                    <button className="btn-small">Details</button>
-                    <button className="btn-small">Update</button>
-                  </div>
-                </div>
-              ))}
+            <VehicleRegistry
+              vehicles={vehicles}
+              activeUpdates={activeUpdates}
+              account={address}
+              canOperate={canOperate}
+              runTransaction={runTransaction}
+              onChanged={loadVehicles}
+              onCreateUpdate={openCreateModal}
+              onLog={addLog}
+            />
+          </div>
+        )}
+
+        {/* Oracle Decryptions Tab */}
+        {activeTab === "oracle" && (
+          <div className="oracle-content">
+            <div className="section-header">
+              <h3>Oracle Decryption Requests</h3>
+              <p>Public decryptions requested per batch and the oracle callbacks that answered them</p>
             </div>
 
-            <button className="add-vehicle-btn">
-              + Register New Vehicle
-            </button>
+            <DecryptionRequestsPanel requests={oracleRequests} />
+          </div>
+        )}
+
+        {/* Admin Tab */}
+        {activeTab === "admin" && accountState?.isOwner && protocol && address && (
+          <div className="admin-content">
+            <div className="section-header">
+              <h3>Admin Console</h3>
+              <p>Owner-only controls for providers, pause state, cooldown and ownership</p>
+            </div>
+
+            <AdminConsole
+              protocol={protocol}
+              account={address}
+              runTransaction={runTransaction}
+              onLog={addLog}
+            />
           </div>
         )}
 
@@ -643,53 +806,57 @@ const App: React.FC = () => {
             </div>
             <div className="modal-body">
               <div className="form-group">
-                <label>Vehicle ID</label>
+                <label>Vehicle</label>
+                <input
+                  type="text"
+                  value={vehicleSearch}
+                  onChange={(e) => setVehicleSearch(e.target.value)}
+                  placeholder="Filter by model, ECU or firmware"
+                  className="form-input"
+                />
                 <select 
-                  value={newUpdateData.vehicleId}
-                  onChange={(e) => setNewUpdateData({...newUpdateData, vehicleId: e.target.value})}
+                  value={newUpdateData.vehicleIndex}
+                  onChange={(e) => setNewUpdateData({...newUpdateData, vehicleIndex: parseInt(e.target.value) || 0})}
                   className="form-input"
                 >
-                  <option value="">Select Vehicle</option>
-                  {vehicles.map(vehicle => (
-                    <option key={vehicle} value={vehicle}>{vehicle}</option>
+                  <option value={0}>Select Vehicle</option>
+                  {filterVehicles(vehicles, { search: vehicleSearch }).map(vehicle => (
+                    <option key={vehicle.index} value={vehicle.index}>
+                      #{vehicle.index} · {vehicle.model} · {vehicle.ecuType} · {vehicle.firmwareVersion || "unknown firmware"}
+                    </option>
                   ))}
                 </select>
               </div>
               <div className="form-group">
-                <label>Firmware Version</label>
-                <input 
-                  type="text"
-                  value={newUpdateData.version}
-                  onChange={(e) => setNewUpdateData({...newUpdateData, version: e.target.value})}
-                  placeholder="e.g., v2.1.0"
-                  className="form-input"
-                />
-              </div>
-              <div className="form-group">
-                <label>File Size (MB)</label>
-                <input 
-                  type="number"
-                  value={newUpdateData.fileSize}
-                  onChange={(e) => setNewUpdateData({...newUpdateData, fileSize: parseInt(e.target.value) || 0})}
-                  className="form-input"
-                />
-              </div>
-              <div className="form-group">
-                <label>Description</label>
-                <textarea 
-                  value={newUpdateData.description}
-                  onChange={(e) => setNewUpdateData({...newUpdateData, description: e.target.value})}
-                  placeholder="Update description..."
-                  className="form-input"
-                  rows={3}
+                <label>Firmware Manifest</label>
+                <ManifestEditor
+                  value={newUpdateData.manifest}
+                  parsed={parsedManifest}
+                  vehicle={selectedVehicle}
+                  onChange={(manifest) => setNewUpdateData({...newUpdateData, manifest})}
+                  onFirmware={(file) => {
+                    setPayloadFile(file);
+                    setPayloadDeltas({});
+                  }}
+                  onDelta={(digest, patch) => setPayloadDeltas(deltas => ({ ...deltas, [digest]: patch }))}
                 />
               </div>
+              {isPayloadStoreEnabled() && (
+                <div className="form-group">
+                  <label>Firmware Image</label>
+                  <div className="session-info">
+                    {payloadFile
+                      ? `${payloadFile.name}${Object.keys(payloadDeltas).length ? " and its deltas are" : " is"} encrypted under a fresh key and stored by digest before the update is sent`
+                      : "Use \"Hash firmware file\" to attach the image; without it the payload must already be stored"}
+                  </div>
+                </div>
+              )}
               <div className="encryption-preview">
                 <h4>FHE Encryption Preview</h4>
                 <div className="preview">
-                  <div>Original Size: {newUpdateData.fileSize} MB</div>
+                  <div>Target Batch: #{openBatch?.id ?? "—"}</div>
                   <div>→</div>
-                  <div>Encrypted: {newUpdateData.fileSize ? FHEEncryptNumber(newUpdateData.fileSize).substring(0, 30) + '...' : 'N/A'}</div>
+                  <div>Manifest → EIP-712 signature, hash and payload SHA-256 on chain; package id → euint32 handle;{isPayloadStoreEnabled() ? " payload key → euint256 handle for the vehicle agent;" : ""} vehicle id reused from the registry</div>
                 </div>
               </div>
             </div>
@@ -705,80 +872,20 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {/* Record Detail Modal */}
-      {selectedRecord && (
-        <div className="modal-overlay">
-          <div className="modal-content large">
-            <div className="modal-header">
-              <h3>OTA Update Details - {selectedRecord.vehicleId}</h3>
-              <button onClick={() => setSelectedRecord(null)} className="close-btn">
-                &times;
-              </button>
-            </div>
-            <div className="modal-body">
-              <div className="detail-grid">
-                <div className="detail-item">
-                  <label>Vehicle ID:</label>
-                  <span>{selectedRecord.vehicleId}</span>
-                </div>
-                <div className="detail-item">
-                  <label>Version:</label>
-                  <span>{selectedRecord.version}</span>
-                </div>
-                <div className="detail-item">
-                  <label>Status:</label>
-                  <span className={`status-badge ${selectedRecord.status}`}>
-                    {selectedRecord.status}
-                  </span>
-                </div>
-                <div className="detail-item">
-                  <label>File Size:</label>
-                  <span>{selectedRecord.fileSize} MB</span>
-                </div>
-                <div className="detail-item">
-                  <label>Created:</label>
-                  <span>{new Date(selectedRecord.timestamp * 1000).toLocaleString()}</span>
-                </div>
-                <div className="detail-item">
-                  <label>Owner:</label>
-                  <span>{selectedRecord.owner.substring(0, 10)}...{selectedRecord.owner.substring(34)}</span>
-                </div>
-              </div>
-
-              <div className="encryption-section">
-                <h4>FHE Encryption Details</h4>
-                <div className="encrypted-data">
-                  {selectedRecord.encryptedFirmware.substring(0, 100)}...
-                </div>
-                <button 
-                  onClick={async () => {
-                    if (decryptedSize === null) {
-                      const decrypted = await decryptWithSignature(selectedRecord.encryptedFirmware);
-                      setDecryptedSize(decrypted);
-                    } else {
-                      setDecryptedSize(null);
-                    }
-                  }}
-                  disabled={isDecrypting}
-                  className="decrypt-btn"
-                >
-                  {isDecrypting ? "Decrypting..." : 
-                   decryptedSize !== null ? "Hide Decrypted Value" : "Decrypt with Wallet"}
-                </button>
-                {decryptedSize !== null && (
-                  <div className="decrypted-value">
-                    Decrypted File Size: {decryptedSize} MB
-                  </div>
-                )}
-              </div>
-
-              <div className="description-section">
-                <h4>Description</h4>
-                <p>{selectedRecord.description}</p>
-              </div>
-            </div>
-          </div>
-        </div>
+      {/* Batch Detail Modal */}
+      {detailBatch && (
+        <BatchDetailsModal
+          batch={detailBatch}
+          history={batchHistories.get(detailBatch.id)}
+          account={address}
+          canOperate={canOperate}
+          rolesFor={rolesFor}
+          timeouts={statusTimeouts}
+          paused={!!protocol?.paused}
+          runTransaction={runTransaction}
+          onClose={() => setSelectedBatch(null)}
+          onLog={addLog}
+        />
       )}
 
       {/* Transaction Status Modal */}
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { ACTIVE_STATUSES, StatusTimeouts } from '../../../../lifecycle';
+import { getContractReadOnly, getContractWithSigner } from '../contract';
+import { getActiveNetwork } from '../networks';
+import { fetchIndexedProviders, isIndexerEnabled } from '../indexerApi';
+import {
+  ProtocolState,
+  ProviderEntry,
+  addProvider,
+  fetchProviders,
+  removeProvider,
+  setCooldownSeconds,
+  setPaused,
+  setStatusTimeout,
+  transferOwnership
+} from '../otaService';
+
+interface AdminConsoleProps {
+  protocol: ProtocolState;
+  account: string;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onLog: (message: string) => void;
+}
+
+export default function AdminConsole({ protocol, account, runTransaction, onLog }: AdminConsoleProps) {
+  const [providers, setProviders] = useState<ProviderEntry[]>([]);
+  const [loadingProviders, setLoadingProviders] = useState(false);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldown, setCooldown] = useState(protocol.cooldownSeconds);
+  const [timeouts, setTimeouts] = useState<StatusTimeouts>(protocol.statusTimeouts);
+  const [newOwner, setNewOwner] = useState("");
+  const [ownerConfirmation, setOwnerConfirmation] = useState("");
+  const [transferStep, setTransferStep] = useState<"edit" | "confirm">("edit");
+
+  useEffect(() => {
+    loadProviders();
+  }, []);
+
+  useEffect(() => {
+    setCooldown(protocol.cooldownSeconds);
+  }, [protocol.cooldownSeconds]);
+
+  useEffect(() => {
+    setTimeouts(protocol.statusTimeouts);
+  }, [protocol.statusTimeouts]);
+
+  const changedTimeouts = ACTIVE_STATUSES.filter(status => (timeouts[status] ?? 0) !== (protocol.statusTimeouts[status] ?? 0));
+
+  const loadProviders = async () => {
+    setLoadingProviders(true);
+    try {
+      if (isIndexerEnabled()) {
+        const list = await fetchIndexedProviders();
+        setProviders(list);
+        onLog(`Loaded ${list.length} providers from indexer`);
+        return;
+      }
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      const list = await fetchProviders(contract, getActiveNetwork().deployBlock);
+      setProviders(list);
+      onLog(`Loaded ${list.length} providers from ProviderAdded/ProviderRemoved events`);
+    } catch (e) {
+      console.error("Error loading providers:", e);
+      onLog("Error reconstructing provider list from events");
+    } finally {
+      setLoadingProviders(false);
+    }
+  };
+
+  const handleAddProvider = async () => {
+    if (!ethers.isAddress(newProvider)) {
+      alert("Enter a valid provider address");
+      return;
+    }
+    const ok = await runTransaction("Adding provider...", "Provider added!", async () => {
+      await addProvider(await getContractWithSigner(), newProvider);
+      onLog(`Provider ${newProvider} added`);
+    });
+    if (ok) {
+      setNewProvider("");
+      await loadProviders();
+    }
+  };
+
+  const handleRemoveProvider = async (provider: string) => {
+    if (!window.confirm(`Remove provider ${provider}?`)) return;
+    const ok = await runTransaction("Removing provider...", "Provider removed!", async () => {
+      await removeProvider(await getContractWithSigner(), provider);
+      onLog(`Provider ${provider} removed`);
+    });
+    if (ok) await loadProviders();
+  };
+
+  const handleTogglePause = () => runTransaction(
+    protocol.paused ? "Unpausing protocol..." : "Pausing protocol...",
+    protocol.paused ? "Protocol unpaused!" : "Protocol paused!",
+    async () => {
+      await setPaused(await getContractWithSigner(), !protocol.paused);
+      onLog(protocol.paused ? "Protocol unpaused" : "Protocol paused");
+    }
+  );
+
+  const handleSetCooldown = () => {
+    if (!Number.isInteger(cooldown) || cooldown < 0) {
+      alert("Cooldown must be a non-negative number of seconds");
+      return;
+    }
+    return runTransaction("Updating cooldown...", "Cooldown updated!", async () => {
+      await setCooldownSeconds(await getContractWithSigner(), cooldown);
+      onLog(`Cooldown changed from ${protocol.cooldownSeconds}s to ${cooldown}s`);
+    });
+  };
+
+  const handleSetTimeouts = () => {
+    if (changedTimeouts.some(status => !Number.isInteger(timeouts[status]) || timeouts[status]! < 0)) {
+      alert("Timeouts must be non-negative numbers of seconds");
+      return;
+    }
+    return runTransaction("Updating status timeouts...", "Status timeouts updated!", async () => {
+      const contract = await getContractWithSigner();
+      for (const status of changedTimeouts) {
+        await setStatusTimeout(contract, status, timeouts[status] ?? 0);
+        onLog(`Timeout for ${status} updates changed from ${protocol.statusTimeouts[status] ?? 0}s to ${timeouts[status] ?? 0}s`);
+      }
+    });
+  };
+
+  const reviewTransfer = () => {
+    if (!ethers.isAddress(newOwner) || newOwner === ethers.ZeroAddress) {
+      alert("Enter a valid, non-zero owner address");
+      return;
+    }
+    if (newOwner.toLowerCase() === account.toLowerCase()) {
+      alert("That address already owns the contract");
+      return;
+    }
+    setOwnerConfirmation("");
+    setTransferStep("confirm");
+  };
+
+  const cancelTransfer = () => {
+    setTransferStep("edit");
+    setOwnerConfirmation("");
+  };
+
+  const confirmTransfer = async () => {
+    if (ownerConfirmation.toLowerCase() !== newOwner.toLowerCase()) {
+      alert("The confirmation address does not match");
+      return;
+    }
+    const ok = await runTransaction("Transferring ownership...", "Ownership transferred!", async () => {
+      await transferOwnership(await getContractWithSigner(), newOwner);
+      onLog(`Ownership transferred to ${newOwner}`);
+    });
+    if (ok) {
+      setNewOwner("");
+      cancelTransfer();
+    }
+  };
+
+  return (
+    <div className="admin-console">
+      <div className="admin-section">
+        <h4>Protocol State</h4>
+        <p>
+          The protocol is currently <strong>{protocol.paused ? "paused" : "active"}</strong>.
+          {protocol.paused ? " Providers cannot open, submit, close or decrypt batches." : ""}
+        </p>
+        <button onClick={handleTogglePause} className={protocol.paused ? "primary-btn" : "btn-secondary"}>
+          {protocol.paused ? "Unpause Protocol" : "Pause Protocol"}
+        </button>
+      </div>
+
+      <div className="admin-section">
+        <h4>Submission Cooldown</h4>
+        <div className="form-group">
+          <label>Cooldown (seconds)</label>
+          <input
+            type="number"
+            min={0}
+            value={cooldown}
+            onChange={(e) => setCooldown(parseInt(e.target.value) || 0)}
+            className="form-input"
+          />
+        </div>
+        <button onClick={handleSetCooldown} disabled={cooldown === protocol.cooldownSeconds} className="primary-btn">
+          Save Cooldown
+        </button>
+      </div>
+
+      <div className="admin-section">
+        <h4>Update Status Timeouts</h4>
+        <p>Anyone can fail an update that stays longer than this in a status; 0 disables the timeout.</p>
+        {ACTIVE_STATUSES.map(status => (
+          <div key={status} className="form-group">
+            <label>{status} (seconds)</label>
+            <input
+              type="number"
+              min={0}
+              value={timeouts[status] ?? 0}
+              onChange={(e) => setTimeouts({ ...timeouts, [status]: parseInt(e.target.value) || 0 })}
+              className="form-input"
+            />
+          </div>
+        ))}
+        <button onClick={handleSetTimeouts} disabled={changedTimeouts.length === 0} className="primary-btn">
+          Save Timeouts
+        </button>
+      </div>
+
+      <div className="admin-section">
+        <h4>Providers</h4>
+        <div className="records-table">
+          <div className="table-header">
+            <div>Address</div>
+            <div>Added At Block</div>
+            <div>Actions</div>
+          </div>
+          {loadingProviders ? (
+            <div className="table-row"><div>Loading providers...</div></div>
+          ) : providers.map(provider => (
+            <div key={provider.address} className="table-row">
+              <div>{provider.address}</div>
+              <div>{provider.addedAtBlock}</div>
+              <div className="action-buttons">
+                <button onClick={() => handleRemoveProvider(provider.address)} className="action-btn verify">
+                  Remove
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="form-group">
+          <label>New Provider</label>
+          <input
+            type="text"
+            value={newProvider}
+            onChange={(e) => setNewProvider(e.target.value.trim())}
+            placeholder="0x..."
+            className="form-input"
+          />
+        </div>
+        <button onClick={handleAddProvider} className="primary-btn">
+          Add Provider
+        </button>
+      </div>
+
+      <div className="admin-section">
+        <h4>Transfer Ownership</h4>
+        {transferStep === "edit" ? (
+          <>
+            <div className="form-group">
+              <label>New Owner</label>
+              <input
+                type="text"
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value.trim())}
+                placeholder="0x..."
+                className="form-input"
+              />
+            </div>
+            <button onClick={reviewTransfer} className="btn-secondary">
+              Review Transfer
+            </button>
+          </>
+        ) : (
+          <>
+            <p>
+              You are about to hand over ownership to <strong>{newOwner}</strong>.
+              Your account will lose access to this console immediately and the transfer cannot be undone from here.
+            </p>
+            <div className="form-group">
+              <label>Type the new owner address again to confirm</label>
+              <input
+                type="text"
+                value={ownerConfirmation}
+                onChange={(e) => setOwnerConfirmation(e.target.value.trim())}
+                placeholder="0x..."
+                className="form-input"
+              />
+            </div>
+            <div className="action-buttons">
+              <button onClick={cancelTransfer} className="btn-secondary">
+                Cancel
+              </button>
+              <button
+                onClick={confirmTransfer}
+                disabled={ownerConfirmation.toLowerCase() !== newOwner.toLowerCase()}
+                className="primary-btn"
+              >
+                Confirm Transfer
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from 'react';
+import { StatusTimeouts, UpdateRole, effectiveStatus } from '../../../../lifecycle';
+import { getContractAddress, getSigner } from '../contract';
+import { isUserRejection } from '../errors';
+import { BatchHistory, HistoryEvent, decryptedEntry } from '../history';
+import { IndexedManifest, fetchIndexedManifest, isIndexerEnabled } from '../indexerApi';
+import { explorerTxUrl, getActiveNetwork } from '../networks';
+import { OtaBatch, OtaEntry, countStatuses, hasSubmission } from '../otaService';
+import DeltaSavings from './DeltaSavings';
+import DownloadProgress from './DownloadProgress';
+import PayloadIntegrityPanel from './PayloadIntegrityPanel';
+import UpdateLifecyclePanel from './UpdateLifecyclePanel';
+import {
+  DecryptionSession,
+  getOrCreateDecryptionSession,
+  loadCachedSession,
+  sessionExpiresAt,
+  userDecryptHandles
+} from '../userDecryption';
+
+interface BatchDetailsModalProps {
+  batch: OtaBatch;
+  history?: BatchHistory;
+  account?: string;
+  canOperate: boolean;
+  rolesFor: (entry: OtaEntry) => UpdateRole[];
+  timeouts: StatusTimeouts;
+  paused: boolean;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onClose: () => void;
+  onLog: (message: string) => void;
+}
+
+interface DecryptedEntry {
+  updatePackageId: bigint | null;
+  vehicleId: bigint | null;
+  denied: number;
+}
+
+const ENTRIES_PER_PAGE = 10;
+
+const describeEvent = (event: HistoryEvent) => {
+  switch (event.name) {
+    case "BatchOpened":
+      return "Batch opened";
+    case "UpdateSubmitted":
+      return `Entry #${event.entryIndex}: encrypted update submitted by ${event.provider}`;
+    case "BatchClosed":
+      return "Batch closed";
+    case "IntegrityVerified":
+      return `Entry #${event.entryIndex}: payload integrity ${event.passed ? "verified" : "check failed"} by ${event.verifier}`;
+    case "UpdateStatusChanged":
+      return `Entry #${event.entryIndex}: update ${event.from} → ${event.to} by ${event.actor}${event.reason ? ` (${event.reason})` : ""}`;
+    case "DecryptionRequested":
+      return `Oracle decryption #${event.requestId} requested for entries ${event.fromEntry}-${event.fromEntry! + event.entryCount! - 1}`;
+    case "DecryptionCompleted":
+      return `Oracle decryption #${event.requestId} completed for ${event.updatePackageIds!.length} entries`;
+    case "TallyUpdated":
+      return "Encrypted outcome tallies updated";
+  }
+};
+
+const TxLink = ({ hash }: { hash: string }) => {
+  const url = explorerTxUrl(getActiveNetwork(), hash);
+  const label = `${hash.substring(0, 10)}...`;
+  return url ? <a href={url} target="_blank" rel="noreferrer">{label}</a> : <>{label}</>;
+};
+
+export default function BatchDetailsModal({
+  batch,
+  history,
+  account,
+  canOperate,
+  rolesFor,
+  timeouts,
+  paused,
+  runTransaction,
+  onClose,
+  onLog
+}: BatchDetailsModalProps) {
+  const [page, setPage] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [session, setSession] = useState<DecryptionSession | null>(null);
+  const [decrypted, setDecrypted] = useState<DecryptedEntry | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [manifest, setManifest] = useState<IndexedManifest | null>(null);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const now = Math.floor(Date.now() / 1000);
+  const entry: OtaEntry | undefined = batch.entries[selectedIndex];
+  const pageCount = Math.max(1, Math.ceil(batch.entries.length / ENTRIES_PER_PAGE));
+  const pageEntries = batch.entries.slice(page * ENTRIES_PER_PAGE, (page + 1) * ENTRIES_PER_PAGE);
+  const published = entry && history ? decryptedEntry(history, entry.index) : null;
+
+  useEffect(() => {
+    setPage(0);
+    setSelectedIndex(0);
+  }, [batch.id]);
+
+  useEffect(() => {
+    setSession(account ? loadCachedSession(account, getContractAddress()) : null);
+    setDecrypted(null);
+    setError(null);
+  }, [account, batch.id, selectedIndex]);
+
+  useEffect(() => {
+    setManifest(null);
+    setManifestError(null);
+    if (!entry || !isIndexerEnabled()) return;
+    let cancelled = false;
+    fetchIndexedManifest(entry.manifestHash)
+      .then(found => { if (!cancelled) setManifest(found); })
+      .catch(e => { if (!cancelled) setManifestError(e.message || "Manifest lookup failed"); });
+    return () => {
+      cancelled = true;
+    };
+  }, [batch.id, entry?.manifestHash]);
+
+  const decrypt = async () => {
+    if (!entry) return;
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setIsDecrypting(true);
+    setError(null);
+    try {
+      const signer = await getSigner();
+      if (!session) onLog("Requesting EIP-712 decryption authorization from wallet...");
+      const activeSession = session ?? await getOrCreateDecryptionSession(signer, getContractAddress());
+      setSession(activeSession);
+
+      const handles = [entry.updatePackageIdEncrypted, entry.vehicleIdEncrypted];
+      const { values, denied } = await userDecryptHandles(activeSession, signer, handles);
+      setDecrypted({
+        updatePackageId: values[entry.updatePackageIdEncrypted] ?? null,
+        vehicleId: values[entry.vehicleIdEncrypted] ?? null,
+        denied: denied.length
+      });
+      onLog(`User decryption for batch #${batch.id} entry #${entry.index}: ${Object.keys(values).length} handle(s) decrypted, ${denied.length} denied by ACL`);
+    } catch (e: any) {
+      console.error("User decryption failed:", e);
+      setError(isUserRejection(e) ? "Signature rejected by user" : (e.message || "Decryption failed"));
+      onLog(`User decryption failed for batch #${batch.id} entry #${entry.index}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content large">
+        <div className="modal-header">
+          <h3>OTA Batch Details - #{batch.id}</h3>
+          <button onClick={onClose} className="close-btn">
+            &times;
+          </button>
+        </div>
+        <div className="modal-body">
+          <div className="detail-grid">
+            <div className="detail-item">
+              <label>Batch:</label>
+              <span>#{batch.id}</span>
+            </div>
+            <div className="detail-item">
+              <label>Status:</label>
+              <span className={`status-badge ${batch.isOpen ? "pending" : "completed"}`}>
+                {batch.isOpen ? "open" : "closed"}
+              </span>
+            </div>
+            <div className="detail-item">
+              <label>Entries:</label>
+              <span>{batch.entries.length}</span>
+            </div>
+            <div className="detail-item">
+              <label>Updates:</label>
+              <span>
+                {countStatuses(batch.entries, timeouts, now).map(([status, count]) => (
+                  <span key={status} className={`status-badge ${status}`}>{count} {status}</span>
+                ))}
+              </span>
+            </div>
+            <div className="detail-item">
+              <label>Last Updated:</label>
+              <span>{new Date(batch.timestamp * 1000).toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="encryption-section">
+            <h4>Batch Entries</h4>
+            {hasSubmission(batch) ? (
+              <>
+                {pageEntries.map(item => {
+                  const status = effectiveStatus(item.status, item.statusUpdatedAt, timeouts, now);
+                  return (
+                    <div
+                      key={item.index}
+                      onClick={() => setSelectedIndex(item.index)}
+                      className={`entry-row ${item.index === selectedIndex ? "selected" : ""}`}
+                    >
+                      <span>#{item.index}</span>
+                      <span>{item.vehicleIndex > 0 ? `Vehicle #${item.vehicleIndex}` : "Raw vehicle id"}</span>
+                      <span>{item.provider.substring(0, 10)}...</span>
+                      <span>{new Date(item.timestamp * 1000).toLocaleString()}</span>
+                      <span className={`status-badge ${status}`}>{status}</span>
+                      {status === "downloading" && <DownloadProgress percent={item.downloadProgress} />}
+                    </div>
+                  );
+                })}
+                {pageCount > 1 && (
+                  <div className="entry-pager">
+                    <button onClick={() => setPage(page - 1)} disabled={page === 0} className="btn-small">Previous</button>
+                    <span>Page {page + 1} of {pageCount}</span>
+                    <button onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1} className="btn-small">Next</button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <p>No update has been submitted to this batch yet.</p>
+            )}
+          </div>
+
+          {entry && (
+            <div className="encryption-section">
+              <h4>Entry #{entry.index} · FHE Encryption Details</h4>
+              <div className="encrypted-data">
+                Package: {entry.updatePackageIdEncrypted}
+              </div>
+              <div className="encrypted-data">
+                Vehicle: {entry.vehicleIdEncrypted}
+              </div>
+              {published && (
+                <div className="decrypted-value">
+                  <div>Published by the oracle: package #{published.updatePackageId} → {published.vehicleId ? `VEH${published.vehicleId}` : "registry vehicle"}</div>
+                </div>
+              )}
+              <button
+                onClick={decrypted ? () => setDecrypted(null) : decrypt}
+                disabled={isDecrypting}
+                className="decrypt-btn"
+              >
+                {isDecrypting ? "Decrypting..." :
+                 decrypted ? "Hide Decrypted Values" :
+                 session ? "Decrypt (authorized)" : "Authorize & Decrypt"}
+              </button>
+              {session && (
+                <p className="session-info">
+                  Decryption authorization valid until {new Date(sessionExpiresAt(session) * 1000).toLocaleString()}
+                </p>
+              )}
+              {decrypted && (
+                <div className="decrypted-value">
+                  <div>Package: {decrypted.updatePackageId !== null ? `#${decrypted.updatePackageId}` : "no access"}</div>
+                  <div>Vehicle: {decrypted.vehicleId !== null ? `VEH${decrypted.vehicleId}` : "no access"}</div>
+                  {decrypted.denied > 0 && (
+                    <div>{decrypted.denied} handle(s) are not shared with your account</div>
+                  )}
+                </div>
+              )}
+              {error && <div className="decrypt-error">{error}</div>}
+            </div>
+          )}
+
+          {entry && (
+            <div className="encryption-section">
+              <h4>Firmware Manifest</h4>
+              <div className="encrypted-data">Hash: {entry.manifestHash}</div>
+              {manifest ? (
+                <div className="detail-grid">
+                  <div className="detail-item">
+                    <label>Version:</label>
+                    <span>v{manifest.document.manifest.version}</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Targets:</label>
+                    <span>{manifest.document.manifest.targetModels.join(", ")} / {manifest.document.manifest.targetEcus.join(", ")}</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Prior Versions:</label>
+                    <span>{manifest.document.manifest.minPriorVersion || "*"} - {manifest.document.manifest.maxPriorVersion || "*"}</span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Payload:</label>
+                    <span className={`status-badge ${manifest.document.manifest.payloadDigest === entry.payloadDigest.toLowerCase() ? "completed" : "failed"}`}>
+                      {manifest.document.manifest.payloadSize} bytes, SHA-256 {manifest.document.manifest.payloadDigest.substring(0, 18)}...
+                      {manifest.document.manifest.payloadDigest !== entry.payloadDigest.toLowerCase() ? " (differs from the committed digest)" : ""}
+                    </span>
+                  </div>
+                  <div className="detail-item">
+                    <label>Deltas:</label>
+                    <DeltaSavings manifest={manifest.document.manifest} />
+                  </div>
+                  <div className="detail-item">
+                    <label>Signed By:</label>
+                    <span className={`status-badge ${entry.provider.toLowerCase() === manifest.signer.toLowerCase() ? "completed" : "failed"}`}>
+                      {manifest.signer}
+                      {entry.provider.toLowerCase() !== manifest.signer.toLowerCase() ? " (not the submitter)" : ""}
+                    </span>
+                  </div>
+                </div>
+              ) : (
+                <p>{
+                  !isIndexerEnabled() ? "Signed manifests are served by the indexer; set VITE_INDEXER_URL to look this one up." :
+                  manifestError ?? "Looking up the signed manifest..."
+                }</p>
+              )}
+            </div>
+          )}
+
+          {entry && (
+            <PayloadIntegrityPanel
+              entry={entry}
+              history={history}
+              payloadSize={manifest?.document.manifest.payloadSize}
+              canOperate={canOperate}
+              runTransaction={runTransaction}
+              onLog={onLog}
+            />
+          )}
+
+          {entry && (
+            <UpdateLifecyclePanel
+              entry={entry}
+              transitions={history?.transitions.filter(transition => transition.entryIndex === entry.index)}
+              roles={rolesFor(entry)}
+              timeouts={timeouts}
+              paused={paused}
+              runTransaction={runTransaction}
+              onLog={onLog}
+            />
+          )}
+
+          {history && (
+            <div className="encryption-section">
+              <h4>Event History</h4>
+              <div className="logs-container">
+                {history.events.map(event => (
+                  <div key={event.id} className="log-entry">
+                    <span className="log-time">{new Date(event.timestamp * 1000).toLocaleString()}</span>
+                    <span className="log-message">
+                      {describeEvent(event)} (block {event.blockNumber}, tx <TxLink hash={event.txHash} />)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { OracleRequest } from '../decryptionTracker';
+import { explorerTxUrl, getActiveNetwork } from '../networks';
+
+interface DecryptionRequestsPanelProps {
+  requests: OracleRequest[];
+}
+
+const FAILURE_EXPLANATIONS: Record<string, string> = {
+  StateMismatch: "Batch ciphertexts changed after the request; the callback's state hash no longer matches.",
+  ReplayAttempt: "The request was already marked processed; a second callback was rejected.",
+  DecryptionFailed: "The oracle answer could not be decoded into the requested values."
+};
+
+// Entries listed per fulfilled request before the rest are summarized
+const SHOWN_RESULTS = 5;
+
+const entryRange = (request: OracleRequest) =>
+  request.entryCount > 1 ? `entries ${request.fromEntry}-${request.fromEntry + request.entryCount - 1}` : `entry ${request.fromEntry}`;
+
+const describeResult = (result: NonNullable<OracleRequest["result"]>, fromEntry: number) => {
+  const shown = result.updatePackageIds.slice(0, SHOWN_RESULTS)
+    .map((id, i) => `#${fromEntry + i}: package #${id} → ${result.vehicleIds[i] ? `VEH${result.vehicleIds[i]}` : "registry vehicle"}`);
+  const hidden = result.updatePackageIds.length - shown.length;
+  return hidden > 0 ? [...shown, `+${hidden} more`] : shown;
+};
+
+const statusBadgeClass = (status: OracleRequest["status"]) =>
+  status === "fulfilled" ? "completed" :
+  status === "pending" ? "pending" :
+  status === "timed-out" ? "downloading" :
+  "failed";
+
+export default function DecryptionRequestsPanel({ requests }: DecryptionRequestsPanelProps) {
+  const network = getActiveNetwork();
+  const batchIds = Array.from(new Set(requests.map(r => r.batchId))).sort((a, b) => b - a);
+
+  if (requests.length === 0) {
+    return (
+      <div className="no-records">
+        <div className="no-records-icon">🔑</div>
+        <p>No decryption requests have been sent to the oracle yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="oracle-requests">
+      {batchIds.map(batchId => (
+        <div key={batchId} className="records-table oracle-batch">
+          <div className="table-header">
+            <div>Batch #{batchId}</div>
+            <div>Request</div>
+            <div>Requested</div>
+            <div>Status</div>
+            <div>Result</div>
+            <div></div>
+          </div>
+          {requests.filter(r => r.batchId === batchId).map(request => (
+            <div key={request.requestId.toString()} className="table-row">
+              <div>
+                {!request.txHash ? "—" : explorerTxUrl(network, request.txHash)
+                  ? <a href={explorerTxUrl(network, request.txHash)!} target="_blank" rel="noreferrer">{request.txHash.substring(0, 10)}...</a>
+                  : `${request.txHash.substring(0, 10)}...`}
+              </div>
+              <div>#{request.requestId.toString()} · {entryRange(request)}</div>
+              <div>{request.requestedBlock ? new Date(request.requestedAt * 1000).toLocaleString() : "—"}</div>
+              <div>
+                <span className={`status-badge ${statusBadgeClass(request.status)}`}>
+                  {request.failure ? `${request.status}: ${request.failure}` : request.status}
+                </span>
+              </div>
+              <div>
+                {request.result
+                  ? describeResult(request.result, request.fromEntry).map(line => <div key={line}>{line}</div>)
+                  : request.failure
+                    ? FAILURE_EXPLANATIONS[request.failure]
+                    : request.status === "timed-out"
+                      ? "No oracle answer yet; state still accepts a valid callback"
+                      : "Waiting for oracle"}
+              </div>
+              <div></div>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import React from 'react';
+import { FirmwareManifest, deltaSavings } from '../../../../manifest';
+
+interface DeltaSavingsProps {
+  manifest: FirmwareManifest;
+}
+
+// Download size per base version against the full payload
+export default function DeltaSavings({ manifest }: DeltaSavingsProps) {
+  if (manifest.deltas.length === 0) return <span>Full image only ({manifest.payloadSize} bytes)</span>;
+  return (
+    <ul className="delta-savings">
+      {deltaSavings(manifest).map(({ baseVersion, size, saved, savedPercent }) => (
+        <li key={baseVersion}>
+          From v{baseVersion}: {size} bytes instead of {manifest.payloadSize}
+          <span className={`status-badge ${saved > 0 ? "completed" : "failed"}`}>
+            {saved > 0 ? `saves ${savedPercent}%` : "no smaller than the full image"}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+
+interface DownloadProgressProps {
+  // Percent of the payload chunks the vehicle agent reported downloaded and verified
+  percent: number;
+}
+
+export default function DownloadProgress({ percent }: DownloadProgressProps) {
+  return (
+    <span className="download-progress" title="Verified payload chunks reported by the vehicle agent">
+      <progress value={percent} max={100} />
+      {percent}%
+    </span>
+  );
+}
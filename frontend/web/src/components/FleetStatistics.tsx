@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BarElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LineElement,
+  LinearScale,
+  PointElement,
+  Tooltip
+} from 'chart.js';
+import { Bar, Line } from 'react-chartjs-2';
+import { ethers } from 'ethers';
+import { getContractAddress, getContractReadOnly, getSigner } from '../contract';
+import { isUserRejection } from '../errors';
+import { BatchHistory, tallyTimeline } from '../history';
+import { EncryptedTally, OtaCampaign, fetchBatchTally, fetchCampaignTally } from '../otaService';
+import { getOrCreateDecryptionSession, userDecryptHandles } from '../userDecryption';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, BarElement, Tooltip, Legend);
+
+interface FleetStatisticsProps {
+  histories: Map<number, BatchHistory>;
+  campaigns: OtaCampaign[];
+  account?: string;
+  onLog: (message: string) => void;
+}
+
+interface TallyPoint {
+  label: string;
+  succeeded: number;
+  failed: number;
+}
+
+type Breakdown = "campaign" | "batch";
+
+// Most recent fleet snapshots and batches decrypted at once; each handle is one user-decryption slot
+const MAX_POINTS = 50;
+const MAX_BATCHES = 10;
+
+const SUCCEEDED_COLOR = "#2e7d32";
+const FAILED_COLOR = "#c62828";
+
+const datasetsOf = (points: TallyPoint[]) => [
+  { label: "Completed", data: points.map(p => p.succeeded), borderColor: SUCCEEDED_COLOR, backgroundColor: SUCCEEDED_COLOR },
+  { label: "Failed", data: points.map(p => p.failed), borderColor: FAILED_COLOR, backgroundColor: FAILED_COLOR }
+];
+
+const handlesOf = (tallies: EncryptedTally[]) =>
+  Array.from(new Set(tallies.flatMap(t => [t.succeededEncrypted, t.failedEncrypted]))).filter(h => h !== ethers.ZeroHash);
+
+export default function FleetStatistics({ histories, campaigns, account, onLog }: FleetStatisticsProps) {
+  const [breakdown, setBreakdown] = useState<Breakdown>("campaign");
+  const [timeline, setTimeline] = useState<TallyPoint[] | null>(null);
+  const [totals, setTotals] = useState<Record<Breakdown, TallyPoint[]>>({ campaign: [], batch: [] });
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  useEffect(() => {
+    setTimeline(null);
+    setTotals({ campaign: [], batch: [] });
+  }, [account]);
+
+  const snapshots = tallyTimeline(histories).slice(-MAX_POINTS);
+
+  // Only the owner is granted the counters; everything is user-decrypted in the browser and never published
+  const decryptStatistics = async () => {
+    const contract = await getContractReadOnly();
+    if (!contract) return;
+    setIsDecrypting(true);
+    try {
+      const batchIds = Array.from(new Set(snapshots.map(s => s.batchId))).slice(-MAX_BATCHES);
+      const [campaignTallies, batchTallies] = await Promise.all([
+        Promise.all(campaigns.map(c => fetchCampaignTally(contract, c.id))),
+        Promise.all(batchIds.map(id => fetchBatchTally(contract, id)))
+      ]);
+
+      const signer = await getSigner();
+      const session = await getOrCreateDecryptionSession(signer, getContractAddress());
+      const handles = handlesOf([...snapshots, ...campaignTallies, ...batchTallies]);
+      const { values, denied } = await userDecryptHandles(session, signer, handles);
+      const count = (handle: string) => handle === ethers.ZeroHash ? 0 : values[handle] === undefined ? null : Number(values[handle]);
+      const toPoints = (labels: string[], tallies: EncryptedTally[]) => tallies.flatMap((tally, i) => {
+        const succeeded = count(tally.succeededEncrypted);
+        const failed = count(tally.failedEncrypted);
+        // Counters written before an ownership transfer stay granted to the previous owner
+        return succeeded === null || failed === null ? [] : [{ label: labels[i], succeeded, failed }];
+      });
+
+      setTimeline(toPoints(snapshots.map(s => new Date(s.timestamp * 1000).toLocaleString()), snapshots));
+      setTotals({
+        campaign: toPoints(campaigns.map(c => `Campaign #${c.id}`), campaignTallies),
+        batch: toPoints(batchIds.map(id => `Batch #${id}`), batchTallies)
+      });
+      onLog(`Decrypted ${Object.keys(values).length} encrypted tallies${denied.length ? `, ${denied.length} not shared with this account` : ""}`);
+    } catch (e: any) {
+      console.error("Tally decryption failed:", e);
+      onLog(isUserRejection(e) ? "Tally decryption cancelled" : "Tally decryption failed");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const latest = timeline?.[timeline.length - 1];
+  const shownTotals = totals[breakdown];
+
+  return (
+    <div className="protocol-status">
+      <h3>Fleet Statistics</h3>
+      <p className="session-info">
+        Completed and failed updates are counted homomorphically on chain. Only the owner can decrypt the totals.
+      </p>
+      <div className="action-buttons">
+        <button onClick={decryptStatistics} disabled={isDecrypting || snapshots.length === 0} className="btn-secondary">
+          {isDecrypting ? "Decrypting..." : "Decrypt Statistics"}
+        </button>
+      </div>
+      {snapshots.length === 0 && <p>No update has completed or failed yet.</p>}
+
+      {latest && (
+        <div className="detail-grid">
+          <div className="detail-item">
+            <label>Completed:</label>
+            <span>{latest.succeeded}</span>
+          </div>
+          <div className="detail-item">
+            <label>Failed:</label>
+            <span>{latest.failed}</span>
+          </div>
+        </div>
+      )}
+      {timeline && timeline.length > 0 && (
+        <div className="stats-chart">
+          <Line
+            data={{ labels: timeline.map(p => p.label), datasets: datasetsOf(timeline) }}
+            options={{ maintainAspectRatio: false, scales: { y: { beginAtZero: true, ticks: { precision: 0 } } } }}
+          />
+        </div>
+      )}
+
+      {timeline && (
+        <>
+          <div className="search-filter">
+            <select value={breakdown} onChange={(e) => setBreakdown(e.target.value as Breakdown)} className="form-input">
+              <option value="campaign">By campaign</option>
+              <option value="batch">By batch (last {MAX_BATCHES})</option>
+            </select>
+          </div>
+          {shownTotals.length === 0 ? (
+            <p>No {breakdown === "campaign" ? "campaign" : "batch"} totals to show.</p>
+          ) : (
+            <div className="stats-chart">
+              <Bar
+                data={{ labels: shownTotals.map(p => p.label), datasets: datasetsOf(shownTotals) }}
+                options={{ maintainAspectRatio: false, scales: { y: { beginAtZero: true, ticks: { precision: 0 } } } }}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
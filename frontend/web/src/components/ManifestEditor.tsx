@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ManifestParseResult, FirmwareManifest, MAX_CHUNK_SIZE, MIN_CHUNK_SIZE, targetMismatches } from '../../../../manifest';
+import { DEFAULT_CHUNK_SIZE } from '../../../../payload';
+import { buildDelta } from '../deltas';
+import { hashPayload } from '../integrity';
+import { VehicleRecord } from '../otaService';
+import DeltaSavings from './DeltaSavings';
+
+interface ManifestEditorProps {
+  value: string;
+  parsed: ManifestParseResult<FirmwareManifest> | null;
+  vehicle?: VehicleRecord;
+  onChange: (value: string) => void;
+  // Receives the image once it is hashed into the draft, e.g. to upload it with the update
+  onFirmware?: (file: File) => void;
+  // Receives each delta added to the draft, keyed by its digest
+  onDelta?: (digest: string, patch: Uint8Array) => void;
+}
+
+export const manifestTemplate = () => JSON.stringify({
+  packageId: 1,
+  version: "1.0.0",
+  targetModels: [],
+  targetEcus: [],
+  dependencies: [],
+  minPriorVersion: "",
+  maxPriorVersion: "",
+  payloadDigest: "0x",
+  payloadSize: 0,
+  chunkSize: DEFAULT_CHUNK_SIZE,
+  chunkRoot: "0x",
+  deltas: [],
+  issuedAt: Math.floor(Date.now() / 1000)
+}, null, 2);
+
+export default function ManifestEditor({ value, parsed, vehicle, onChange, onFirmware, onDelta }: ManifestEditorProps) {
+  const [hashing, setHashing] = useState<string | null>(null);
+  const [firmware, setFirmware] = useState<File | null>(null);
+
+  const readDraft = (): Record<string, unknown> => {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return JSON.parse(manifestTemplate());
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (file) onChange(await file.text());
+  };
+
+  // Fills payloadDigest, payloadSize and chunkRoot from the firmware image, keeping the rest of the draft
+  const hashFirmware = async (file: File | undefined) => {
+    if (!file) return;
+    setHashing(`Hashing ${file.name}...`);
+    try {
+      const draft = readDraft();
+      const draftChunkSize = Number(draft.chunkSize);
+      const chunkSize = Number.isInteger(draftChunkSize) && draftChunkSize >= MIN_CHUNK_SIZE && draftChunkSize <= MAX_CHUNK_SIZE
+        ? draftChunkSize
+        : DEFAULT_CHUNK_SIZE;
+      const { digest, size, chunkRoot } = await hashPayload(file, {
+        chunkSize,
+        onProgress: (bytes, total) => setHashing(`Hashing ${file.name}: ${Math.floor((bytes / (total || 1)) * 100)}%`)
+      });
+      // Deltas were made for the previous image
+      onChange(JSON.stringify({ ...draft, payloadDigest: digest, payloadSize: size, chunkSize, chunkRoot, deltas: [] }, null, 2));
+      setFirmware(file);
+      onFirmware?.(file);
+      setHashing(null);
+    } catch (e: any) {
+      setHashing(`Could not hash ${file.name}: ${e.message}`);
+    }
+  };
+
+  // Adds a patch from an installed image to the hashed firmware, replacing any delta for the same version
+  const addDelta = async (base: File | undefined) => {
+    if (!base || !firmware) return;
+    const draft = readDraft();
+    const baseVersion = prompt(`Firmware version of the base image ${base.name}`, typeof draft.minPriorVersion === "string" ? draft.minPriorVersion : "");
+    if (!baseVersion) return;
+    setHashing(`Building a delta from ${base.name} to ${firmware.name}...`);
+    try {
+      const { patch, digest, baseDigest } = await buildDelta(base, firmware);
+      const others = Array.isArray(draft.deltas) ? draft.deltas.filter((d: any) => d?.baseVersion !== baseVersion) : [];
+      const delta = { baseVersion, baseDigest, digest, size: patch.length };
+      onChange(JSON.stringify({ ...draft, deltas: [...others, delta] }, null, 2));
+      onDelta?.(digest, patch);
+      setHashing(null);
+    } catch (e: any) {
+      setHashing(`Could not build the delta: ${e.message}`);
+    }
+  };
+
+  const mismatches = parsed?.ok && vehicle ? targetMismatches(parsed.value, vehicle) : [];
+
+  return (
+    <div className="manifest-editor">
+      <div className="action-buttons">
+        <label className="btn-small">
+          Load manifest.json
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            hidden
+          />
+        </label>
+        <button onClick={() => onChange(manifestTemplate())} className="btn-small">
+          Start from template
+        </button>
+        <label className="btn-small">
+          Hash firmware file
+          <input type="file" onChange={(e) => hashFirmware(e.target.files?.[0])} hidden />
+        </label>
+        {firmware && (
+          <label className="btn-small">
+            Add delta from base image
+            <input type="file" onChange={(e) => addDelta(e.target.files?.[0])} hidden />
+          </label>
+        )}
+      </div>
+      {hashing && <div className="session-info">{hashing}</div>}
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={12}
+        spellCheck={false}
+        className="form-input manifest-json"
+        placeholder="Unsigned firmware manifest JSON"
+      />
+      {parsed && !parsed.ok && (
+        <ul className="manifest-errors">
+          {parsed.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      {parsed?.ok && (
+        <div className="manifest-summary">
+          <div>
+            Package #{parsed.value.packageId} · v{parsed.value.version} · {parsed.value.payloadSize} bytes in{" "}
+            {Math.ceil(parsed.value.payloadSize / parsed.value.chunkSize)} chunks
+          </div>
+          <div>Targets: {parsed.value.targetModels.join(", ")} / {parsed.value.targetEcus.join(", ")}</div>
+          <DeltaSavings manifest={parsed.value} />
+          {mismatches.map(reason => <div key={reason} className="decrypt-error">Selected vehicle: {reason}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  NetworkKey,
+  getActiveNetworkKey,
+  listNetworks,
+  loadCustomNetwork,
+  saveCustomNetwork,
+  setActiveNetwork
+} from '../networks';
+
+export default function NetworkSelector() {
+  const activeKey = getActiveNetworkKey();
+  const networks = listNetworks();
+  const [selectedKey, setSelectedKey] = useState<NetworkKey>(activeKey);
+  const [custom, setCustom] = useState(() => {
+    const saved = loadCustomNetwork();
+    return {
+      name: saved.name ?? "",
+      chainId: saved.chainId ? String(saved.chainId) : "",
+      rpcUrls: (saved.rpcUrls ?? []).join(", "),
+      contractAddress: saved.contractAddress ?? "",
+      explorerUrl: saved.explorerUrl ?? ""
+    };
+  });
+
+  const selectNetwork = (key: NetworkKey) => {
+    setSelectedKey(key);
+    if (key !== "custom" && key !== activeKey) setActiveNetwork(key);
+  };
+
+  const applyCustom = () => {
+    const chainId = Number(custom.chainId);
+    const rpcUrls = custom.rpcUrls.split(",").map(url => url.trim()).filter(Boolean);
+    if (!Number.isInteger(chainId) || chainId <= 0) {
+      alert("Enter a valid chain id");
+      return;
+    }
+    if (rpcUrls.length === 0) {
+      alert("Enter at least one RPC URL");
+      return;
+    }
+    if (!ethers.isAddress(custom.contractAddress)) {
+      alert("Enter the OtaUpdateFHE contract address");
+      return;
+    }
+    saveCustomNetwork({
+      name: custom.name || `Chain ${chainId}`,
+      chainId,
+      rpcUrls,
+      contractAddress: custom.contractAddress,
+      explorerUrl: custom.explorerUrl || undefined
+    });
+    setActiveNetwork("custom");
+  };
+
+  return (
+    <div className="network-selector">
+      <select
+        value={selectedKey}
+        onChange={(e) => selectNetwork(e.target.value as NetworkKey)}
+        className="form-input"
+      >
+        {networks.map(network => (
+          <option key={network.key} value={network.key}>
+            {network.key === "custom" && !network.chainId ? "Custom…" : `${network.name} (${network.chainId})`}
+            {network.key !== "custom" && !network.contractAddress ? " - not deployed" : ""}
+          </option>
+        ))}
+      </select>
+
+      {selectedKey === "custom" && (
+        <div className="custom-network">
+          <input
+            type="text"
+            value={custom.name}
+            onChange={(e) => setCustom({ ...custom, name: e.target.value })}
+            placeholder="Name"
+            className="form-input"
+          />
+          <input
+            type="number"
+            value={custom.chainId}
+            onChange={(e) => setCustom({ ...custom, chainId: e.target.value })}
+            placeholder="Chain ID"
+            className="form-input"
+          />
+          <input
+            type="text"
+            value={custom.rpcUrls}
+            onChange={(e) => setCustom({ ...custom, rpcUrls: e.target.value })}
+            placeholder="RPC URLs, comma separated"
+            className="form-input"
+          />
+          <input
+            type="text"
+            value={custom.contractAddress}
+            onChange={(e) => setCustom({ ...custom, contractAddress: e.target.value.trim() })}
+            placeholder="Contract address"
+            className="form-input"
+          />
+          <input
+            type="text"
+            value={custom.explorerUrl}
+            onChange={(e) => setCustom({ ...custom, explorerUrl: e.target.value.trim() })}
+            placeholder="Explorer URL (optional)"
+            className="form-input"
+          />
+          <button onClick={applyCustom} className="btn-small">
+            Use Custom Network
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getContractReadOnly, getContractWithSigner } from '../contract';
+import { BatchHistory, IntegrityCheckRecord } from '../history';
+import { PayloadCheck, checkPayload } from '../integrity';
+import { IntegrityCheck, OtaEntry, fetchIntegrityCheck, verifyPayloadIntegrity } from '../otaService';
+
+interface PayloadIntegrityPanelProps {
+  entry: OtaEntry;
+  history?: BatchHistory;
+  // Size from the signed manifest, when the indexer has it
+  payloadSize?: number;
+  canOperate: boolean;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onLog: (message: string) => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${bytes} bytes`;
+
+export default function PayloadIntegrityPanel({
+  entry,
+  history,
+  payloadSize,
+  canOperate,
+  runTransaction,
+  onLog
+}: PayloadIntegrityPanelProps) {
+  const [fileName, setFileName] = useState("");
+  const [progress, setProgress] = useState<{ bytes: number; total: number } | null>(null);
+  const [result, setResult] = useState<PayloadCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [latestCheck, setLatestCheck] = useState<IntegrityCheck | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const label = `batch #${entry.batchId} entry #${entry.index}`;
+  const checks: (IntegrityCheck | IntegrityCheckRecord)[] = history
+    ? history.integrityChecks.filter(check => check.entryIndex === entry.index)
+    : latestCheck ? [latestCheck] : [];
+
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+    setFileName("");
+    return () => abortRef.current?.abort();
+  }, [entry.batchId, entry.index, entry.payloadDigest]);
+
+  useEffect(() => {
+    // Without an event history, fall back to the latest check the contract keeps
+    if (history) return;
+    let cancelled = false;
+    getContractReadOnly()
+      .then(contract => contract ? fetchIntegrityCheck(contract, entry.batchId, entry.index) : null)
+      .then(check => { if (!cancelled) setLatestCheck(check); })
+      .catch(e => console.error("Integrity check lookup failed:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.batchId, entry.index, entry.status, history]);
+
+  const hashFile = async (file: File | undefined) => {
+    if (!file) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setProgress({ bytes: 0, total: file.size });
+    try {
+      const check = await checkPayload(file, { payloadDigest: entry.payloadDigest, payloadSize }, {
+        signal: controller.signal,
+        onProgress: (bytes, total) => setProgress({ bytes, total })
+      });
+      setResult(check);
+      onLog(`Payload ${file.name} for ${label}: SHA-256 ${check.digestMatches ? "matches" : "does NOT match"} the committed digest`);
+    } catch (e: any) {
+      if (e?.name !== "AbortError") setError(e.message || "Hashing failed");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  };
+
+  const record = () => {
+    if (!result) return;
+    runTransaction(
+      `Recording payload check for ${label}...`,
+      result.digestMatches ? "Payload verified on chain!" : "Payload mismatch recorded on chain",
+      async () => {
+        const passed = await verifyPayloadIntegrity(await getContractWithSigner(), entry.batchId, entry.index, result.digest);
+        onLog(`Integrity check for ${label} recorded: ${passed ? "passed, update is downloading" : "failed, update stays pending"}`);
+      }
+    );
+  };
+
+  return (
+    <div className="encryption-section">
+      <h4>Payload Integrity</h4>
+      <div className="encrypted-data">Committed SHA-256: {entry.payloadDigest}</div>
+
+      {checks.length > 0 && (
+        <div className="logs-container">
+          {checks.map((check, i) => (
+            <div key={i} className="log-entry">
+              <span className="log-time">{new Date(check.timestamp * 1000).toLocaleString()}</span>
+              <span className="log-message">
+                <span className={`status-badge ${check.passed ? "completed" : "failed"}`}>{check.passed ? "passed" : "failed"}</span>
+                {" "}verified by {check.verifier}
+                {!check.passed && ` (got ${check.payloadDigest.substring(0, 18)}...)`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="action-buttons">
+        <label className="btn-small">
+          {fileName ? "Check another file" : "Check firmware file"}
+          <input type="file" onChange={(e) => hashFile(e.target.files?.[0])} hidden />
+        </label>
+        {progress && <button onClick={cancel} className="btn-small">Cancel</button>}
+      </div>
+
+      {progress && (
+        <div className="integrity-progress">
+          <progress value={progress.bytes} max={progress.total || 1} />
+          <span>{formatBytes(progress.bytes)} / {formatBytes(progress.total)}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className={result.digestMatches && result.sizeMatches !== false ? "decrypted-value" : "decrypt-error"}>
+          <div>{fileName}: {formatBytes(result.size)}</div>
+          <div>SHA-256 {result.digest}</div>
+          <div>{result.digestMatches ? "Matches the digest committed at submission" : "Does not match the digest committed at submission"}</div>
+          {result.sizeMatches === false && <div>Size differs from the manifest ({formatBytes(payloadSize!)})</div>}
+        </div>
+      )}
+      {error && <div className="decrypt-error">{error}</div>}
+
+      {result && canOperate && entry.status === "pending" && (
+        <button onClick={record} className="decrypt-btn">
+          {result.digestMatches ? "Record Verification" : "Record Failed Check"}
+        </button>
+      )}
+      {entry.status === "downloading" && (
+        <p className="session-info">The payload has been verified; the update has moved on to downloading.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+import React, { useMemo, useState } from 'react';
+import { FirmwareManifest, parseManifest, targetMismatches } from '../../../../manifest';
+import {
+  CampaignCohort,
+  exceedsThreshold,
+  failureRate,
+  formatBps,
+  isWaveFinished,
+  matchesCohort,
+  parseWavePercents,
+  validateRollback
+} from '../../../../rollout';
+import { getContractAddress, getContractReadOnly, getContractWithSigner } from '../contract';
+import { encryptUint32Input } from '../fhe';
+import {
+  OtaCampaign,
+  VehicleRecord,
+  advanceCampaign,
+  cancelCampaign,
+  createCampaign,
+  dispatchCampaign,
+  fetchCampaignTargets
+} from '../otaService';
+import ManifestEditor from './ManifestEditor';
+
+interface RolloutCampaignsProps {
+  campaigns: OtaCampaign[];
+  vehicles: VehicleRecord[];
+  account?: string;
+  canOperate: boolean;
+  isOwner: boolean;
+  // Dispatching opens a batch for the vehicles, so it has to wait while a batch is open
+  batchOpen: boolean;
+  submitWithManifest: (manifest: FirmwareManifest, submit: (manifestHash: string) => Promise<void>) => Promise<void>;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onLog: (message: string) => void;
+}
+
+// Vehicles per dispatch transaction; they become the entries of one batch
+const DISPATCH_CHUNK = 20;
+
+const EMPTY_DRAFT = {
+  manifest: "",
+  model: "",
+  region: "",
+  firmwareVersion: "",
+  waves: "1, 10, 100",
+  threshold: "5",
+  rollback: false
+};
+
+const distinct = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+
+const describeCohort = (cohort: CampaignCohort) =>
+  [cohort.model || "all models", cohort.region || "all regions", cohort.firmwareVersion ? `firmware ${cohort.firmwareVersion}` : "any firmware"].join(" · ");
+
+export default function RolloutCampaigns({
+  campaigns,
+  vehicles,
+  account,
+  canOperate,
+  isOwner,
+  batchOpen,
+  submitWithManifest,
+  runTransaction,
+  onLog
+}: RolloutCampaignsProps) {
+  const [showCreate, setShowCreate] = useState(false);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const parsedManifest = useMemo(() => draft.manifest.trim() ? parseManifest(draft.manifest) : null, [draft.manifest]);
+  const cohort = vehicles.filter(vehicle => matchesCohort(vehicle, draft));
+
+  const handleCreate = async () => {
+    if (!parsedManifest?.ok) {
+      alert("Provide a valid firmware manifest");
+      return;
+    }
+    if (cohort.length === 0) {
+      alert("No enrolled vehicle matches this cohort");
+      return;
+    }
+    let waves: number[];
+    try {
+      waves = parseWavePercents(draft.waves);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    const threshold = parseFloat(draft.threshold);
+    if (!(threshold >= 0 && threshold <= 100)) {
+      alert("The failure threshold must be between 0% and 100%");
+      return;
+    }
+    const manifest = parsedManifest.value;
+    // A rollback pins the cohort to the manifest's version, which vehicle agents then accept as a downgrade
+    const rollbackVersion = draft.rollback ? manifest.version : "";
+    const rollbackErrors = validateRollback(draft, rollbackVersion);
+    if (rollbackErrors.length) {
+      alert(rollbackErrors.join("\n"));
+      return;
+    }
+    const mismatched = cohort.filter(vehicle => targetMismatches(manifest, vehicle).length > 0);
+    if (mismatched.length && !confirm(`${mismatched.length} of ${cohort.length} cohort vehicles are not targeted by this manifest.\n\nCreate the campaign anyway?`)) {
+      return;
+    }
+
+    const plan = {
+      model: draft.model,
+      region: draft.region,
+      firmwareVersion: draft.firmwareVersion,
+      targetCount: cohort.length,
+      waves,
+      failureThresholdBps: Math.round(threshold * 100),
+      rollbackVersion
+    };
+    const kind = rollbackVersion ? "Rollback campaign" : "Rollout campaign";
+    const ok = await runTransaction(`Creating ${kind.toLowerCase()}...`, `${kind} created!`, () =>
+      submitWithManifest(manifest, async manifestHash => {
+        const encrypted = await encryptUint32Input(getContractAddress(), account!, manifest.packageId, "Update package id");
+        const id = await createCampaign(await getContractWithSigner(), encrypted, manifestHash, manifest.payloadDigest, plan);
+        onLog(
+          `${rollbackVersion ? `Rollback campaign #${id} to ${rollbackVersion}` : `Campaign #${id}`} created for ${cohort.length} vehicles ` +
+          `(${describeCohort(plan)}), waves ${waves.map(formatBps).join(" → ")}`
+        );
+      })
+    );
+    if (ok) {
+      setDraft(EMPTY_DRAFT);
+      setShowCreate(false);
+    }
+  };
+
+  const handleDispatch = async (campaign: OtaCampaign) => {
+    const progress = campaign.progress[campaign.currentWave];
+    const contract = await getContractReadOnly();
+    if (!contract) return;
+    const members = vehicles.filter(vehicle => matchesCohort(vehicle, campaign)).map(vehicle => vehicle.index);
+    const targeted = await fetchCampaignTargets(contract, campaign.id, members);
+    const next = members
+      .filter(index => !targeted.has(index))
+      .sort((a, b) => a - b)
+      .slice(0, Math.min(DISPATCH_CHUNK, progress.quota - progress.dispatched));
+    if (next.length === 0) {
+      alert("Every cohort vehicle has already been sent this campaign");
+      return;
+    }
+    await runTransaction(
+      `Dispatching campaign #${campaign.id} to ${next.length} vehicle(s)...`,
+      "Campaign updates dispatched!",
+      async () => {
+        const batchId = await dispatchCampaign(await getContractWithSigner(), campaign.id, next);
+        onLog(`Campaign #${campaign.id} wave ${campaign.currentWave + 1}: vehicles ${next.map(i => `#${i}`).join(", ")} in batch #${batchId}`);
+      }
+    );
+  };
+
+  const handleAdvance = (campaign: OtaCampaign) => runTransaction(
+    `Advancing campaign #${campaign.id}...`,
+    campaign.currentWave === campaign.waves.length - 1 ? "Campaign completed!" : "Next wave started!",
+    async () => {
+      await advanceCampaign(await getContractWithSigner(), campaign.id);
+      onLog(`Campaign #${campaign.id} finished wave ${campaign.currentWave + 1}`);
+    }
+  );
+
+  const handleCancel = async (campaign: OtaCampaign) => {
+    const reason = window.prompt(`Reason for cancelling campaign #${campaign.id} (recorded on chain):`);
+    if (reason === null) return;
+    await runTransaction(`Cancelling campaign #${campaign.id}...`, "Campaign cancelled", async () => {
+      await cancelCampaign(await getContractWithSigner(), campaign.id, reason.trim());
+      onLog(`Campaign #${campaign.id} cancelled${reason.trim() ? `: ${reason.trim()}` : ""}`);
+    });
+  };
+
+  return (
+    <div className="protocol-status">
+      <h3>Rollout Campaigns</h3>
+
+      {campaigns.length === 0 && <p>No staged rollouts yet.</p>}
+      {campaigns.map(campaign => {
+        const progress = campaign.progress[campaign.currentWave];
+        const canManage = canOperate && campaign.state === "active";
+        const canCancel = (campaign.state === "active" || campaign.state === "halted") &&
+          (isOwner || account?.toLowerCase() === campaign.provider.toLowerCase());
+        return (
+          <div key={campaign.id} className="campaign-card">
+            <div className="campaign-header">
+              <strong>{campaign.rollbackVersion ? "Rollback" : "Campaign"} #{campaign.id}</strong>
+              <span className={`status-badge ${campaign.state}`}>{campaign.state}</span>
+              {campaign.rollbackVersion && <span className="status-badge rolledBack">pinned to {campaign.rollbackVersion}</span>}
+              <span>{describeCohort(campaign)} · {campaign.targetCount} vehicles</span>
+              <span>halts above {formatBps(campaign.failureThresholdBps)} failures per wave</span>
+            </div>
+            {campaign.progress.map(wave => {
+              const halting = exceedsThreshold(wave.failed, wave.quota, campaign.failureThresholdBps);
+              return (
+                <div key={wave.wave} className={`campaign-wave ${wave.wave === campaign.currentWave ? "current" : ""}`}>
+                  <span>Wave {wave.wave + 1} · {formatBps(campaign.waves[wave.wave])}</span>
+                  <progress value={wave.completed + wave.failed} max={wave.quota || 1} />
+                  <span>
+                    {wave.dispatched}/{wave.quota} sent · {wave.completed} done ·{" "}
+                    <span className={halting ? "decrypt-error" : ""}>
+                      {wave.failed} failed ({Math.round(failureRate(wave) * 100)}%)
+                    </span>
+                  </span>
+                </div>
+              );
+            })}
+            {(canManage || canCancel) && (
+              <div className="action-buttons">
+                {canManage && progress.dispatched < progress.quota && (
+                  <button onClick={() => handleDispatch(campaign)} disabled={batchOpen} className="btn-small">
+                    Dispatch Next Vehicles
+                  </button>
+                )}
+                {canManage && isWaveFinished(progress) && (
+                  <button onClick={() => handleAdvance(campaign)} className="btn-small">
+                    {campaign.currentWave === campaign.waves.length - 1 ? "Complete Campaign" : "Start Next Wave"}
+                  </button>
+                )}
+                {canCancel && <button onClick={() => handleCancel(campaign)} className="btn-small">Cancel</button>}
+              </div>
+            )}
+            {canManage && batchOpen && progress.dispatched < progress.quota && (
+              <p className="session-info">Close the open batch before dispatching; each dispatch puts its vehicles in a batch of their own.</p>
+            )}
+          </div>
+        );
+      })}
+
+      {canOperate && !showCreate && (
+        <button onClick={() => setShowCreate(true)} className="add-vehicle-btn">
+          + New Rollout Campaign
+        </button>
+      )}
+
+      {canOperate && showCreate && (
+        <div className="admin-section">
+          <h4>New Rollout Campaign</h4>
+          <div className="form-group">
+            <label>Firmware Manifest (signed with your wallet when the campaign is created)</label>
+            <ManifestEditor
+              value={draft.manifest}
+              parsed={parsedManifest}
+              onChange={(manifest) => setDraft({ ...draft, manifest })}
+            />
+          </div>
+          <div className="search-filter">
+            <select value={draft.model} onChange={(e) => setDraft({ ...draft, model: e.target.value })} className="form-input">
+              <option value="">All models</option>
+              {distinct(vehicles.map(v => v.model)).map(model => <option key={model} value={model}>{model}</option>)}
+            </select>
+            <select value={draft.region} onChange={(e) => setDraft({ ...draft, region: e.target.value })} className="form-input">
+              <option value="">All regions</option>
+              {distinct(vehicles.map(v => v.region)).map(region => <option key={region} value={region}>{region}</option>)}
+            </select>
+            <select
+              value={draft.firmwareVersion}
+              onChange={(e) => setDraft({ ...draft, firmwareVersion: e.target.value })}
+              className="form-input"
+            >
+              <option value="">Any firmware</option>
+              {distinct(vehicles.map(v => v.firmwareVersion)).map(version => <option key={version} value={version}>{version}</option>)}
+            </select>
+          </div>
+          <p className="session-info">{cohort.length} enrolled vehicle(s) in this cohort</p>
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={draft.rollback}
+                onChange={(e) => setDraft({ ...draft, rollback: e.target.checked })}
+              />
+              {" "}Rollback: pin the cohort's firmware back to the manifest version
+            </label>
+            {draft.rollback && (
+              <p className="session-info">
+                Pick the firmware version being replaced above. Vehicle agents only install an older version than they
+                run when a rollback campaign pins it.
+              </p>
+            )}
+          </div>
+          <div className="form-group">
+            <label>Waves (cumulative % of the cohort)</label>
+            <input
+              type="text"
+              value={draft.waves}
+              onChange={(e) => setDraft({ ...draft, waves: e.target.value })}
+              placeholder="1, 10, 100"
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Halt when more than this % of a wave fails</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={draft.threshold}
+              onChange={(e) => setDraft({ ...draft, threshold: e.target.value })}
+              className="form-input"
+            />
+          </div>
+          <div className="action-buttons">
+            <button onClick={() => setShowCreate(false)} className="btn-secondary">Cancel</button>
+            <button onClick={handleCreate} className="primary-btn">Create Campaign</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
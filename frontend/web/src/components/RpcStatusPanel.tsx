@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { getRpcPool } from '../contract';
+import { EndpointState, RpcPoolStatus } from '../rpcPool';
+
+const stateBadgeClass = (state: EndpointState) =>
+  state === "active" || state === "healthy" ? "completed" :
+  state === "lagging" ? "downloading" :
+  state === "unknown" ? "pending" :
+  "failed";
+
+const endpointLabel = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+export default function RpcStatusPanel() {
+  const pool = getRpcPool();
+  const [status, setStatus] = useState<RpcPoolStatus>(pool.getStatus());
+  const [probing, setProbing] = useState(false);
+
+  useEffect(() => pool.subscribe(setStatus), [pool]);
+
+  const probeNow = async () => {
+    setProbing(true);
+    try {
+      await pool.probe();
+    } finally {
+      setProbing(false);
+    }
+  };
+
+  return (
+    <div className="protocol-status rpc-status">
+      <div className="section-header">
+        <h3>RPC Endpoints</h3>
+        <p>
+          {status.headBlock !== null ? `Chain head #${status.headBlock}` : "Waiting for the first probe"}
+          {" · "}
+          <label>
+            <input
+              type="checkbox"
+              checked={status.quorumEnabled}
+              onChange={(e) => pool.setQuorumEnabled(e.target.checked)}
+            />
+            {" "}Cross-check critical reads on two endpoints
+          </label>
+        </p>
+      </div>
+
+      <div className="records-table">
+        <div className="table-header">
+          <div>Endpoint</div>
+          <div>Status</div>
+          <div>Block</div>
+          <div>Latency</div>
+          <div>Error Rate</div>
+          <div>
+            <button onClick={probeNow} className="btn-small" disabled={probing}>
+              {probing ? "Probing..." : "Probe"}
+            </button>
+          </div>
+        </div>
+        {status.endpoints.map(endpoint => (
+          <div key={endpoint.url} className="table-row" title={endpoint.lastError ?? endpoint.url}>
+            <div>{endpointLabel(endpoint.url)}</div>
+            <div>
+              <span className={`status-badge ${stateBadgeClass(endpoint.state)}`}>{endpoint.state}</span>
+            </div>
+            <div>
+              {endpoint.blockNumber === null ? "—" : `#${endpoint.blockNumber}`}
+              {endpoint.blockNumber !== null && status.headBlock !== null && status.headBlock > endpoint.blockNumber
+                ? ` (-${status.headBlock - endpoint.blockNumber})`
+                : ""}
+            </div>
+            <div>{endpoint.latencyMs === null ? "—" : `${Math.round(endpoint.latencyMs)} ms`}</div>
+            <div>{Math.round(endpoint.errorRate * 100)}%</div>
+            <div></div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
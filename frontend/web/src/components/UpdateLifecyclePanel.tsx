@@ -0,0 +1,166 @@
+import React from 'react';
+import {
+  StatusTimeouts,
+  StatusTransition,
+  UpdateAction,
+  UpdateRole,
+  TRANSITIONS,
+  availableActions,
+  effectiveStatus,
+  timeoutAt
+} from '../../../../lifecycle';
+import { getContractWithSigner } from '../contract';
+import {
+  OtaEntry,
+  abortUpdate,
+  expireUpdate,
+  reportBooted,
+  reportCompleted,
+  reportFailed,
+  reportInstalling,
+  reportRolledBack
+} from '../otaService';
+
+interface UpdateLifecyclePanelProps {
+  entry: OtaEntry;
+  // Transitions of this entry only
+  transitions?: StatusTransition[];
+  roles: UpdateRole[];
+  timeouts: StatusTimeouts;
+  paused: boolean;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onLog: (message: string) => void;
+}
+
+// Submitting and verifying happen in the create form and the integrity panel
+const ACTION_LABELS: Partial<Record<UpdateAction, string>> = {
+  startInstall: "Report Installing",
+  boot: "Report Booted",
+  complete: "Report Completed",
+  rollBack: "Report Rolled Back",
+  fail: "Report Failure",
+  abort: "Abort Update",
+  expire: "Expire Update"
+};
+
+export default function UpdateLifecyclePanel({
+  entry,
+  transitions,
+  roles,
+  timeouts,
+  paused,
+  runTransaction,
+  onLog
+}: UpdateLifecyclePanelProps) {
+  const now = Math.floor(Date.now() / 1000);
+  const label = `batch #${entry.batchId} entry #${entry.index}`;
+  const shown = effectiveStatus(entry.status, entry.statusUpdatedAt, timeouts, now);
+  const deadline = timeoutAt(entry.status, entry.statusUpdatedAt, timeouts);
+  // Only aborting stays available to the owner while the protocol is paused
+  const actions = availableActions(entry.status, roles, entry.statusUpdatedAt, timeouts, now)
+    .filter(action => ACTION_LABELS[action] && (!paused || action === "abort"));
+
+  const perform = async (action: UpdateAction) => {
+    let reason = "";
+    if (action === "fail" || action === "abort" || action === "rollBack") {
+      const what = action === "fail" ? "the failure" : action === "abort" ? "aborting" : "the rollback";
+      const entered = window.prompt(`Reason for ${what} (recorded on chain):`);
+      if (entered === null) return;
+      reason = entered.trim();
+    }
+    let firmwareVersion = "";
+    if (action === "complete") {
+      const entered = window.prompt("Firmware version the vehicle now runs (replaces its public label if it has one; leave empty to keep the label):");
+      if (entered === null) return;
+      firmwareVersion = entered.trim();
+    }
+    await runTransaction(
+      `${ACTION_LABELS[action]} for ${label}...`,
+      `Update in ${label} is now ${TRANSITIONS[action].to}`,
+      async () => {
+        const contract = await getContractWithSigner();
+        switch (action) {
+          case "startInstall":
+            await reportInstalling(contract, entry.batchId, entry.index);
+            break;
+          case "boot":
+            await reportBooted(contract, entry.batchId, entry.index);
+            break;
+          case "complete":
+            await reportCompleted(contract, entry.batchId, entry.index, firmwareVersion);
+            break;
+          case "rollBack":
+            await reportRolledBack(contract, entry.batchId, entry.index, reason);
+            break;
+          case "fail":
+            await reportFailed(contract, entry.batchId, entry.index, reason);
+            break;
+          case "abort":
+            await abortUpdate(contract, entry.batchId, entry.index, reason);
+            break;
+          case "expire":
+            await expireUpdate(contract, entry.batchId, entry.index);
+            break;
+        }
+        onLog(`Update in ${label}: ${ACTION_LABELS[action]!.toLowerCase()}${reason ? ` (${reason})` : ""}`);
+      }
+    );
+  };
+
+  return (
+    <div className="encryption-section">
+      <h4>Update Lifecycle</h4>
+      <div className="detail-grid">
+        <div className="detail-item">
+          <label>Status:</label>
+          <span className={`status-badge ${shown}`}>
+            {shown}{shown !== entry.status ? ` (timed out while ${entry.status})` : ""}
+          </span>
+        </div>
+        {entry.vehicleIndex > 0 && (
+          <div className="detail-item">
+            <label>Vehicle:</label>
+            <span>Registry #{entry.vehicleIndex}</span>
+          </div>
+        )}
+        {deadline !== null && (
+          <div className="detail-item">
+            <label>Times Out:</label>
+            <span>{new Date(deadline * 1000).toLocaleString()}</span>
+          </div>
+        )}
+      </div>
+
+      {entry.vehicleIndex === 0 && entry.status !== "none" && (
+        <p className="session-info">
+          This update was not submitted for a registry vehicle, so no agent can report progress; it can only be aborted or expired.
+        </p>
+      )}
+
+      {actions.length > 0 && (
+        <div className="action-buttons">
+          {actions.map(action => (
+            <button key={action} onClick={() => perform(action)} className="btn-small">
+              {ACTION_LABELS[action]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {transitions && transitions.length > 0 && (
+        <div className="logs-container">
+          {transitions.map((transition, i) => (
+            <div key={i} className="log-entry">
+              <span className="log-time">{new Date(transition.timestamp * 1000).toLocaleString()}</span>
+              <span className="log-message">
+                {transition.from} → <span className={`status-badge ${transition.to}`}>{transition.to}</span>
+                {" "}by {transition.actor}
+                {transition.reason && `: ${transition.reason}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,392 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { getContractAddress, getContractWithSigner, getSigner } from '../contract';
+import { encodeVersion } from '../../../../manifest';
+import { isUserRejection } from '../errors';
+import { encryptUint32Input } from '../fhe';
+import { ethers } from 'ethers';
+import {
+  OtaEntry,
+  VehicleRecord,
+  checkEligibility,
+  enrollVehicle,
+  filterVehicles,
+  setVehicleAgent,
+  setVehicleFirmware,
+  setVehicleVersionEncrypted
+} from '../otaService';
+import { getOrCreateDecryptionSession, userDecryptHandles } from '../userDecryption';
+import DownloadProgress from './DownloadProgress';
+
+interface VehicleRegistryProps {
+  vehicles: VehicleRecord[];
+  // Newest update in progress per vehicle index
+  activeUpdates: Map<number, OtaEntry>;
+  account?: string;
+  canOperate: boolean;
+  runTransaction: (pendingMessage: string, successMessage: string, action: () => Promise<void>) => Promise<boolean>;
+  onChanged: () => void;
+  onCreateUpdate: (vehicle: VehicleRecord) => void;
+  onLog: (message: string) => void;
+}
+
+const parseVehicleId = (value: string) => parseInt(value.trim().replace(/^VEH/i, ""));
+
+const distinct = (values: string[]) => Array.from(new Set(values)).sort();
+
+interface EligibilityResult {
+  manifestHash: string;
+  eligible: boolean;
+}
+
+export default function VehicleRegistry({
+  vehicles,
+  activeUpdates,
+  account,
+  canOperate,
+  runTransaction,
+  onChanged,
+  onCreateUpdate,
+  onLog
+}: VehicleRegistryProps) {
+  const [search, setSearch] = useState("");
+  const [modelFilter, setModelFilter] = useState("");
+  const [ecuFilter, setEcuFilter] = useState("");
+  const [regionFilter, setRegionFilter] = useState("");
+  const [decryptedIds, setDecryptedIds] = useState<Record<string, bigint>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [showEnroll, setShowEnroll] = useState(false);
+  const [enrollment, setEnrollment] = useState({ vehicleId: "", model: "", ecuType: "", region: "", firmwareVersion: "" });
+  const [firmwareEdits, setFirmwareEdits] = useState<Record<number, string>>({});
+  const [agentEdits, setAgentEdits] = useState<Record<number, string>>({});
+  const [versionEdits, setVersionEdits] = useState<Record<number, string>>({});
+  const [eligibilityHashes, setEligibilityHashes] = useState<Record<number, string>>({});
+  const [eligibility, setEligibility] = useState<Record<number, EligibilityResult>>({});
+
+  useEffect(() => {
+    setDecryptedIds({});
+    setEligibility({});
+  }, [account]);
+
+  const models = useMemo(() => distinct(vehicles.map(v => v.model)), [vehicles]);
+  const ecuTypes = useMemo(() => distinct(vehicles.map(v => v.ecuType)), [vehicles]);
+  const regions = useMemo(() => distinct(vehicles.map(v => v.region).filter(Boolean)), [vehicles]);
+  const visible = filterVehicles(vehicles, { search, model: modelFilter, ecuType: ecuFilter, region: regionFilter }, decryptedIds);
+
+  const revealIds = async () => {
+    if (!account) {
+      alert("Please connect wallet first");
+      return;
+    }
+    setIsDecrypting(true);
+    try {
+      const signer = await getSigner();
+      const session = await getOrCreateDecryptionSession(signer, getContractAddress());
+      const { values, denied } = await userDecryptHandles(session, signer, vehicles.map(v => v.vehicleIdEncrypted));
+      setDecryptedIds(values);
+      onLog(`Decrypted ${Object.keys(values).length} vehicle ids, ${denied.length} not shared with this account`);
+    } catch (e: any) {
+      console.error("Vehicle id decryption failed:", e);
+      onLog(isUserRejection(e) ? "Vehicle id decryption cancelled" : "Vehicle id decryption failed");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleEnroll = async () => {
+    const vehicleId = parseVehicleId(enrollment.vehicleId);
+    if (!vehicleId || !enrollment.model.trim() || !enrollment.ecuType.trim()) {
+      alert("Enter a vehicle id, model and ECU type");
+      return;
+    }
+    const ok = await runTransaction("Encrypting vehicle id and enrolling...", "Vehicle enrolled!", async () => {
+      const encrypted = await encryptUint32Input(getContractAddress(), account!, vehicleId, "Vehicle id");
+      const index = await enrollVehicle(
+        await getContractWithSigner(),
+        encrypted,
+        enrollment.model.trim(),
+        enrollment.ecuType.trim(),
+        enrollment.region.trim(),
+        enrollment.firmwareVersion.trim()
+      );
+      onLog(`Enrolled vehicle #${index} (${enrollment.model.trim()}, ${enrollment.ecuType.trim()})`);
+    });
+    if (ok) {
+      setEnrollment({ vehicleId: "", model: "", ecuType: "", region: "", firmwareVersion: "" });
+      setShowEnroll(false);
+      onChanged();
+    }
+  };
+
+  const handleSetFirmware = async (vehicle: VehicleRecord) => {
+    const firmwareVersion = (firmwareEdits[vehicle.index] ?? "").trim();
+    if (!firmwareVersion || firmwareVersion === vehicle.firmwareVersion) return;
+    const ok = await runTransaction(`Recording firmware for vehicle #${vehicle.index}...`, "Firmware recorded!", async () => {
+      await setVehicleFirmware(await getContractWithSigner(), vehicle.index, firmwareVersion);
+      onLog(`Vehicle #${vehicle.index} firmware set to ${firmwareVersion}`);
+    });
+    if (ok) {
+      setFirmwareEdits(({ [vehicle.index]: _, ...rest }) => rest);
+      onChanged();
+    }
+  };
+
+  const handleSetAgent = async (vehicle: VehicleRecord) => {
+    const agent = (agentEdits[vehicle.index] ?? "").trim();
+    if (!ethers.isAddress(agent)) {
+      alert("Enter the address the vehicle reports install progress from");
+      return;
+    }
+    const ok = await runTransaction(`Setting agent for vehicle #${vehicle.index}...`, "Vehicle agent set!", async () => {
+      await setVehicleAgent(await getContractWithSigner(), vehicle.index, agent);
+      onLog(`Vehicle #${vehicle.index} agent set to ${agent}`);
+    });
+    if (ok) {
+      setAgentEdits(({ [vehicle.index]: _, ...rest }) => rest);
+      onChanged();
+    }
+  };
+
+  const handleEncryptVersion = async (vehicle: VehicleRecord) => {
+    const version = (versionEdits[vehicle.index] ?? "").trim();
+    let encoded: number;
+    try {
+      encoded = encodeVersion(version);
+    } catch (e: any) {
+      alert(e.message);
+      return;
+    }
+    const ok = await runTransaction(
+      `Encrypting installed version of vehicle #${vehicle.index}...`,
+      "Encrypted version recorded!",
+      async () => {
+        const encrypted = await encryptUint32Input(getContractAddress(), account!, encoded, "Firmware version");
+        await setVehicleVersionEncrypted(await getContractWithSigner(), vehicle.index, encrypted);
+        // The version itself stays out of the log, which may be shared
+        onLog(`Vehicle #${vehicle.index} installed version encrypted on chain`);
+      }
+    );
+    if (ok) {
+      setVersionEdits(({ [vehicle.index]: _, ...rest }) => rest);
+      onChanged();
+    }
+  };
+
+  // Run by the vehicle agent: the comparison happens under encryption and only the resulting bit is decrypted
+  const handleCheckEligibility = async (vehicle: VehicleRecord) => {
+    const manifestHash = (eligibilityHashes[vehicle.index] ?? "").trim();
+    if (!ethers.isHexString(manifestHash, 32)) {
+      alert("Enter the manifest hash of the package to check");
+      return;
+    }
+    await runTransaction(`Checking eligibility of vehicle #${vehicle.index}...`, "Eligibility decrypted", async () => {
+      const handle = await checkEligibility(await getContractWithSigner(), vehicle.index, manifestHash);
+      const signer = await getSigner();
+      const session = await getOrCreateDecryptionSession(signer, getContractAddress());
+      const { values } = await userDecryptHandles(session, signer, [handle]);
+      if (values[handle] === undefined) throw new Error("The eligibility result is not shared with this account");
+      const eligible = values[handle] !== 0n;
+      setEligibility(current => ({ ...current, [vehicle.index]: { manifestHash, eligible } }));
+      onLog(`Vehicle #${vehicle.index} ${eligible ? "needs" : "does not need"} package ${manifestHash.substring(0, 10)}...`);
+    });
+  };
+
+  return (
+    <div className="vehicle-registry">
+      <div className="search-filter">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search model, ECU, firmware or decrypted id"
+          className="form-input"
+        />
+        <select value={modelFilter} onChange={(e) => setModelFilter(e.target.value)} className="form-input">
+          <option value="">All models</option>
+          {models.map(model => <option key={model} value={model}>{model}</option>)}
+        </select>
+        <select value={ecuFilter} onChange={(e) => setEcuFilter(e.target.value)} className="form-input">
+          <option value="">All ECU types</option>
+          {ecuTypes.map(ecuType => <option key={ecuType} value={ecuType}>{ecuType}</option>)}
+        </select>
+        <select value={regionFilter} onChange={(e) => setRegionFilter(e.target.value)} className="form-input">
+          <option value="">All regions</option>
+          {regions.map(region => <option key={region} value={region}>{region}</option>)}
+        </select>
+        <button onClick={revealIds} disabled={isDecrypting || vehicles.length === 0} className="btn-secondary">
+          {isDecrypting ? "Decrypting..." : "Decrypt IDs"}
+        </button>
+      </div>
+
+      {vehicles.length === 0 ? (
+        <div className="no-records">
+          <div className="no-records-icon">🚗</div>
+          <p>No vehicles enrolled on chain yet</p>
+        </div>
+      ) : (
+        <div className="vehicles-grid">
+          {visible.map(vehicle => {
+            const decryptedId = decryptedIds[vehicle.vehicleIdEncrypted];
+            const isAgent = !!account && vehicle.agent.toLowerCase() === account.toLowerCase();
+            const result = eligibility[vehicle.index];
+            const update = activeUpdates.get(vehicle.index);
+            return (
+              <div key={vehicle.index} className="vehicle-card">
+                <div className="vehicle-icon">🚗</div>
+                <div className="vehicle-info">
+                  <h4>{decryptedId !== undefined ? `VEH${decryptedId}` : `Vehicle #${vehicle.index}`}</h4>
+                  <p>{vehicle.model} · {vehicle.ecuType}{vehicle.region ? ` · ${vehicle.region}` : ""}</p>
+                  <p>Firmware: {vehicle.firmwareVersion || "unknown"}</p>
+                  <p>Enrolled {new Date(vehicle.enrolledAt * 1000).toLocaleDateString()}</p>
+                  <p>Agent: {vehicle.agent === ethers.ZeroAddress ? "not set" : `${vehicle.agent.substring(0, 10)}...`}</p>
+                  <p>Encrypted version: {vehicle.firmwareVersionEncrypted === ethers.ZeroHash ? "not set" : "set"}</p>
+                  {update && (
+                    <p>
+                      Update in batch #{update.batchId}:{" "}
+                      <span className={`status-badge ${update.status}`}>{update.status}</span>{" "}
+                      {update.status === "downloading" && <DownloadProgress percent={update.downloadProgress} />}
+                    </p>
+                  )}
+                  {result && (
+                    <p>
+                      <span className={`status-badge ${result.eligible ? "completed" : "failed"}`}>
+                        {result.eligible ? "needs update" : "not eligible"}
+                      </span>{" "}
+                      for package {result.manifestHash.substring(0, 10)}...
+                    </p>
+                  )}
+                  {isAgent && (
+                    <div className="form-group">
+                      <input
+                        type="text"
+                        value={eligibilityHashes[vehicle.index] ?? ""}
+                        onChange={(e) => setEligibilityHashes({ ...eligibilityHashes, [vehicle.index]: e.target.value })}
+                        placeholder="Manifest hash to check"
+                        className="form-input"
+                      />
+                    </div>
+                  )}
+                  {canOperate && (
+                    <>
+                      <div className="form-group">
+                        <input
+                          type="text"
+                          value={firmwareEdits[vehicle.index] ?? ""}
+                          onChange={(e) => setFirmwareEdits({ ...firmwareEdits, [vehicle.index]: e.target.value })}
+                          placeholder="Installed firmware"
+                          className="form-input"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <input
+                          type="text"
+                          value={agentEdits[vehicle.index] ?? ""}
+                          onChange={(e) => setAgentEdits({ ...agentEdits, [vehicle.index]: e.target.value })}
+                          placeholder="Agent address"
+                          className="form-input"
+                        />
+                      </div>
+                      <div className="form-group">
+                        <input
+                          type="text"
+                          value={versionEdits[vehicle.index] ?? ""}
+                          onChange={(e) => setVersionEdits({ ...versionEdits, [vehicle.index]: e.target.value })}
+                          placeholder="Installed version to encrypt"
+                          className="form-input"
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+                {(canOperate || isAgent) && (
+                  <div className="vehicle-actions">
+                    {canOperate && (
+                      <>
+                        <button onClick={() => handleSetFirmware(vehicle)} className="btn-small">Set Firmware</button>
+                        <button onClick={() => handleSetAgent(vehicle)} className="btn-small">Set Agent</button>
+                        <button onClick={() => handleEncryptVersion(vehicle)} className="btn-small">Encrypt Version</button>
+                        <button onClick={() => onCreateUpdate(vehicle)} className="btn-small">Update</button>
+                      </>
+                    )}
+                    {isAgent && (
+                      <button onClick={() => handleCheckEligibility(vehicle)} className="btn-small">Check Eligibility</button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          {visible.length === 0 && (
+            <div className="no-records">
+              <p>No vehicles match the current filters</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {canOperate && !showEnroll && (
+        <button onClick={() => setShowEnroll(true)} className="add-vehicle-btn">
+          + Register New Vehicle
+        </button>
+      )}
+
+      {canOperate && showEnroll && (
+        <div className="admin-section">
+          <h4>Enroll Vehicle</h4>
+          <div className="form-group">
+            <label>Vehicle ID (encrypted before it leaves the browser)</label>
+            <input
+              type="text"
+              value={enrollment.vehicleId}
+              onChange={(e) => setEnrollment({ ...enrollment, vehicleId: e.target.value })}
+              placeholder="VEH1234"
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Hardware Model</label>
+            <input
+              type="text"
+              value={enrollment.model}
+              onChange={(e) => setEnrollment({ ...enrollment, model: e.target.value })}
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>ECU Type</label>
+            <input
+              type="text"
+              value={enrollment.ecuType}
+              onChange={(e) => setEnrollment({ ...enrollment, ecuType: e.target.value })}
+              placeholder="TCU, BCM, ADAS..."
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Region</label>
+            <input
+              type="text"
+              value={enrollment.region}
+              onChange={(e) => setEnrollment({ ...enrollment, region: e.target.value })}
+              placeholder="EU, NA, APAC..."
+              className="form-input"
+            />
+          </div>
+          <div className="form-group">
+            <label>Installed Firmware</label>
+            <input
+              type="text"
+              value={enrollment.firmwareVersion}
+              onChange={(e) => setEnrollment({ ...enrollment, firmwareVersion: e.target.value })}
+              placeholder="1.0.0"
+              className="form-input"
+            />
+          </div>
+          <div className="action-buttons">
+            <button onClick={() => setShowEnroll(false)} className="btn-secondary">Cancel</button>
+            <button onClick={handleEnroll} className="primary-btn">Enroll Vehicle</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
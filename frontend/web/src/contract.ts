@@ -1,79 +1,68 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import abiJson from "./abi/OtaUpdateFHE.json";
+import { getActiveNetwork } from "./networks";
+import { createRpcPool } from "./rpcPool";
+import { OtaUpdateFHE__factory } from "./types";
+import type { OtaUpdateFHE } from "./types";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
+export const getContractAddress = () => getActiveNetwork().contractAddress;
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
+// Switching networks reloads the page, so one pool per page load is enough
+const rpcPool = createRpcPool(getActiveNetwork(), {
+  quorum: import.meta.env.VITE_RPC_QUORUM === "true"
+});
+
+export const getRpcPool = () => rpcPool;
+
+/**
+ * Reads state that gates what the UI lets a user do (batch state, provider
+ * flags). With quorum reads enabled the read runs on two endpoints and throws
+ * QuorumMismatchError if they disagree.
+ */
+export async function readCritical<T>(read: (contract: OtaUpdateFHE) => Promise<T>): Promise<T> {
+  const address = getContractAddress();
+  return rpcPool.quorumRead(provider => read(OtaUpdateFHE__factory.connect(address, provider)));
+}
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<OtaUpdateFHE | null> {
+  const network = getActiveNetwork();
+  if (!network.contractAddress) {
+    console.error(`No OtaUpdateFHE address configured for ${network.name}`);
+    return null;
+  }
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
-    
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await rpcPool.execute(provider => provider.getCode(network.contractAddress));
     if (code === "0x") {
       return null;
     }
     
-    return contract;
+    return OtaUpdateFHE__factory.connect(network.contractAddress, await rpcPool.getProvider());
   } catch (error) {
     console.error("Failed to create read-only contract:", error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getSigner(): Promise<ethers.Signer> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  const network = getActiveNetwork();
+  const { chainId } = await provider.getNetwork();
+  if (Number(chainId) !== network.chainId) {
+    throw new Error(`Wallet is on chain ${chainId}; switch it to ${network.name} (chain ${network.chainId})`);
+  }
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner(): Promise<OtaUpdateFHE> {
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    const contract = OtaUpdateFHE__factory.connect(getContractAddress(), signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -0,0 +1,214 @@
+// decryptionTracker.ts
+import { ethers } from "ethers";
+import { extractRevertName } from "./errors";
+import type { DecryptedEntries } from "./history";
+import type { OtaUpdateFHE } from "./types";
+
+export type OracleRequestStatus = "pending" | "fulfilled" | "timed-out" | "failed";
+
+export type CallbackFailure = "StateMismatch" | "ReplayAttempt" | "DecryptionFailed";
+
+// A batch is decrypted by one request per range of at most MAX_DECRYPTION_ENTRIES entries
+export interface OracleRequest {
+  requestId: bigint;
+  batchId: number;
+  fromEntry: number;
+  entryCount: number;
+  stateHash: string;
+  txHash: string;
+  requestedBlock: number;
+  requestedAt: number;
+  status: OracleRequestStatus;
+  fulfilledAt?: number;
+  result?: DecryptedEntries;
+  failure?: CallbackFailure;
+}
+
+export interface DecryptionTrackerOptions {
+  // Seconds after which an unanswered request is considered timed out
+  timeoutSeconds?: number;
+  fromBlock?: number;
+  pollIntervalMs?: number;
+}
+
+export interface DecryptionTracker {
+  start: () => Promise<void>;
+  stop: () => void;
+  subscribe: (listener: (requests: OracleRequest[]) => void) => () => void;
+  getRequests: (batchId?: number) => OracleRequest[];
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 10 * 60;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+const CALLBACK_FAILURES: CallbackFailure[] = ["StateMismatch", "ReplayAttempt", "DecryptionFailed"];
+
+/**
+ * Replays `myCallback` with an empty payload to find out why the oracle answer
+ * never landed. The replay and state-hash checks run before the KMS signature
+ * check, so a revert with one of those errors pins down the failure; a
+ * signature revert means the on-chain state would still accept a valid answer.
+ */
+async function diagnoseCallback(contract: OtaUpdateFHE, requestId: bigint): Promise<CallbackFailure | null> {
+  try {
+    await contract.myCallback.staticCall(requestId, "0x", "0x");
+    return null;
+  } catch (e) {
+    const name = extractRevertName(e);
+    return CALLBACK_FAILURES.find(f => f === name) ?? null;
+  }
+}
+
+export function createDecryptionTracker(contract: OtaUpdateFHE, options: DecryptionTrackerOptions = {}): DecryptionTracker {
+  const timeoutSeconds = options.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+  const requests = new Map<string, OracleRequest>();
+  const listeners = new Set<(requests: OracleRequest[]) => void>();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const snapshot = () => Array.from(requests.values()).sort((a, b) => b.requestedBlock - a.requestedBlock);
+  const notify = () => {
+    const current = snapshot();
+    listeners.forEach(listener => listener(current));
+  };
+
+  const blockTimestamp = async (blockNumber: number) => {
+    const block = await contract.runner?.provider?.getBlock(blockNumber);
+    return block ? block.timestamp : Math.floor(Date.now() / 1000);
+  };
+
+  const onRequested = async (
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string,
+    fromEntry: bigint,
+    entryCount: bigint,
+    log: ethers.Log
+  ) => {
+    const key = requestId.toString();
+    const existing = requests.get(key);
+    requests.set(key, {
+      status: "pending",
+      ...existing,
+      requestId,
+      batchId: Number(batchId),
+      fromEntry: Number(fromEntry),
+      entryCount: Number(entryCount),
+      stateHash,
+      txHash: log.transactionHash,
+      requestedBlock: log.blockNumber,
+      requestedAt: await blockTimestamp(log.blockNumber)
+    });
+    notify();
+  };
+
+  const onCompleted = async (
+    requestId: bigint,
+    batchId: bigint,
+    fromEntry: bigint,
+    updatePackageIds: bigint[],
+    vehicleIds: bigint[],
+    timestamp: bigint
+  ) => {
+    const key = requestId.toString();
+    const existing = requests.get(key);
+    requests.set(key, {
+      entryCount: updatePackageIds.length,
+      stateHash: "",
+      txHash: "",
+      requestedBlock: 0,
+      requestedAt: Number(timestamp),
+      ...existing,
+      requestId,
+      batchId: Number(batchId),
+      fromEntry: Number(fromEntry),
+      status: "fulfilled",
+      fulfilledAt: Number(timestamp),
+      // Copied out of the event's read-only Result arrays
+      result: { updatePackageIds: [...updatePackageIds], vehicleIds: [...vehicleIds] },
+      failure: undefined
+    });
+    notify();
+  };
+
+  const checkTimeouts = async () => {
+    const now = Math.floor(Date.now() / 1000);
+    let changed = false;
+    for (const request of requests.values()) {
+      if (request.status !== "pending" && request.status !== "timed-out") continue;
+      if (now - request.requestedAt < timeoutSeconds) continue;
+
+      const failure = await diagnoseCallback(contract, request.requestId);
+      const status: OracleRequestStatus = failure ? "failed" : "timed-out";
+      if (status !== request.status || failure !== request.failure) {
+        request.status = status;
+        request.failure = failure ?? undefined;
+        changed = true;
+      }
+    }
+    if (changed) notify();
+  };
+
+  const backfill = async () => {
+    const fromBlock = options.fromBlock ?? 0;
+    const [requested, completed] = await Promise.all([
+      contract.queryFilter(contract.filters.DecryptionRequested(), fromBlock),
+      contract.queryFilter(contract.filters.DecryptionCompleted(), fromBlock)
+    ]);
+    for (const event of requested) {
+      const { requestId, batchId, stateHash, fromEntry, entryCount } = event.args;
+      await onRequested(requestId, batchId, stateHash, fromEntry, entryCount, event);
+    }
+    for (const event of completed) {
+      const { requestId, batchId, fromEntry, updatePackageIds, vehicleIds, timestamp } = event.args;
+      await onCompleted(requestId, batchId, fromEntry, updatePackageIds, vehicleIds, timestamp);
+    }
+  };
+
+  // Live listeners receive a ContractEventPayload even though the typings declare an event log
+  const requestedListener = (
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string,
+    fromEntry: bigint,
+    entryCount: bigint,
+    event: unknown
+  ) => onRequested(requestId, batchId, stateHash, fromEntry, entryCount, (event as ethers.ContractEventPayload).log);
+
+  return {
+    async start() {
+      if (running) return;
+      running = true;
+      await backfill();
+      await checkTimeouts();
+      // stop() may have been called while the backfill was in flight
+      if (!running) return;
+      await contract.on(contract.filters.DecryptionRequested(), requestedListener);
+      await contract.on(contract.filters.DecryptionCompleted(), onCompleted);
+      timer = setInterval(() => {
+        checkTimeouts().catch(e => console.error("Decryption timeout check failed:", e));
+      }, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+    },
+
+    stop() {
+      if (!running) return;
+      running = false;
+      if (timer) clearInterval(timer);
+      timer = null;
+      contract.off(contract.filters.DecryptionRequested(), requestedListener);
+      contract.off(contract.filters.DecryptionCompleted(), onCompleted);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(snapshot());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getRequests(batchId?: number) {
+      const all = snapshot();
+      return batchId === undefined ? all : all.filter(r => r.batchId === batchId);
+    }
+  };
+}
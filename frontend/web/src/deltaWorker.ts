@@ -0,0 +1,15 @@
+// deltaWorker.ts
+import { createDelta } from "../../../delta";
+import type { DeltaRequest, DeltaResponse } from "./deltas";
+
+const post = (message: DeltaResponse, transfer: Transferable[] = []) => postMessage(message, { transfer });
+
+onmessage = async (e: MessageEvent<DeltaRequest>) => {
+  try {
+    const [base, target] = await Promise.all([e.data.base.arrayBuffer(), e.data.target.arrayBuffer()]);
+    const patch = await createDelta(new Uint8Array(base), new Uint8Array(target));
+    post({ type: "done", patch }, [patch.buffer]);
+  } catch (err: any) {
+    post({ type: "error", message: err?.message || "Could not build the delta" });
+  }
+};
@@ -0,0 +1,37 @@
+// deltas.ts
+// Binary deltas between firmware images, built in deltaWorker.ts because suffix-sorting the base image takes a while
+import { ethers } from "ethers";
+import { hashPayload } from "./integrity";
+
+export interface DeltaRequest {
+  base: Blob;
+  target: Blob;
+}
+
+export type DeltaResponse = { type: "done"; patch: Uint8Array } | { type: "error"; message: string };
+
+export interface BuiltDelta {
+  patch: Uint8Array;
+  digest: string;
+  baseDigest: string;
+}
+
+/** Builds the patch that turns `base` into `target`; the worker holds about nine times the base size in memory. */
+export async function buildDelta(base: Blob, target: Blob): Promise<BuiltDelta> {
+  const patch = new Promise<Uint8Array>((resolve, reject) => {
+    const worker = new Worker(new URL("./deltaWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<DeltaResponse>) => {
+      worker.terminate();
+      if (e.data.type === "done") resolve(e.data.patch);
+      else reject(new Error(e.data.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "Delta worker failed"));
+    };
+    const request: DeltaRequest = { base, target };
+    worker.postMessage(request);
+  });
+  const [built, { digest: baseDigest }] = await Promise.all([patch, hashPayload(base)]);
+  return { patch: built, digest: ethers.sha256(built), baseDigest };
+}
@@ -0,0 +1,300 @@
+// errors.ts
+import { OtaUpdateFHE__factory } from "./types";
+import type { OtaUpdateFHE } from "./types";
+
+export interface DecodedContractError {
+  // Custom error name, "UserRejected" or "Unknown"
+  name: string;
+  title: string;
+  message: string;
+  remediation?: string;
+}
+
+// Which per-account timestamp a CooldownActive revert refers to
+export type CooldownKind = "submission" | "decryption";
+
+export interface ErrorContext {
+  cooldownKind?: CooldownKind;
+  cooldownSeconds?: number;
+  lastActionTime?: number;
+  now?: number;
+}
+
+const otaInterface = OtaUpdateFHE__factory.createInterface();
+
+const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`;
+};
+
+// Value at `path` inside a thrown value of unknown shape, or undefined where the path breaks off
+const field = (value: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => typeof current === "object" && current !== null ? (current as Record<string, unknown>)[key] : undefined,
+    value
+  );
+
+const stringField = (value: unknown, ...path: string[]): string | undefined => {
+  const found = field(value, ...path);
+  return typeof found === "string" && found !== "" ? found : undefined;
+};
+
+// ethers' short message when there is one, for logs and status lines
+export const errorMessage = (e: unknown): string => stringField(e, "shortMessage") ?? stringField(e, "message") ?? String(e);
+
+export function isUserRejection(e: unknown): boolean {
+  return field(e, "code") === "ACTION_REJECTED" ||
+    field(e, "info", "error", "code") === 4001 ||
+    /user (rejected|denied)/i.test(stringField(e, "message") ?? "");
+}
+
+// Wallets and providers nest revert data at different depths
+function findRevertData(e: unknown): string | null {
+  const paths = [["data"], ["error", "data"], ["info", "error", "data"], ["error", "error", "data"], ["data", "data"]];
+  for (const path of paths) {
+    const candidate = stringField(e, ...path);
+    if (candidate?.startsWith("0x") && candidate.length >= 10) return candidate;
+  }
+  return null;
+}
+
+export function extractRevertName(e: unknown): string | null {
+  const revertName = stringField(e, "revert", "name");
+  if (revertName) return revertName;
+  const data = findRevertData(e);
+  if (!data) return null;
+  try {
+    return otaInterface.parseError(data)?.name ?? null;
+  } catch (parseError) {
+    return null;
+  }
+}
+
+export function decodeContractError(e: unknown, context: ErrorContext = {}): DecodedContractError {
+  if (isUserRejection(e)) {
+    return { name: "UserRejected", title: "Rejected", message: "Transaction rejected by user" };
+  }
+
+  const name = extractRevertName(e);
+  switch (name) {
+    case "NotOwner":
+      return {
+        name,
+        title: "Owner only",
+        message: "Only the contract owner can perform this action.",
+        remediation: "Switch to the owner account."
+      };
+    case "NotProvider":
+      return {
+        name,
+        title: "Not a provider",
+        message: "Your account is not registered as an update provider.",
+        remediation: "Ask the contract owner to add your address as a provider."
+      };
+    case "PausedState":
+      return {
+        name,
+        title: "Protocol paused",
+        message: "The contract is paused (or already unpaused), so this action is not accepted right now.",
+        remediation: "Wait for the owner to unpause the protocol."
+      };
+    case "CooldownActive": {
+      const { cooldownSeconds, lastActionTime } = context;
+      const now = context.now ?? Math.floor(Date.now() / 1000);
+      const what = context.cooldownKind === "decryption" ? "decryption request" : "submission";
+      if (cooldownSeconds !== undefined && lastActionTime !== undefined) {
+        const remaining = Math.max(0, lastActionTime + cooldownSeconds - now);
+        return {
+          name,
+          title: "Cooldown active",
+          message: `Your last ${what} was less than ${formatDuration(cooldownSeconds)} ago.`,
+          remediation: `Try again in ${formatDuration(remaining)}.`
+        };
+      }
+      return {
+        name,
+        title: "Cooldown active",
+        message: `Your last ${what} is still inside the cooldown window.`,
+        remediation: "Wait for the cooldown to expire and retry."
+      };
+    }
+    case "BatchClosedOrInvalid":
+      return {
+        name,
+        title: "Batch not open",
+        message: "The target batch is closed, or a batch is already open for the current id.",
+        remediation: "Refresh the dashboard; open a new batch if none is open."
+      };
+    case "InvalidBatchId":
+      return {
+        name,
+        title: "Wrong batch",
+        message: "Updates can only target the current batch, and decryption only closed batches.",
+        remediation: "Refresh to pick up the current batch id, and close the batch before requesting decryption."
+      };
+    case "UnknownEntry":
+      return {
+        name,
+        title: "Unknown batch entry",
+        message: "The batch has no entry with this index.",
+        remediation: "Refresh the batch to reload its entries."
+      };
+    case "NotInitialized":
+      return {
+        name,
+        title: "Missing ciphertext",
+        message: "An encrypted value was empty, the batch has no submission yet, or an eligibility check is missing the vehicle's encrypted version or the package's version range.",
+        remediation: "Re-encrypt the inputs and submit again, or ask a provider to encrypt the missing version."
+      };
+    case "InvalidParameter":
+      return {
+        name,
+        title: "Invalid parameter",
+        message: "The contract rejected one of the arguments (for example the zero address).",
+        remediation: "Check the values you entered."
+      };
+    case "InvalidTransition":
+      return {
+        name,
+        title: "Wrong update status",
+        message: "The update is not in a status that allows this step (for example its payload was already verified).",
+        remediation: "Refresh the batch to see its current status."
+      };
+    case "NotVehicleAgent":
+      return {
+        name,
+        title: "Not the vehicle agent",
+        message: "Only the agent registered for the targeted vehicle can report install progress or check its eligibility.",
+        remediation: "Switch to the vehicle's agent account, or ask a provider to set it in the registry."
+      };
+    case "NotTimedOut":
+      return {
+        name,
+        title: "Not timed out",
+        message: "The update has not been in its current status longer than the configured timeout.",
+        remediation: "Wait for the deadline shown on the entry before expiring it."
+      };
+    case "UnknownCampaign":
+      return {
+        name,
+        title: "Unknown campaign",
+        message: "No rollout campaign exists with this id.",
+        remediation: "Refresh the dashboard to reload the campaign list."
+      };
+    case "CampaignNotActive":
+      return {
+        name,
+        title: "Campaign not active",
+        message: "The campaign has halted, completed or been cancelled, so it accepts no further dispatches.",
+        remediation: "Create a new campaign to roll the package out again."
+      };
+    case "NotInCohort":
+      return {
+        name,
+        title: "Vehicle not in cohort",
+        message: "A selected vehicle does not match the campaign's model, region or firmware filter.",
+        remediation: "Refresh the vehicle registry; its firmware may have changed since the campaign started."
+      };
+    case "AlreadyTargeted":
+      return {
+        name,
+        title: "Already targeted",
+        message: "The campaign has already sent its package to one of the selected vehicles.",
+        remediation: "Refresh and dispatch again; only vehicles not yet targeted are picked."
+      };
+    case "WaveFull":
+      return {
+        name,
+        title: "Wave full",
+        message: "Dispatching these vehicles would exceed the share of the cohort the current wave may reach.",
+        remediation: "Wait for the wave to finish and start the next one."
+      };
+    case "WaveNotFinished":
+      return {
+        name,
+        title: "Wave not finished",
+        message: "Every update of the current wave must be sent and then complete or fail before the next wave starts.",
+        remediation: "Wait for the vehicles to report, or expire updates that are stuck."
+      };
+    case "PayloadKeyExists":
+      return {
+        name,
+        title: "Payload key already stored",
+        message: "A key for this firmware image is already on chain; stored payloads stay encrypted under their first key.",
+        remediation: "Submit the update without uploading the image again."
+      };
+    case "PackageVersionsExist":
+      return {
+        name,
+        title: "Version range already stored",
+        message: "This package's encrypted version range is already on chain and cannot be changed.",
+        remediation: "Sign a new manifest to publish a different range."
+      };
+    case "NotManifestProvider":
+      return {
+        name,
+        title: "Manifest used by another provider",
+        message: "Another provider already submitted this manifest or set its version range, so only it may set the range.",
+        remediation: "Do not ship this package; sign a new manifest for your own release."
+      };
+    case "ReplayAttempt":
+      return {
+        name,
+        title: "Already processed",
+        message: "This decryption request has already been answered."
+      };
+    case "StateMismatch":
+      return {
+        name,
+        title: "State changed",
+        message: "The batch ciphertexts changed after decryption was requested.",
+        remediation: "Request decryption again for the batch."
+      };
+    case "DecryptionFailed":
+      return {
+        name,
+        title: "Decryption failed",
+        message: "The oracle answer could not be verified or decoded.",
+        remediation: "Request decryption again; contact the operator if it keeps failing."
+      };
+    default:
+      return {
+        name: name ?? "Unknown",
+        title: "Transaction failed",
+        message: stringField(e, "shortMessage") ?? stringField(e, "reason") ?? stringField(e, "message") ?? "Unknown error"
+      };
+  }
+}
+
+/**
+ * Decodes `e` and, for cooldown reverts, reads the account's last action time
+ * and the cooldown length so the message can say how long is left.
+ */
+export async function explainContractError(
+  e: unknown,
+  contract?: OtaUpdateFHE | null,
+  account?: string,
+  cooldownKind: CooldownKind = "submission"
+): Promise<DecodedContractError> {
+  const context: ErrorContext = { cooldownKind };
+  if (contract && account && extractRevertName(e) === "CooldownActive") {
+    try {
+      const [cooldownSeconds, lastActionTime, block] = await Promise.all([
+        contract.cooldownSeconds(),
+        cooldownKind === "decryption" ? contract.lastDecryptionRequestTime(account) : contract.lastSubmissionTime(account),
+        contract.runner?.provider?.getBlock("latest")
+      ]);
+      context.cooldownSeconds = Number(cooldownSeconds);
+      context.lastActionTime = Number(lastActionTime);
+      if (block) context.now = block.timestamp;
+    } catch (readError) {
+      // Without the cooldown state the message leaves out how long is left
+    }
+  }
+  return decodeContractError(e, context);
+}
+
+export const formatContractError = (decoded: DecodedContractError) =>
+  decoded.remediation ? `${decoded.title}: ${decoded.message} ${decoded.remediation}` : `${decoded.title}: ${decoded.message}`;
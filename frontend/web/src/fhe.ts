@@ -0,0 +1,196 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance, FhevmInstanceConfig } from "@zama-fhe/relayer-sdk/web";
+import { getActiveNetwork, type NetworkConfig } from "./networks";
+
+// Anything that can build encrypted inputs and user-decrypt handles: the
+// relayer SDK instance, or the fhevm mock of a local hardhat node.
+export type FheBackend = Pick<FhevmInstance, "createEncryptedInput" | "generateKeypair" | "createEIP712" | "userDecrypt">;
+
+export interface EncryptedUpdateInput {
+  updatePackageIdHandle: string;
+  vehicleIdHandle: string;
+  inputProof: string;
+}
+
+const MAX_UINT32 = 0xffffffff;
+const HARDHAT_CHAIN_ID = 31337;
+const SEPOLIA_CHAIN_ID = 11155111;
+
+// Contract addresses an instance was built with, without the provider and relayer URL
+type FhevmContracts = Omit<FhevmInstanceConfig, "network" | "relayerUrl" | "publicParams" | "publicKey" | "auth">;
+
+interface NetworkInstance {
+  instance: FheBackend;
+  config: FhevmContracts;
+}
+
+let networkInstance: Promise<NetworkInstance> | null = null;
+
+// EIP-712 domain (ERC-5267) of the KMS and input verifiers, whose verifying contracts sign decryptions and inputs
+const EIP712_DOMAIN_ABI = ["function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])"];
+
+// A local hardhat node runs the fhevm mock and reports its contracts over RPC; the mock encrypts and decrypts through it
+async function createMockInstance(network: NetworkConfig): Promise<NetworkInstance> {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = new ethers.JsonRpcProvider(network.rpcUrls[0]);
+  const metadata = await provider.send("fhevm_relayer_metadata", []).catch(() => {
+    throw new Error(`${network.name} does not run the fhevm mock; start it with "npx hardhat node"`);
+  });
+  const domain = (address: string) => new ethers.Contract(address, EIP712_DOMAIN_ABI, provider).eip712Domain();
+  const [kmsDomain, inputDomain] = await Promise.all([domain(metadata.KMSVerifierAddress), domain(metadata.InputVerifierAddress)]);
+  const config = {
+    chainId: network.chainId,
+    gatewayChainId: Number(inputDomain[3]),
+    aclContractAddress: metadata.ACLAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    verifyingContractAddressDecryption: kmsDomain[4],
+    verifyingContractAddressInputVerification: inputDomain[4]
+  };
+  return { instance: await MockFhevmInstance.create(provider, provider, config), config };
+}
+
+async function createRelayerInstance(network: NetworkConfig): Promise<NetworkInstance> {
+  // Loaded lazily so the WASM bundle is only fetched once encryption is needed
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/web");
+  if (!network.fhevm && network.chainId !== SEPOLIA_CHAIN_ID) {
+    throw new Error(`No FHEVM relayer is configured for ${network.name}`);
+  }
+  const config = { ...SepoliaConfig, ...network.fhevm, chainId: network.chainId };
+  await initSDK();
+  return { instance: await createInstance({ ...config, network: (window as any).ethereum }), config };
+}
+
+// Instance for the active network: the relayer SDK on Sepolia and networks with their own relayer config,
+// the fhevm mock on a local hardhat node
+function getNetworkInstance(): Promise<NetworkInstance> {
+  if (!networkInstance) {
+    const network = getActiveNetwork();
+    networkInstance = network.chainId === HARDHAT_CHAIN_ID ? createMockInstance(network) : createRelayerInstance(network);
+    networkInstance.catch(() => {
+      networkInstance = null;
+    });
+  }
+  return networkInstance;
+}
+
+export async function getFheBackend(): Promise<FheBackend> {
+  return (await getNetworkInstance()).instance;
+}
+
+export async function getAclAddress(): Promise<string> {
+  return (await getNetworkInstance()).config.aclContractAddress;
+}
+
+const assertUint32 = (value: number, label: string) => {
+  if (!Number.isInteger(value) || value < 0 || value > MAX_UINT32) {
+    throw new Error(`${label} must be an integer between 0 and ${MAX_UINT32}`);
+  }
+};
+
+/**
+ * Encrypts the (package, vehicle) pair as two euint32 inputs sharing one proof,
+ * bound to `contractAddress` and the submitting `userAddress` as required by
+ * `OtaUpdateFHE.submitUpdate`.
+ */
+export async function encryptUpdateInput(
+  contractAddress: string,
+  userAddress: string,
+  updatePackageId: number,
+  vehicleId: number
+): Promise<EncryptedUpdateInput> {
+  assertUint32(updatePackageId, "Update package id");
+  assertUint32(vehicleId, "Vehicle id");
+
+  const backend = await getFheBackend();
+  const { handles, inputProof } = await backend
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(updatePackageId)
+    .add32(vehicleId)
+    .encrypt();
+
+  return {
+    updatePackageIdHandle: ethers.hexlify(handles[0]),
+    vehicleIdHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedVersionRange {
+  minVersionHandle: string;
+  targetVersionHandle: string;
+  inputProof: string;
+}
+
+/**
+ * Encrypts a package's version range, packed by `encodeVersion`, as two euint32
+ * inputs sharing one proof for `OtaUpdateFHE.setPackageVersions`.
+ */
+export async function encryptVersionRange(
+  contractAddress: string,
+  userAddress: string,
+  minVersion: number,
+  targetVersion: number
+): Promise<EncryptedVersionRange> {
+  assertUint32(minVersion, "Minimum version");
+  assertUint32(targetVersion, "Target version");
+
+  const backend = await getFheBackend();
+  const { handles, inputProof } = await backend
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(minVersion)
+    .add32(targetVersion)
+    .encrypt();
+
+  return {
+    minVersionHandle: ethers.hexlify(handles[0]),
+    targetVersionHandle: ethers.hexlify(handles[1]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedUint32Input {
+  handle: string;
+  inputProof: string;
+}
+
+/**
+ * Encrypts a single euint32 input, e.g. a vehicle id for `enrollVehicle` or a
+ * package id for `submitUpdateForVehicle`.
+ */
+export async function encryptUint32Input(
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  label: string
+): Promise<EncryptedUint32Input> {
+  assertUint32(value, label);
+
+  const backend = await getFheBackend();
+  const { handles, inputProof } = await backend
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(value)
+    .encrypt();
+
+  return {
+    handle: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface EncryptedUint256Input {
+  handle: string;
+  inputProof: string;
+}
+
+/** Encrypts a firmware payload key as a euint256 input for `OtaUpdateFHE.setPayloadKey`. */
+export async function encryptUint256Input(contractAddress: string, userAddress: string, value: bigint): Promise<EncryptedUint256Input> {
+  const backend = await getFheBackend();
+  const { handles, inputProof } = await backend.createEncryptedInput(contractAddress, userAddress).add256(value).encrypt();
+
+  return {
+    handle: ethers.hexlify(handles[0]),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
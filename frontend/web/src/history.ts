@@ -0,0 +1,457 @@
+// history.ts
+import { ethers } from "ethers";
+import { StatusTransition, UpdateStatus, toUpdateStatus } from "../../../lifecycle";
+import { HistoryCache, openHistoryCache } from "./historyCache";
+import type { OtaBatch, OtaEntry } from "./otaService";
+import type { OtaUpdateFHE } from "./types";
+
+export type HistoryEventName =
+  | "BatchOpened"
+  | "UpdateSubmitted"
+  | "BatchClosed"
+  | "IntegrityVerified"
+  | "UpdateStatusChanged"
+  | "DownloadProgress"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "TallyUpdated";
+
+// Plain-JSON form of a contract event so it can live in IndexedDB (no bigints)
+export interface HistoryEvent {
+  id: string;
+  scope: string;
+  name: HistoryEventName;
+  batchId: number;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+  entryIndex?: number;
+  provider?: string;
+  updatePackageIdEncrypted?: string;
+  vehicleIdEncrypted?: string;
+  vehicleIndex?: number;
+  manifestHash?: string;
+  payloadDigest?: string;
+  verifier?: string;
+  passed?: boolean;
+  from?: UpdateStatus;
+  to?: UpdateStatus;
+  actor?: string;
+  reason?: string;
+  // Percent reported by a DownloadProgress event
+  progress?: number;
+  requestId?: string;
+  stateHash?: string;
+  fromEntry?: number;
+  entryCount?: number;
+  updatePackageIds?: string[];
+  vehicleIds?: string[];
+  campaignId?: number;
+  // Fleet-wide encrypted tallies after a TallyUpdated event
+  succeededEncrypted?: string;
+  failedEncrypted?: string;
+}
+
+export interface SubmissionRecord {
+  entryIndex: number;
+  provider: string;
+  updatePackageIdEncrypted: string;
+  vehicleIdEncrypted: string;
+  vehicleIndex: number;
+  manifestHash: string;
+  payloadDigest: string;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IntegrityCheckRecord {
+  entryIndex: number;
+  verifier: string;
+  payloadDigest: string;
+  passed: boolean;
+  timestamp: number;
+  txHash: string;
+}
+
+// Cleartexts of entries fromEntry, fromEntry + 1, ... as published by one oracle callback
+export interface DecryptedEntries {
+  updatePackageIds: bigint[];
+  vehicleIds: bigint[];
+}
+
+export interface DecryptionRecord {
+  requestId: string;
+  stateHash?: string;
+  fromEntry: number;
+  entryCount?: number;
+  requestedAt?: number;
+  completedAt?: number;
+  result?: DecryptedEntries;
+  txHash: string;
+}
+
+export interface BatchHistory {
+  batchId: number;
+  openedAt?: number;
+  closedAt?: number;
+  submissions: SubmissionRecord[];
+  integrityChecks: IntegrityCheckRecord[];
+  transitions: StatusTransition[];
+  decryptions: DecryptionRecord[];
+  events: HistoryEvent[];
+}
+
+export interface HistorySyncOptions {
+  // First block to scan when nothing is cached yet, usually the deployment block
+  startBlock?: number;
+  pageSize?: number;
+  onProgress?: (syncedBlock: number, latestBlock: number) => void;
+  cache?: HistoryCache;
+}
+
+export interface HistorySnapshot {
+  events: HistoryEvent[];
+  syncedBlock: number;
+  newEvents: number;
+}
+
+const HISTORY_EVENTS: HistoryEventName[] = [
+  "BatchOpened",
+  "UpdateSubmitted",
+  "BatchClosed",
+  "IntegrityVerified",
+  "UpdateStatusChanged",
+  "DownloadProgress",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "TallyUpdated"
+];
+const DEFAULT_PAGE_SIZE = 2000;
+const MIN_PAGE_SIZE = 16;
+// Blocks re-scanned on every sync so a shallow reorg cannot leave stale events in the cache
+const REORG_DEPTH = 12;
+
+const toHandle = (value: bigint) => ethers.toBeHex(value, 32);
+
+const byChainOrder = (a: HistoryEvent, b: HistoryEvent) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex;
+
+// Concurrent refreshes of the same contract share one sync instead of racing on the cursor
+const inflight = new Map<string, Promise<HistorySnapshot>>();
+
+function toHistoryEvent(
+  scope: string,
+  log: ethers.Log,
+  parsed: ethers.LogDescription,
+  blockTimestamp: number
+): HistoryEvent {
+  const name = parsed.name as HistoryEventName;
+  const args = parsed.args;
+  const event: HistoryEvent = {
+    id: `${scope}:${log.blockNumber}:${log.index}`,
+    scope,
+    name,
+    batchId: Number(args.batchId),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    timestamp: name === "DecryptionRequested" ? blockTimestamp : Number(args.timestamp)
+  };
+
+  switch (name) {
+    case "UpdateSubmitted":
+      event.entryIndex = Number(args.entryIndex);
+      event.provider = args.provider;
+      event.updatePackageIdEncrypted = toHandle(args.updatePackageIdEncrypted);
+      event.vehicleIdEncrypted = toHandle(args.vehicleIdEncrypted);
+      event.vehicleIndex = Number(args.vehicleIndex);
+      event.manifestHash = args.manifestHash;
+      event.payloadDigest = args.payloadDigest;
+      break;
+    case "IntegrityVerified":
+      event.entryIndex = Number(args.entryIndex);
+      event.verifier = args.verifier;
+      event.payloadDigest = args.payloadDigest;
+      event.passed = args.passed;
+      break;
+    case "UpdateStatusChanged":
+      event.entryIndex = Number(args.entryIndex);
+      event.from = toUpdateStatus(args.from);
+      event.to = toUpdateStatus(args.to);
+      event.actor = args.actor;
+      event.reason = args.reason;
+      break;
+    case "DownloadProgress":
+      event.entryIndex = Number(args.entryIndex);
+      event.progress = Number(args.percent);
+      break;
+    case "DecryptionRequested":
+      event.requestId = args.requestId.toString();
+      event.stateHash = args.stateHash;
+      event.fromEntry = Number(args.fromEntry);
+      event.entryCount = Number(args.entryCount);
+      break;
+    case "DecryptionCompleted":
+      event.requestId = args.requestId.toString();
+      event.fromEntry = Number(args.fromEntry);
+      event.updatePackageIds = args.updatePackageIds.map((id: bigint) => id.toString());
+      event.vehicleIds = args.vehicleIds.map((id: bigint) => id.toString());
+      break;
+    case "TallyUpdated":
+      event.campaignId = Number(args.campaignId);
+      event.succeededEncrypted = toHandle(args.succeededEncrypted);
+      event.failedEncrypted = toHandle(args.failedEncrypted);
+      break;
+  }
+  return event;
+}
+
+async function fetchPage(
+  contract: OtaUpdateFHE,
+  provider: ethers.Provider,
+  address: string,
+  scope: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<HistoryEvent[]> {
+  const topics = HISTORY_EVENTS.map(name => contract.interface.getEvent(name).topicHash);
+  const logs = await provider.getLogs({ address, topics: [topics], fromBlock, toBlock });
+
+  // Only DecryptionRequested lacks a timestamp argument; look up each of its blocks once
+  const timestamps = new Map<number, number>();
+  const events: HistoryEvent[] = [];
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (!parsed) continue;
+    if (parsed.name === "DecryptionRequested" && !timestamps.has(log.blockNumber)) {
+      const block = await provider.getBlock(log.blockNumber);
+      timestamps.set(log.blockNumber, block ? block.timestamp : 0);
+    }
+    events.push(toHistoryEvent(scope, log, parsed, timestamps.get(log.blockNumber) ?? 0));
+  }
+  return events;
+}
+
+async function runSync(
+  contract: OtaUpdateFHE,
+  provider: ethers.Provider,
+  address: string,
+  scope: string,
+  options: HistorySyncOptions
+): Promise<HistorySnapshot> {
+  const cache = options.cache ?? await openHistoryCache();
+  const startBlock = options.startBlock ?? 0;
+  const cursor = await cache.getCursor(scope);
+  const latest = await provider.getBlockNumber();
+
+  let fromBlock = cursor === null ? startBlock : Math.max(startBlock, cursor - REORG_DEPTH + 1);
+  // The chain was reset (e.g. a restarted hardhat node); start over
+  if (cursor !== null && cursor > latest) fromBlock = startBlock;
+  await cache.deleteFrom(scope, fromBlock);
+
+  let pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  let newEvents = 0;
+  while (fromBlock <= latest) {
+    const toBlock = Math.min(fromBlock + pageSize - 1, latest);
+    let page: HistoryEvent[];
+    try {
+      page = await fetchPage(contract, provider, address, scope, fromBlock, toBlock);
+    } catch (e) {
+      // Public RPCs cap the block range or result size of eth_getLogs; shrink the window and retry
+      if (pageSize <= MIN_PAGE_SIZE) throw e;
+      pageSize = Math.max(MIN_PAGE_SIZE, Math.floor(pageSize / 2));
+      continue;
+    }
+    await cache.putEvents(page);
+    await cache.setCursor(scope, toBlock);
+    newEvents += page.length;
+    options.onProgress?.(toBlock, latest);
+    fromBlock = toBlock + 1;
+  }
+
+  const events = (await cache.getEvents(scope)).sort(byChainOrder);
+  return { events, syncedBlock: latest, newEvents };
+}
+
+/**
+ * Brings the cached event history of `contract` up to the latest block with
+ * paged eth_getLogs calls, starting from the last synced block, and returns
+ * every cached event in chain order.
+ */
+export async function syncHistory(contract: OtaUpdateFHE, options: HistorySyncOptions = {}): Promise<HistorySnapshot> {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract has no provider to read logs from");
+  const [network, address] = await Promise.all([provider.getNetwork(), contract.getAddress()]);
+  const scope = `${network.chainId}:${address.toLowerCase()}`;
+
+  const running = inflight.get(scope);
+  if (running) return running;
+  const sync = runSync(contract, provider, address, scope, options).finally(() => inflight.delete(scope));
+  inflight.set(scope, sync);
+  return sync;
+}
+
+export function buildBatchHistories(events: HistoryEvent[]): Map<number, BatchHistory> {
+  const histories = new Map<number, BatchHistory>();
+  const historyFor = (batchId: number) => {
+    let history = histories.get(batchId);
+    if (!history) {
+      history = { batchId, submissions: [], integrityChecks: [], transitions: [], decryptions: [], events: [] };
+      histories.set(batchId, history);
+    }
+    return history;
+  };
+  const decryptionFor = (history: BatchHistory, event: HistoryEvent) => {
+    let record = history.decryptions.find(d => d.requestId === event.requestId);
+    if (!record) {
+      record = { requestId: event.requestId!, fromEntry: event.fromEntry ?? 0, txHash: event.txHash };
+      history.decryptions.push(record);
+    }
+    return record;
+  };
+
+  for (const event of [...events].sort(byChainOrder)) {
+    const history = historyFor(event.batchId);
+    history.events.push(event);
+    switch (event.name) {
+      case "BatchOpened":
+        history.openedAt = event.timestamp;
+        break;
+      case "BatchClosed":
+        history.closedAt = event.timestamp;
+        break;
+      case "UpdateSubmitted":
+        history.submissions.push({
+          entryIndex: event.entryIndex ?? 0,
+          provider: event.provider!,
+          updatePackageIdEncrypted: event.updatePackageIdEncrypted!,
+          vehicleIdEncrypted: event.vehicleIdEncrypted!,
+          vehicleIndex: event.vehicleIndex ?? 0,
+          manifestHash: event.manifestHash!,
+          payloadDigest: event.payloadDigest!,
+          timestamp: event.timestamp,
+          txHash: event.txHash
+        });
+        break;
+      case "IntegrityVerified":
+        history.integrityChecks.push({
+          entryIndex: event.entryIndex ?? 0,
+          verifier: event.verifier!,
+          payloadDigest: event.payloadDigest!,
+          passed: event.passed!,
+          timestamp: event.timestamp,
+          txHash: event.txHash
+        });
+        break;
+      case "UpdateStatusChanged":
+        history.transitions.push({
+          entryIndex: event.entryIndex ?? 0,
+          from: event.from!,
+          to: event.to!,
+          actor: event.actor!,
+          reason: event.reason!,
+          timestamp: event.timestamp,
+          txHash: event.txHash
+        });
+        break;
+      case "DecryptionRequested": {
+        const record = decryptionFor(history, event);
+        record.stateHash = event.stateHash;
+        record.entryCount = event.entryCount;
+        record.requestedAt = event.timestamp;
+        record.txHash = event.txHash;
+        break;
+      }
+      case "DecryptionCompleted": {
+        const record = decryptionFor(history, event);
+        record.completedAt = event.timestamp;
+        record.result = {
+          updatePackageIds: event.updatePackageIds!.map(id => BigInt(id)),
+          vehicleIds: event.vehicleIds!.map(id => BigInt(id))
+        };
+        break;
+      }
+    }
+  }
+  return histories;
+}
+
+export interface TallySnapshot {
+  batchId: number;
+  campaignId: number;
+  // Handles of the fleet-wide counters right after this update; the zero hash while a counter is still empty
+  succeededEncrypted: string;
+  failedEncrypted: string;
+  timestamp: number;
+}
+
+/** Fleet-wide encrypted tallies after every completed or failed update, in chain order. */
+export function tallyTimeline(histories: Map<number, BatchHistory>): TallySnapshot[] {
+  return Array.from(histories.values())
+    .flatMap(history => history.events)
+    .filter(event => event.name === "TallyUpdated")
+    .sort(byChainOrder)
+    .map(event => ({
+      batchId: event.batchId,
+      campaignId: event.campaignId ?? 0,
+      succeededEncrypted: event.succeededEncrypted!,
+      failedEncrypted: event.failedEncrypted!,
+      timestamp: event.timestamp
+    }));
+}
+
+/** The oracle cleartexts of one entry, once a completed decryption request covered it. */
+export function decryptedEntry(history: BatchHistory, entryIndex: number): { updatePackageId: bigint; vehicleId: bigint } | null {
+  for (const record of history.decryptions) {
+    const i = entryIndex - record.fromEntry;
+    if (record.result && i >= 0 && i < record.result.updatePackageIds.length) {
+      return { updatePackageId: record.result.updatePackageIds[i], vehicleId: record.result.vehicleIds[i] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Rebuilds the batch list the contract would return from `batches(id)` and
+ * `getBatchEntries`: one entry per submission, with the status left by its
+ * last transition, its last download progress report, and the timestamp of
+ * the last state change.
+ */
+export function batchesFromHistory(histories: Map<number, BatchHistory>): OtaBatch[] {
+  return Array.from(histories.values())
+    .filter(h => h.openedAt !== undefined)
+    .map(h => {
+      const entries: OtaEntry[] = h.submissions.map(submission => ({
+        batchId: h.batchId,
+        index: submission.entryIndex,
+        provider: submission.provider,
+        updatePackageIdEncrypted: submission.updatePackageIdEncrypted,
+        vehicleIdEncrypted: submission.vehicleIdEncrypted,
+        vehicleIndex: submission.vehicleIndex,
+        manifestHash: submission.manifestHash,
+        payloadDigest: submission.payloadDigest,
+        status: "none",
+        downloadProgress: 0,
+        statusUpdatedAt: 0,
+        timestamp: submission.timestamp
+      }));
+      for (const transition of h.transitions) {
+        const entry = entries[transition.entryIndex];
+        if (!entry) continue;
+        entry.status = transition.to;
+        entry.statusUpdatedAt = transition.timestamp;
+      }
+      for (const event of h.events) {
+        const entry = event.name === "DownloadProgress" ? entries[event.entryIndex ?? -1] : undefined;
+        if (entry) entry.downloadProgress = event.progress ?? 0;
+      }
+      const latest = h.submissions[h.submissions.length - 1];
+      return {
+        id: h.batchId,
+        isOpen: h.closedAt === undefined,
+        entries,
+        timestamp: Math.max(h.openedAt!, h.closedAt ?? 0, latest ? latest.timestamp : 0)
+      };
+    })
+    .sort((a, b) => b.id - a.id);
+}
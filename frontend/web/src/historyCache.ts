@@ -0,0 +1,125 @@
+// historyCache.ts
+import type { HistoryEvent } from "./history";
+
+export interface HistoryCache {
+  getCursor: (scope: string) => Promise<number | null>;
+  setCursor: (scope: string, blockNumber: number) => Promise<void>;
+  putEvents: (events: HistoryEvent[]) => Promise<void>;
+  // Drops cached events at or after `fromBlock`, used before re-scanning a possibly reorged range
+  deleteFrom: (scope: string, fromBlock: number) => Promise<void>;
+  getEvents: (scope: string) => Promise<HistoryEvent[]>;
+}
+
+const DB_NAME = "ota-history";
+const DB_VERSION = 1;
+const EVENTS_STORE = "events";
+const CURSORS_STORE = "cursors";
+const SCOPE_BLOCK_INDEX = "scopeBlock";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const scopeRange = (scope: string, fromBlock = 0) =>
+  IDBKeyRange.bound([scope, fromBlock], [scope, Number.MAX_SAFE_INTEGER]);
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const events = db.createObjectStore(EVENTS_STORE, { keyPath: "id" });
+    events.createIndex(SCOPE_BLOCK_INDEX, ["scope", "blockNumber"]);
+    db.createObjectStore(CURSORS_STORE, { keyPath: "scope" });
+  };
+  return requestToPromise(request);
+}
+
+function createIndexedDbCache(db: IDBDatabase): HistoryCache {
+  return {
+    async getCursor(scope) {
+      const tx = db.transaction(CURSORS_STORE, "readonly");
+      const entry = await requestToPromise<{ scope: string; blockNumber: number } | undefined>(
+        tx.objectStore(CURSORS_STORE).get(scope)
+      );
+      return entry ? entry.blockNumber : null;
+    },
+
+    async setCursor(scope, blockNumber) {
+      const tx = db.transaction(CURSORS_STORE, "readwrite");
+      tx.objectStore(CURSORS_STORE).put({ scope, blockNumber });
+      await transactionDone(tx);
+    },
+
+    async putEvents(events) {
+      if (events.length === 0) return;
+      const tx = db.transaction(EVENTS_STORE, "readwrite");
+      const store = tx.objectStore(EVENTS_STORE);
+      events.forEach(event => store.put(event));
+      await transactionDone(tx);
+    },
+
+    async deleteFrom(scope, fromBlock) {
+      const tx = db.transaction(EVENTS_STORE, "readwrite");
+      const index = tx.objectStore(EVENTS_STORE).index(SCOPE_BLOCK_INDEX);
+      const keys = await requestToPromise(index.getAllKeys(scopeRange(scope, fromBlock)));
+      const store = tx.objectStore(EVENTS_STORE);
+      keys.forEach(key => store.delete(key));
+      await transactionDone(tx);
+    },
+
+    async getEvents(scope) {
+      const tx = db.transaction(EVENTS_STORE, "readonly");
+      const index = tx.objectStore(EVENTS_STORE).index(SCOPE_BLOCK_INDEX);
+      return requestToPromise<HistoryEvent[]>(index.getAll(scopeRange(scope)));
+    }
+  };
+}
+
+// Used when IndexedDB is unavailable (private browsing, tests); history is then rebuilt each session
+export function createMemoryHistoryCache(): HistoryCache {
+  const cursors = new Map<string, number>();
+  const events = new Map<string, HistoryEvent>();
+  const inScope = (scope: string, fromBlock = 0) =>
+    Array.from(events.values()).filter(e => e.scope === scope && e.blockNumber >= fromBlock);
+
+  return {
+    async getCursor(scope) {
+      return cursors.get(scope) ?? null;
+    },
+    async setCursor(scope, blockNumber) {
+      cursors.set(scope, blockNumber);
+    },
+    async putEvents(list) {
+      list.forEach(event => events.set(event.id, event));
+    },
+    async deleteFrom(scope, fromBlock) {
+      inScope(scope, fromBlock).forEach(event => events.delete(event.id));
+    },
+    async getEvents(scope) {
+      return inScope(scope).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+  };
+}
+
+let cachePromise: Promise<HistoryCache> | null = null;
+
+export function openHistoryCache(): Promise<HistoryCache> {
+  if (!cachePromise) {
+    cachePromise = (typeof indexedDB === "undefined" ? Promise.reject(new Error("IndexedDB not available")) : openDatabase())
+      .then(createIndexedDbCache)
+      .catch(e => {
+        console.warn("Falling back to in-memory history cache:", e);
+        return createMemoryHistoryCache();
+      });
+  }
+  return cachePromise;
+}
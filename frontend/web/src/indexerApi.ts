@@ -0,0 +1,62 @@
+// indexerApi.ts
+import type { SignedManifest } from "../../../manifest";
+import type { HistoryEvent, HistorySnapshot } from "./history";
+import type { ProviderEntry } from "./otaService";
+
+interface IndexerStatus {
+  chainId: string;
+  contractAddress: string;
+  syncedBlock: number | null;
+  headBlock: number | null;
+  lastError: string | null;
+}
+
+interface IndexedProvider {
+  address: string;
+  active: boolean;
+  addedBlock: number | null;
+}
+
+export interface IndexedManifest {
+  manifestHash: string;
+  signer: string;
+  receivedAt: number;
+  document: SignedManifest;
+  submissions: { batchId: number; entryIndex: number; provider: string; txHash: string }[];
+}
+
+const INDEXER_URL = (import.meta.env.VITE_INDEXER_URL || "").replace(/\/$/, "");
+
+export const isIndexerEnabled = () => INDEXER_URL !== "";
+
+async function getJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${INDEXER_URL}${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(`Indexer ${path} returned ${response.status}${body?.error ? `: ${body.error}` : ""}`);
+  }
+  return response.json();
+}
+
+export const fetchIndexerStatus = () => getJson<IndexerStatus>("/health");
+
+// Same snapshot the RPC history sync produces, served from the indexer's SQLite database
+export async function fetchIndexedHistory(): Promise<HistorySnapshot> {
+  const [status, events] = await Promise.all([fetchIndexerStatus(), getJson<HistoryEvent[]>("/events")]);
+  return { events, syncedBlock: status.syncedBlock ?? 0, newEvents: 0 };
+}
+
+export async function fetchIndexedProviders(): Promise<ProviderEntry[]> {
+  const providers = await getJson<IndexedProvider[]>("/providers");
+  return providers.map(p => ({ address: p.address, addedAtBlock: p.addedBlock ?? 0 }));
+}
+
+export const fetchIndexedManifest = (manifestHash: string) => getJson<IndexedManifest>(`/manifests/${manifestHash}`);
+
+// The chain only stores the manifest hash; the indexer keeps the signed document for everyone else to check
+export const publishManifest = (signed: SignedManifest) =>
+  getJson<IndexedManifest>("/manifests", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(signed)
+  });
@@ -0,0 +1,89 @@
+// integrity.ts
+// SHA-256 of firmware payloads, computed in integrityWorker.ts so multi-gigabyte images neither block the UI nor sit in memory
+
+export interface HashRequest {
+  file: Blob;
+  // Also hash chunks of this size into a Merkle root
+  chunkSize?: number;
+}
+
+export type HashResponse =
+  | { type: "progress"; bytes: number }
+  | { type: "done"; bytes: number; digest: string; chunkRoot?: string }
+  | { type: "error"; message: string };
+
+export interface PayloadDigest {
+  digest: string;
+  size: number;
+  // Merkle root of the chunk hashes, when a chunk size was given
+  chunkRoot?: string;
+}
+
+export interface PayloadCheck extends PayloadDigest {
+  digestMatches: boolean;
+  // null when there is no expected size to compare against
+  sizeMatches: boolean | null;
+}
+
+export interface HashOptions {
+  chunkSize?: number;
+  onProgress?: (bytes: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/** Streams `file` through a worker and resolves with its 0x-prefixed lowercase SHA-256. */
+export function hashPayload(file: Blob, options: HashOptions = {}): Promise<PayloadDigest> {
+  const { chunkSize, onProgress, signal } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Hashing aborted", "AbortError"));
+      return;
+    }
+    const worker = new Worker(new URL("./integrityWorker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException("Hashing aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", abort);
+
+    worker.onmessage = (e: MessageEvent<HashResponse>) => {
+      const message = e.data;
+      if (message.type === "progress") {
+        onProgress?.(message.bytes, file.size);
+        return;
+      }
+      finish();
+      if (message.type === "done") {
+        onProgress?.(message.bytes, file.size);
+        resolve({ digest: message.digest, size: message.bytes, chunkRoot: message.chunkRoot });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Integrity worker failed"));
+    };
+    const request: HashRequest = { file, chunkSize };
+    worker.postMessage(request);
+  });
+}
+
+/** Hashes `file` and compares it with the digest (and size, when known) committed for the update. */
+export async function checkPayload(
+  file: Blob,
+  expected: { payloadDigest: string; payloadSize?: number },
+  options: HashOptions = {}
+): Promise<PayloadCheck> {
+  const { digest, size } = await hashPayload(file, options);
+  return {
+    digest,
+    size,
+    digestMatches: digest === expected.payloadDigest.toLowerCase(),
+    sizeMatches: expected.payloadSize === undefined ? null : size === expected.payloadSize
+  };
+}
@@ -0,0 +1,56 @@
+// integrityWorker.ts
+import { sha256 } from "@noble/hashes/sha256";
+import { bytesToHex } from "@noble/hashes/utils";
+import { merkleRoot } from "../../../payload";
+import type { HashRequest, HashResponse } from "./integrity";
+
+// WebCrypto can only digest a whole buffer, so the payload is fed to an incremental hash chunk by chunk
+const PROGRESS_STEP = 8 * 1024 * 1024;
+// Leaf hashes of the download chunks are prefixed like payload/ chunkLeafHash does
+const LEAF_PREFIX = new Uint8Array([0]);
+
+const post = (message: HashResponse) => postMessage(message);
+
+onmessage = async (e: MessageEvent<HashRequest>) => {
+  try {
+    const { file, chunkSize } = e.data;
+    const hash = sha256.create();
+    const leaves: string[] = [];
+    let leaf = sha256.create().update(LEAF_PREFIX);
+    let inChunk = 0;
+    const reader = file.stream().getReader();
+    let bytes = 0;
+    let reported = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hash.update(value);
+      // Stream reads do not line up with chunks, so each read is split at chunk boundaries
+      for (let offset = 0; chunkSize && offset < value.length; ) {
+        const take = Math.min(chunkSize - inChunk, value.length - offset);
+        leaf.update(value.subarray(offset, offset + take));
+        offset += take;
+        inChunk += take;
+        if (inChunk === chunkSize) {
+          leaves.push(`0x${bytesToHex(leaf.digest())}`);
+          leaf = sha256.create().update(LEAF_PREFIX);
+          inChunk = 0;
+        }
+      }
+      bytes += value.length;
+      if (bytes - reported >= PROGRESS_STEP) {
+        reported = bytes;
+        post({ type: "progress", bytes });
+      }
+    }
+    if (inChunk > 0) leaves.push(`0x${bytesToHex(leaf.digest())}`);
+    post({
+      type: "done",
+      bytes,
+      digest: `0x${bytesToHex(hash.digest())}`,
+      chunkRoot: chunkSize ? merkleRoot(leaves) : undefined
+    });
+  } catch (err: any) {
+    post({ type: "error", message: err?.message || "Could not read the payload" });
+  }
+};
@@ -5,15 +5,38 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { defineChain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { getActiveNetwork, getNetwork } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const localhost = getNetwork('localhost');
+const activeNetwork = getActiveNetwork();
+
+const knownChains = [
+  sepolia,
+  { ...hardhat, rpcUrls: { default: { http: localhost.rpcUrls } } }
+] as const;
+
+// A custom network needs its own chain entry so the wallet can be asked to switch to it
+const chains = activeNetwork.key === 'custom' && activeNetwork.chainId
+  ? [...knownChains, defineChain({
+      id: activeNetwork.chainId,
+      name: activeNetwork.name,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      rpcUrls: { default: { http: activeNetwork.rpcUrls } },
+      blockExplorers: activeNetwork.explorerUrl
+        ? { default: { name: 'Explorer', url: activeNetwork.explorerUrl } }
+        : undefined
+    })] as const
+  : knownChains;
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: chains,
 });
 
 const queryClient = new QueryClient();
@@ -105,6 +128,7 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   return (
     <RainbowKitProvider
       locale="en"
+      initialChain={activeNetwork.chainId}
       theme={lightTheme({
         accentColor: theme.accentColor,
         accentColorForeground: theme.accentColorForeground,
@@ -0,0 +1,143 @@
+// networks.ts
+import configJson from "./config.json";
+
+export type NetworkKey = "localhost" | "sepolia" | "custom";
+
+// Relayer and host-chain FHEVM contracts that encryption and user decryption go through
+export interface FhevmNetworkConfig {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  name: string;
+  chainId: number;
+  rpcUrls: string[];
+  contractAddress: string;
+  // First block worth scanning for contract events
+  deployBlock: number;
+  explorerUrl?: string;
+  // Overrides the relayer SDK's Sepolia defaults; unused on local hardhat nodes, which run the fhevm mock
+  fhevm?: FhevmNetworkConfig;
+}
+
+// Entry the deploy task writes into config.json for each network it deployed to
+interface DeployedNetwork {
+  chainId: number;
+  rpcUrl: string;
+  contractAddress: string;
+  deployer?: string;
+  deployBlock?: number;
+  fhevm?: FhevmNetworkConfig;
+}
+
+interface DeployConfig {
+  defaultNetwork?: string;
+  networks: Partial<Record<NetworkKey, DeployedNetwork>>;
+}
+
+const deployConfig = configJson as DeployConfig;
+
+const SELECTED_NETWORK_KEY = "ota_network";
+const CUSTOM_NETWORK_KEY = "ota_custom_network";
+
+const BUILT_IN: Record<Exclude<NetworkKey, "custom">, Omit<NetworkConfig, "key" | "contractAddress" | "deployBlock">> = {
+  localhost: {
+    name: "Local Hardhat",
+    chainId: 31337,
+    rpcUrls: ["http://127.0.0.1:8545"]
+  },
+  sepolia: {
+    name: "Sepolia",
+    chainId: 11155111,
+    rpcUrls: [
+      "https://sepolia.drpc.org",
+      "https://ethereum-sepolia-rpc.publicnode.com",
+      "https://rpc.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    explorerUrl: "https://sepolia.etherscan.io"
+  }
+};
+
+export const NETWORK_KEYS: NetworkKey[] = ["localhost", "sepolia", "custom"];
+
+const isNetworkKey = (value: unknown): value is NetworkKey => NETWORK_KEYS.includes(value as NetworkKey);
+
+// VITE_SEPOLIA_RPC_URLS, VITE_LOCALHOST_CONTRACT_ADDRESS, VITE_CUSTOM_CHAIN_ID, ...
+const envValue = (key: NetworkKey, name: string): string | undefined => {
+  const value = import.meta.env[`VITE_${key.toUpperCase()}_${name}`];
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+};
+
+const envList = (key: NetworkKey, name: string) => envValue(key, name)?.split(",").map(url => url.trim()).filter(Boolean);
+
+const readStorage = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export function loadCustomNetwork(): Partial<NetworkConfig> {
+  return readStorage<Partial<NetworkConfig>>(CUSTOM_NETWORK_KEY) ?? {};
+}
+
+export function saveCustomNetwork(network: Partial<NetworkConfig>) {
+  localStorage.setItem(CUSTOM_NETWORK_KEY, JSON.stringify(network));
+}
+
+/**
+ * Resolves a network from, in order of precedence, Vite env overrides, the
+ * custom network saved in the browser, the deploy task's config.json entry and
+ * the built-in defaults.
+ */
+export function getNetwork(key: NetworkKey): NetworkConfig {
+  const stored: Partial<NetworkConfig> = key === "custom" ? loadCustomNetwork() : {};
+  const base = key === "custom" ? { name: "Custom", chainId: 0, rpcUrls: [] as string[], explorerUrl: undefined } : BUILT_IN[key];
+  const deployed = deployConfig.networks[key];
+  const deployedRpc = deployed?.rpcUrl && !base.rpcUrls.includes(deployed.rpcUrl) ? [deployed.rpcUrl] : [];
+
+  return {
+    key,
+    name: envValue(key, "NAME") ?? stored.name ?? base.name,
+    chainId: Number(envValue(key, "CHAIN_ID") ?? stored.chainId ?? deployed?.chainId ?? base.chainId),
+    rpcUrls: envList(key, "RPC_URLS") ?? (stored.rpcUrls?.length ? stored.rpcUrls : [...deployedRpc, ...base.rpcUrls]),
+    contractAddress: envValue(key, "CONTRACT_ADDRESS") ?? stored.contractAddress ?? deployed?.contractAddress ?? "",
+    deployBlock: Number(envValue(key, "DEPLOY_BLOCK") ?? stored.deployBlock ?? deployed?.deployBlock ?? 0),
+    explorerUrl: envValue(key, "EXPLORER_URL") ?? stored.explorerUrl ?? base.explorerUrl,
+    fhevm: stored.fhevm ?? deployed?.fhevm
+  };
+}
+
+export const listNetworks = () => NETWORK_KEYS.map(getNetwork);
+
+export function getActiveNetworkKey(): NetworkKey {
+  const selected = readStorage<string>(SELECTED_NETWORK_KEY);
+  if (isNetworkKey(selected)) return selected;
+  const fromEnv = import.meta.env.VITE_NETWORK;
+  if (isNetworkKey(fromEnv)) return fromEnv;
+  return isNetworkKey(deployConfig.defaultNetwork) ? deployConfig.defaultNetwork : "sepolia";
+}
+
+export const getActiveNetwork = () => getNetwork(getActiveNetworkKey());
+
+// Read-only clients, relayer instances and caches are built for one network, so switching reloads the app
+export function setActiveNetwork(key: NetworkKey) {
+  localStorage.setItem(SELECTED_NETWORK_KEY, JSON.stringify(key));
+  window.location.reload();
+}
+
+export const explorerTxUrl = (network: NetworkConfig, txHash: string) =>
+  network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, "")}/tx/${txHash}` : null;
+
+export const explorerAddressUrl = (network: NetworkConfig, address: string) =>
+  network.explorerUrl ? `${network.explorerUrl.replace(/\/$/, "")}/address/${address}` : null;
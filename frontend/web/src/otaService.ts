@@ -0,0 +1,632 @@
+// otaService.ts
+import { ethers } from "ethers";
+import { ACTIVE_STATUSES, StatusTimeouts, UPDATE_STATUSES, UpdateStatus, effectiveStatus, toUpdateStatus } from "../../../lifecycle";
+import { CampaignPlan, CampaignState, WaveProgress, toCampaignState } from "../../../rollout";
+import type { EncryptedUint256Input, EncryptedUint32Input, EncryptedUpdateInput, EncryptedVersionRange } from "./fhe";
+import type { OtaUpdateFHE } from "./types";
+
+export interface OtaBatch {
+  id: number;
+  isOpen: boolean;
+  // Submissions in the order they were appended; entries[i].index === i
+  entries: OtaEntry[];
+  timestamp: number;
+}
+
+export interface OtaEntry {
+  batchId: number;
+  index: number;
+  provider: string;
+  updatePackageIdEncrypted: string;
+  vehicleIdEncrypted: string;
+  // Registry vehicle the update targets; 0 when it was submitted with a raw encrypted vehicle id
+  vehicleIndex: number;
+  manifestHash: string;
+  payloadDigest: string;
+  status: UpdateStatus;
+  // Percent of the payload the vehicle agent last reported downloaded and verified
+  downloadProgress: number;
+  statusUpdatedAt: number;
+  timestamp: number;
+}
+
+export interface IntegrityCheck {
+  verifier: string;
+  payloadDigest: string;
+  passed: boolean;
+  timestamp: number;
+}
+
+export interface ProtocolState {
+  owner: string;
+  paused: boolean;
+  cooldownSeconds: number;
+  currentBatchId: number;
+  totalBatches: number;
+  statusTimeouts: StatusTimeouts;
+}
+
+export interface AccountState {
+  isOwner: boolean;
+  isProvider: boolean;
+  lastSubmissionTime: number;
+  lastDecryptionRequestTime: number;
+}
+
+// OtaUpdateFHE.MAX_PAGE_SIZE
+const ENTRY_PAGE_SIZE = 100;
+
+const toHandle = (value: bigint) => ethers.toBeHex(value, 32);
+
+export const hasSubmission = (batch: OtaBatch) => batch.entries.length > 0;
+
+/** Number of entries in each status, using the effective status so timed-out updates count as failed. */
+export function countStatuses(entries: OtaEntry[], timeouts: StatusTimeouts, now: number): [UpdateStatus, number][] {
+  const counts = new Map<UpdateStatus, number>();
+  for (const entry of entries) {
+    const status = effectiveStatus(entry.status, entry.statusUpdatedAt, timeouts, now);
+    counts.set(status, (counts.get(status) ?? 0) + 1);
+  }
+  return UPDATE_STATUSES.filter(status => counts.has(status)).map(status => [status, counts.get(status)!]);
+}
+
+/** The newest update still in progress for each registry vehicle, keyed by vehicle index. */
+export function activeUpdatesByVehicle(batches: OtaBatch[]): Map<number, OtaEntry> {
+  const active = new Map<number, OtaEntry>();
+  for (const entry of batches.flatMap(batch => batch.entries)) {
+    if (entry.vehicleIndex === 0 || !ACTIVE_STATUSES.includes(entry.status)) continue;
+    const current = active.get(entry.vehicleIndex);
+    if (!current || entry.batchId > current.batchId || (entry.batchId === current.batchId && entry.index > current.index)) {
+      active.set(entry.vehicleIndex, entry);
+    }
+  }
+  return active;
+}
+
+export async function fetchProtocolState(contract: OtaUpdateFHE): Promise<ProtocolState> {
+  const [owner, paused, cooldownSeconds, currentBatchId, totalBatches, statusTimeouts] = await Promise.all([
+    contract.owner(),
+    contract.paused(),
+    contract.cooldownSeconds(),
+    contract.currentBatchId(),
+    contract.totalBatches(),
+    fetchStatusTimeouts(contract)
+  ]);
+  return {
+    owner,
+    paused,
+    cooldownSeconds: Number(cooldownSeconds),
+    currentBatchId: Number(currentBatchId),
+    totalBatches: Number(totalBatches),
+    statusTimeouts
+  };
+}
+
+async function fetchStatusTimeouts(contract: OtaUpdateFHE): Promise<StatusTimeouts> {
+  const values = await Promise.all(ACTIVE_STATUSES.map(status => contract.statusTimeouts(UPDATE_STATUSES.indexOf(status))));
+  return Object.fromEntries(ACTIVE_STATUSES.map((status, i) => [status, Number(values[i])]));
+}
+
+export async function fetchAccountState(contract: OtaUpdateFHE, account: string, owner: string): Promise<AccountState> {
+  const [isProvider, lastSubmissionTime, lastDecryptionRequestTime] = await Promise.all([
+    contract.isProvider(account),
+    contract.lastSubmissionTime(account),
+    contract.lastDecryptionRequestTime(account)
+  ]);
+  return {
+    isOwner: owner.toLowerCase() === account.toLowerCase(),
+    isProvider,
+    lastSubmissionTime: Number(lastSubmissionTime),
+    lastDecryptionRequestTime: Number(lastDecryptionRequestTime)
+  };
+}
+
+export async function fetchBatch(contract: OtaUpdateFHE, batchId: number): Promise<OtaBatch | null> {
+  const batch = await contract.batches(batchId);
+  // Unopened slots read back as the zero struct
+  if (batch.id === 0n) return null;
+  return {
+    id: Number(batch.id),
+    isOpen: batch.isOpen,
+    entries: await fetchBatchEntries(contract, batchId, Number(batch.entryCount)),
+    timestamp: Number(batch.timestamp)
+  };
+}
+
+/** Reads `entryCount` entries of a batch with getBatchEntries, one page per call. */
+export async function fetchBatchEntries(contract: OtaUpdateFHE, batchId: number, entryCount: number): Promise<OtaEntry[]> {
+  const offsets = Array.from({ length: Math.ceil(entryCount / ENTRY_PAGE_SIZE) }, (_, i) => i * ENTRY_PAGE_SIZE);
+  const pages = await Promise.all(offsets.map(offset => contract.getBatchEntries(batchId, offset, ENTRY_PAGE_SIZE)));
+  return pages.flatMap((page, p) => page.map((entry, i) => ({
+    batchId,
+    index: offsets[p] + i,
+    provider: entry.provider,
+    updatePackageIdEncrypted: toHandle(entry.updatePackageIdEncrypted),
+    vehicleIdEncrypted: toHandle(entry.vehicleIdEncrypted),
+    vehicleIndex: Number(entry.vehicleIndex),
+    manifestHash: entry.manifestHash,
+    payloadDigest: entry.payloadDigest,
+    status: toUpdateStatus(entry.status),
+    downloadProgress: Number(entry.downloadProgress),
+    statusUpdatedAt: Number(entry.statusUpdatedAt),
+    timestamp: Number(entry.timestamp)
+  })));
+}
+
+export async function fetchIntegrityCheck(contract: OtaUpdateFHE, batchId: number, entryIndex: number): Promise<IntegrityCheck | null> {
+  const check = await contract.integrityChecks(batchId, entryIndex);
+  if (check.timestamp === 0n) return null;
+  return {
+    verifier: check.verifier,
+    payloadDigest: check.payloadDigest,
+    passed: check.passed,
+    timestamp: Number(check.timestamp)
+  };
+}
+
+export async function fetchBatches(contract: OtaUpdateFHE, state: ProtocolState): Promise<OtaBatch[]> {
+  const ids = Array.from({ length: state.currentBatchId }, (_, i) => i + 1);
+  const batches = await Promise.all(ids.map(id => fetchBatch(contract, id)));
+  return batches.filter((b): b is OtaBatch => b !== null).sort((a, b) => b.id - a.id);
+}
+
+export async function openBatch(contract: OtaUpdateFHE): Promise<number> {
+  const tx = await contract.openBatch();
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "BatchOpened");
+  return Number(event.args.batchId);
+}
+
+export async function submitUpdate(
+  contract: OtaUpdateFHE,
+  batchId: number,
+  input: EncryptedUpdateInput,
+  manifestHash: string,
+  payloadDigest: string
+): Promise<number> {
+  const tx = await contract.submitUpdate(
+    batchId,
+    input.updatePackageIdHandle,
+    input.vehicleIdHandle,
+    input.inputProof,
+    manifestHash,
+    payloadDigest
+  );
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "UpdateSubmitted");
+  return Number(event.args.entryIndex);
+}
+
+export async function submitUpdateForVehicle(
+  contract: OtaUpdateFHE,
+  batchId: number,
+  updatePackageId: EncryptedUint32Input,
+  vehicleIndex: number,
+  manifestHash: string,
+  payloadDigest: string
+): Promise<number> {
+  const tx = await contract.submitUpdateForVehicle(
+    batchId,
+    updatePackageId.handle,
+    updatePackageId.inputProof,
+    vehicleIndex,
+    manifestHash,
+    payloadDigest
+  );
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "UpdateSubmitted");
+  return Number(event.args.entryIndex);
+}
+
+/** Records a locally computed payload digest; the contract decides whether it matches. */
+export async function verifyPayloadIntegrity(
+  contract: OtaUpdateFHE,
+  batchId: number,
+  entryIndex: number,
+  payloadDigest: string
+): Promise<boolean> {
+  const tx = await contract.verifyPayloadIntegrity(batchId, entryIndex, payloadDigest);
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "IntegrityVerified");
+  return event.args.passed as boolean;
+}
+
+export async function reportInstalling(contract: OtaUpdateFHE, batchId: number, entryIndex: number): Promise<string> {
+  const tx = await contract.reportInstalling(batchId, entryIndex);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function reportBooted(contract: OtaUpdateFHE, batchId: number, entryIndex: number): Promise<string> {
+  const tx = await contract.reportBooted(batchId, entryIndex);
+  await tx.wait();
+  return tx.hash;
+}
+
+// `firmwareVersion` replaces the public cohort label of a vehicle that already has one; an empty string leaves it as it is
+export async function reportCompleted(
+  contract: OtaUpdateFHE,
+  batchId: number,
+  entryIndex: number,
+  firmwareVersion: string
+): Promise<string> {
+  const tx = await contract.reportCompleted(batchId, entryIndex, firmwareVersion);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function reportFailed(contract: OtaUpdateFHE, batchId: number, entryIndex: number, reason: string): Promise<string> {
+  const tx = await contract.reportFailed(batchId, entryIndex, reason);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function reportRolledBack(contract: OtaUpdateFHE, batchId: number, entryIndex: number, reason: string): Promise<string> {
+  const tx = await contract.reportRolledBack(batchId, entryIndex, reason);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function abortUpdate(contract: OtaUpdateFHE, batchId: number, entryIndex: number, reason: string): Promise<string> {
+  const tx = await contract.abortUpdate(batchId, entryIndex, reason);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function expireUpdate(contract: OtaUpdateFHE, batchId: number, entryIndex: number): Promise<string> {
+  const tx = await contract.expireUpdate(batchId, entryIndex);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function setStatusTimeout(contract: OtaUpdateFHE, status: UpdateStatus, timeoutSeconds: number): Promise<string> {
+  const tx = await contract.setStatusTimeout(UPDATE_STATUSES.indexOf(status), timeoutSeconds);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function closeBatch(contract: OtaUpdateFHE, batchId: number): Promise<string> {
+  const tx = await contract.closeBatch(batchId);
+  await tx.wait();
+  return tx.hash;
+}
+
+/** Resolves with one oracle request id per MAX_DECRYPTION_ENTRIES entries of the batch. */
+export async function requestBatchDecryption(contract: OtaUpdateFHE, batchId: number): Promise<bigint[]> {
+  const tx = await contract.requestBatchDecryption(batchId);
+  const receipt = await tx.wait();
+  const events = findEvents(contract, receipt, "DecryptionRequested");
+  if (events.length === 0) throw new Error("DecryptionRequested event not found in receipt");
+  return events.map(event => event.args.requestId as bigint);
+}
+
+function findEvents(contract: OtaUpdateFHE, receipt: ethers.ContractTransactionReceipt | null, name: string) {
+  if (!receipt) throw new Error(`Transaction dropped before ${name} was emitted`);
+  const events: ethers.LogDescription[] = [];
+  for (const log of receipt.logs) {
+    // Logs of the ACL and the other contracts the call went through are not in this ABI. One of the contract's own
+    // logs that fails to decode means the ABI is out of date, so that error reaches the caller
+    if (log.address.toLowerCase() !== receipt.to?.toLowerCase()) continue;
+    const parsed = contract.interface.parseLog(log);
+    if (parsed && parsed.name === name) events.push(parsed);
+  }
+  return events;
+}
+
+function findEvent(contract: OtaUpdateFHE, receipt: ethers.ContractTransactionReceipt | null, name: string) {
+  const [event] = findEvents(contract, receipt, name);
+  if (!event) throw new Error(`${name} event not found in receipt`);
+  return event;
+}
+
+export interface ProviderEntry {
+  address: string;
+  addedAtBlock: number;
+}
+
+/**
+ * Rebuilds the provider set by replaying ProviderAdded/ProviderRemoved in log
+ * order, then drops anyone `isProvider` no longer confirms.
+ */
+export async function fetchProviders(contract: OtaUpdateFHE, fromBlock = 0): Promise<ProviderEntry[]> {
+  const [added, removed] = await Promise.all([
+    contract.queryFilter(contract.filters.ProviderAdded(), fromBlock),
+    contract.queryFilter(contract.filters.ProviderRemoved(), fromBlock)
+  ]);
+  const events = [
+    ...added.map(e => ({ kind: "added" as const, provider: e.args.provider, blockNumber: e.blockNumber, index: e.index })),
+    ...removed.map(e => ({ kind: "removed" as const, provider: e.args.provider, blockNumber: e.blockNumber, index: e.index }))
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  const providers = new Map<string, ProviderEntry>();
+  for (const event of events) {
+    const key = event.provider.toLowerCase();
+    if (event.kind === "added") providers.set(key, { address: event.provider, addedAtBlock: event.blockNumber });
+    else providers.delete(key);
+  }
+
+  const entries = Array.from(providers.values());
+  const confirmed = await Promise.all(entries.map(p => contract.isProvider(p.address)));
+  return entries.filter((_, i) => confirmed[i]);
+}
+
+export async function addProvider(contract: OtaUpdateFHE, provider: string): Promise<string> {
+  const tx = await contract.addProvider(provider);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function removeProvider(contract: OtaUpdateFHE, provider: string): Promise<string> {
+  const tx = await contract.removeProvider(provider);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function setPaused(contract: OtaUpdateFHE, paused: boolean): Promise<string> {
+  const tx = paused ? await contract.pause() : await contract.unpause();
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function setCooldownSeconds(contract: OtaUpdateFHE, cooldownSeconds: number): Promise<string> {
+  const tx = await contract.setCooldownSeconds(cooldownSeconds);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function transferOwnership(contract: OtaUpdateFHE, newOwner: string): Promise<string> {
+  const tx = await contract.transferOwnership(newOwner);
+  await tx.wait();
+  return tx.hash;
+}
+
+export interface VehicleRecord {
+  index: number;
+  vehicleIdEncrypted: string;
+  model: string;
+  ecuType: string;
+  region: string;
+  firmwareVersion: string;
+  // Handle of the encrypted installed version compared by checkEligibility; the zero hash when unset
+  firmwareVersionEncrypted: string;
+  enrolledBy: string;
+  enrolledAt: number;
+  updatedAt: number;
+  // Address allowed to report install progress for this vehicle; the zero address when unset
+  agent: string;
+}
+
+export interface VehicleFilter {
+  search?: string;
+  model?: string;
+  ecuType?: string;
+  region?: string;
+}
+
+export async function fetchVehicles(contract: OtaUpdateFHE): Promise<VehicleRecord[]> {
+  const count = Number(await contract.vehicleCount());
+  const indexes = Array.from({ length: count }, (_, i) => i + 1);
+  const vehicles = await Promise.all(indexes.map(async index => {
+    const vehicle = await contract.vehicles(index);
+    return {
+      index,
+      vehicleIdEncrypted: toHandle(vehicle.vehicleIdEncrypted),
+      model: vehicle.model,
+      ecuType: vehicle.ecuType,
+      region: vehicle.region,
+      firmwareVersion: vehicle.firmwareVersion,
+      firmwareVersionEncrypted: toHandle(vehicle.firmwareVersionEncrypted),
+      enrolledBy: vehicle.enrolledBy,
+      enrolledAt: Number(vehicle.enrolledAt),
+      updatedAt: Number(vehicle.updatedAt),
+      agent: vehicle.agent
+    };
+  }));
+  return vehicles.sort((a, b) => b.index - a.index);
+}
+
+/**
+ * Matches on model, ECU type, region and firmware, plus decrypted vehicle ids the
+ * caller has already revealed (keyed by encrypted handle).
+ */
+export function filterVehicles(
+  vehicles: VehicleRecord[],
+  filter: VehicleFilter,
+  decryptedIds: Record<string, bigint> = {}
+): VehicleRecord[] {
+  const search = filter.search?.trim().toLowerCase() ?? "";
+  return vehicles.filter(vehicle => {
+    if (filter.model && vehicle.model !== filter.model) return false;
+    if (filter.ecuType && vehicle.ecuType !== filter.ecuType) return false;
+    if (filter.region && vehicle.region !== filter.region) return false;
+    if (!search) return true;
+    const decryptedId = decryptedIds[vehicle.vehicleIdEncrypted];
+    return [
+      `#${vehicle.index}`,
+      vehicle.model,
+      vehicle.ecuType,
+      vehicle.region,
+      vehicle.firmwareVersion,
+      decryptedId !== undefined ? `VEH${decryptedId}` : ""
+    ].some(field => field.toLowerCase().includes(search));
+  });
+}
+
+export async function enrollVehicle(
+  contract: OtaUpdateFHE,
+  vehicleId: EncryptedUint32Input,
+  model: string,
+  ecuType: string,
+  region: string,
+  firmwareVersion: string
+): Promise<number> {
+  const tx = await contract.enrollVehicle(vehicleId.handle, vehicleId.inputProof, model, ecuType, region, firmwareVersion);
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "VehicleEnrolled");
+  return Number(event.args.vehicleIndex);
+}
+
+export async function setVehicleFirmware(contract: OtaUpdateFHE, vehicleIndex: number, firmwareVersion: string): Promise<string> {
+  const tx = await contract.setVehicleFirmware(vehicleIndex, firmwareVersion);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function setVehicleAgent(contract: OtaUpdateFHE, vehicleIndex: number, agent: string): Promise<string> {
+  const tx = await contract.setVehicleAgent(vehicleIndex, agent);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function setVehicleVersionEncrypted(
+  contract: OtaUpdateFHE,
+  vehicleIndex: number,
+  version: EncryptedUint32Input
+): Promise<string> {
+  const tx = await contract.setVehicleVersionEncrypted(vehicleIndex, version.handle, version.inputProof);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function hasPackageVersions(contract: OtaUpdateFHE, manifestHash: string): Promise<boolean> {
+  const versions = await contract.packageVersions(manifestHash);
+  return versions.targetVersionEncrypted !== 0n;
+}
+
+// Provider that first used the manifest hash and so owns its version range, or null when it is unused
+export async function fetchManifestProvider(contract: OtaUpdateFHE, manifestHash: string): Promise<string | null> {
+  const provider = await contract.manifestProviders(manifestHash);
+  return provider === ethers.ZeroAddress ? null : provider;
+}
+
+export async function setPackageVersions(contract: OtaUpdateFHE, manifestHash: string, range: EncryptedVersionRange): Promise<string> {
+  const tx = await contract.setPackageVersions(manifestHash, range.minVersionHandle, range.targetVersionHandle, range.inputProof);
+  await tx.wait();
+  return tx.hash;
+}
+
+// Handle of the euint256 payload key, or null when no key is stored for the digest
+export async function fetchPayloadKeyHandle(contract: OtaUpdateFHE, payloadDigest: string): Promise<string | null> {
+  const { keyEncrypted } = await contract.payloadKeys(payloadDigest);
+  return keyEncrypted === 0n ? null : toHandle(keyEncrypted);
+}
+
+export async function setPayloadKey(contract: OtaUpdateFHE, payloadDigest: string, key: EncryptedUint256Input): Promise<string> {
+  const tx = await contract.setPayloadKey(payloadDigest, key.handle, key.inputProof);
+  await tx.wait();
+  return tx.hash;
+}
+
+/** Compares the versions under encryption and returns the ebool handle that only the vehicle agent can decrypt. */
+export async function checkEligibility(contract: OtaUpdateFHE, vehicleIndex: number, manifestHash: string): Promise<string> {
+  const tx = await contract.checkEligibility(vehicleIndex, manifestHash);
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "EligibilityChecked");
+  return toHandle(event.args.eligibleEncrypted);
+}
+
+// Handles of encrypted outcome counters; the zero hash until the first update is counted
+export interface EncryptedTally {
+  succeededEncrypted: string;
+  failedEncrypted: string;
+}
+
+const toTally = (tally: { succeededEncrypted: bigint; failedEncrypted: bigint }): EncryptedTally => ({
+  succeededEncrypted: toHandle(tally.succeededEncrypted),
+  failedEncrypted: toHandle(tally.failedEncrypted)
+});
+
+export const fetchBatchTally = async (contract: OtaUpdateFHE, batchId: number) => toTally(await contract.batchTallies(batchId));
+
+export const fetchCampaignTally = async (contract: OtaUpdateFHE, campaignId: number) =>
+  toTally(await contract.campaignTallies(campaignId));
+
+export interface OtaCampaign extends CampaignPlan {
+  id: number;
+  provider: string;
+  updatePackageIdEncrypted: string;
+  manifestHash: string;
+  payloadDigest: string;
+  currentWave: number;
+  state: CampaignState;
+  createdAt: number;
+  updatedAt: number;
+  progress: WaveProgress[];
+}
+
+export async function fetchCampaigns(contract: OtaUpdateFHE): Promise<OtaCampaign[]> {
+  const count = Number(await contract.campaignCount());
+  const ids = Array.from({ length: count }, (_, i) => i + 1);
+  const campaigns = await Promise.all(ids.map(async id => {
+    const [campaign, waves] = await Promise.all([contract.campaigns(id), contract.campaignWaves(id)]);
+    const progress = await Promise.all(waves.map(async (_, wave) => {
+      const [stats, quota] = await Promise.all([contract.waveStats(id, wave), contract.waveQuota(id, wave)]);
+      return {
+        wave,
+        quota: Number(quota),
+        dispatched: Number(stats.dispatched),
+        completed: Number(stats.completed),
+        failed: Number(stats.failed)
+      };
+    }));
+    return {
+      id,
+      provider: campaign.provider,
+      updatePackageIdEncrypted: toHandle(campaign.updatePackageIdEncrypted),
+      manifestHash: campaign.manifestHash,
+      payloadDigest: campaign.payloadDigest,
+      model: campaign.model,
+      region: campaign.region,
+      firmwareVersion: campaign.firmwareVersion,
+      targetCount: Number(campaign.targetCount),
+      waves: waves.map(Number),
+      failureThresholdBps: Number(campaign.failureThresholdBps),
+      rollbackVersion: campaign.rollbackVersion,
+      currentWave: Number(campaign.currentWave),
+      state: toCampaignState(campaign.state),
+      createdAt: Number(campaign.createdAt),
+      updatedAt: Number(campaign.updatedAt),
+      progress
+    };
+  }));
+  return campaigns.sort((a, b) => b.id - a.id);
+}
+
+export async function createCampaign(
+  contract: OtaUpdateFHE,
+  updatePackageId: EncryptedUint32Input,
+  manifestHash: string,
+  payloadDigest: string,
+  plan: CampaignPlan
+): Promise<number> {
+  const tx = await contract.createCampaign(updatePackageId.handle, updatePackageId.inputProof, manifestHash, payloadDigest, plan);
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "CampaignCreated");
+  return Number(event.args.campaignId);
+}
+
+/** Sends the campaign package to `vehicleIndexes` in the current wave; resolves with the batch holding their entries. */
+export async function dispatchCampaign(contract: OtaUpdateFHE, campaignId: number, vehicleIndexes: number[]): Promise<number> {
+  const tx = await contract.dispatchCampaign(campaignId, vehicleIndexes);
+  const receipt = await tx.wait();
+  const event = findEvent(contract, receipt, "CampaignDispatched");
+  return Number(event.args.batchId);
+}
+
+export async function advanceCampaign(contract: OtaUpdateFHE, campaignId: number): Promise<string> {
+  const tx = await contract.advanceCampaign(campaignId);
+  await tx.wait();
+  return tx.hash;
+}
+
+export async function cancelCampaign(contract: OtaUpdateFHE, campaignId: number, reason: string): Promise<string> {
+  const tx = await contract.cancelCampaign(campaignId, reason);
+  await tx.wait();
+  return tx.hash;
+}
+
+/** Vehicles among `vehicleIndexes` that the campaign has already sent its package to. */
+export async function fetchCampaignTargets(contract: OtaUpdateFHE, campaignId: number, vehicleIndexes: number[]): Promise<Set<number>> {
+  const batchIds = await Promise.all(vehicleIndexes.map(index => contract.campaignVehicleBatch(campaignId, index)));
+  return new Set(vehicleIndexes.filter((_, i) => batchIds[i] !== 0n));
+}
@@ -0,0 +1,109 @@
+// payloadStore.ts
+// Encrypted firmware payload storage: images are uploaded under a fresh AES key that OtaUpdateFHE wraps for vehicle agents
+import { ethers } from "ethers";
+import {
+  DEFAULT_CHUNK_SIZE,
+  PayloadStore,
+  chunkRoot,
+  encryptPayload,
+  generatePayloadKey,
+  payloadKeyToUint256,
+  s3PayloadStore,
+  uint256ToPayloadKey
+} from "../../../payload";
+import { encryptUint256Input } from "./fhe";
+import { hashPayload } from "./integrity";
+import { fetchPayloadKeyHandle, setPayloadKey } from "./otaService";
+import type { OtaUpdateFHE } from "./types";
+import { getOrCreateDecryptionSession, userDecryptHandles } from "./userDecryption";
+
+const PAYLOAD_STORE_URL = (import.meta.env.VITE_PAYLOAD_STORE_URL || "").replace(/\/$/, "");
+
+export const isPayloadStoreEnabled = () => PAYLOAD_STORE_URL !== "";
+
+let store: PayloadStore | null = null;
+
+export const getPayloadStore = () => (store ??= s3PayloadStore(PAYLOAD_STORE_URL));
+
+// "stored": new key and blob; "restored": blob re-encrypted under the key already on chain; "exists": nothing to do
+export type PayloadUploadResult = "stored" | "restored" | "exists";
+
+export interface PayloadUploadOptions {
+  // Patches the manifest lists as deltas, stored under the same key as the full image
+  deltas?: Uint8Array[];
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * Stores `file` and any deltas to it encrypted at their digests, and wraps
+ * the key on chain with `setPayloadKey`. Must run before the payload is submitted: vehicle agents
+ * are granted the key when their entry is recorded. The image is held in
+ * memory while it is encrypted, unlike the streamed integrity hash.
+ */
+export async function uploadPayload(
+  contract: OtaUpdateFHE,
+  signer: ethers.Signer,
+  file: Blob,
+  expected: { payloadDigest: string; payloadSize: number; chunkSize: number; chunkRoot: string },
+  options: PayloadUploadOptions = {}
+): Promise<PayloadUploadResult> {
+  const progress = options.onProgress ?? (() => undefined);
+  const { digest, size } = await hashPayload(file);
+  if (digest !== expected.payloadDigest.toLowerCase()) {
+    throw new Error("The firmware image does not match the manifest payload digest");
+  }
+  if (size !== expected.payloadSize) {
+    throw new Error(`The firmware image is ${size} bytes, the manifest says ${expected.payloadSize}`);
+  }
+
+  const payloads = getPayloadStore();
+  const contractAddress = await contract.getAddress();
+  const keyHandle = await fetchPayloadKeyHandle(contract, digest);
+
+  // Blobs are addressed by content, so only the ones the store lacks are uploaded
+  const missing: { digest: string; chunkSize: number; read: () => Promise<Uint8Array> }[] = [];
+  if (!(await payloads.has(digest))) {
+    missing.push({
+      digest,
+      chunkSize: expected.chunkSize,
+      read: async () => {
+        const payload = new Uint8Array(await file.arrayBuffer());
+        if (chunkRoot(payload, expected.chunkSize) !== expected.chunkRoot.toLowerCase()) {
+          throw new Error("The firmware image does not match the manifest chunk root");
+        }
+        return payload;
+      }
+    });
+  }
+  for (const patch of options.deltas ?? []) {
+    const patchDigest = ethers.sha256(patch);
+    if (!(await payloads.has(patchDigest))) missing.push({ digest: patchDigest, chunkSize: DEFAULT_CHUNK_SIZE, read: async () => patch });
+  }
+  if (keyHandle && missing.length === 0) return "exists";
+
+  let key: Uint8Array;
+  if (keyHandle) {
+    // Keys are write-once, so a blob missing from the store is encrypted under the key on chain
+    progress("Payload key already on chain; decrypting it to restore the missing blobs...");
+    const session = await getOrCreateDecryptionSession(signer, contractAddress);
+    const { values } = await userDecryptHandles(session, signer, [keyHandle]);
+    const wrapped = values[keyHandle];
+    if (wrapped === undefined) {
+      throw new Error("Another provider set the payload key for this image; only they can upload it");
+    }
+    key = uint256ToPayloadKey(wrapped);
+  } else {
+    key = generatePayloadKey();
+  }
+
+  for (const blob of missing) {
+    progress(blob.digest === digest ? "Encrypting the firmware image..." : "Encrypting a delta...");
+    await payloads.put(blob.digest, await encryptPayload(await blob.read(), key, blob.digest, blob.chunkSize));
+  }
+  if (keyHandle) return "restored";
+
+  progress("Wrapping the payload key with FHE...");
+  const keyInput = await encryptUint256Input(contractAddress, await signer.getAddress(), payloadKeyToUint256(key));
+  await setPayloadKey(contract, digest, keyInput);
+  return "stored";
+}
@@ -0,0 +1,268 @@
+// rpcPool.ts
+import { ethers } from "ethers";
+import { errorMessage } from "./errors";
+import type { NetworkConfig } from "./networks";
+
+export type EndpointState = "active" | "healthy" | "lagging" | "down" | "unknown";
+
+export interface EndpointStatus {
+  url: string;
+  state: EndpointState;
+  // Exponentially weighted averages over recent requests
+  latencyMs: number | null;
+  errorRate: number;
+  blockNumber: number | null;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+export interface RpcPoolStatus {
+  network: string;
+  headBlock: number | null;
+  activeUrl: string | null;
+  quorumEnabled: boolean;
+  endpoints: EndpointStatus[];
+}
+
+export interface RpcPoolOptions {
+  probeIntervalMs?: number;
+  timeoutMs?: number;
+  // Endpoints this many blocks behind the best head are not used
+  maxLagBlocks?: number;
+  quorum?: boolean;
+}
+
+export interface RpcPool {
+  start: () => void;
+  stop: () => void;
+  probe: () => Promise<void>;
+  getProvider: () => Promise<ethers.JsonRpcProvider>;
+  // Runs `read` on the best endpoint, failing over to the next one on errors
+  execute: <T>(read: (provider: ethers.JsonRpcProvider) => Promise<T>) => Promise<T>;
+  // Runs `read` on the two best endpoints and only returns when both agree
+  quorumRead: <T>(read: (provider: ethers.JsonRpcProvider) => Promise<T>) => Promise<T>;
+  setQuorumEnabled: (enabled: boolean) => void;
+  subscribe: (listener: (status: RpcPoolStatus) => void) => () => void;
+  getStatus: () => RpcPoolStatus;
+}
+
+export class QuorumMismatchError extends Error {
+  constructor(public urls: string[]) {
+    super(`RPC endpoints disagree on a critical read: ${urls.join(", ")}`);
+    this.name = "QuorumMismatchError";
+  }
+}
+
+interface Endpoint extends EndpointStatus {
+  provider: ethers.JsonRpcProvider;
+}
+
+const DEFAULT_PROBE_INTERVAL_MS = 30 * 1000;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_LAG_BLOCKS = 3;
+// Weight of the newest sample in the latency and error averages
+const EWMA_ALPHA = 0.3;
+const MAX_ERROR_RATE = 0.5;
+// Endpoints may legitimately be a block apart; a mismatching quorum read is retried once after this delay
+const QUORUM_RETRY_DELAY_MS = 1500;
+
+const withTimeout = <T>(promise: Promise<T>, timeoutMs: number) =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), timeoutMs))
+  ]);
+
+// JSON.stringify that tolerates the bigints contract reads return
+const fingerprint = (value: unknown) =>
+  JSON.stringify(value, (_, v) => (typeof v === "bigint" ? v.toString() : v));
+
+const host = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch (e) {
+    return url;
+  }
+};
+
+export function createRpcPool(network: NetworkConfig, options: RpcPoolOptions = {}): RpcPool {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxLagBlocks = options.maxLagBlocks ?? DEFAULT_MAX_LAG_BLOCKS;
+  let quorumEnabled = options.quorum ?? false;
+  const endpoints: Endpoint[] = network.rpcUrls.map(url => ({
+    url,
+    provider: new ethers.JsonRpcProvider(url, { name: network.key, chainId: network.chainId }, { staticNetwork: true }),
+    state: "unknown",
+    latencyMs: null,
+    errorRate: 0,
+    blockNumber: null,
+    lastCheckedAt: null,
+    lastError: null
+  }));
+  const listeners = new Set<(status: RpcPoolStatus) => void>();
+  let headBlock: number | null = null;
+  let activeUrl: string | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let firstProbe: Promise<void> | null = null;
+
+  const isUsable = (endpoint: Endpoint) =>
+    endpoint.blockNumber !== null &&
+    endpoint.errorRate < MAX_ERROR_RATE &&
+    (headBlock === null || headBlock - endpoint.blockNumber <= maxLagBlocks);
+
+  // Lower is better: slow or flaky endpoints are pushed down the list
+  const score = (endpoint: Endpoint) => (endpoint.latencyMs ?? timeoutMs) * (1 + endpoint.errorRate * 4);
+
+  const ranked = () => {
+    const usable = endpoints.filter(isUsable).sort((a, b) => score(a) - score(b));
+    // With nothing healthy, still try everything rather than failing outright
+    return usable.length ? usable : [...endpoints].sort((a, b) => score(a) - score(b));
+  };
+
+  const getStatus = (): RpcPoolStatus => ({
+    network: network.name,
+    headBlock,
+    activeUrl,
+    quorumEnabled,
+    endpoints: endpoints.map(({ provider, ...status }) => ({
+      ...status,
+      state: status.url === activeUrl && isUsable({ provider, ...status }) ? "active" : status.state
+    }))
+  });
+
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach(listener => listener(status));
+  };
+
+  const record = (endpoint: Endpoint, latencyMs: number | null, error: unknown) => {
+    endpoint.lastCheckedAt = Date.now();
+    endpoint.errorRate = endpoint.errorRate * (1 - EWMA_ALPHA) + (error ? EWMA_ALPHA : 0);
+    if (latencyMs !== null) {
+      endpoint.latencyMs = endpoint.latencyMs === null ? latencyMs : endpoint.latencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+    }
+    endpoint.lastError = error ? errorMessage(error) : null;
+  };
+
+  const classify = () => {
+    const heights = endpoints.map(e => e.blockNumber).filter((b): b is number => b !== null);
+    headBlock = heights.length ? Math.max(...heights) : null;
+    for (const endpoint of endpoints) {
+      if (endpoint.blockNumber === null || endpoint.errorRate >= MAX_ERROR_RATE) endpoint.state = "down";
+      else if (headBlock !== null && headBlock - endpoint.blockNumber > maxLagBlocks) endpoint.state = "lagging";
+      else endpoint.state = "healthy";
+    }
+  };
+
+  const probe = async () => {
+    await Promise.all(endpoints.map(async endpoint => {
+      const started = performance.now();
+      try {
+        endpoint.blockNumber = await withTimeout(endpoint.provider.getBlockNumber(), timeoutMs);
+        record(endpoint, performance.now() - started, null);
+      } catch (e) {
+        endpoint.blockNumber = null;
+        record(endpoint, null, e);
+      }
+    }));
+    classify();
+    notify();
+  };
+
+  const ensureProbed = () => {
+    if (!firstProbe) firstProbe = probe();
+    return firstProbe;
+  };
+
+  const run = async <T>(endpoint: Endpoint, read: (provider: ethers.JsonRpcProvider) => Promise<T>) => {
+    const started = performance.now();
+    try {
+      const result = await withTimeout(read(endpoint.provider), timeoutMs);
+      record(endpoint, performance.now() - started, null);
+      return result;
+    } catch (e) {
+      record(endpoint, null, e);
+      throw e;
+    }
+  };
+
+  const execute = async <T>(read: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> => {
+    await ensureProbed();
+    let lastError: unknown = new Error(`No RPC endpoints configured for ${network.name}`);
+    for (const endpoint of ranked()) {
+      try {
+        const result = await run(endpoint, read);
+        if (activeUrl !== endpoint.url) {
+          activeUrl = endpoint.url;
+          notify();
+        }
+        return result;
+      } catch (e) {
+        // Contract reverts are answers, not endpoint failures
+        if (ethers.isError(e, "CALL_EXCEPTION")) throw e;
+        lastError = e;
+      }
+    }
+    classify();
+    notify();
+    throw lastError;
+  };
+
+  const quorumRead = async <T>(read: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> => {
+    await ensureProbed();
+    const pair = ranked().slice(0, 2);
+    if (!quorumEnabled || pair.length < 2) return execute(read);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const [a, b] = await Promise.all(pair.map(endpoint => run(endpoint, read)));
+      if (fingerprint(a) === fingerprint(b)) return a;
+      if (attempt === 0) await new Promise(resolve => setTimeout(resolve, QUORUM_RETRY_DELAY_MS));
+    }
+    throw new QuorumMismatchError(pair.map(e => host(e.url)));
+  };
+
+  return {
+    start() {
+      if (timer) return;
+      ensureProbed();
+      timer = setInterval(() => {
+        probe().catch(e => console.error("RPC probe failed:", e));
+      }, options.probeIntervalMs ?? DEFAULT_PROBE_INTERVAL_MS);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+
+    probe,
+
+    async getProvider() {
+      await ensureProbed();
+      const [best] = ranked();
+      if (!best) throw new Error(`No RPC endpoints configured for ${network.name}`);
+      if (activeUrl !== best.url) {
+        activeUrl = best.url;
+        notify();
+      }
+      return best.provider;
+    },
+
+    execute,
+    quorumRead,
+
+    setQuorumEnabled(enabled) {
+      quorumEnabled = enabled;
+      notify();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      listener(getStatus());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getStatus
+  };
+}
@@ -0,0 +1,2908 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace OtaUpdateFHE {
+  export type CampaignPlanStruct = {
+    model: string;
+    region: string;
+    firmwareVersion: string;
+    targetCount: BigNumberish;
+    waves: BigNumberish[];
+    failureThresholdBps: BigNumberish;
+    rollbackVersion: string;
+  };
+
+  export type CampaignPlanStructOutput = [
+    model: string,
+    region: string,
+    firmwareVersion: string,
+    targetCount: bigint,
+    waves: bigint[],
+    failureThresholdBps: bigint,
+    rollbackVersion: string
+  ] & {
+    model: string;
+    region: string;
+    firmwareVersion: string;
+    targetCount: bigint;
+    waves: bigint[];
+    failureThresholdBps: bigint;
+    rollbackVersion: string;
+  };
+
+  export type BatchEntryStruct = {
+    provider: AddressLike;
+    updatePackageIdEncrypted: BigNumberish;
+    vehicleIdEncrypted: BigNumberish;
+    vehicleIndex: BigNumberish;
+    manifestHash: BytesLike;
+    payloadDigest: BytesLike;
+    status: BigNumberish;
+    downloadProgress: BigNumberish;
+    statusUpdatedAt: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type BatchEntryStructOutput = [
+    provider: string,
+    updatePackageIdEncrypted: bigint,
+    vehicleIdEncrypted: bigint,
+    vehicleIndex: bigint,
+    manifestHash: string,
+    payloadDigest: string,
+    status: bigint,
+    downloadProgress: bigint,
+    statusUpdatedAt: bigint,
+    timestamp: bigint
+  ] & {
+    provider: string;
+    updatePackageIdEncrypted: bigint;
+    vehicleIdEncrypted: bigint;
+    vehicleIndex: bigint;
+    manifestHash: string;
+    payloadDigest: string;
+    status: bigint;
+    downloadProgress: bigint;
+    statusUpdatedAt: bigint;
+    timestamp: bigint;
+  };
+}
+
+export interface OtaUpdateFHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_DECRYPTION_ENTRIES"
+      | "MAX_PAGE_SIZE"
+      | "MAX_WAVES"
+      | "abortUpdate"
+      | "addProvider"
+      | "advanceCampaign"
+      | "batchEntries"
+      | "batchTallies"
+      | "batches"
+      | "campaignBatches"
+      | "campaignCount"
+      | "campaignTallies"
+      | "campaignVehicleBatch"
+      | "campaignWaves"
+      | "campaigns"
+      | "cancelCampaign"
+      | "checkEligibility"
+      | "closeBatch"
+      | "cooldownSeconds"
+      | "createCampaign"
+      | "currentBatchId"
+      | "decryptionContexts"
+      | "dispatchCampaign"
+      | "eligibility"
+      | "enrollVehicle"
+      | "expireUpdate"
+      | "fleetTally"
+      | "getBatchEntries"
+      | "integrityChecks"
+      | "isProvider"
+      | "lastDecryptionRequestTime"
+      | "lastSubmissionTime"
+      | "manifestProviders"
+      | "myCallback"
+      | "openBatch"
+      | "owner"
+      | "packageVersions"
+      | "pause"
+      | "paused"
+      | "payloadKeys"
+      | "protocolId"
+      | "removeProvider"
+      | "reportBooted"
+      | "reportCompleted"
+      | "reportDownloadProgress"
+      | "reportFailed"
+      | "reportInstalling"
+      | "reportRolledBack"
+      | "requestBatchDecryption"
+      | "setCooldownSeconds"
+      | "setPackageVersions"
+      | "setPayloadKey"
+      | "setStatusTimeout"
+      | "setVehicleAgent"
+      | "setVehicleFirmware"
+      | "setVehicleVersionEncrypted"
+      | "statusTimeouts"
+      | "submitUpdate"
+      | "submitUpdateForVehicle"
+      | "totalBatches"
+      | "transferOwnership"
+      | "unpause"
+      | "vehicleCount"
+      | "vehicles"
+      | "verifyPayloadIntegrity"
+      | "waveQuota"
+      | "waveStats"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BatchClosed"
+      | "BatchOpened"
+      | "CampaignCreated"
+      | "CampaignDispatched"
+      | "CampaignStateChanged"
+      | "CampaignWaveAdvanced"
+      | "CooldownSecondsSet"
+      | "DecryptionCompleted"
+      | "DecryptionFulfilled"
+      | "DecryptionRequested"
+      | "DownloadProgress"
+      | "EligibilityChecked"
+      | "IntegrityVerified"
+      | "OwnershipTransferred"
+      | "PackageVersionsSet"
+      | "Paused"
+      | "PayloadKeySet"
+      | "ProviderAdded"
+      | "ProviderRemoved"
+      | "StatusTimeoutSet"
+      | "TallyUpdated"
+      | "Unpaused"
+      | "UpdateStatusChanged"
+      | "UpdateSubmitted"
+      | "VehicleAgentSet"
+      | "VehicleEnrolled"
+      | "VehicleFirmwareUpdated"
+      | "VehicleVersionEncrypted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_DECRYPTION_ENTRIES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_PAGE_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "MAX_WAVES", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "abortUpdate",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "advanceCampaign",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchEntries",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batchTallies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "batches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignBatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignTallies",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignVehicleBatch",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaignWaves",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "campaigns",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelCampaign",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "checkEligibility",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeBatch",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cooldownSeconds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createCampaign",
+    values: [
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      OtaUpdateFHE.CampaignPlanStruct
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentBatchId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "decryptionContexts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "dispatchCampaign",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "eligibility",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "enrollVehicle",
+    values: [BytesLike, BytesLike, string, string, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "expireUpdate",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "fleetTally",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBatchEntries",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "integrityChecks",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastDecryptionRequestTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastSubmissionTime",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "manifestProviders",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "myCallback",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "openBatch", values?: undefined): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "packageVersions",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "payloadKeys",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeProvider",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportBooted",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportCompleted",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportDownloadProgress",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportFailed",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportInstalling",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "reportRolledBack",
+    values: [BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestBatchDecryption",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setCooldownSeconds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPackageVersions",
+    values: [BytesLike, BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPayloadKey",
+    values: [BytesLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setStatusTimeout",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVehicleAgent",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVehicleFirmware",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVehicleVersionEncrypted",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "statusTimeouts",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitUpdate",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "submitUpdateForVehicle",
+    values: [
+      BigNumberish,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalBatches",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vehicleCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vehicles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyPayloadIntegrity",
+    values: [BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "waveQuota",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "waveStats",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_DECRYPTION_ENTRIES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_PAGE_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "MAX_WAVES", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "abortUpdate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "advanceCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "batchTallies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "batches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignTallies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignVehicleBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "campaignWaves",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "campaigns", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "checkEligibility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentBatchId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "decryptionContexts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "dispatchCampaign",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "eligibility",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "enrollVehicle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "expireUpdate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "fleetTally", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getBatchEntries",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "integrityChecks",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isProvider", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "lastDecryptionRequestTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "lastSubmissionTime",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "manifestProviders",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "myCallback", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "openBatch", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "packageVersions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "payloadKeys",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "removeProvider",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportBooted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportCompleted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportDownloadProgress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportFailed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportInstalling",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "reportRolledBack",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestBatchDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setCooldownSeconds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPackageVersions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPayloadKey",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setStatusTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVehicleAgent",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVehicleFirmware",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVehicleVersionEncrypted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "statusTimeouts",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitUpdate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "submitUpdateForVehicle",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalBatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vehicleCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "vehicles", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyPayloadIntegrity",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "waveQuota", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "waveStats", data: BytesLike): Result;
+}
+
+export namespace BatchClosedEvent {
+  export type InputTuple = [batchId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [batchId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchOpenedEvent {
+  export type InputTuple = [batchId: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [batchId: bigint, timestamp: bigint];
+  export interface OutputObject {
+    batchId: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignCreatedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    provider: AddressLike,
+    manifestHash: BytesLike,
+    payloadDigest: BytesLike,
+    targetCount: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    provider: string,
+    manifestHash: string,
+    payloadDigest: string,
+    targetCount: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    provider: string;
+    manifestHash: string;
+    payloadDigest: string;
+    targetCount: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignDispatchedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    wave: BigNumberish,
+    batchId: BigNumberish,
+    entryIndex: BigNumberish,
+    vehicleIndex: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    wave: bigint,
+    batchId: bigint,
+    entryIndex: bigint,
+    vehicleIndex: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    wave: bigint;
+    batchId: bigint;
+    entryIndex: bigint;
+    vehicleIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignStateChangedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    from: BigNumberish,
+    to: BigNumberish,
+    wave: BigNumberish,
+    actor: AddressLike,
+    reason: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    from: bigint,
+    to: bigint,
+    wave: bigint,
+    actor: string,
+    reason: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    from: bigint;
+    to: bigint;
+    wave: bigint;
+    actor: string;
+    reason: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CampaignWaveAdvancedEvent {
+  export type InputTuple = [
+    campaignId: BigNumberish,
+    wave: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    campaignId: bigint,
+    wave: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    campaignId: bigint;
+    wave: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CooldownSecondsSetEvent {
+  export type InputTuple = [
+    oldCooldownSeconds: BigNumberish,
+    newCooldownSeconds: BigNumberish
+  ];
+  export type OutputTuple = [
+    oldCooldownSeconds: bigint,
+    newCooldownSeconds: bigint
+  ];
+  export interface OutputObject {
+    oldCooldownSeconds: bigint;
+    newCooldownSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionCompletedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    fromEntry: BigNumberish,
+    updatePackageIds: BigNumberish[],
+    vehicleIds: BigNumberish[],
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    fromEntry: bigint,
+    updatePackageIds: bigint[],
+    vehicleIds: bigint[],
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    fromEntry: bigint;
+    updatePackageIds: bigint[];
+    vehicleIds: bigint[];
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionFulfilledEvent {
+  export type InputTuple = [requestID: BigNumberish];
+  export type OutputTuple = [requestID: bigint];
+  export interface OutputObject {
+    requestID: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionRequestedEvent {
+  export type InputTuple = [
+    requestId: BigNumberish,
+    batchId: BigNumberish,
+    stateHash: BytesLike,
+    fromEntry: BigNumberish,
+    entryCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    requestId: bigint,
+    batchId: bigint,
+    stateHash: string,
+    fromEntry: bigint,
+    entryCount: bigint
+  ];
+  export interface OutputObject {
+    requestId: bigint;
+    batchId: bigint;
+    stateHash: string;
+    fromEntry: bigint;
+    entryCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DownloadProgressEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    entryIndex: BigNumberish,
+    percent: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    entryIndex: bigint,
+    percent: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    entryIndex: bigint;
+    percent: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace EligibilityCheckedEvent {
+  export type InputTuple = [
+    vehicleIndex: BigNumberish,
+    manifestHash: BytesLike,
+    eligibleEncrypted: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    vehicleIndex: bigint,
+    manifestHash: string,
+    eligibleEncrypted: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    vehicleIndex: bigint;
+    manifestHash: string;
+    eligibleEncrypted: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace IntegrityVerifiedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    entryIndex: BigNumberish,
+    verifier: AddressLike,
+    payloadDigest: BytesLike,
+    passed: boolean,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    entryIndex: bigint,
+    verifier: string,
+    payloadDigest: string,
+    passed: boolean,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    entryIndex: bigint;
+    verifier: string;
+    payloadDigest: string;
+    passed: boolean;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PackageVersionsSetEvent {
+  export type InputTuple = [
+    manifestHash: BytesLike,
+    provider: AddressLike,
+    minVersionEncrypted: BigNumberish,
+    targetVersionEncrypted: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    manifestHash: string,
+    provider: string,
+    minVersionEncrypted: bigint,
+    targetVersionEncrypted: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    manifestHash: string;
+    provider: string;
+    minVersionEncrypted: bigint;
+    targetVersionEncrypted: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PayloadKeySetEvent {
+  export type InputTuple = [
+    payloadDigest: BytesLike,
+    provider: AddressLike,
+    keyEncrypted: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    payloadDigest: string,
+    provider: string,
+    keyEncrypted: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    payloadDigest: string;
+    provider: string;
+    keyEncrypted: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderAddedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ProviderRemovedEvent {
+  export type InputTuple = [provider: AddressLike];
+  export type OutputTuple = [provider: string];
+  export interface OutputObject {
+    provider: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatusTimeoutSetEvent {
+  export type InputTuple = [status: BigNumberish, timeoutSeconds: BigNumberish];
+  export type OutputTuple = [status: bigint, timeoutSeconds: bigint];
+  export interface OutputObject {
+    status: bigint;
+    timeoutSeconds: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TallyUpdatedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    campaignId: BigNumberish,
+    succeededEncrypted: BigNumberish,
+    failedEncrypted: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    campaignId: bigint,
+    succeededEncrypted: bigint,
+    failedEncrypted: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    campaignId: bigint;
+    succeededEncrypted: bigint;
+    failedEncrypted: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpdateStatusChangedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    entryIndex: BigNumberish,
+    from: BigNumberish,
+    to: BigNumberish,
+    actor: AddressLike,
+    reason: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    entryIndex: bigint,
+    from: bigint,
+    to: bigint,
+    actor: string,
+    reason: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    entryIndex: bigint;
+    from: bigint;
+    to: bigint;
+    actor: string;
+    reason: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UpdateSubmittedEvent {
+  export type InputTuple = [
+    batchId: BigNumberish,
+    entryIndex: BigNumberish,
+    provider: AddressLike,
+    updatePackageIdEncrypted: BigNumberish,
+    vehicleIdEncrypted: BigNumberish,
+    vehicleIndex: BigNumberish,
+    manifestHash: BytesLike,
+    payloadDigest: BytesLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    batchId: bigint,
+    entryIndex: bigint,
+    provider: string,
+    updatePackageIdEncrypted: bigint,
+    vehicleIdEncrypted: bigint,
+    vehicleIndex: bigint,
+    manifestHash: string,
+    payloadDigest: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    batchId: bigint;
+    entryIndex: bigint;
+    provider: string;
+    updatePackageIdEncrypted: bigint;
+    vehicleIdEncrypted: bigint;
+    vehicleIndex: bigint;
+    manifestHash: string;
+    payloadDigest: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VehicleAgentSetEvent {
+  export type InputTuple = [vehicleIndex: BigNumberish, agent: AddressLike];
+  export type OutputTuple = [vehicleIndex: bigint, agent: string];
+  export interface OutputObject {
+    vehicleIndex: bigint;
+    agent: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VehicleEnrolledEvent {
+  export type InputTuple = [
+    vehicleIndex: BigNumberish,
+    enrolledBy: AddressLike,
+    vehicleIdEncrypted: BigNumberish,
+    model: string,
+    ecuType: string,
+    region: string,
+    firmwareVersion: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    vehicleIndex: bigint,
+    enrolledBy: string,
+    vehicleIdEncrypted: bigint,
+    model: string,
+    ecuType: string,
+    region: string,
+    firmwareVersion: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    vehicleIndex: bigint;
+    enrolledBy: string;
+    vehicleIdEncrypted: bigint;
+    model: string;
+    ecuType: string;
+    region: string;
+    firmwareVersion: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VehicleFirmwareUpdatedEvent {
+  export type InputTuple = [
+    vehicleIndex: BigNumberish,
+    firmwareVersion: string,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    vehicleIndex: bigint,
+    firmwareVersion: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    vehicleIndex: bigint;
+    firmwareVersion: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VehicleVersionEncryptedEvent {
+  export type InputTuple = [
+    vehicleIndex: BigNumberish,
+    firmwareVersionEncrypted: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    vehicleIndex: bigint,
+    firmwareVersionEncrypted: bigint,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    vehicleIndex: bigint;
+    firmwareVersionEncrypted: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface OtaUpdateFHE extends BaseContract {
+  connect(runner?: ContractRunner | null): OtaUpdateFHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: OtaUpdateFHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_DECRYPTION_ENTRIES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_PAGE_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WAVES: TypedContractMethod<[], [bigint], "view">;
+
+  abortUpdate: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  addProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  advanceCampaign: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  batchEntries: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        provider: string;
+        updatePackageIdEncrypted: bigint;
+        vehicleIdEncrypted: bigint;
+        vehicleIndex: bigint;
+        manifestHash: string;
+        payloadDigest: string;
+        status: bigint;
+        downloadProgress: bigint;
+        statusUpdatedAt: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  batchTallies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+
+  batches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        id: bigint;
+        isOpen: boolean;
+        entryCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  campaignBatches: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { campaignId: bigint; wave: bigint }],
+    "view"
+  >;
+
+  campaignCount: TypedContractMethod<[], [bigint], "view">;
+
+  campaignTallies: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+
+  campaignVehicleBatch: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  campaignWaves: TypedContractMethod<
+    [campaignId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  campaigns: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        provider: string;
+        updatePackageIdEncrypted: bigint;
+        manifestHash: string;
+        payloadDigest: string;
+        model: string;
+        region: string;
+        firmwareVersion: string;
+        targetCount: bigint;
+        failureThresholdBps: bigint;
+        rollbackVersion: string;
+        currentWave: bigint;
+        state: bigint;
+        createdAt: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  cancelCampaign: TypedContractMethod<
+    [campaignId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  checkEligibility: TypedContractMethod<
+    [vehicleIndex: BigNumberish, manifestHash: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  closeBatch: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cooldownSeconds: TypedContractMethod<[], [bigint], "view">;
+
+  createCampaign: TypedContractMethod<
+    [
+      updatePackageIdInput: BytesLike,
+      inputProof: BytesLike,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike,
+      plan: OtaUpdateFHE.CampaignPlanStruct
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  currentBatchId: TypedContractMethod<[], [bigint], "view">;
+
+  decryptionContexts: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        batchId: bigint;
+        fromEntry: bigint;
+        entryCount: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  dispatchCampaign: TypedContractMethod<
+    [campaignId: BigNumberish, vehicleIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  eligibility: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike],
+    [bigint],
+    "view"
+  >;
+
+  enrollVehicle: TypedContractMethod<
+    [
+      vehicleIdInput: BytesLike,
+      inputProof: BytesLike,
+      model: string,
+      ecuType: string,
+      region: string,
+      firmwareVersion: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  expireUpdate: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  fleetTally: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+
+  getBatchEntries: TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [OtaUpdateFHE.BatchEntryStructOutput[]],
+    "view"
+  >;
+
+  integrityChecks: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, boolean, bigint] & {
+        verifier: string;
+        payloadDigest: string;
+        passed: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  isProvider: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  lastDecryptionRequestTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  lastSubmissionTime: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  manifestProviders: TypedContractMethod<[arg0: BytesLike], [string], "view">;
+
+  myCallback: TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  openBatch: TypedContractMethod<[], [void], "nonpayable">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  packageVersions: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, string, bigint] & {
+        minVersionEncrypted: bigint;
+        targetVersionEncrypted: bigint;
+        setBy: string;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  payloadKeys: TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, string, bigint] & {
+        keyEncrypted: bigint;
+        setBy: string;
+        setAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  removeProvider: TypedContractMethod<
+    [provider: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  reportBooted: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reportCompleted: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, firmwareVersion: string],
+    [void],
+    "nonpayable"
+  >;
+
+  reportDownloadProgress: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, percent: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reportFailed: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  reportInstalling: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  reportRolledBack: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+
+  requestBatchDecryption: TypedContractMethod<
+    [batchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setCooldownSeconds: TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setPackageVersions: TypedContractMethod<
+    [
+      manifestHash: BytesLike,
+      minVersionInput: BytesLike,
+      targetVersionInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setPayloadKey: TypedContractMethod<
+    [payloadDigest: BytesLike, keyInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setStatusTimeout: TypedContractMethod<
+    [status: BigNumberish, timeoutSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setVehicleAgent: TypedContractMethod<
+    [vehicleIndex: BigNumberish, agent: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVehicleFirmware: TypedContractMethod<
+    [vehicleIndex: BigNumberish, firmwareVersion: string],
+    [void],
+    "nonpayable"
+  >;
+
+  setVehicleVersionEncrypted: TypedContractMethod<
+    [
+      vehicleIndex: BigNumberish,
+      versionInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  statusTimeouts: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  submitUpdate: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      updatePackageIdInput: BytesLike,
+      vehicleIdInput: BytesLike,
+      inputProof: BytesLike,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  submitUpdateForVehicle: TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      updatePackageIdInput: BytesLike,
+      inputProof: BytesLike,
+      vehicleIndex: BigNumberish,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+
+  totalBatches: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  vehicleCount: TypedContractMethod<[], [bigint], "view">;
+
+  vehicles: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        string
+      ] & {
+        vehicleIdEncrypted: bigint;
+        model: string;
+        ecuType: string;
+        region: string;
+        firmwareVersion: string;
+        firmwareVersionEncrypted: bigint;
+        enrolledBy: string;
+        enrolledAt: bigint;
+        updatedAt: bigint;
+        agent: string;
+      }
+    ],
+    "view"
+  >;
+
+  verifyPayloadIntegrity: TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, payloadDigest: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+
+  waveQuota: TypedContractMethod<
+    [campaignId: BigNumberish, wave: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  waveStats: TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        dispatched: bigint;
+        completed: bigint;
+        failed: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_DECRYPTION_ENTRIES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_PAGE_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WAVES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "abortUpdate"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "addProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "advanceCampaign"
+  ): TypedContractMethod<[campaignId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "batchEntries"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [
+        string,
+        bigint,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        provider: string;
+        updatePackageIdEncrypted: bigint;
+        vehicleIdEncrypted: bigint;
+        vehicleIndex: bigint;
+        manifestHash: string;
+        payloadDigest: string;
+        status: bigint;
+        downloadProgress: bigint;
+        statusUpdatedAt: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batchTallies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "batches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, boolean, bigint, bigint] & {
+        id: bigint;
+        isOpen: boolean;
+        entryCount: bigint;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "campaignBatches"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { campaignId: bigint; wave: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "campaignCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "campaignTallies"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "campaignVehicleBatch"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "campaignWaves"
+  ): TypedContractMethod<[campaignId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "campaigns"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        bigint,
+        bigint
+      ] & {
+        id: bigint;
+        provider: string;
+        updatePackageIdEncrypted: bigint;
+        manifestHash: string;
+        payloadDigest: string;
+        model: string;
+        region: string;
+        firmwareVersion: string;
+        targetCount: bigint;
+        failureThresholdBps: bigint;
+        rollbackVersion: string;
+        currentWave: bigint;
+        state: bigint;
+        createdAt: bigint;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelCampaign"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "checkEligibility"
+  ): TypedContractMethod<
+    [vehicleIndex: BigNumberish, manifestHash: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "closeBatch"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cooldownSeconds"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createCampaign"
+  ): TypedContractMethod<
+    [
+      updatePackageIdInput: BytesLike,
+      inputProof: BytesLike,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike,
+      plan: OtaUpdateFHE.CampaignPlanStruct
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "currentBatchId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "decryptionContexts"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, string, boolean] & {
+        batchId: bigint;
+        fromEntry: bigint;
+        entryCount: bigint;
+        stateHash: string;
+        processed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "dispatchCampaign"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, vehicleIndices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "eligibility"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BytesLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "enrollVehicle"
+  ): TypedContractMethod<
+    [
+      vehicleIdInput: BytesLike,
+      inputProof: BytesLike,
+      model: string,
+      ecuType: string,
+      region: string,
+      firmwareVersion: string
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "expireUpdate"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "fleetTally"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint] & { succeededEncrypted: bigint; failedEncrypted: bigint }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBatchEntries"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [OtaUpdateFHE.BatchEntryStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "integrityChecks"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [string, string, boolean, bigint] & {
+        verifier: string;
+        payloadDigest: string;
+        passed: boolean;
+        timestamp: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isProvider"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "lastDecryptionRequestTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "lastSubmissionTime"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "manifestProviders"
+  ): TypedContractMethod<[arg0: BytesLike], [string], "view">;
+  getFunction(
+    nameOrSignature: "myCallback"
+  ): TypedContractMethod<
+    [requestId: BigNumberish, cleartexts: BytesLike, proof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "openBatch"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "packageVersions"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, bigint, string, bigint] & {
+        minVersionEncrypted: bigint;
+        targetVersionEncrypted: bigint;
+        setBy: string;
+        updatedAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "payloadKeys"
+  ): TypedContractMethod<
+    [arg0: BytesLike],
+    [
+      [bigint, string, bigint] & {
+        keyEncrypted: bigint;
+        setBy: string;
+        setAt: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "removeProvider"
+  ): TypedContractMethod<[provider: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "reportBooted"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportCompleted"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, firmwareVersion: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportDownloadProgress"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, percent: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportFailed"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportInstalling"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "reportRolledBack"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, reason: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "requestBatchDecryption"
+  ): TypedContractMethod<[batchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCooldownSeconds"
+  ): TypedContractMethod<
+    [newCooldownSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPackageVersions"
+  ): TypedContractMethod<
+    [
+      manifestHash: BytesLike,
+      minVersionInput: BytesLike,
+      targetVersionInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPayloadKey"
+  ): TypedContractMethod<
+    [payloadDigest: BytesLike, keyInput: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setStatusTimeout"
+  ): TypedContractMethod<
+    [status: BigNumberish, timeoutSeconds: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVehicleAgent"
+  ): TypedContractMethod<
+    [vehicleIndex: BigNumberish, agent: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVehicleFirmware"
+  ): TypedContractMethod<
+    [vehicleIndex: BigNumberish, firmwareVersion: string],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setVehicleVersionEncrypted"
+  ): TypedContractMethod<
+    [
+      vehicleIndex: BigNumberish,
+      versionInput: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "statusTimeouts"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "submitUpdate"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      updatePackageIdInput: BytesLike,
+      vehicleIdInput: BytesLike,
+      inputProof: BytesLike,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "submitUpdateForVehicle"
+  ): TypedContractMethod<
+    [
+      batchId: BigNumberish,
+      updatePackageIdInput: BytesLike,
+      inputProof: BytesLike,
+      vehicleIndex: BigNumberish,
+      manifestHash: BytesLike,
+      payloadDigest: BytesLike
+    ],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "totalBatches"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "vehicleCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "vehicles"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [
+        bigint,
+        string,
+        string,
+        string,
+        string,
+        bigint,
+        string,
+        bigint,
+        bigint,
+        string
+      ] & {
+        vehicleIdEncrypted: bigint;
+        model: string;
+        ecuType: string;
+        region: string;
+        firmwareVersion: string;
+        firmwareVersionEncrypted: bigint;
+        enrolledBy: string;
+        enrolledAt: bigint;
+        updatedAt: bigint;
+        agent: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "verifyPayloadIntegrity"
+  ): TypedContractMethod<
+    [batchId: BigNumberish, entryIndex: BigNumberish, payloadDigest: BytesLike],
+    [boolean],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "waveQuota"
+  ): TypedContractMethod<
+    [campaignId: BigNumberish, wave: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "waveStats"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: BigNumberish],
+    [
+      [bigint, bigint, bigint] & {
+        dispatched: bigint;
+        completed: bigint;
+        failed: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "BatchClosed"
+  ): TypedContractEvent<
+    BatchClosedEvent.InputTuple,
+    BatchClosedEvent.OutputTuple,
+    BatchClosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchOpened"
+  ): TypedContractEvent<
+    BatchOpenedEvent.InputTuple,
+    BatchOpenedEvent.OutputTuple,
+    BatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignCreated"
+  ): TypedContractEvent<
+    CampaignCreatedEvent.InputTuple,
+    CampaignCreatedEvent.OutputTuple,
+    CampaignCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignDispatched"
+  ): TypedContractEvent<
+    CampaignDispatchedEvent.InputTuple,
+    CampaignDispatchedEvent.OutputTuple,
+    CampaignDispatchedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignStateChanged"
+  ): TypedContractEvent<
+    CampaignStateChangedEvent.InputTuple,
+    CampaignStateChangedEvent.OutputTuple,
+    CampaignStateChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CampaignWaveAdvanced"
+  ): TypedContractEvent<
+    CampaignWaveAdvancedEvent.InputTuple,
+    CampaignWaveAdvancedEvent.OutputTuple,
+    CampaignWaveAdvancedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CooldownSecondsSet"
+  ): TypedContractEvent<
+    CooldownSecondsSetEvent.InputTuple,
+    CooldownSecondsSetEvent.OutputTuple,
+    CooldownSecondsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionCompleted"
+  ): TypedContractEvent<
+    DecryptionCompletedEvent.InputTuple,
+    DecryptionCompletedEvent.OutputTuple,
+    DecryptionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionFulfilled"
+  ): TypedContractEvent<
+    DecryptionFulfilledEvent.InputTuple,
+    DecryptionFulfilledEvent.OutputTuple,
+    DecryptionFulfilledEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionRequested"
+  ): TypedContractEvent<
+    DecryptionRequestedEvent.InputTuple,
+    DecryptionRequestedEvent.OutputTuple,
+    DecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DownloadProgress"
+  ): TypedContractEvent<
+    DownloadProgressEvent.InputTuple,
+    DownloadProgressEvent.OutputTuple,
+    DownloadProgressEvent.OutputObject
+  >;
+  getEvent(
+    key: "EligibilityChecked"
+  ): TypedContractEvent<
+    EligibilityCheckedEvent.InputTuple,
+    EligibilityCheckedEvent.OutputTuple,
+    EligibilityCheckedEvent.OutputObject
+  >;
+  getEvent(
+    key: "IntegrityVerified"
+  ): TypedContractEvent<
+    IntegrityVerifiedEvent.InputTuple,
+    IntegrityVerifiedEvent.OutputTuple,
+    IntegrityVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PackageVersionsSet"
+  ): TypedContractEvent<
+    PackageVersionsSetEvent.InputTuple,
+    PackageVersionsSetEvent.OutputTuple,
+    PackageVersionsSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PayloadKeySet"
+  ): TypedContractEvent<
+    PayloadKeySetEvent.InputTuple,
+    PayloadKeySetEvent.OutputTuple,
+    PayloadKeySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderAdded"
+  ): TypedContractEvent<
+    ProviderAddedEvent.InputTuple,
+    ProviderAddedEvent.OutputTuple,
+    ProviderAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ProviderRemoved"
+  ): TypedContractEvent<
+    ProviderRemovedEvent.InputTuple,
+    ProviderRemovedEvent.OutputTuple,
+    ProviderRemovedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatusTimeoutSet"
+  ): TypedContractEvent<
+    StatusTimeoutSetEvent.InputTuple,
+    StatusTimeoutSetEvent.OutputTuple,
+    StatusTimeoutSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "TallyUpdated"
+  ): TypedContractEvent<
+    TallyUpdatedEvent.InputTuple,
+    TallyUpdatedEvent.OutputTuple,
+    TallyUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpdateStatusChanged"
+  ): TypedContractEvent<
+    UpdateStatusChangedEvent.InputTuple,
+    UpdateStatusChangedEvent.OutputTuple,
+    UpdateStatusChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "UpdateSubmitted"
+  ): TypedContractEvent<
+    UpdateSubmittedEvent.InputTuple,
+    UpdateSubmittedEvent.OutputTuple,
+    UpdateSubmittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VehicleAgentSet"
+  ): TypedContractEvent<
+    VehicleAgentSetEvent.InputTuple,
+    VehicleAgentSetEvent.OutputTuple,
+    VehicleAgentSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "VehicleEnrolled"
+  ): TypedContractEvent<
+    VehicleEnrolledEvent.InputTuple,
+    VehicleEnrolledEvent.OutputTuple,
+    VehicleEnrolledEvent.OutputObject
+  >;
+  getEvent(
+    key: "VehicleFirmwareUpdated"
+  ): TypedContractEvent<
+    VehicleFirmwareUpdatedEvent.InputTuple,
+    VehicleFirmwareUpdatedEvent.OutputTuple,
+    VehicleFirmwareUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VehicleVersionEncrypted"
+  ): TypedContractEvent<
+    VehicleVersionEncryptedEvent.InputTuple,
+    VehicleVersionEncryptedEvent.OutputTuple,
+    VehicleVersionEncryptedEvent.OutputObject
+  >;
+
+  filters: {
+    "BatchClosed(uint256,uint256)": TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+    BatchClosed: TypedContractEvent<
+      BatchClosedEvent.InputTuple,
+      BatchClosedEvent.OutputTuple,
+      BatchClosedEvent.OutputObject
+    >;
+
+    "BatchOpened(uint256,uint256)": TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+    BatchOpened: TypedContractEvent<
+      BatchOpenedEvent.InputTuple,
+      BatchOpenedEvent.OutputTuple,
+      BatchOpenedEvent.OutputObject
+    >;
+
+    "CampaignCreated(uint256,address,bytes32,bytes32,uint256,uint256)": TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+    CampaignCreated: TypedContractEvent<
+      CampaignCreatedEvent.InputTuple,
+      CampaignCreatedEvent.OutputTuple,
+      CampaignCreatedEvent.OutputObject
+    >;
+
+    "CampaignDispatched(uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      CampaignDispatchedEvent.InputTuple,
+      CampaignDispatchedEvent.OutputTuple,
+      CampaignDispatchedEvent.OutputObject
+    >;
+    CampaignDispatched: TypedContractEvent<
+      CampaignDispatchedEvent.InputTuple,
+      CampaignDispatchedEvent.OutputTuple,
+      CampaignDispatchedEvent.OutputObject
+    >;
+
+    "CampaignStateChanged(uint256,uint8,uint8,uint256,address,string,uint256)": TypedContractEvent<
+      CampaignStateChangedEvent.InputTuple,
+      CampaignStateChangedEvent.OutputTuple,
+      CampaignStateChangedEvent.OutputObject
+    >;
+    CampaignStateChanged: TypedContractEvent<
+      CampaignStateChangedEvent.InputTuple,
+      CampaignStateChangedEvent.OutputTuple,
+      CampaignStateChangedEvent.OutputObject
+    >;
+
+    "CampaignWaveAdvanced(uint256,uint256,uint256)": TypedContractEvent<
+      CampaignWaveAdvancedEvent.InputTuple,
+      CampaignWaveAdvancedEvent.OutputTuple,
+      CampaignWaveAdvancedEvent.OutputObject
+    >;
+    CampaignWaveAdvanced: TypedContractEvent<
+      CampaignWaveAdvancedEvent.InputTuple,
+      CampaignWaveAdvancedEvent.OutputTuple,
+      CampaignWaveAdvancedEvent.OutputObject
+    >;
+
+    "CooldownSecondsSet(uint256,uint256)": TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+    CooldownSecondsSet: TypedContractEvent<
+      CooldownSecondsSetEvent.InputTuple,
+      CooldownSecondsSetEvent.OutputTuple,
+      CooldownSecondsSetEvent.OutputObject
+    >;
+
+    "DecryptionCompleted(uint256,uint256,uint256,uint256[],uint256[],uint256)": TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+    DecryptionCompleted: TypedContractEvent<
+      DecryptionCompletedEvent.InputTuple,
+      DecryptionCompletedEvent.OutputTuple,
+      DecryptionCompletedEvent.OutputObject
+    >;
+
+    "DecryptionFulfilled(uint256)": TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+    DecryptionFulfilled: TypedContractEvent<
+      DecryptionFulfilledEvent.InputTuple,
+      DecryptionFulfilledEvent.OutputTuple,
+      DecryptionFulfilledEvent.OutputObject
+    >;
+
+    "DecryptionRequested(uint256,uint256,bytes32,uint256,uint256)": TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+    DecryptionRequested: TypedContractEvent<
+      DecryptionRequestedEvent.InputTuple,
+      DecryptionRequestedEvent.OutputTuple,
+      DecryptionRequestedEvent.OutputObject
+    >;
+
+    "DownloadProgress(uint256,uint256,uint8,uint256)": TypedContractEvent<
+      DownloadProgressEvent.InputTuple,
+      DownloadProgressEvent.OutputTuple,
+      DownloadProgressEvent.OutputObject
+    >;
+    DownloadProgress: TypedContractEvent<
+      DownloadProgressEvent.InputTuple,
+      DownloadProgressEvent.OutputTuple,
+      DownloadProgressEvent.OutputObject
+    >;
+
+    "EligibilityChecked(uint256,bytes32,uint256,uint256)": TypedContractEvent<
+      EligibilityCheckedEvent.InputTuple,
+      EligibilityCheckedEvent.OutputTuple,
+      EligibilityCheckedEvent.OutputObject
+    >;
+    EligibilityChecked: TypedContractEvent<
+      EligibilityCheckedEvent.InputTuple,
+      EligibilityCheckedEvent.OutputTuple,
+      EligibilityCheckedEvent.OutputObject
+    >;
+
+    "IntegrityVerified(uint256,uint256,address,bytes32,bool,uint256)": TypedContractEvent<
+      IntegrityVerifiedEvent.InputTuple,
+      IntegrityVerifiedEvent.OutputTuple,
+      IntegrityVerifiedEvent.OutputObject
+    >;
+    IntegrityVerified: TypedContractEvent<
+      IntegrityVerifiedEvent.InputTuple,
+      IntegrityVerifiedEvent.OutputTuple,
+      IntegrityVerifiedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "PackageVersionsSet(bytes32,address,uint256,uint256,uint256)": TypedContractEvent<
+      PackageVersionsSetEvent.InputTuple,
+      PackageVersionsSetEvent.OutputTuple,
+      PackageVersionsSetEvent.OutputObject
+    >;
+    PackageVersionsSet: TypedContractEvent<
+      PackageVersionsSetEvent.InputTuple,
+      PackageVersionsSetEvent.OutputTuple,
+      PackageVersionsSetEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PayloadKeySet(bytes32,address,uint256,uint256)": TypedContractEvent<
+      PayloadKeySetEvent.InputTuple,
+      PayloadKeySetEvent.OutputTuple,
+      PayloadKeySetEvent.OutputObject
+    >;
+    PayloadKeySet: TypedContractEvent<
+      PayloadKeySetEvent.InputTuple,
+      PayloadKeySetEvent.OutputTuple,
+      PayloadKeySetEvent.OutputObject
+    >;
+
+    "ProviderAdded(address)": TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+    ProviderAdded: TypedContractEvent<
+      ProviderAddedEvent.InputTuple,
+      ProviderAddedEvent.OutputTuple,
+      ProviderAddedEvent.OutputObject
+    >;
+
+    "ProviderRemoved(address)": TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+    ProviderRemoved: TypedContractEvent<
+      ProviderRemovedEvent.InputTuple,
+      ProviderRemovedEvent.OutputTuple,
+      ProviderRemovedEvent.OutputObject
+    >;
+
+    "StatusTimeoutSet(uint8,uint256)": TypedContractEvent<
+      StatusTimeoutSetEvent.InputTuple,
+      StatusTimeoutSetEvent.OutputTuple,
+      StatusTimeoutSetEvent.OutputObject
+    >;
+    StatusTimeoutSet: TypedContractEvent<
+      StatusTimeoutSetEvent.InputTuple,
+      StatusTimeoutSetEvent.OutputTuple,
+      StatusTimeoutSetEvent.OutputObject
+    >;
+
+    "TallyUpdated(uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      TallyUpdatedEvent.InputTuple,
+      TallyUpdatedEvent.OutputTuple,
+      TallyUpdatedEvent.OutputObject
+    >;
+    TallyUpdated: TypedContractEvent<
+      TallyUpdatedEvent.InputTuple,
+      TallyUpdatedEvent.OutputTuple,
+      TallyUpdatedEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "UpdateStatusChanged(uint256,uint256,uint8,uint8,address,string,uint256)": TypedContractEvent<
+      UpdateStatusChangedEvent.InputTuple,
+      UpdateStatusChangedEvent.OutputTuple,
+      UpdateStatusChangedEvent.OutputObject
+    >;
+    UpdateStatusChanged: TypedContractEvent<
+      UpdateStatusChangedEvent.InputTuple,
+      UpdateStatusChangedEvent.OutputTuple,
+      UpdateStatusChangedEvent.OutputObject
+    >;
+
+    "UpdateSubmitted(uint256,uint256,address,uint256,uint256,uint256,bytes32,bytes32,uint256)": TypedContractEvent<
+      UpdateSubmittedEvent.InputTuple,
+      UpdateSubmittedEvent.OutputTuple,
+      UpdateSubmittedEvent.OutputObject
+    >;
+    UpdateSubmitted: TypedContractEvent<
+      UpdateSubmittedEvent.InputTuple,
+      UpdateSubmittedEvent.OutputTuple,
+      UpdateSubmittedEvent.OutputObject
+    >;
+
+    "VehicleAgentSet(uint256,address)": TypedContractEvent<
+      VehicleAgentSetEvent.InputTuple,
+      VehicleAgentSetEvent.OutputTuple,
+      VehicleAgentSetEvent.OutputObject
+    >;
+    VehicleAgentSet: TypedContractEvent<
+      VehicleAgentSetEvent.InputTuple,
+      VehicleAgentSetEvent.OutputTuple,
+      VehicleAgentSetEvent.OutputObject
+    >;
+
+    "VehicleEnrolled(uint256,address,uint256,string,string,string,string,uint256)": TypedContractEvent<
+      VehicleEnrolledEvent.InputTuple,
+      VehicleEnrolledEvent.OutputTuple,
+      VehicleEnrolledEvent.OutputObject
+    >;
+    VehicleEnrolled: TypedContractEvent<
+      VehicleEnrolledEvent.InputTuple,
+      VehicleEnrolledEvent.OutputTuple,
+      VehicleEnrolledEvent.OutputObject
+    >;
+
+    "VehicleFirmwareUpdated(uint256,string,uint256)": TypedContractEvent<
+      VehicleFirmwareUpdatedEvent.InputTuple,
+      VehicleFirmwareUpdatedEvent.OutputTuple,
+      VehicleFirmwareUpdatedEvent.OutputObject
+    >;
+    VehicleFirmwareUpdated: TypedContractEvent<
+      VehicleFirmwareUpdatedEvent.InputTuple,
+      VehicleFirmwareUpdatedEvent.OutputTuple,
+      VehicleFirmwareUpdatedEvent.OutputObject
+    >;
+
+    "VehicleVersionEncrypted(uint256,uint256,uint256)": TypedContractEvent<
+      VehicleVersionEncryptedEvent.InputTuple,
+      VehicleVersionEncryptedEvent.OutputTuple,
+      VehicleVersionEncryptedEvent.OutputObject
+    >;
+    VehicleVersionEncrypted: TypedContractEvent<
+      VehicleVersionEncryptedEvent.InputTuple,
+      VehicleVersionEncryptedEvent.OutputTuple,
+      VehicleVersionEncryptedEvent.OutputObject
+    >;
+  };
+}
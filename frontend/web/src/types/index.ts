@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { OtaUpdateFHE } from "./OtaUpdateFHE";
+export * as factories from "./factories";
+export { OtaUpdateFHE__factory } from "./factories/OtaUpdateFHE__factory";
@@ -0,0 +1,132 @@
+// userDecryption.ts
+import { ethers } from "ethers";
+import { getAclAddress, getFheBackend } from "./fhe";
+
+export interface DecryptionSession {
+  userAddress: string;
+  contractAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface UserDecryptionResult {
+  values: Record<string, bigint>;
+  // Handles skipped because the ACL does not grant the user access to them
+  denied: string[];
+}
+
+const SESSION_STORAGE_PREFIX = "ota_decryption_session";
+const DEFAULT_DURATION_DAYS = 1;
+
+const ACL_ABI = ["function persistAllowed(bytes32 handle, address account) view returns (bool)"];
+
+const sessionKey = (userAddress: string, contractAddress: string) =>
+  `${SESSION_STORAGE_PREFIX}:${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+
+export const sessionExpiresAt = (session: DecryptionSession) =>
+  session.startTimestamp + session.durationDays * 24 * 60 * 60;
+
+export const isSessionValid = (session: DecryptionSession, now = Math.floor(Date.now() / 1000)) =>
+  now >= session.startTimestamp && now < sessionExpiresAt(session);
+
+export function loadCachedSession(userAddress: string, contractAddress: string): DecryptionSession | null {
+  try {
+    const raw = sessionStorage.getItem(sessionKey(userAddress, contractAddress));
+    if (!raw) return null;
+    const session = JSON.parse(raw) as DecryptionSession;
+    return isSessionValid(session) ? session : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function clearCachedSession(userAddress: string, contractAddress: string) {
+  sessionStorage.removeItem(sessionKey(userAddress, contractAddress));
+}
+
+/**
+ * Generates a reencryption keypair and asks the wallet to sign the EIP-712
+ * authorization that lets the KMS reencrypt handles of `contractAddress` for
+ * that keypair during the validity window.
+ */
+export async function createDecryptionSession(
+  signer: ethers.Signer,
+  contractAddress: string,
+  durationDays = DEFAULT_DURATION_DAYS
+): Promise<DecryptionSession> {
+  const backend = await getFheBackend();
+  const userAddress = await signer.getAddress();
+  const { publicKey, privateKey } = backend.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+
+  const eip712 = backend.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const session: DecryptionSession = {
+    userAddress,
+    contractAddress,
+    publicKey,
+    privateKey,
+    signature,
+    startTimestamp,
+    durationDays
+  };
+  sessionStorage.setItem(sessionKey(userAddress, contractAddress), JSON.stringify(session));
+  return session;
+}
+
+export async function getOrCreateDecryptionSession(signer: ethers.Signer, contractAddress: string) {
+  const userAddress = await signer.getAddress();
+  return loadCachedSession(userAddress, contractAddress) ?? createDecryptionSession(signer, contractAddress);
+}
+
+export async function filterAllowedHandles(
+  runner: ethers.ContractRunner,
+  handles: string[],
+  account: string
+): Promise<{ allowed: string[]; denied: string[] }> {
+  const acl = new ethers.Contract(await getAclAddress(), ACL_ABI, runner);
+  const flags: boolean[] = await Promise.all(handles.map(handle => acl.persistAllowed(handle, account)));
+  return {
+    allowed: handles.filter((_, i) => flags[i]),
+    denied: handles.filter((_, i) => !flags[i])
+  };
+}
+
+export async function userDecryptHandles(
+  session: DecryptionSession,
+  runner: ethers.ContractRunner,
+  handles: string[]
+): Promise<UserDecryptionResult> {
+  if (!isSessionValid(session)) {
+    throw new Error("Decryption authorization expired, sign a new one");
+  }
+
+  const { allowed, denied } = await filterAllowedHandles(runner, handles, session.userAddress);
+  if (allowed.length === 0) return { values: {}, denied };
+
+  const backend = await getFheBackend();
+  const decrypted = await backend.userDecrypt(
+    allowed.map(handle => ({ handle, contractAddress: session.contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    [session.contractAddress],
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of allowed) {
+    values[handle] = BigInt(decrypted[handle] as bigint | string);
+  }
+  return { values, denied };
+}
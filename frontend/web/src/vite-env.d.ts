@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Network selected when the user has not picked one: "localhost", "sepolia" or "custom"
+  readonly VITE_NETWORK?: string;
+  // Base URL of the ota-indexer REST API; when unset the app reads everything over RPC
+  readonly VITE_INDEXER_URL?: string;
+  // "true" cross-checks critical reads on two RPC endpoints by default
+  readonly VITE_RPC_QUORUM?: string;
+  // Path-style URL of the S3-compatible bucket holding encrypted firmware payloads, e.g. http://localhost:9000/firmware
+  readonly VITE_PAYLOAD_STORE_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,23 +1,32 @@
-import { defineConfig } from "vite";
-import react from "@vitejs/plugin-react";
-
-export default defineConfig({
-  plugins: [react()],
-  define: {
-    'process.env': process.env
-  },
-  esbuild: {
-    target: "es2022",
-    supported: {
-      'import-assertions': true
-    }
-  },
-  optimizeDeps: {
-    esbuildOptions: {
-      target: "es2022",
-      supported: {
-        'import-assertions': true
-      }
-    }
-  }
+import { defineConfig, searchForWorkspaceRoot } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    // ../../manifest is shared with the indexer; make its ethers import use the app's copy
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../manifest", "../../lifecycle", "../../rollout"]
+    }
+  },
+  define: {
+    'process.env': process.env
+  },
+  esbuild: {
+    target: "es2022",
+    supported: {
+      'import-assertions': true
+    }
+  },
+  optimizeDeps: {
+    esbuildOptions: {
+      target: "es2022",
+      supported: {
+        'import-assertions': true
+      }
+    }
+  }
 });
\ No newline at end of file
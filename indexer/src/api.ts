@@ -0,0 +1,194 @@
+// api.ts
+import http from "node:http";
+import { DEFAULT_STATUS_TIMEOUTS, UpdateStatus, effectiveStatus } from "../../lifecycle";
+import { ManifestError, manifestDomain, parseSignedManifest, verifySignedManifest } from "../../manifest";
+import type { IndexerStatus } from "./indexer";
+import type { BatchRow, DecryptionStatus, EntryRow, OtaStore } from "./store";
+
+type Handler = (params: string[], query: URLSearchParams, body: unknown) => unknown;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const DECRYPTION_STATUSES: DecryptionStatus[] = ["pending", "fulfilled", "timed-out", "failed"];
+const MAX_PAGE = 500;
+// Entries read per query when summarising a batch
+const ENTRY_SCAN = 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+
+const readInt = (value: string | null, name: string, fallback?: number) => {
+  if (value === null || value === "") {
+    if (fallback === undefined) throw new HttpError(400, `Missing ${name}`);
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new HttpError(400, `${name} must be a non-negative integer`);
+  return parsed;
+};
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Body larger than ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : null);
+      } catch (e) {
+        reject(new HttpError(400, "Body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+export function createApiServer(store: OtaStore, getStatus: () => IndexerStatus): http.Server {
+  // Reports updates past their status timeout as failed before anyone has sent expireUpdate
+  const withEffectiveStatus = (entry: EntryRow) => {
+    const timeouts = store.getProtocol()?.statusTimeouts ?? DEFAULT_STATUS_TIMEOUTS;
+    const now = Math.floor(Date.now() / 1000);
+    return { ...entry, effectiveStatus: effectiveStatus(entry.status, entry.statusUpdatedAt, timeouts, now) };
+  };
+
+  // Number of entries per effective status
+  const withStatusCounts = (batch: BatchRow) => {
+    const statusCounts: Partial<Record<UpdateStatus, number>> = {};
+    for (let offset = 0; offset < batch.entryCount; offset += ENTRY_SCAN) {
+      for (const entry of store.listEntries(batch.id, ENTRY_SCAN, offset).map(withEffectiveStatus)) {
+        statusCounts[entry.effectiveStatus] = (statusCounts[entry.effectiveStatus] ?? 0) + 1;
+      }
+    }
+    return { ...batch, statusCounts };
+  };
+
+  const routes: ["GET" | "POST", RegExp, Handler][] = [
+    ["GET", /^\/health$/, () => getStatus()],
+
+    ["GET", /^\/protocol$/, () => {
+      const protocol = store.getProtocol();
+      if (!protocol) throw new HttpError(503, "Protocol state not indexed yet");
+      return protocol;
+    }],
+
+    ["GET", /^\/events$/, (_, query) => store.listEvents(readInt(query.get("fromBlock"), "fromBlock", 0))],
+
+    ["GET", /^\/batches$/, (_, query) => {
+      const limit = Math.min(readInt(query.get("limit"), "limit", 50), MAX_PAGE);
+      const offset = readInt(query.get("offset"), "offset", 0);
+      return store.listBatches(limit, offset).map(withStatusCounts);
+    }],
+
+    ["GET", /^\/batches\/([^/]+)\/entries$/, ([id], query) => {
+      const batchId = readInt(id, "batch id");
+      if (!store.getBatch(batchId)) throw new HttpError(404, `Batch #${batchId} not found`);
+      const limit = Math.min(readInt(query.get("limit"), "limit", 50), MAX_PAGE);
+      const offset = readInt(query.get("offset"), "offset", 0);
+      return store.listEntries(batchId, limit, offset).map(withEffectiveStatus);
+    }],
+
+    ["GET", /^\/batches\/([^/]+)$/, ([id]) => {
+      const batchId = readInt(id, "batch id");
+      const batch = store.getBatch(batchId);
+      if (!batch) throw new HttpError(404, `Batch #${batchId} not found`);
+      return {
+        ...withStatusCounts(batch),
+        integrityChecks: store.listIntegrityChecks(batchId),
+        transitions: store.listStatusTransitions(batchId),
+        decryptions: store.listDecryptions({ batchId })
+      };
+    }],
+
+    ["GET", /^\/providers$/, (_, query) => store.listProviders(query.get("all") === "1" || query.get("all") === "true")],
+
+    ["GET", /^\/decryptions$/, (_, query) => {
+      const status = query.get("status");
+      if (status !== null && !DECRYPTION_STATUSES.includes(status as DecryptionStatus)) {
+        throw new HttpError(400, `status must be one of ${DECRYPTION_STATUSES.join(", ")}`);
+      }
+      const batchId = query.get("batchId");
+      return store.listDecryptions({
+        status: (status as DecryptionStatus | null) ?? undefined,
+        batchId: batchId === null ? undefined : readInt(batchId, "batchId")
+      });
+    }],
+
+    ["GET", /^\/manifests\/([^/]+)$/, ([hash]) => {
+      if (!BYTES32.test(hash)) throw new HttpError(400, "manifest hash must be 32 bytes of hex");
+      const manifest = store.getManifest(hash.toLowerCase());
+      if (!manifest) throw new HttpError(404, `Manifest ${hash} not found`);
+      return manifest;
+    }],
+
+    // Providers publish the signed manifest here; only its hash is on chain
+    ["POST", /^\/manifests$/, (_, __, body) => {
+      const { chainId, contractAddress } = getStatus();
+      if (!chainId) throw new HttpError(503, "Chain id not known yet");
+      const parsed = parseSignedManifest(body);
+      if (!parsed.ok) throw new HttpError(400, parsed.errors.join("; "));
+
+      let manifestHash: string;
+      try {
+        manifestHash = verifySignedManifest(parsed.value, manifestDomain(BigInt(chainId), contractAddress));
+      } catch (e) {
+        if (e instanceof ManifestError) throw new HttpError(400, e.errors.join("; "));
+        throw e;
+      }
+      const signer = parsed.value.signer.toLowerCase();
+      if (!store.listProviders(false).some(provider => provider.address.toLowerCase() === signer)) {
+        throw new HttpError(403, `${parsed.value.signer} is not an active provider`);
+      }
+      store.putManifest(manifestHash, parsed.value);
+      return store.getManifest(manifestHash);
+    }]
+  ];
+
+  return http.createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        // The web app is served from a different origin than the indexer
+        "Access-Control-Allow-Origin": "*"
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type"
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== "GET" && req.method !== "POST") return send(405, { error: "Method not allowed" });
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const matches = routes.filter(([, pattern]) => pattern.test(url.pathname));
+    if (matches.length === 0) return send(404, { error: "Not found" });
+    const route = matches.find(([method]) => method === req.method);
+    if (!route) return send(405, { error: "Method not allowed" });
+
+    const [method, pattern, handler] = route;
+    try {
+      const body = method === "POST" ? await readJsonBody(req) : null;
+      return send(200, handler(pattern.exec(url.pathname)!.slice(1), url.searchParams, body));
+    } catch (e: any) {
+      if (e instanceof HttpError) return send(e.status, { error: e.message });
+      console.error(`${method} ${url.pathname} failed:`, e);
+      return send(500, { error: "Internal error" });
+    }
+  });
+}
@@ -0,0 +1,45 @@
+// config.ts
+import "dotenv/config";
+import { ethers } from "ethers";
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  contractAddress: string;
+  // First block to scan on an empty database, usually the deployment block
+  startBlock: number;
+  dbPath: string;
+  port: number;
+  pageSize: number;
+  pollIntervalMs: number;
+  // Blocks to stay behind the head so shallow reorgs never reach the database
+  confirmations: number;
+  // Seconds after which an unanswered decryption request is diagnosed
+  decryptionTimeoutSeconds: number;
+}
+
+const readInt = (env: NodeJS.ProcessEnv, name: string, fallback: number) => {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  return value;
+};
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const contractAddress = env.INDEXER_CONTRACT_ADDRESS ?? "";
+  if (!ethers.isAddress(contractAddress)) {
+    throw new Error("INDEXER_CONTRACT_ADDRESS must be set to the OtaUpdateFHE address");
+  }
+
+  return {
+    rpcUrl: env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    contractAddress: ethers.getAddress(contractAddress),
+    startBlock: readInt(env, "INDEXER_START_BLOCK", 0),
+    dbPath: env.INDEXER_DB_PATH || "ota-indexer.sqlite",
+    port: readInt(env, "INDEXER_PORT", 4000),
+    pageSize: readInt(env, "INDEXER_PAGE_SIZE", 2000),
+    pollIntervalMs: readInt(env, "INDEXER_POLL_INTERVAL_MS", 5000),
+    confirmations: readInt(env, "INDEXER_CONFIRMATIONS", 0),
+    decryptionTimeoutSeconds: readInt(env, "INDEXER_DECRYPTION_TIMEOUT_SECONDS", 600)
+  };
+}
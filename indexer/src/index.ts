@@ -0,0 +1,38 @@
+// index.ts
+import { ethers } from "ethers";
+import { createApiServer } from "./api";
+import { loadConfig } from "./config";
+import { createIndexer } from "./indexer";
+import { openStore } from "./store";
+import { OtaUpdateFHE__factory } from "./types";
+
+async function main() {
+  const config = loadConfig();
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const contract = OtaUpdateFHE__factory.connect(config.contractAddress, provider);
+  const store = openStore(config.dbPath);
+
+  const indexer = createIndexer(contract, provider, store, config);
+  const server = createApiServer(store, indexer.getStatus);
+  server.listen(config.port, () => {
+    console.log(`OTA indexer for ${config.contractAddress} on ${config.rpcUrl}, API on http://localhost:${config.port}`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close(() => {
+      store.close();
+      provider.destroy();
+      process.exit(0);
+    });
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await indexer.start();
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,273 @@
+// indexer.ts
+import { ethers } from "ethers";
+import { ACTIVE_STATUSES, StatusTimeouts, UPDATE_STATUSES, toUpdateStatus } from "../../lifecycle";
+import type { IndexerConfig } from "./config";
+import type { HistoryEvent, HistoryEventName, OtaStore } from "./store";
+import type { OtaUpdateFHE } from "./types";
+
+export interface IndexerStatus {
+  chainId: string;
+  contractAddress: string;
+  syncedBlock: number | null;
+  headBlock: number | null;
+  lastSyncAt: number | null;
+  lastError: string | null;
+}
+
+export interface Indexer {
+  start: () => Promise<void>;
+  stop: () => void;
+  syncOnce: () => Promise<void>;
+  getStatus: () => IndexerStatus;
+}
+
+const HISTORY_EVENTS: HistoryEventName[] = [
+  "BatchOpened",
+  "UpdateSubmitted",
+  "BatchClosed",
+  "IntegrityVerified",
+  "UpdateStatusChanged",
+  "DownloadProgress",
+  "DecryptionRequested",
+  "DecryptionCompleted",
+  "TallyUpdated"
+];
+const PROVIDER_EVENTS = ["ProviderAdded", "ProviderRemoved"] as const;
+const CALLBACK_FAILURES = ["StateMismatch", "ReplayAttempt", "DecryptionFailed"];
+const MIN_PAGE_SIZE = 16;
+
+const toHandle = (value: bigint) => ethers.toBeHex(value, 32);
+
+function toHistoryEvent(scope: string, log: ethers.Log, parsed: ethers.LogDescription, blockTimestamp: number): HistoryEvent {
+  const name = parsed.name as HistoryEventName;
+  const args = parsed.args;
+  const event: HistoryEvent = {
+    id: `${scope}:${log.blockNumber}:${log.index}`,
+    scope,
+    name,
+    batchId: Number(args.batchId),
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    timestamp: name === "DecryptionRequested" ? blockTimestamp : Number(args.timestamp)
+  };
+
+  switch (name) {
+    case "UpdateSubmitted":
+      event.entryIndex = Number(args.entryIndex);
+      event.provider = args.provider;
+      event.updatePackageIdEncrypted = toHandle(args.updatePackageIdEncrypted);
+      event.vehicleIdEncrypted = toHandle(args.vehicleIdEncrypted);
+      event.vehicleIndex = Number(args.vehicleIndex);
+      event.manifestHash = args.manifestHash;
+      event.payloadDigest = args.payloadDigest;
+      break;
+    case "IntegrityVerified":
+      event.entryIndex = Number(args.entryIndex);
+      event.verifier = args.verifier;
+      event.payloadDigest = args.payloadDigest;
+      event.passed = args.passed;
+      break;
+    case "UpdateStatusChanged":
+      event.entryIndex = Number(args.entryIndex);
+      event.from = toUpdateStatus(args.from);
+      event.to = toUpdateStatus(args.to);
+      event.actor = args.actor;
+      event.reason = args.reason;
+      break;
+    case "DownloadProgress":
+      event.entryIndex = Number(args.entryIndex);
+      event.progress = Number(args.percent);
+      break;
+    case "DecryptionRequested":
+      event.requestId = args.requestId.toString();
+      event.stateHash = args.stateHash;
+      event.fromEntry = Number(args.fromEntry);
+      event.entryCount = Number(args.entryCount);
+      break;
+    case "DecryptionCompleted":
+      event.requestId = args.requestId.toString();
+      event.fromEntry = Number(args.fromEntry);
+      event.updatePackageIds = args.updatePackageIds.map((id: bigint) => id.toString());
+      event.vehicleIds = args.vehicleIds.map((id: bigint) => id.toString());
+      break;
+    case "TallyUpdated":
+      event.campaignId = Number(args.campaignId);
+      event.succeededEncrypted = toHandle(args.succeededEncrypted);
+      event.failedEncrypted = toHandle(args.failedEncrypted);
+      break;
+  }
+  return event;
+}
+
+async function fetchStatusTimeouts(contract: OtaUpdateFHE): Promise<StatusTimeouts> {
+  const values = await Promise.all(ACTIVE_STATUSES.map(status => contract.statusTimeouts(UPDATE_STATUSES.indexOf(status))));
+  return Object.fromEntries(ACTIVE_STATUSES.map((status, i) => [status, Number(values[i])]));
+}
+
+/**
+ * Replays `myCallback` with an empty payload; the replay and state-hash checks
+ * run before the KMS signature check, so those reverts explain a missing answer.
+ */
+async function diagnoseCallback(contract: OtaUpdateFHE, requestId: bigint): Promise<string | null> {
+  try {
+    await contract.myCallback.staticCall(requestId, "0x", "0x");
+    return null;
+  } catch (e: any) {
+    const name = e?.revert?.name;
+    return CALLBACK_FAILURES.includes(name) ? name : null;
+  }
+}
+
+export function createIndexer(
+  contract: OtaUpdateFHE,
+  provider: ethers.Provider,
+  store: OtaStore,
+  config: IndexerConfig,
+  log: (message: string) => void = console.log
+): Indexer {
+  const topics = [...HISTORY_EVENTS, ...PROVIDER_EVENTS].map(name => contract.interface.getEvent(name)!.topicHash);
+  const status: IndexerStatus = {
+    chainId: "",
+    contractAddress: config.contractAddress,
+    syncedBlock: store.getSyncedBlock(),
+    headBlock: null,
+    lastSyncAt: null,
+    lastError: null
+  };
+  let pageSize = config.pageSize;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+
+  const fetchPage = async (fromBlock: number, toBlock: number) => {
+    const logs = await provider.getLogs({ address: config.contractAddress, topics: [topics], fromBlock, toBlock });
+    const timestamps = new Map<number, number>();
+    const parsedLogs: { log: ethers.Log; parsed: ethers.LogDescription; timestamp: number }[] = [];
+    for (const entry of logs) {
+      const parsed = contract.interface.parseLog(entry);
+      if (!parsed) continue;
+      // Only DecryptionRequested lacks a timestamp argument; look up each of its blocks once
+      if (parsed.name === "DecryptionRequested" && !timestamps.has(entry.blockNumber)) {
+        const block = await provider.getBlock(entry.blockNumber);
+        timestamps.set(entry.blockNumber, block ? block.timestamp : 0);
+      }
+      parsedLogs.push({ log: entry, parsed, timestamp: timestamps.get(entry.blockNumber) ?? 0 });
+    }
+    return parsedLogs;
+  };
+
+  const applyPage = (scope: string, page: Awaited<ReturnType<typeof fetchPage>>, toBlock: number) => {
+    store.transaction(() => {
+      for (const { log: entry, parsed, timestamp } of page) {
+        if (parsed.name === "ProviderAdded" || parsed.name === "ProviderRemoved") {
+          store.setProvider(ethers.getAddress(parsed.args.provider), parsed.name === "ProviderAdded", entry.blockNumber);
+        } else {
+          store.recordEvent(toHistoryEvent(scope, entry, parsed, timestamp));
+        }
+      }
+      store.setSyncedBlock(toBlock);
+    });
+  };
+
+  const refreshProtocol = async () => {
+    const [owner, paused, cooldownSeconds, currentBatchId, statusTimeouts] = await Promise.all([
+      contract.owner(),
+      contract.paused(),
+      contract.cooldownSeconds(),
+      contract.currentBatchId(),
+      fetchStatusTimeouts(contract)
+    ]);
+    store.setProtocol({
+      owner,
+      paused,
+      cooldownSeconds: Number(cooldownSeconds),
+      currentBatchId: Number(currentBatchId),
+      statusTimeouts
+    });
+  };
+
+  const checkDecryptionTimeouts = async (now: number) => {
+    const candidates = [
+      ...store.listDecryptions({ status: "pending" }),
+      ...store.listDecryptions({ status: "timed-out" })
+    ];
+    for (const request of candidates) {
+      if (request.requestedAt === null || now - request.requestedAt < config.decryptionTimeoutSeconds) continue;
+      const failure = await diagnoseCallback(contract, BigInt(request.requestId));
+      const next = failure ? "failed" : "timed-out";
+      if (next !== request.status || failure !== request.failure) {
+        store.setDecryptionStatus(request.requestId, next, failure);
+        log(`Decryption request #${request.requestId} for batch #${request.batchId} is ${next}${failure ? ` (${failure})` : ""}`);
+      }
+    }
+  };
+
+  const syncOnce = async () => {
+    const network = await provider.getNetwork();
+    status.chainId = network.chainId.toString();
+    const scope = `${network.chainId}:${config.contractAddress.toLowerCase()}`;
+
+    const head = await provider.getBlockNumber();
+    status.headBlock = head;
+    const target = head - config.confirmations;
+    const synced = store.getSyncedBlock();
+    if (synced !== null && synced > head) {
+      throw new Error(`Database is synced to block ${synced} but the chain head is ${head}; was the node reset? Delete ${config.dbPath} to re-index.`);
+    }
+
+    let fromBlock = synced === null ? config.startBlock : synced + 1;
+    while (fromBlock <= target) {
+      const toBlock = Math.min(fromBlock + pageSize - 1, target);
+      let page: Awaited<ReturnType<typeof fetchPage>>;
+      try {
+        page = await fetchPage(fromBlock, toBlock);
+      } catch (e) {
+        // Public RPCs cap the block range or result size of eth_getLogs; shrink the window and retry
+        if (pageSize <= MIN_PAGE_SIZE) throw e;
+        pageSize = Math.max(MIN_PAGE_SIZE, Math.floor(pageSize / 2));
+        log(`getLogs failed for blocks ${fromBlock}-${toBlock}; retrying with page size ${pageSize}`);
+        continue;
+      }
+      applyPage(scope, page, toBlock);
+      status.syncedBlock = toBlock;
+      if (page.length) log(`Indexed ${page.length} events in blocks ${fromBlock}-${toBlock}`);
+      fromBlock = toBlock + 1;
+    }
+
+    await refreshProtocol();
+    const latest = await provider.getBlock(head);
+    await checkDecryptionTimeouts(latest ? latest.timestamp : Math.floor(Date.now() / 1000));
+    status.lastSyncAt = Math.floor(Date.now() / 1000);
+    status.lastError = null;
+  };
+
+  const loop = async () => {
+    try {
+      await syncOnce();
+    } catch (e: any) {
+      status.lastError = e?.shortMessage || e?.message || String(e);
+      log(`Sync failed: ${status.lastError}`);
+    }
+    if (running) timer = setTimeout(loop, config.pollIntervalMs);
+  };
+
+  return {
+    async start() {
+      if (running) return;
+      running = true;
+      await loop();
+    },
+
+    stop() {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+    },
+
+    syncOnce,
+
+    getStatus() {
+      return { ...status };
+    }
+  };
+}
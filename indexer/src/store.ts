@@ -0,0 +1,644 @@
+// store.ts
+import Database from "better-sqlite3";
+import type { StatusTimeouts, UpdateStatus } from "../../lifecycle";
+import type { SignedManifest } from "../../manifest";
+
+export type HistoryEventName =
+  | "BatchOpened"
+  | "UpdateSubmitted"
+  | "BatchClosed"
+  | "IntegrityVerified"
+  | "UpdateStatusChanged"
+  | "DownloadProgress"
+  | "DecryptionRequested"
+  | "DecryptionCompleted"
+  | "TallyUpdated";
+
+export type DecryptionStatus = "pending" | "fulfilled" | "timed-out" | "failed";
+
+// Same shape as the web app's HistoryEvent so /events can feed its history view directly
+export interface HistoryEvent {
+  id: string;
+  scope: string;
+  name: HistoryEventName;
+  batchId: number;
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+  entryIndex?: number;
+  provider?: string;
+  updatePackageIdEncrypted?: string;
+  vehicleIdEncrypted?: string;
+  vehicleIndex?: number;
+  manifestHash?: string;
+  payloadDigest?: string;
+  verifier?: string;
+  passed?: boolean;
+  from?: UpdateStatus;
+  to?: UpdateStatus;
+  actor?: string;
+  reason?: string;
+  // Percent reported by a DownloadProgress event
+  progress?: number;
+  requestId?: string;
+  stateHash?: string;
+  fromEntry?: number;
+  entryCount?: number;
+  updatePackageIds?: string[];
+  vehicleIds?: string[];
+  campaignId?: number;
+  // Fleet-wide encrypted tallies after a TallyUpdated event; only the owner can decrypt them
+  succeededEncrypted?: string;
+  failedEncrypted?: string;
+}
+
+export interface BatchRow {
+  id: number;
+  isOpen: boolean;
+  openedAt: number;
+  openedBlock: number;
+  closedAt: number | null;
+  closedBlock: number | null;
+  entryCount: number;
+  timestamp: number;
+}
+
+export interface SubmissionRow {
+  batchId: number;
+  entryIndex: number;
+  provider: string;
+  updatePackageIdEncrypted: string;
+  vehicleIdEncrypted: string;
+  vehicleIndex: number;
+  manifestHash: string;
+  payloadDigest: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+// A submission with the status its last transition left it in, and its last download progress report
+export interface EntryRow extends SubmissionRow {
+  status: UpdateStatus;
+  downloadProgress: number;
+  statusUpdatedAt: number;
+}
+
+export interface StatusTransitionRow {
+  batchId: number;
+  entryIndex: number;
+  from: UpdateStatus;
+  to: UpdateStatus;
+  actor: string;
+  reason: string;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface IntegrityCheckRow {
+  batchId: number;
+  entryIndex: number;
+  verifier: string;
+  payloadDigest: string;
+  passed: boolean;
+  timestamp: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface ManifestRow {
+  manifestHash: string;
+  signer: string;
+  receivedAt: number;
+  document: SignedManifest;
+  // Submissions whose on-chain manifest hash matches this document
+  submissions: SubmissionRow[];
+}
+
+export interface ProviderRow {
+  address: string;
+  active: boolean;
+  addedBlock: number | null;
+  removedBlock: number | null;
+}
+
+export interface DecryptionRow {
+  requestId: string;
+  batchId: number;
+  fromEntry: number;
+  entryCount: number | null;
+  stateHash: string | null;
+  status: DecryptionStatus;
+  failure: string | null;
+  requestedAt: number | null;
+  requestedBlock: number | null;
+  requestTx: string | null;
+  // Cleartexts of entries fromEntry, fromEntry + 1, ...
+  updatePackageIds: string[] | null;
+  vehicleIds: string[] | null;
+  completedAt: number | null;
+  completedTx: string | null;
+}
+
+export interface ProtocolRow {
+  owner: string;
+  paused: boolean;
+  cooldownSeconds: number;
+  currentBatchId: number;
+  statusTimeouts: StatusTimeouts;
+}
+
+export interface OtaStore {
+  getSyncedBlock: () => number | null;
+  setSyncedBlock: (blockNumber: number) => void;
+  getProtocol: () => ProtocolRow | null;
+  setProtocol: (protocol: ProtocolRow) => void;
+  // Runs `apply` in one SQLite transaction so a page of logs lands atomically with its cursor
+  transaction: (apply: () => void) => void;
+  recordEvent: (event: HistoryEvent) => void;
+  setProvider: (address: string, active: boolean, blockNumber: number) => void;
+  setDecryptionStatus: (requestId: string, status: DecryptionStatus, failure: string | null) => void;
+  listEvents: (fromBlock?: number) => HistoryEvent[];
+  listBatches: (limit: number, offset: number) => BatchRow[];
+  getBatch: (id: number) => BatchRow | null;
+  listEntries: (batchId: number, limit: number, offset: number) => EntryRow[];
+  listIntegrityChecks: (batchId: number) => IntegrityCheckRow[];
+  listStatusTransitions: (batchId: number) => StatusTransitionRow[];
+  listProviders: (includeRemoved: boolean) => ProviderRow[];
+  listDecryptions: (filter: { status?: DecryptionStatus; batchId?: number }) => DecryptionRow[];
+  putManifest: (manifestHash: string, document: SignedManifest) => void;
+  getManifest: (manifestHash: string) => ManifestRow | null;
+  close: () => void;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  batch_id INTEGER NOT NULL,
+  json TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE TABLE IF NOT EXISTS batches (
+  id INTEGER PRIMARY KEY,
+  opened_at INTEGER NOT NULL,
+  opened_block INTEGER NOT NULL,
+  closed_at INTEGER,
+  closed_block INTEGER
+);
+CREATE TABLE IF NOT EXISTS submissions (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  batch_id INTEGER NOT NULL,
+  entry_index INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  update_package_id_encrypted TEXT NOT NULL,
+  vehicle_id_encrypted TEXT NOT NULL,
+  vehicle_index INTEGER NOT NULL,
+  manifest_hash TEXT NOT NULL,
+  payload_digest TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE UNIQUE INDEX IF NOT EXISTS submissions_entry ON submissions (batch_id, entry_index);
+CREATE INDEX IF NOT EXISTS submissions_manifest ON submissions (manifest_hash);
+CREATE TABLE IF NOT EXISTS integrity_checks (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  batch_id INTEGER NOT NULL,
+  entry_index INTEGER NOT NULL,
+  verifier TEXT NOT NULL,
+  payload_digest TEXT NOT NULL,
+  passed INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS integrity_checks_batch ON integrity_checks (batch_id);
+CREATE TABLE IF NOT EXISTS status_transitions (
+  block_number INTEGER NOT NULL,
+  log_index INTEGER NOT NULL,
+  batch_id INTEGER NOT NULL,
+  entry_index INTEGER NOT NULL,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS status_transitions_entry ON status_transitions (batch_id, entry_index);
+CREATE TABLE IF NOT EXISTS providers (
+  address TEXT PRIMARY KEY,
+  active INTEGER NOT NULL,
+  added_block INTEGER,
+  removed_block INTEGER
+);
+CREATE TABLE IF NOT EXISTS decryptions (
+  request_id TEXT PRIMARY KEY,
+  batch_id INTEGER NOT NULL,
+  from_entry INTEGER NOT NULL,
+  entry_count INTEGER,
+  state_hash TEXT,
+  status TEXT NOT NULL,
+  failure TEXT,
+  requested_at INTEGER,
+  requested_block INTEGER,
+  request_tx TEXT,
+  update_package_ids TEXT,
+  vehicle_ids TEXT,
+  completed_at INTEGER,
+  completed_tx TEXT
+);
+CREATE INDEX IF NOT EXISTS decryptions_status ON decryptions (status);
+CREATE TABLE IF NOT EXISTS manifests (
+  manifest_hash TEXT PRIMARY KEY,
+  signer TEXT NOT NULL,
+  received_at INTEGER NOT NULL,
+  json TEXT NOT NULL
+);
+`;
+
+const BATCH_SELECT = `
+SELECT b.id, b.opened_at, b.opened_block, b.closed_at, b.closed_block,
+  (SELECT COUNT(*) FROM submissions s WHERE s.batch_id = b.id) AS entry_count,
+  (SELECT MAX(s.timestamp) FROM submissions s WHERE s.batch_id = b.id) AS submitted_at
+FROM batches b`;
+
+// Each submission joined with the last transition of its entry; progress reports only live in the event log
+const ENTRY_SELECT = `
+SELECT s.*, transition.to_status AS status, transition.timestamp AS status_updated_at,
+  (SELECT json_extract(e.json, '$.progress') FROM events e
+   WHERE e.name = 'DownloadProgress' AND e.batch_id = s.batch_id AND json_extract(e.json, '$.entryIndex') = s.entry_index
+   ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS download_progress
+FROM submissions s
+LEFT JOIN status_transitions transition ON transition.rowid = (
+  SELECT t.rowid FROM status_transitions t
+  WHERE t.batch_id = s.batch_id AND t.entry_index = s.entry_index
+  ORDER BY t.block_number DESC, t.log_index DESC LIMIT 1
+)`;
+
+const toBatch = (row: any): BatchRow => ({
+  id: row.id,
+  isOpen: row.closed_at === null,
+  openedAt: row.opened_at,
+  openedBlock: row.opened_block,
+  closedAt: row.closed_at,
+  closedBlock: row.closed_block,
+  entryCount: row.entry_count,
+  // Mirrors Batch.timestamp on chain: the last open, submit or close
+  timestamp: Math.max(row.opened_at, row.closed_at ?? 0, row.submitted_at ?? 0)
+});
+
+const toSubmission = (row: any): SubmissionRow => ({
+  batchId: row.batch_id,
+  entryIndex: row.entry_index,
+  provider: row.provider,
+  updatePackageIdEncrypted: row.update_package_id_encrypted,
+  vehicleIdEncrypted: row.vehicle_id_encrypted,
+  vehicleIndex: row.vehicle_index,
+  manifestHash: row.manifest_hash,
+  payloadDigest: row.payload_digest,
+  timestamp: row.timestamp,
+  blockNumber: row.block_number,
+  txHash: row.tx_hash
+});
+
+const toEntry = (row: any): EntryRow => ({
+  ...toSubmission(row),
+  status: row.status ?? "none",
+  downloadProgress: row.download_progress ?? 0,
+  statusUpdatedAt: row.status_updated_at ?? row.timestamp
+});
+
+const toIntegrityCheck = (row: any): IntegrityCheckRow => ({
+  batchId: row.batch_id,
+  entryIndex: row.entry_index,
+  verifier: row.verifier,
+  payloadDigest: row.payload_digest,
+  passed: row.passed === 1,
+  timestamp: row.timestamp,
+  blockNumber: row.block_number,
+  txHash: row.tx_hash
+});
+
+const toStatusTransition = (row: any): StatusTransitionRow => ({
+  batchId: row.batch_id,
+  entryIndex: row.entry_index,
+  from: row.from_status,
+  to: row.to_status,
+  actor: row.actor,
+  reason: row.reason,
+  timestamp: row.timestamp,
+  blockNumber: row.block_number,
+  txHash: row.tx_hash
+});
+
+const toDecryption = (row: any): DecryptionRow => ({
+  requestId: row.request_id,
+  batchId: row.batch_id,
+  fromEntry: row.from_entry,
+  entryCount: row.entry_count,
+  stateHash: row.state_hash,
+  status: row.status,
+  failure: row.failure,
+  requestedAt: row.requested_at,
+  requestedBlock: row.requested_block,
+  requestTx: row.request_tx,
+  updatePackageIds: row.update_package_ids === null ? null : JSON.parse(row.update_package_ids),
+  vehicleIds: row.vehicle_ids === null ? null : JSON.parse(row.vehicle_ids),
+  completedAt: row.completed_at,
+  completedTx: row.completed_tx
+});
+
+// A row of the providers table as SQLite returns it
+interface ProviderTableRow {
+  address: string;
+  active: number;
+  added_block: number | null;
+  removed_block: number | null;
+}
+
+// A row of the manifests table; `json` holds the signed manifest document as published
+interface ManifestTableRow {
+  manifest_hash: string;
+  signer: string;
+  received_at: number;
+  json: string;
+}
+
+const toProvider = (row: ProviderTableRow): ProviderRow => ({
+  address: row.address,
+  active: row.active === 1,
+  addedBlock: row.added_block,
+  removedBlock: row.removed_block
+});
+
+export function openStore(path: string): OtaStore {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const getMeta = db.prepare("SELECT value FROM meta WHERE key = ?");
+  const setMeta = db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value");
+  const insertEvent = db.prepare(
+    "INSERT OR REPLACE INTO events (block_number, log_index, name, batch_id, json) VALUES (?, ?, ?, ?, ?)"
+  );
+  const openBatch = db.prepare(`
+    INSERT INTO batches (id, opened_at, opened_block) VALUES (?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET opened_at = excluded.opened_at, opened_block = excluded.opened_block`);
+  const closeBatch = db.prepare("UPDATE batches SET closed_at = ?, closed_block = ? WHERE id = ?");
+  const insertSubmission = db.prepare(`
+    INSERT OR REPLACE INTO submissions
+      (block_number, log_index, batch_id, entry_index, provider, update_package_id_encrypted, vehicle_id_encrypted, vehicle_index, manifest_hash, payload_digest, timestamp, tx_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+  const insertIntegrityCheck = db.prepare(`
+    INSERT OR REPLACE INTO integrity_checks (block_number, log_index, batch_id, entry_index, verifier, payload_digest, passed, timestamp, tx_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+  const insertStatusTransition = db.prepare(`
+    INSERT OR REPLACE INTO status_transitions (block_number, log_index, batch_id, entry_index, from_status, to_status, actor, reason, timestamp, tx_hash)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`);
+  const requestDecryption = db.prepare(`
+    INSERT INTO decryptions (request_id, batch_id, from_entry, entry_count, state_hash, status, requested_at, requested_block, request_tx)
+    VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+    ON CONFLICT(request_id) DO UPDATE SET
+      entry_count = excluded.entry_count,
+      state_hash = excluded.state_hash,
+      requested_at = excluded.requested_at,
+      requested_block = excluded.requested_block,
+      request_tx = excluded.request_tx`);
+  const completeDecryption = db.prepare(`
+    INSERT INTO decryptions (request_id, batch_id, from_entry, status, update_package_ids, vehicle_ids, completed_at, completed_tx)
+    VALUES (?, ?, ?, 'fulfilled', ?, ?, ?, ?)
+    ON CONFLICT(request_id) DO UPDATE SET
+      status = 'fulfilled',
+      failure = NULL,
+      update_package_ids = excluded.update_package_ids,
+      vehicle_ids = excluded.vehicle_ids,
+      completed_at = excluded.completed_at,
+      completed_tx = excluded.completed_tx`);
+  const setProvider = db.prepare(`
+    INSERT INTO providers (address, active, added_block, removed_block) VALUES (@address, @active, @added, @removed)
+    ON CONFLICT(address) DO UPDATE SET
+      active = excluded.active,
+      added_block = COALESCE(excluded.added_block, providers.added_block),
+      removed_block = excluded.removed_block`);
+  const insertManifest = db.prepare(
+    "INSERT OR IGNORE INTO manifests (manifest_hash, signer, received_at, json) VALUES (?, ?, ?, ?)"
+  );
+  const setDecryptionStatus = db.prepare(
+    "UPDATE decryptions SET status = ?, failure = ? WHERE request_id = ? AND status != 'fulfilled'"
+  );
+
+  return {
+    getSyncedBlock() {
+      const row = getMeta.get("syncedBlock") as { value: string } | undefined;
+      return row ? Number(row.value) : null;
+    },
+
+    setSyncedBlock(blockNumber) {
+      setMeta.run("syncedBlock", String(blockNumber));
+    },
+
+    getProtocol() {
+      const row = getMeta.get("protocol") as { value: string } | undefined;
+      return row ? JSON.parse(row.value) : null;
+    },
+
+    setProtocol(protocol) {
+      setMeta.run("protocol", JSON.stringify(protocol));
+    },
+
+    transaction(apply) {
+      db.transaction(apply)();
+    },
+
+    recordEvent(event) {
+      insertEvent.run(event.blockNumber, event.logIndex, event.name, event.batchId, JSON.stringify(event));
+      switch (event.name) {
+        case "BatchOpened":
+          openBatch.run(event.batchId, event.timestamp, event.blockNumber);
+          break;
+        case "BatchClosed":
+          closeBatch.run(event.timestamp, event.blockNumber, event.batchId);
+          break;
+        case "UpdateSubmitted":
+          insertSubmission.run(
+            event.blockNumber,
+            event.logIndex,
+            event.batchId,
+            event.entryIndex,
+            event.provider,
+            event.updatePackageIdEncrypted,
+            event.vehicleIdEncrypted,
+            event.vehicleIndex,
+            event.manifestHash,
+            event.payloadDigest,
+            event.timestamp,
+            event.txHash
+          );
+          break;
+        case "IntegrityVerified":
+          insertIntegrityCheck.run(
+            event.blockNumber,
+            event.logIndex,
+            event.batchId,
+            event.entryIndex,
+            event.verifier,
+            event.payloadDigest,
+            event.passed ? 1 : 0,
+            event.timestamp,
+            event.txHash
+          );
+          break;
+        case "UpdateStatusChanged":
+          insertStatusTransition.run(
+            event.blockNumber,
+            event.logIndex,
+            event.batchId,
+            event.entryIndex,
+            event.from,
+            event.to,
+            event.actor,
+            event.reason,
+            event.timestamp,
+            event.txHash
+          );
+          break;
+        case "DecryptionRequested":
+          requestDecryption.run(
+            event.requestId,
+            event.batchId,
+            event.fromEntry,
+            event.entryCount,
+            event.stateHash,
+            event.timestamp,
+            event.blockNumber,
+            event.txHash
+          );
+          break;
+        case "DecryptionCompleted":
+          completeDecryption.run(
+            event.requestId,
+            event.batchId,
+            event.fromEntry,
+            JSON.stringify(event.updatePackageIds),
+            JSON.stringify(event.vehicleIds),
+            event.timestamp,
+            event.txHash
+          );
+          break;
+      }
+    },
+
+    setProvider(address, active, blockNumber) {
+      setProvider.run({
+        address,
+        active: active ? 1 : 0,
+        added: active ? blockNumber : null,
+        removed: active ? null : blockNumber
+      });
+    },
+
+    setDecryptionStatus(requestId, status, failure) {
+      setDecryptionStatus.run(status, failure, requestId);
+    },
+
+    listEvents(fromBlock = 0) {
+      const rows = db
+        .prepare("SELECT json FROM events WHERE block_number >= ? ORDER BY block_number, log_index")
+        .all(fromBlock) as { json: string }[];
+      return rows.map(row => JSON.parse(row.json));
+    },
+
+    listBatches(limit, offset) {
+      return db.prepare(`${BATCH_SELECT} ORDER BY b.id DESC LIMIT ? OFFSET ?`).all(limit, offset).map(toBatch);
+    },
+
+    getBatch(id) {
+      const row = db.prepare(`${BATCH_SELECT} WHERE b.id = ?`).get(id);
+      return row ? toBatch(row) : null;
+    },
+
+    listEntries(batchId, limit, offset) {
+      const rows = db
+        .prepare(`${ENTRY_SELECT} WHERE s.batch_id = ? ORDER BY s.entry_index LIMIT ? OFFSET ?`)
+        .all(batchId, limit, offset);
+      return rows.map(toEntry);
+    },
+
+    listIntegrityChecks(batchId) {
+      const rows = db
+        .prepare("SELECT * FROM integrity_checks WHERE batch_id = ? ORDER BY block_number, log_index")
+        .all(batchId);
+      return rows.map(toIntegrityCheck);
+    },
+
+    listStatusTransitions(batchId) {
+      const rows = db
+        .prepare("SELECT * FROM status_transitions WHERE batch_id = ? ORDER BY block_number, log_index")
+        .all(batchId);
+      return rows.map(toStatusTransition);
+    },
+
+    listProviders(includeRemoved) {
+      const rows = db
+        .prepare(`SELECT * FROM providers ${includeRemoved ? "" : "WHERE active = 1"} ORDER BY added_block, address`)
+        .all() as ProviderTableRow[];
+      return rows.map(toProvider);
+    },
+
+    listDecryptions(filter) {
+      const clauses: string[] = [];
+      const params: (string | number)[] = [];
+      if (filter.status) {
+        clauses.push("status = ?");
+        params.push(filter.status);
+      }
+      if (filter.batchId !== undefined) {
+        clauses.push("batch_id = ?");
+        params.push(filter.batchId);
+      }
+      const where = clauses.length ? `WHERE ${clauses.join(" AND ")}` : "";
+      return db
+        .prepare(`SELECT * FROM decryptions ${where} ORDER BY requested_block DESC, request_id DESC`)
+        .all(...params)
+        .map(toDecryption);
+    },
+
+    putManifest(manifestHash, document) {
+      insertManifest.run(manifestHash, document.signer, Math.floor(Date.now() / 1000), JSON.stringify(document));
+    },
+
+    getManifest(manifestHash) {
+      const row = db
+        .prepare("SELECT * FROM manifests WHERE manifest_hash = ?")
+        .get(manifestHash) as ManifestTableRow | undefined;
+      // Never published to this indexer, even if submissions carry the hash
+      if (row === undefined) return null;
+      const submissions = db
+        .prepare("SELECT * FROM submissions WHERE manifest_hash = ? ORDER BY block_number, log_index")
+        .all(manifestHash);
+      return {
+        manifestHash: row.manifest_hash,
+        signer: row.signer,
+        receivedAt: row.received_at,
+        document: JSON.parse(row.json) as SignedManifest,
+        submissions: submissions.map(toSubmission)
+      };
+    },
+
+    close() {
+      db.close();
+    }
+  };
+}
@@ -0,0 +1,139 @@
+// index.ts
+// OTA update status machine shared by the web app and the indexer; OtaUpdateFHE enforces the same table on chain.
+
+// In OtaUpdateFHE.UpdateStatus enum order
+export const UPDATE_STATUSES = [
+  "none",
+  "pending",
+  "downloading",
+  "installing",
+  "completed",
+  "failed",
+  "verifying",
+  "rolledBack"
+] as const;
+export type UpdateStatus = typeof UPDATE_STATUSES[number];
+
+export type UpdateRole = "provider" | "vehicle" | "owner" | "anyone";
+
+export type UpdateAction =
+  | "submit"
+  | "verify"
+  | "startInstall"
+  | "boot"
+  | "complete"
+  | "rollBack"
+  | "fail"
+  | "abort"
+  | "expire";
+
+export interface TransitionRule {
+  from: UpdateStatus[];
+  to: UpdateStatus;
+  roles: UpdateRole[];
+  // Contract function that performs the move
+  method: string;
+}
+
+export const ACTIVE_STATUSES: UpdateStatus[] = ["pending", "downloading", "installing", "verifying"];
+export const TERMINAL_STATUSES: UpdateStatus[] = ["completed", "failed", "rolledBack"];
+
+export const TRANSITIONS: Record<UpdateAction, TransitionRule> = {
+  // Every submission is a new batch entry; a failed update is retried by submitting another entry
+  submit: { from: ["none"], to: "pending", roles: ["provider"], method: "submitUpdate" },
+  verify: { from: ["pending"], to: "downloading", roles: ["provider"], method: "verifyPayloadIntegrity" },
+  startInstall: { from: ["downloading"], to: "installing", roles: ["vehicle"], method: "reportInstalling" },
+  // A/B updates boot the new slot and verify it before completing; single-slot ECUs complete straight from installing
+  boot: { from: ["installing"], to: "verifying", roles: ["vehicle"], method: "reportBooted" },
+  complete: { from: ["installing", "verifying"], to: "completed", roles: ["vehicle"], method: "reportCompleted" },
+  // The watchdog reverted to the previous slot after failed health checks
+  rollBack: { from: ["verifying"], to: "rolledBack", roles: ["vehicle"], method: "reportRolledBack" },
+  fail: { from: ACTIVE_STATUSES, to: "failed", roles: ["vehicle"], method: "reportFailed" },
+  abort: { from: ACTIVE_STATUSES, to: "failed", roles: ["owner"], method: "abortUpdate" },
+  expire: { from: ACTIVE_STATUSES, to: "failed", roles: ["anyone"], method: "expireUpdate" }
+};
+
+// Seconds per status; statuses without an entry never time out
+export type StatusTimeouts = Partial<Record<UpdateStatus, number>>;
+
+// Constructor defaults of OtaUpdateFHE; the owner can change them with setStatusTimeout
+export const DEFAULT_STATUS_TIMEOUTS: StatusTimeouts = {
+  pending: 7 * 24 * 60 * 60,
+  downloading: 24 * 60 * 60,
+  installing: 2 * 60 * 60,
+  verifying: 60 * 60
+};
+
+export interface StatusTransition {
+  // Batch entry whose update changed status
+  entryIndex: number;
+  from: UpdateStatus;
+  to: UpdateStatus;
+  actor: string;
+  reason: string;
+  timestamp: number;
+  txHash?: string;
+}
+
+export class TransitionError extends Error {
+  constructor(public status: UpdateStatus, public action: UpdateAction) {
+    super(`Cannot ${action} an update that is ${status}`);
+    this.name = "TransitionError";
+  }
+}
+
+export function toUpdateStatus(value: number | bigint): UpdateStatus {
+  const status = UPDATE_STATUSES[Number(value)];
+  if (!status) throw new Error(`Unknown update status ${value}`);
+  return status;
+}
+
+export const isTerminal = (status: UpdateStatus) => TERMINAL_STATUSES.includes(status);
+
+/** Whether someone holding `roles` may perform `action` on an update in `status`. */
+export function canPerform(status: UpdateStatus, action: UpdateAction, roles: UpdateRole[]): boolean {
+  const rule = TRANSITIONS[action];
+  return rule.from.includes(status) && rule.roles.some(role => role === "anyone" || roles.includes(role));
+}
+
+/** The status `action` leads to; throws TransitionError when the move is not legal. */
+export function nextStatus(status: UpdateStatus, action: UpdateAction): UpdateStatus {
+  const rule = TRANSITIONS[action];
+  if (!rule.from.includes(status)) throw new TransitionError(status, action);
+  return rule.to;
+}
+
+/** Unix time at which an update that entered `status` at `enteredAt` may be expired, or null if it never times out. */
+export function timeoutAt(status: UpdateStatus, enteredAt: number, timeouts: StatusTimeouts): number | null {
+  const seconds = ACTIVE_STATUSES.includes(status) ? timeouts[status] : undefined;
+  return seconds ? enteredAt + seconds : null;
+}
+
+export function isTimedOut(status: UpdateStatus, enteredAt: number, timeouts: StatusTimeouts, now: number): boolean {
+  const deadline = timeoutAt(status, enteredAt, timeouts);
+  return deadline !== null && now >= deadline;
+}
+
+/**
+ * Actions available to `roles` right now. Expiry is only offered once the
+ * timeout has passed, because the contract rejects it before that.
+ */
+export function availableActions(
+  status: UpdateStatus,
+  roles: UpdateRole[],
+  enteredAt: number,
+  timeouts: StatusTimeouts,
+  now: number
+): UpdateAction[] {
+  return (Object.keys(TRANSITIONS) as UpdateAction[]).filter(action =>
+    canPerform(status, action, roles) && (action !== "expire" || isTimedOut(status, enteredAt, timeouts, now))
+  );
+}
+
+/**
+ * The status to show: an update past its timeout is already failed in
+ * practice, even before someone sends expireUpdate.
+ */
+export function effectiveStatus(status: UpdateStatus, enteredAt: number, timeouts: StatusTimeouts, now: number): UpdateStatus {
+  return isTimedOut(status, enteredAt, timeouts, now) ? "failed" : status;
+}
@@ -0,0 +1,437 @@
+// index.ts
+// Firmware manifest format shared by the web app and the indexer; manifest.schema.json describes the same document.
+import { ethers } from "ethers";
+
+// 2 added `deltas`, 3 `chunkSize` and `chunkRoot`; manifests signed under earlier versions no longer verify
+export const MANIFEST_SCHEMA_VERSION = 3;
+
+// Bounds of `chunkSize`: small enough to resume cheaply, large enough to keep the chunk hash list short
+export const MIN_CHUNK_SIZE = 4 * 1024;
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+export interface ManifestDependency {
+  ecuType: string;
+  minVersion: string;
+}
+
+// A binary patch from one installed image to this package's payload; see delta/
+export interface ManifestDelta {
+  // Installed version the patch applies to, and the SHA-256 of that exact image
+  baseVersion: string;
+  baseDigest: string;
+  // SHA-256 and size of the patch; the payload store keeps it at this digest, encrypted with the payload key
+  digest: string;
+  size: number;
+}
+
+export interface FirmwareManifest {
+  packageId: number;
+  version: string;
+  targetModels: string[];
+  targetEcus: string[];
+  dependencies: ManifestDependency[];
+  // Empty strings leave the installed-version range open on that side
+  minPriorVersion: string;
+  maxPriorVersion: string;
+  payloadDigest: string;
+  payloadSize: number;
+  // The payload is downloaded in chunks of this many bytes, the last one shorter; chunkRoot is the Merkle root of
+  // their hashes (see payload/), so each chunk can be checked on its own
+  chunkSize: number;
+  chunkRoot: string;
+  // Patches vehicles on a base version may download instead of the full payload; empty for full images only
+  deltas: ManifestDelta[];
+  issuedAt: number;
+}
+
+export interface SignedManifest {
+  schemaVersion: typeof MANIFEST_SCHEMA_VERSION;
+  manifest: FirmwareManifest;
+  signer: string;
+  signature: string;
+}
+
+export type ManifestParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export class ManifestError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid firmware manifest: ${errors.join("; ")}`);
+    this.name = "ManifestError";
+  }
+}
+
+export const MANIFEST_EIP712_TYPES: Record<string, ethers.TypedDataField[]> = {
+  FirmwareManifest: [
+    { name: "packageId", type: "uint32" },
+    { name: "version", type: "string" },
+    { name: "targetModels", type: "string[]" },
+    { name: "targetEcus", type: "string[]" },
+    { name: "dependencies", type: "Dependency[]" },
+    { name: "minPriorVersion", type: "string" },
+    { name: "maxPriorVersion", type: "string" },
+    { name: "payloadDigest", type: "bytes32" },
+    { name: "payloadSize", type: "uint64" },
+    { name: "chunkSize", type: "uint32" },
+    { name: "chunkRoot", type: "bytes32" },
+    { name: "deltas", type: "Delta[]" },
+    { name: "issuedAt", type: "uint64" }
+  ],
+  Delta: [
+    { name: "baseVersion", type: "string" },
+    { name: "baseDigest", type: "bytes32" },
+    { name: "digest", type: "bytes32" },
+    { name: "size", type: "uint64" }
+  ],
+  Dependency: [
+    { name: "ecuType", type: "string" },
+    { name: "minVersion", type: "string" }
+  ]
+};
+
+// Binding the domain to the chain and contract keeps a manifest signed for one deployment from being replayed on another
+export const manifestDomain = (chainId: number | bigint, verifyingContract: string): ethers.TypedDataDomain => ({
+  name: "OtaUpdateFHE Manifest",
+  version: "1",
+  chainId,
+  verifyingContract
+});
+
+const SEMVER = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+const SIGNATURE = /^0x[0-9a-fA-F]{130}$/;
+const MAX_UINT32 = 0xffffffff;
+const MAX_LABEL_LENGTH = 64;
+const MANIFEST_KEYS: string[] = MANIFEST_EIP712_TYPES.FirmwareManifest.map(field => field.name);
+const DELTA_KEYS: string[] = MANIFEST_EIP712_TYPES.Delta.map(field => field.name);
+
+export const isSemver = (value: string) => SEMVER.test(value);
+
+// SemVer §11: dot-separated identifiers left to right, numeric ones by value and below alphanumeric ones, and a
+// shorter list first when all its identifiers match
+function comparePrerelease(a: string, b: string): number {
+  const ia = a.split(".");
+  const ib = b.split(".");
+  for (let i = 0; i < Math.min(ia.length, ib.length); i++) {
+    const numericA = /^\d+$/.test(ia[i]);
+    const numericB = /^\d+$/.test(ib[i]);
+    if (numericA && numericB) {
+      const diff = Number(ia[i]) - Number(ib[i]);
+      if (diff !== 0) return Math.sign(diff);
+    } else if (numericA !== numericB) {
+      return numericA ? -1 : 1;
+    } else if (ia[i] !== ib[i]) {
+      return ia[i] < ib[i] ? -1 : 1;
+    }
+  }
+  return Math.sign(ia.length - ib.length);
+}
+
+/**
+ * Orders two semantic versions by major, minor and patch, treating a
+ * pre-release as lower than its release and ordering pre-releases by their
+ * identifiers, so 1.0.0-rc.2 < 1.0.0-rc.10. Build metadata is ignored.
+ */
+export function compareSemver(a: string, b: string): number {
+  const pa = SEMVER.exec(a);
+  const pb = SEMVER.exec(b);
+  if (!pa || !pb) throw new Error(`Not a semantic version: ${!pa ? a : b}`);
+  for (let i = 1; i <= 3; i++) {
+    const diff = Number(pa[i]) - Number(pb[i]);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  if (pa[4] === pb[4]) return 0;
+  if (pa[4] === undefined) return 1;
+  if (pb[4] === undefined) return -1;
+  return comparePrerelease(pa[4], pb[4]);
+}
+
+// Limit of the minor and patch parts packed by encodeVersion
+const VERSION_PART_LIMIT = 1000;
+
+/**
+ * Packs a semantic version as major * 1e6 + minor * 1e3 + patch, the uint32
+ * OtaUpdateFHE compares under encryption. Pre-release and build labels are
+ * dropped, so 2.0.0-rc.1 encodes like 2.0.0.
+ */
+export function encodeVersion(version: string): number {
+  const parts = SEMVER.exec(version);
+  if (!parts) throw new Error(`Not a semantic version: ${version}`);
+  const [major, minor, patch] = [1, 2, 3].map(i => Number(parts[i]));
+  if (minor >= VERSION_PART_LIMIT || patch >= VERSION_PART_LIMIT) {
+    throw new Error(`Minor and patch of ${version} must be below ${VERSION_PART_LIMIT}`);
+  }
+  const encoded = (major * VERSION_PART_LIMIT + minor) * VERSION_PART_LIMIT + patch;
+  if (encoded > MAX_UINT32) throw new Error(`${version} is too large to encrypt as a uint32`);
+  return encoded;
+}
+
+/** Whether a vehicle running `installed` may take this package; unknown versions never match a bounded range. */
+export function acceptsPriorVersion(
+  manifest: Pick<FirmwareManifest, "minPriorVersion" | "maxPriorVersion">,
+  installed: string
+): boolean {
+  if (!manifest.minPriorVersion && !manifest.maxPriorVersion) return true;
+  if (!isSemver(installed)) return false;
+  if (manifest.minPriorVersion && compareSemver(installed, manifest.minPriorVersion) < 0) return false;
+  if (manifest.maxPriorVersion && compareSemver(installed, manifest.maxPriorVersion) > 0) return false;
+  return true;
+}
+
+/** The patch a vehicle running `installed` can download instead of the full payload, if any. */
+export const deltaFor = (manifest: FirmwareManifest, installed: string) =>
+  manifest.deltas.find(delta => delta.baseVersion === installed);
+
+export interface DeltaSavings {
+  baseVersion: string;
+  size: number;
+  // Bytes not downloaded compared with the full payload, and that as a share of it
+  saved: number;
+  savedPercent: number;
+}
+
+export function deltaSavings(manifest: FirmwareManifest): DeltaSavings[] {
+  return manifest.deltas.map(({ baseVersion, size }) => ({
+    baseVersion,
+    size,
+    saved: manifest.payloadSize - size,
+    savedPercent: Math.round(((manifest.payloadSize - size) / manifest.payloadSize) * 1000) / 10
+  }));
+}
+
+export interface ManifestTarget {
+  model: string;
+  ecuType: string;
+  firmwareVersion: string;
+}
+
+/** Reasons this package does not apply to `target`; empty when it does. */
+export function targetMismatches(manifest: FirmwareManifest, target: ManifestTarget): string[] {
+  const reasons: string[] = [];
+  if (!manifest.targetModels.includes(target.model)) reasons.push(`model ${target.model} is not targeted`);
+  if (!manifest.targetEcus.includes(target.ecuType)) reasons.push(`ECU ${target.ecuType} is not targeted`);
+  if (!acceptsPriorVersion(manifest, target.firmwareVersion)) {
+    reasons.push(`installed firmware ${target.firmwareVersion || "unknown"} is outside ${manifest.minPriorVersion || "*"} - ${manifest.maxPriorVersion || "*"}`);
+  }
+  return reasons;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toObject = (input: unknown, errors: string[]) => {
+  if (typeof input === "string") {
+    try {
+      input = JSON.parse(input);
+    } catch (e) {
+      errors.push("not valid JSON");
+      return null;
+    }
+  }
+  if (!isObject(input)) {
+    errors.push("must be a JSON object");
+    return null;
+  }
+  return input;
+};
+
+const checkLabels = (value: unknown, field: string, errors: string[]) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${field} must be a non-empty array`);
+    return;
+  }
+  value.forEach((label, i) => {
+    if (typeof label !== "string" || label.length === 0 || label.length > MAX_LABEL_LENGTH) {
+      errors.push(`${field}[${i}] must be a string of 1-${MAX_LABEL_LENGTH} characters`);
+    }
+  });
+  if (new Set(value).size !== value.length) errors.push(`${field} must not contain duplicates`);
+};
+
+const isOptionalSemver = (value: unknown): value is string => typeof value === "string" && (value === "" || isSemver(value));
+
+const checkOptionalSemver = (value: unknown, field: string, errors: string[]) => {
+  if (!isOptionalSemver(value)) {
+    errors.push(`${field} must be a semantic version or empty`);
+  }
+};
+
+/** Validates an unsigned manifest against manifest.schema.json#/$defs/manifest. */
+export function parseManifest(input: unknown): ManifestParseResult<FirmwareManifest> {
+  const errors: string[] = [];
+  const raw = toObject(input, errors);
+  if (!raw) return { ok: false, errors };
+
+  for (const key of Object.keys(raw)) {
+    if (!MANIFEST_KEYS.includes(key)) errors.push(`unknown field ${key}`);
+  }
+  for (const key of MANIFEST_KEYS) {
+    if (!(key in raw)) errors.push(`missing field ${key}`);
+  }
+
+  const {
+    packageId,
+    version,
+    dependencies,
+    minPriorVersion,
+    maxPriorVersion,
+    payloadDigest,
+    payloadSize,
+    chunkSize,
+    chunkRoot,
+    deltas,
+    issuedAt
+  } = raw;
+  if (!Number.isInteger(packageId) || (packageId as number) < 1 || (packageId as number) > MAX_UINT32) {
+    errors.push(`packageId must be an integer between 1 and ${MAX_UINT32}`);
+  }
+  if (typeof version !== "string" || !isSemver(version)) errors.push("version must be a semantic version");
+  checkLabels(raw.targetModels, "targetModels", errors);
+  checkLabels(raw.targetEcus, "targetEcus", errors);
+  if (!Array.isArray(dependencies)) {
+    errors.push("dependencies must be an array");
+  } else {
+    dependencies.forEach((dependency, i) => {
+      if (!isObject(dependency) || Object.keys(dependency).some(k => k !== "ecuType" && k !== "minVersion")) {
+        errors.push(`dependencies[${i}] must only have ecuType and minVersion`);
+        return;
+      }
+      if (typeof dependency.ecuType !== "string" || dependency.ecuType.length === 0 || dependency.ecuType.length > MAX_LABEL_LENGTH) {
+        errors.push(`dependencies[${i}].ecuType must be a string of 1-${MAX_LABEL_LENGTH} characters`);
+      }
+      if (typeof dependency.minVersion !== "string" || !isSemver(dependency.minVersion)) {
+        errors.push(`dependencies[${i}].minVersion must be a semantic version`);
+      }
+    });
+  }
+  checkOptionalSemver(minPriorVersion, "minPriorVersion", errors);
+  checkOptionalSemver(maxPriorVersion, "maxPriorVersion", errors);
+  if (
+    typeof minPriorVersion === "string" && isSemver(minPriorVersion) &&
+    typeof maxPriorVersion === "string" && isSemver(maxPriorVersion) &&
+    compareSemver(minPriorVersion, maxPriorVersion) > 0
+  ) {
+    errors.push("minPriorVersion must not be above maxPriorVersion");
+  }
+  if (typeof payloadDigest !== "string" || !BYTES32.test(payloadDigest)) {
+    errors.push("payloadDigest must be a 0x-prefixed SHA-256 digest");
+  }
+  if (!Number.isSafeInteger(payloadSize) || (payloadSize as number) < 1) {
+    errors.push("payloadSize must be a positive integer");
+  }
+  if (!Number.isInteger(chunkSize) || (chunkSize as number) < MIN_CHUNK_SIZE || (chunkSize as number) > MAX_CHUNK_SIZE) {
+    errors.push(`chunkSize must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`);
+  }
+  if (typeof chunkRoot !== "string" || !BYTES32.test(chunkRoot)) {
+    errors.push("chunkRoot must be a 0x-prefixed SHA-256 Merkle root");
+  }
+  if (!Array.isArray(deltas)) {
+    errors.push("deltas must be an array");
+  } else {
+    deltas.forEach((delta, i) => {
+      if (!isObject(delta) || Object.keys(delta).some(k => !DELTA_KEYS.includes(k)) || DELTA_KEYS.some(k => !(k in delta))) {
+        errors.push(`deltas[${i}] must have exactly ${DELTA_KEYS.join(", ")}`);
+        return;
+      }
+      if (typeof delta.baseVersion !== "string" || !isSemver(delta.baseVersion)) {
+        errors.push(`deltas[${i}].baseVersion must be a semantic version`);
+      } else if (deltas.findIndex(other => isObject(other) && other.baseVersion === delta.baseVersion) !== i) {
+        errors.push(`deltas[${i}].baseVersion ${delta.baseVersion} is listed twice`);
+      } else if (
+        isOptionalSemver(minPriorVersion) && isOptionalSemver(maxPriorVersion) &&
+        !acceptsPriorVersion({ minPriorVersion, maxPriorVersion }, delta.baseVersion)
+      ) {
+        errors.push(`deltas[${i}].baseVersion must be within minPriorVersion - maxPriorVersion`);
+      }
+      for (const key of ["baseDigest", "digest"]) {
+        if (typeof delta[key] !== "string" || !BYTES32.test(delta[key] as string)) {
+          errors.push(`deltas[${i}].${key} must be a 0x-prefixed SHA-256 digest`);
+        }
+      }
+      if (!Number.isSafeInteger(delta.size) || (delta.size as number) < 1) {
+        errors.push(`deltas[${i}].size must be a positive integer`);
+      }
+    });
+  }
+  if (!Number.isSafeInteger(issuedAt) || (issuedAt as number) < 0) {
+    errors.push("issuedAt must be a unix timestamp in seconds");
+  }
+
+  if (errors.length) return { ok: false, errors };
+  const manifest = raw as unknown as FirmwareManifest;
+  return {
+    ok: true,
+    value: {
+      ...manifest,
+      payloadDigest: manifest.payloadDigest.toLowerCase(),
+      chunkRoot: manifest.chunkRoot.toLowerCase(),
+      deltas: manifest.deltas.map(delta => ({
+        ...delta,
+        baseDigest: delta.baseDigest.toLowerCase(),
+        digest: delta.digest.toLowerCase()
+      }))
+    }
+  };
+}
+
+/** Validates a signed manifest document; the signature itself is checked by verifySignedManifest. */
+export function parseSignedManifest(input: unknown): ManifestParseResult<SignedManifest> {
+  const errors: string[] = [];
+  const raw = toObject(input, errors);
+  if (!raw) return { ok: false, errors };
+
+  if (raw.schemaVersion !== MANIFEST_SCHEMA_VERSION) errors.push(`schemaVersion must be ${MANIFEST_SCHEMA_VERSION}`);
+  for (const key of Object.keys(raw)) {
+    if (!["schemaVersion", "manifest", "signer", "signature"].includes(key)) errors.push(`unknown field ${key}`);
+  }
+  if (typeof raw.signer !== "string" || !ethers.isAddress(raw.signer)) errors.push("signer must be an address");
+  if (typeof raw.signature !== "string" || !SIGNATURE.test(raw.signature)) errors.push("signature must be a 65-byte hex string");
+  const manifest = parseManifest(raw.manifest);
+  if (!manifest.ok) errors.push(...manifest.errors.map(error => `manifest: ${error}`));
+
+  if (errors.length || !manifest.ok) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      schemaVersion: MANIFEST_SCHEMA_VERSION,
+      manifest: manifest.value,
+      signer: ethers.getAddress(raw.signer as string),
+      signature: raw.signature as string
+    }
+  };
+}
+
+/** The EIP-712 digest of a manifest: what the provider signs and what the contract stores as `manifestHash`. */
+export function hashManifest(manifest: FirmwareManifest, domain: ethers.TypedDataDomain): string {
+  return ethers.TypedDataEncoder.hash(domain, MANIFEST_EIP712_TYPES, manifest);
+}
+
+/**
+ * Checks that `signed.signer` produced the signature over this domain and
+ * returns the manifest hash; throws ManifestError otherwise.
+ */
+export function verifySignedManifest(signed: SignedManifest, domain: ethers.TypedDataDomain): string {
+  let recovered: string;
+  try {
+    recovered = ethers.verifyTypedData(domain, MANIFEST_EIP712_TYPES, signed.manifest, signed.signature);
+  } catch (e) {
+    throw new ManifestError(["signature could not be recovered"]);
+  }
+  if (recovered.toLowerCase() !== signed.signer.toLowerCase()) {
+    throw new ManifestError([`signed by ${recovered}, not the declared signer ${signed.signer}`]);
+  }
+  return hashManifest(signed.manifest, domain);
+}
+
+export async function signManifest(
+  signer: ethers.Signer,
+  manifest: FirmwareManifest,
+  domain: ethers.TypedDataDomain
+): Promise<SignedManifest> {
+  const signature = await signer.signTypedData(domain, MANIFEST_EIP712_TYPES, manifest);
+  return {
+    schemaVersion: MANIFEST_SCHEMA_VERSION,
+    manifest,
+    signer: await signer.getAddress(),
+    signature
+  };
+}
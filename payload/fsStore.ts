@@ -0,0 +1,47 @@
+// fsStore.ts
+// Payload store on the local filesystem, for the vehicle agent and the S3-compatible stand-in; Node.js only.
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+import { PayloadExistsError, PayloadStore, payloadObjectKey } from "./index";
+
+export function fsPayloadStore(dir: string): PayloadStore {
+  const file = (payloadDigest: string) => path.join(dir, payloadObjectKey(payloadDigest));
+  return {
+    location: dir,
+    has: async (payloadDigest) => fs.existsSync(file(payloadDigest)),
+    async get(payloadDigest) {
+      const target = file(payloadDigest);
+      return fs.existsSync(target) ? new Uint8Array(await fs.promises.readFile(target)) : null;
+    },
+    async getRange(payloadDigest, offset, length) {
+      const target = file(payloadDigest);
+      if (!fs.existsSync(target)) return null;
+      const handle = await fs.promises.open(target, "r");
+      try {
+        const { size } = await handle.stat();
+        const bytes = new Uint8Array(Math.max(0, Math.min(length, size - offset)));
+        await handle.read(bytes, 0, bytes.length, offset);
+        return bytes;
+      } finally {
+        await handle.close();
+      }
+    },
+    async put(payloadDigest, envelope) {
+      const target = file(payloadDigest);
+      await fs.promises.mkdir(dir, { recursive: true });
+      // Written aside and linked into place, so readers never see half a blob. Unlike a rename, the link fails
+      // when the target exists, so of two concurrent uploads to one digest exactly one wins
+      const partial = `${target}.${process.pid}.${randomBytes(4).toString("hex")}.partial`;
+      await fs.promises.writeFile(partial, envelope);
+      try {
+        await fs.promises.link(partial, target);
+      } catch (e) {
+        if (e instanceof Error && "code" in e && e.code === "EEXIST") throw new PayloadExistsError(payloadDigest);
+        throw e;
+      } finally {
+        await fs.promises.rm(partial, { force: true });
+      }
+    }
+  };
+}
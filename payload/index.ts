@@ -0,0 +1,323 @@
+// index.ts
+// Encrypted firmware payload storage shared by the web app and the vehicle agent; OtaUpdateFHE wraps each payload key.
+import { ethers } from "ethers";
+
+// Blobs start with this tag and an envelope version, the IV the chunk IVs derive from, the chunk and payload sizes,
+// and the leaf hash of every chunk. The chunks follow, each encrypted on its own and followed by its GCM tag.
+// Version 1 envelopes were a single GCM message and can no longer be opened.
+const ENVELOPE_MAGIC = [0x4f, 0x54, 0x41, 0x50]; // "OTAP"
+const ENVELOPE_VERSION = 2;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const PRELUDE_BYTES = ENVELOPE_MAGIC.length + 1 + IV_BYTES + 4 + 8;
+const HASH_BYTES = 32;
+const BYTES32 = /^0x[0-9a-fA-F]{64}$/;
+// RFC 6962 domain separation, so an interior node cannot pass for a chunk
+const LEAF_PREFIX = new Uint8Array([0]);
+const NODE_PREFIX = new Uint8Array([1]);
+
+// WebCrypto and fetch bodies take ArrayBuffer-backed views only
+const buffer = (bytes: Uint8Array) => bytes as Uint8Array<ArrayBuffer>;
+
+// AES-256: the key fits the euint256 that OtaUpdateFHE.setPayloadKey stores
+export const PAYLOAD_KEY_BYTES = 32;
+
+// Chunk size of blobs without a manifest saying otherwise, such as deltas
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+// Largest payload an envelope may declare. Headers are read before a manifest vouches for them, so the declared
+// size is checked against this, or a tighter bound from the manifest, before anything is allocated for it
+export const MAX_PAYLOAD_BYTES = 512 * 1024 * 1024;
+
+/**
+ * Content-addressed blob storage. Blobs are keyed by the SHA-256 of the
+ * plaintext payload, the `payloadDigest` of the manifest and the batch entry,
+ * and only ever hold encrypted envelopes.
+ */
+export interface PayloadStore {
+  // Where the blobs live, for log messages
+  location: string;
+  has: (payloadDigest: string) => Promise<boolean>;
+  get: (payloadDigest: string) => Promise<Uint8Array | null>;
+  // Up to `length` bytes from `offset`, fewer at the end of the blob; null when there is no such blob
+  getRange: (payloadDigest: string, offset: number, length: number) => Promise<Uint8Array | null>;
+  // Never replaces a blob: throws PayloadExistsError when one is already stored at the digest
+  put: (payloadDigest: string, envelope: Uint8Array) => Promise<void>;
+}
+
+export class PayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayloadError";
+  }
+}
+
+/** Thrown by `put` when the store already holds a blob at the digest; blobs are never replaced. */
+export class PayloadExistsError extends PayloadError {
+  constructor(payloadDigest: string) {
+    super(`Payload ${payloadDigest} is already stored and cannot be replaced`);
+    this.name = "PayloadExistsError";
+  }
+}
+
+/** Object name of a payload: its digest in lowercase hex without the 0x prefix. */
+export function payloadObjectKey(payloadDigest: string): string {
+  if (!BYTES32.test(payloadDigest)) throw new PayloadError(`Not a payload digest: ${payloadDigest}`);
+  return payloadDigest.slice(2).toLowerCase();
+}
+
+export const generatePayloadKey = () => globalThis.crypto.getRandomValues(new Uint8Array(PAYLOAD_KEY_BYTES));
+
+export const payloadKeyToUint256 = (key: Uint8Array) => BigInt(ethers.hexlify(key));
+
+export const uint256ToPayloadKey = (value: bigint) => ethers.getBytes(ethers.toBeHex(value, PAYLOAD_KEY_BYTES));
+
+export const isPayloadEnvelope = (blob: Uint8Array) =>
+  blob.length >= PRELUDE_BYTES && ENVELOPE_MAGIC.every((byte, i) => blob[i] === byte) && blob[4] === ENVELOPE_VERSION;
+
+export const chunkCount = (payloadSize: number, chunkSize: number) => Math.ceil(payloadSize / chunkSize);
+
+export const chunkLeafHash = (chunk: Uint8Array) => ethers.sha256(ethers.concat([LEAF_PREFIX, chunk]));
+
+/** The RFC 6962 Merkle tree hash over chunk leaf hashes: what a manifest commits to as `chunkRoot`. */
+export function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return ethers.sha256(new Uint8Array(0));
+  if (leaves.length === 1) return leaves[0].toLowerCase();
+  // The left subtree holds the largest power of two below the leaf count
+  let split = 1;
+  while (split * 2 < leaves.length) split *= 2;
+  return ethers.sha256(ethers.concat([NODE_PREFIX, merkleRoot(leaves.slice(0, split)), merkleRoot(leaves.slice(split))]));
+}
+
+const chunkLeaves = (payload: Uint8Array, chunkSize: number) =>
+  Array.from({ length: chunkCount(payload.length, chunkSize) }, (_, i) =>
+    chunkLeafHash(payload.subarray(i * chunkSize, (i + 1) * chunkSize))
+  );
+
+export const chunkRoot = (payload: Uint8Array, chunkSize: number) => merkleRoot(chunkLeaves(payload, chunkSize));
+
+export interface EnvelopeHeader {
+  iv: Uint8Array;
+  chunkSize: number;
+  payloadSize: number;
+  chunkCount: number;
+  // Leaf hash of each plaintext chunk, in order
+  leaves: string[];
+  // Bytes before the first chunk
+  size: number;
+}
+
+function parsePrelude(prelude: Uint8Array, maxSize: number): Omit<EnvelopeHeader, "leaves"> {
+  if (!isPayloadEnvelope(prelude)) throw new PayloadError("not an encrypted payload envelope");
+  const view = new DataView(prelude.buffer, prelude.byteOffset, PRELUDE_BYTES);
+  const chunkSize = view.getUint32(17);
+  const payloadSize = Number(view.getBigUint64(21));
+  if (chunkSize === 0 || !Number.isSafeInteger(payloadSize)) throw new PayloadError("envelope header is corrupt");
+  const limit = Math.min(maxSize, MAX_PAYLOAD_BYTES);
+  if (payloadSize > limit) throw new PayloadError(`envelope declares ${payloadSize} bytes, more than the ${limit}-byte limit`);
+  const chunks = chunkCount(payloadSize, chunkSize);
+  return { iv: prelude.slice(5, 17), chunkSize, payloadSize, chunkCount: chunks, size: PRELUDE_BYTES + chunks * HASH_BYTES };
+}
+
+function parseHeader(bytes: Uint8Array, maxSize: number): EnvelopeHeader {
+  const header = parsePrelude(bytes, maxSize);
+  if (bytes.length < header.size) throw new PayloadError("envelope header is truncated");
+  const leaves = Array.from({ length: header.chunkCount }, (_, i) =>
+    ethers.hexlify(bytes.subarray(PRELUDE_BYTES + i * HASH_BYTES, PRELUDE_BYTES + (i + 1) * HASH_BYTES))
+  );
+  return { ...header, leaves };
+}
+
+// Where chunk `index` sits in the envelope, with its tag
+function chunkSpan(header: EnvelopeHeader, index: number) {
+  const plain = Math.min(header.chunkSize, header.payloadSize - index * header.chunkSize);
+  return { offset: header.size + index * (header.chunkSize + TAG_BYTES), length: plain + TAG_BYTES };
+}
+
+// Each chunk gets its own IV and is bound to its position and to the payload, so chunks cannot be swapped or dropped
+function chunkParams(header: Pick<EnvelopeHeader, "iv" | "chunkSize" | "payloadSize">, payloadDigest: string, index: number) {
+  const iv = header.iv.slice();
+  const counter = new DataView(iv.buffer);
+  counter.setUint32(IV_BYTES - 4, counter.getUint32(IV_BYTES - 4) ^ index);
+  const aad = new Uint8Array(HASH_BYTES + 16);
+  aad.set(ethers.getBytes(payloadDigest));
+  const view = new DataView(aad.buffer);
+  view.setUint32(HASH_BYTES, header.chunkSize);
+  view.setBigUint64(HASH_BYTES + 4, BigInt(header.payloadSize));
+  view.setUint32(HASH_BYTES + 12, index);
+  return { name: "AES-GCM", iv: buffer(iv), additionalData: buffer(aad) };
+}
+
+async function openChunk(
+  header: EnvelopeHeader,
+  cryptoKey: Awaited<ReturnType<typeof importKey>>,
+  payloadDigest: string,
+  index: number,
+  sealed: Uint8Array
+): Promise<Uint8Array> {
+  let chunk: Uint8Array;
+  try {
+    chunk = new Uint8Array(await globalThis.crypto.subtle.decrypt(chunkParams(header, payloadDigest, index), cryptoKey, buffer(sealed)));
+  } catch (e) {
+    throw new PayloadError(`chunk ${index + 1} of ${header.chunkCount} could not be decrypted with its key`);
+  }
+  if (chunkLeafHash(chunk) !== header.leaves[index].toLowerCase()) {
+    throw new PayloadError(`chunk ${index + 1} of ${header.chunkCount} does not match its hash`);
+  }
+  return chunk;
+}
+
+const importKey = (key: Uint8Array, usage: "encrypt" | "decrypt") => {
+  if (key.length !== PAYLOAD_KEY_BYTES) throw new PayloadError(`Payload keys are ${PAYLOAD_KEY_BYTES} bytes`);
+  return globalThis.crypto.subtle.importKey("raw", buffer(key), "AES-GCM", false, [usage]);
+};
+
+/**
+ * Encrypts a payload with AES-256-GCM, one chunk of `chunkSize` bytes at a
+ * time. The digest is authenticated with every chunk, so a blob moved to
+ * another digest's address fails to open.
+ */
+export async function encryptPayload(
+  payload: Uint8Array,
+  key: Uint8Array,
+  payloadDigest: string,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > 0xffffffff) throw new PayloadError(`Invalid chunk size ${chunkSize}`);
+  const leaves = chunkLeaves(payload, chunkSize);
+  const header: EnvelopeHeader = {
+    iv: globalThis.crypto.getRandomValues(new Uint8Array(IV_BYTES)),
+    chunkSize,
+    payloadSize: payload.length,
+    chunkCount: leaves.length,
+    leaves,
+    size: PRELUDE_BYTES + leaves.length * HASH_BYTES
+  };
+  const envelope = new Uint8Array(header.size + payload.length + leaves.length * TAG_BYTES);
+  envelope.set(ENVELOPE_MAGIC);
+  envelope[4] = ENVELOPE_VERSION;
+  envelope.set(header.iv, 5);
+  const view = new DataView(envelope.buffer);
+  view.setUint32(17, chunkSize);
+  view.setBigUint64(21, BigInt(payload.length));
+  leaves.forEach((leaf, i) => envelope.set(ethers.getBytes(leaf), PRELUDE_BYTES + i * HASH_BYTES));
+
+  const cryptoKey = await importKey(key, "encrypt");
+  for (let i = 0; i < leaves.length; i++) {
+    const chunk = payload.subarray(i * chunkSize, (i + 1) * chunkSize);
+    const sealed = await globalThis.crypto.subtle.encrypt(chunkParams(header, payloadDigest, i), cryptoKey, buffer(chunk));
+    envelope.set(new Uint8Array(sealed), chunkSpan(header, i).offset);
+  }
+  return envelope;
+}
+
+/**
+ * Opens a whole envelope and checks the payload against its digest; throws
+ * PayloadError when either fails or the envelope declares more than `maxSize` bytes.
+ */
+export async function decryptPayload(
+  envelope: Uint8Array,
+  key: Uint8Array,
+  payloadDigest: string,
+  maxSize = MAX_PAYLOAD_BYTES
+): Promise<Uint8Array> {
+  const header = parseHeader(envelope, maxSize);
+  const last = header.chunkCount ? chunkSpan(header, header.chunkCount - 1) : { offset: header.size, length: 0 };
+  if (envelope.length !== last.offset + last.length) throw new PayloadError("envelope size does not match its header");
+  const cryptoKey = await importKey(key, "decrypt");
+  const payload = new Uint8Array(header.payloadSize);
+  for (let i = 0; i < header.chunkCount; i++) {
+    const { offset, length } = chunkSpan(header, i);
+    payload.set(await openChunk(header, cryptoKey, payloadDigest, i, envelope.subarray(offset, offset + length)), i * header.chunkSize);
+  }
+  if (ethers.sha256(payload) !== payloadDigest.toLowerCase()) throw new PayloadError("payload digest mismatch");
+  return payload;
+}
+
+/**
+ * Reads the header of a stored envelope with two ranged reads; null when the
+ * store does not have the blob. Throws PayloadError when the header declares
+ * more than `maxSize` bytes, before the chunk hashes are read.
+ */
+export async function readEnvelopeHeader(
+  store: PayloadStore,
+  payloadDigest: string,
+  maxSize = MAX_PAYLOAD_BYTES
+): Promise<EnvelopeHeader | null> {
+  const prelude = await store.getRange(payloadDigest, 0, PRELUDE_BYTES);
+  if (!prelude) return null;
+  const { size } = parsePrelude(prelude, maxSize);
+  const bytes = await store.getRange(payloadDigest, 0, size);
+  if (!bytes) return null;
+  return parseHeader(bytes, maxSize);
+}
+
+/**
+ * Downloads, decrypts and checks one chunk of a stored envelope against its
+ * leaf hash, so a download can verify and keep chunks as they arrive.
+ */
+export async function readChunk(
+  store: PayloadStore,
+  payloadDigest: string,
+  header: EnvelopeHeader,
+  key: Uint8Array,
+  index: number
+): Promise<Uint8Array> {
+  if (!Number.isInteger(index) || index < 0 || index >= header.chunkCount) throw new PayloadError(`No chunk ${index}`);
+  const { offset, length } = chunkSpan(header, index);
+  const sealed = await store.getRange(payloadDigest, offset, length);
+  if (!sealed) throw new PayloadError("payload not found");
+  if (sealed.length !== length) throw new PayloadError(`chunk ${index + 1} of ${header.chunkCount} is truncated`);
+  return openChunk(header, await importKey(key, "decrypt"), payloadDigest, index, sealed);
+}
+
+/**
+ * An S3-compatible bucket addressed path-style, e.g. http://localhost:9000/firmware.
+ * Requests are unsigned, which suits the local stand-in (`ota:payload-store`)
+ * or a bucket whose policy allows anonymous reads and writes.
+ */
+export function s3PayloadStore(bucketUrl: string): PayloadStore {
+  const base = bucketUrl.replace(/\/+$/, "");
+  const objectUrl = (payloadDigest: string) => `${base}/${payloadObjectKey(payloadDigest)}`;
+  const fail = (action: string, response: Response) => {
+    throw new PayloadError(`Payload store ${action} failed with HTTP ${response.status}`);
+  };
+  return {
+    location: base,
+    async has(payloadDigest) {
+      const response = await fetch(objectUrl(payloadDigest), { method: "HEAD" });
+      if (response.status === 404) return false;
+      if (!response.ok) fail("lookup", response);
+      return true;
+    },
+    async get(payloadDigest) {
+      const response = await fetch(objectUrl(payloadDigest));
+      if (response.status === 404) return null;
+      if (!response.ok) fail("download", response);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+    async getRange(payloadDigest, offset, length) {
+      const response = await fetch(objectUrl(payloadDigest), {
+        headers: { Range: `bytes=${offset}-${offset + length - 1}` }
+      });
+      if (response.status === 404) return null;
+      // Past the end of the blob
+      if (response.status === 416) return new Uint8Array(0);
+      if (!response.ok) fail("download", response);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // A server that ignores Range sends the whole blob
+      return response.status === 206 ? bytes : bytes.slice(offset, offset + length);
+    },
+    async put(payloadDigest, envelope) {
+      // A conditional write, so the bucket refuses it atomically when the key exists: S3 answers 412, or 409 when
+      // another upload to the key is in flight, and the stand-in answers 409
+      const response = await fetch(objectUrl(payloadDigest), {
+        method: "PUT",
+        headers: { "Content-Type": "application/octet-stream", "If-None-Match": "*" },
+        body: buffer(envelope)
+      });
+      if (response.status === 409 || response.status === 412) throw new PayloadExistsError(payloadDigest);
+      if (!response.ok) fail("upload", response);
+    }
+  };
+}
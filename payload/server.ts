@@ -0,0 +1,115 @@
+// server.ts
+// Local stand-in for an S3-compatible bucket, serving an fs payload store path-style at /<bucket>/<key>; Node.js only.
+import http from "http";
+import { fsPayloadStore } from "./fsStore";
+import { PayloadExistsError, PayloadStore, isPayloadEnvelope } from "./index";
+
+// Firmware images are large, but not this large
+const MAX_BODY_BYTES = 512 * 1024 * 1024;
+
+export interface PayloadServerOptions {
+  dir: string;
+  bucket: string;
+  port: number;
+  log?: (message: string) => void;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const readBody = (req: http.IncomingMessage) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, "Payload too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    req.on("error", reject);
+  });
+
+async function handle(store: PayloadStore, bucket: string, req: http.IncomingMessage, res: http.ServerResponse) {
+  const match = /^\/([^/]+)\/([0-9a-f]{64})$/.exec(new URL(req.url || "/", "http://localhost").pathname);
+  if (!match || match[1] !== bucket) throw new HttpError(404, "No such key");
+  const digest = `0x${match[2]}`;
+
+  if (req.method === "PUT") {
+    // Blobs are write-once: a second upload could swap the image for one sealed under another key. The store's put
+    // enforces it; this check only spares reading the body of an upload that is bound to fail
+    if (await store.has(digest)) throw new HttpError(409, "Blob already exists");
+    const envelope = await readBody(req);
+    // Only encrypted envelopes are accepted, so a plaintext image never lands in the bucket by mistake
+    if (!isPayloadEnvelope(envelope)) throw new HttpError(400, "Body is not an encrypted payload envelope");
+    try {
+      await store.put(digest, envelope);
+    } catch (e) {
+      if (e instanceof PayloadExistsError) throw new HttpError(409, "Blob already exists");
+      throw e;
+    }
+    res.writeHead(200).end();
+    return;
+  }
+  if (req.method !== "GET" && req.method !== "HEAD") throw new HttpError(405, "Method not allowed");
+  // Vehicle agents fetch envelopes one chunk at a time, so downloads can resume
+  const range = req.method === "GET" ? /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? "") : null;
+  if (range) {
+    const [start, end] = [Number(range[1]), Number(range[2])];
+    if (end < start) throw new HttpError(416, "Range not satisfiable");
+    const part = await store.getRange(digest, start, end - start + 1);
+    if (!part) throw new HttpError(404, "No such key");
+    if (part.length === 0) throw new HttpError(416, "Range not satisfiable");
+    res.writeHead(206, {
+      "Content-Type": "application/octet-stream",
+      "Content-Length": part.length,
+      "Content-Range": `bytes ${start}-${start + part.length - 1}/*`
+    });
+    res.end(part);
+    return;
+  }
+  const blob = await store.get(digest);
+  if (!blob) throw new HttpError(404, "No such key");
+  res.writeHead(200, { "Content-Type": "application/octet-stream", "Content-Length": blob.length });
+  res.end(req.method === "HEAD" ? undefined : blob);
+}
+
+/** Starts the bucket stand-in and resolves once it listens; blobs never change once written, as they are addressed by digest. */
+export function startPayloadServer(options: PayloadServerOptions): Promise<http.Server> {
+  const store = fsPayloadStore(options.dir);
+  const log = options.log ?? (() => undefined);
+  const server = http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, {
+        "Access-Control-Allow-Methods": "GET, HEAD, PUT, OPTIONS",
+        "Access-Control-Allow-Headers": "Content-Type, If-None-Match, Range"
+      });
+      res.end();
+      return;
+    }
+    handle(store, options.bucket, req, res).then(
+      () => log(`${req.method} ${req.url} ${res.statusCode}`),
+      (e) => {
+        const status = e instanceof HttpError ? e.status : 500;
+        if (status === 500) log(`${req.method} ${req.url} failed: ${e instanceof Error ? e.message : e}`);
+        if (!res.headersSent) res.writeHead(status, { "Content-Type": "text/plain" });
+        res.end(req.method === "HEAD" ? undefined : e instanceof HttpError ? e.message : "Internal error");
+      }
+    );
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, () => resolve(server));
+  });
+}
@@ -0,0 +1,107 @@
+// index.ts
+// Staged rollout campaign math shared by the web app and the tests; OtaUpdateFHE applies the same rules on chain.
+
+// In OtaUpdateFHE.CampaignState enum order
+export const CAMPAIGN_STATES = ["active", "halted", "completed", "cancelled"] as const;
+export type CampaignState = typeof CAMPAIGN_STATES[number];
+
+export const BPS = 10_000;
+// OtaUpdateFHE.MAX_WAVES
+export const MAX_WAVES = 10;
+
+// Registry fields a campaign can target; an empty field matches every vehicle
+export interface CampaignCohort {
+  model: string;
+  region: string;
+  firmwareVersion: string;
+}
+
+export interface CampaignPlan extends CampaignCohort {
+  targetCount: number;
+  // Cumulative share of the cohort reached by the end of each wave, in basis points
+  waves: number[];
+  failureThresholdBps: number;
+  // Known-good version a rollback campaign pins the cohort to; empty for a regular update
+  rollbackVersion: string;
+}
+
+export interface WaveStats {
+  dispatched: number;
+  completed: number;
+  failed: number;
+}
+
+export interface WaveProgress extends WaveStats {
+  wave: number;
+  quota: number;
+}
+
+export function toCampaignState(value: number | bigint): CampaignState {
+  const state = CAMPAIGN_STATES[Number(value)];
+  if (!state) throw new Error(`Unknown campaign state ${value}`);
+  return state;
+}
+
+export function matchesCohort(vehicle: CampaignCohort, cohort: CampaignCohort): boolean {
+  return (!cohort.model || cohort.model === vehicle.model) &&
+    (!cohort.region || cohort.region === vehicle.region) &&
+    (!cohort.firmwareVersion || cohort.firmwareVersion === vehicle.firmwareVersion);
+}
+
+/** Why a rollback to `rollbackVersion` cannot target `cohort`; empty for a regular update or a valid rollback. */
+export function validateRollback(cohort: CampaignCohort, rollbackVersion: string): string[] {
+  if (!rollbackVersion) return [];
+  if (!cohort.firmwareVersion) return ["A rollback must target the firmware version it replaces"];
+  if (cohort.firmwareVersion === rollbackVersion) return ["A rollback must pin a version other than the one it replaces"];
+  return [];
+}
+
+/**
+ * Parses "1, 10, 100" or "1% → 10% -> 100%" into cumulative basis points; throws on anything the contract would
+ * reject. A bare "-" is not a separator, so a range like "1-10" is an error rather than two waves.
+ */
+export function parseWavePercents(text: string): number[] {
+  const parts = text.split(/\s*(?:,|→|->)\s*|\s+/).filter(Boolean);
+  const invalid = parts.filter(part => !/^\d+(\.\d+)?%?$/.test(part));
+  if (invalid.length) throw new Error(`Not a wave percentage: ${invalid.map(part => `"${part}"`).join(", ")}`);
+  const waves = parts.map(part => Math.round(parseFloat(part) * 100));
+  const errors = validateWaves(waves);
+  if (errors.length) throw new Error(errors.join("; "));
+  return waves;
+}
+
+export function validateWaves(waves: number[]): string[] {
+  const errors: string[] = [];
+  if (waves.length === 0 || waves.length > MAX_WAVES) errors.push(`Use 1-${MAX_WAVES} waves`);
+  waves.forEach((wave, i) => {
+    if (!Number.isInteger(wave) || wave <= 0 || wave > BPS) errors.push(`Wave ${i + 1} must be between 0.01% and 100%`);
+    else if (i > 0 && wave <= waves[i - 1]) errors.push(`Wave ${i + 1} must reach more of the cohort than wave ${i}`);
+  });
+  if (waves.length && waves[waves.length - 1] !== BPS) errors.push("The last wave must reach 100% of the cohort");
+  return errors;
+}
+
+export const formatBps = (bps: number) => `${bps / 100}%`;
+
+// Rounds up like the contract, so a 1% wave of a small cohort still reaches one vehicle
+const waveEnd = (targetCount: number, cumulativeBps: number) => Math.ceil((targetCount * cumulativeBps) / BPS);
+
+/** Vehicles `wave` may target on top of the earlier waves. */
+export function waveQuota(targetCount: number, waves: number[], wave: number): number {
+  const end = waveEnd(targetCount, waves[wave]);
+  return wave === 0 ? end : end - waveEnd(targetCount, waves[wave - 1]);
+}
+
+export function failureRate(stats: WaveStats): number {
+  const finished = stats.completed + stats.failed;
+  return finished === 0 ? 0 : stats.failed / finished;
+}
+
+/** Whether `failed` updates in a wave of `quota` vehicles halt the campaign. */
+export function exceedsThreshold(failed: number, quota: number, failureThresholdBps: number): boolean {
+  return failed * BPS > failureThresholdBps * quota;
+}
+
+export function isWaveFinished(progress: WaveProgress): boolean {
+  return progress.dispatched >= progress.quota && progress.completed + progress.failed >= progress.quota;
+}
@@ -0,0 +1,37 @@
+import { task, types } from "hardhat/config";
+
+task("ota:agent", "Runs simulated vehicle agents that download, verify and install the updates sent to their vehicles")
+  .addOptionalParam("contract", "OtaUpdateFHE address (default: deployments/<network>.json)", "", types.string)
+  .addOptionalParam("keys", "Comma-separated private keys of agents set on registry vehicles", "", types.string)
+  .addOptionalParam("spawn", "Enroll this many vehicles with fresh agent keys first", 0, types.int)
+  .addFlag("submit", "Store an encrypted random payload, send it to the spawned vehicles as a campaign and verify it")
+  .addOptionalParam("payloadDir", "Payload store directory of encrypted blobs named by payload digest", "", types.string)
+  .addOptionalParam("payloadUrl", "Path-style URL of an S3-compatible payload bucket, e.g. http://localhost:9000/firmware", "", types.string)
+  .addOptionalParam("payloadSize", "Size in bytes of the payload sent with --submit", 65536, types.int)
+  .addOptionalParam("chunkSize", "Download chunk size in bytes of the payload sent with --submit", 16384, types.int)
+  .addOptionalParam("imagesDir", "Directory of the images installed on the vehicles, named by digest, to apply deltas to", "", types.string)
+  .addFlag("delta", "Ship the --submit payload as a delta from a base image installed on the spawned vehicles as well")
+  .addFlag("rollback", "Make the --submit campaign a rollback that pins vehicles spawned on 1.1.0 back to 1.0.0")
+  .addOptionalParam("indexer", "Indexer URL to fetch signed manifests from", "", types.string)
+  .addOptionalParam("downloadFailureRate", "Probability (0-1) that a download fails", 0, types.float)
+  .addOptionalParam("installFailureRate", "Probability (0-1) that an install fails", 0, types.float)
+  .addOptionalParam("interruptRate", "Probability (0-1) that a chunk transfer drops and is resumed", 0, types.float)
+  .addOptionalParam("healthFailureRate", "Probability (0-1) that a booted update fails its health checks and is rolled back", 0, types.float)
+  .addOptionalParam("downloadsDir", "Directory keeping the chunks of unfinished downloads across restarts", "", types.string)
+  .addOptionalParam("downloadMs", "Simulated download time per update", 500, types.int)
+  .addOptionalParam("installMs", "Simulated install time per update", 1000, types.int)
+  .addOptionalParam("verifyMs", "Simulated health check time after booting the new slot", 500, types.int)
+  .addOptionalParam("pollMs", "Delay between chain polls", 1000, types.int)
+  .addOptionalParam("fromBlock", "First block to scan for submissions (default: the deployment block)", -1, types.int)
+  .addOptionalParam("duration", "Seconds to run; 0 runs until Ctrl+C", 0, types.int)
+  .addFlag("untilIdle", "Exit once every update of the fleet is completed, failed, rolled back or waiting on a provider")
+  .addFlag("quiet", "Only print the summary")
+  .setAction(async (args, hre) => {
+    // Imported lazily: the agents need the fully initialised runtime environment
+    const { runFleet } = await import("../agent/fleet");
+    const keys = (args.keys || process.env.AGENT_PRIVATE_KEYS || "")
+      .split(",")
+      .map((key: string) => key.trim())
+      .filter(Boolean);
+    await runFleet(hre, { ...args, keys });
+  });
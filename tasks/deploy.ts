@@ -0,0 +1,11 @@
+import { task } from "hardhat/config";
+
+task("ota:deploy", "Deploys the configured contracts and updates deployments/<network>.json and the web app config")
+  .addFlag("dryRun", "Print the deployment plan without sending transactions or writing files")
+  .addFlag("force", "Redeploy contracts even if a matching deployment is recorded")
+  .addFlag("skipFrontend", "Do not update the web app config, ABI and bindings")
+  .setAction(async (args: { dryRun: boolean; force: boolean; skipFrontend: boolean }, hre) => {
+    // Imported lazily: the pipeline needs the fully initialised runtime environment
+    const { deployAll } = await import("../deploy/deploy");
+    await deployAll(hre, args);
+  });
@@ -0,0 +1,13 @@
+import { task, types } from "hardhat/config";
+
+task("ota:payload-store", "Serves a local S3-compatible bucket of encrypted firmware payloads until Ctrl+C")
+  .addOptionalParam("dir", "Directory holding the blobs, named by payload digest", "payloads", types.string)
+  .addOptionalParam("bucket", "Bucket name in the path-style URL", "firmware", types.string)
+  .addOptionalParam("port", "Port to listen on", 9000, types.int)
+  .addFlag("quiet", "Do not log requests")
+  .setAction(async (args: { dir: string; bucket: string; port: number; quiet: boolean }) => {
+    const { startPayloadServer } = await import("../payload/server");
+    const server = await startPayloadServer({ ...args, log: args.quiet ? undefined : console.log });
+    console.log(`Payload store: http://localhost:${args.port}/${args.bucket} -> ${args.dir}`);
+    await new Promise<void>((resolve) => process.once("SIGINT", () => server.close(() => resolve())));
+  });
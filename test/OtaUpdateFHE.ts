@@ -0,0 +1,1647 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import fs from "fs";
+import { ethers, fhevm } from "hardhat";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { DEFAULT_STATUS_TIMEOUTS, availableActions, canPerform, effectiveStatus, toUpdateStatus } from "../lifecycle";
+import { DeltaError, applyDelta, createDelta } from "../delta";
+import {
+  FirmwareManifest,
+  compareSemver,
+  deltaFor,
+  deltaSavings,
+  encodeVersion,
+  hashManifest,
+  manifestDomain,
+  parseManifest,
+  parseSignedManifest,
+  signManifest,
+  verifySignedManifest,
+} from "../manifest";
+import {
+  PayloadError,
+  PayloadExistsError,
+  PayloadStore,
+  chunkRoot,
+  decryptPayload,
+  encryptPayload,
+  generatePayloadKey,
+  merkleRoot,
+  payloadKeyToUint256,
+  readChunk,
+  readEnvelopeHeader,
+  s3PayloadStore,
+  uint256ToPayloadKey,
+} from "../payload";
+import { fsPayloadStore } from "../payload/fsStore";
+import { startPayloadServer } from "../payload/server";
+import {
+  CampaignPlan,
+  exceedsThreshold,
+  parseWavePercents,
+  toCampaignState,
+  validateRollback,
+  waveQuota,
+} from "../rollout";
+import { OtaUpdateFHE, OtaUpdateFHE__factory } from "../types";
+import { createVehicleAgent, toHandle } from "../agent/vehicleAgent";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  provider: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+  agent: HardhatEthersSigner;
+};
+
+const COOLDOWN_SECONDS = 60;
+// Stand-ins for a signed manifest digest and its payload digest where the manifest itself is not under test
+const MANIFEST_HASH = ethers.id("manifest");
+const PAYLOAD = ethers.toUtf8Bytes("firmware");
+const PAYLOAD_DIGEST = ethers.sha256(PAYLOAD);
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("OtaUpdateFHE")) as OtaUpdateFHE__factory;
+  const contract = (await factory.deploy()) as OtaUpdateFHE;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("OtaUpdateFHE", function () {
+  let signers: Signers;
+  let contract: OtaUpdateFHE;
+  let contractAddress: string;
+
+  async function encryptUpdate(signer: HardhatEthersSigner, updatePackageId: number, vehicleId: number) {
+    return fhevm.createEncryptedInput(contractAddress, signer.address).add32(updatePackageId).add32(vehicleId).encrypt();
+  }
+
+  async function submit(signer: HardhatEthersSigner, batchId: number, updatePackageId: number, vehicleId: number) {
+    const input = await encryptUpdate(signer, updatePackageId, vehicleId);
+    return contract
+      .connect(signer)
+      .submitUpdate(batchId, input.handles[0], input.handles[1], input.inputProof, MANIFEST_HASH, PAYLOAD_DIGEST);
+  }
+
+  // Opens, fills and closes the current batch, skipping the cooldown between steps
+  async function closedBatchWithUpdate(updatePackageId: number, vehicleId: number) {
+    const batchId = Number(await contract.currentBatchId());
+    await contract.connect(signers.provider).openBatch();
+    await time.increase(COOLDOWN_SECONDS);
+    await submit(signers.provider, batchId, updatePackageId, vehicleId);
+    await contract.connect(signers.provider).closeBatch(batchId);
+    return batchId;
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { owner: ethSigners[0], provider: ethSigners[1], outsider: ethSigners[2], agent: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // The decryption oracle and encrypted inputs are only available in the FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+    await contract.connect(signers.owner).addProvider(signers.provider.address);
+  });
+
+  describe("deployment", function () {
+    it("makes the deployer the owner and first provider", async function () {
+      expect(await contract.owner()).to.eq(signers.owner.address);
+      expect(await contract.isProvider(signers.owner.address)).to.eq(true);
+      expect(await contract.cooldownSeconds()).to.eq(COOLDOWN_SECONDS);
+      expect(await contract.currentBatchId()).to.eq(1);
+      expect(await contract.totalBatches()).to.eq(0);
+      expect(await contract.paused()).to.eq(false);
+    });
+  });
+
+  describe("providers", function () {
+    it("lets only the owner manage providers", async function () {
+      await expect(
+        contract.connect(signers.outsider).addProvider(signers.outsider.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(
+        contract.connect(signers.provider).removeProvider(signers.provider.address),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+
+    it("rejects the zero address", async function () {
+      await expect(contract.addProvider(ethers.ZeroAddress)).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("emits events only when the provider set changes", async function () {
+      await expect(contract.addProvider(signers.outsider.address))
+        .to.emit(contract, "ProviderAdded")
+        .withArgs(signers.outsider.address);
+      await expect(contract.addProvider(signers.outsider.address)).not.to.emit(contract, "ProviderAdded");
+
+      await expect(contract.removeProvider(signers.outsider.address))
+        .to.emit(contract, "ProviderRemoved")
+        .withArgs(signers.outsider.address);
+      await expect(contract.removeProvider(signers.outsider.address)).not.to.emit(contract, "ProviderRemoved");
+    });
+
+    it("blocks batch operations for non-providers", async function () {
+      await expect(contract.connect(signers.outsider).openBatch()).to.be.revertedWithCustomError(contract, "NotProvider");
+
+      await contract.connect(signers.provider).openBatch();
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submit(signers.outsider, 1, 7, 1001)).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(contract.connect(signers.outsider).closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+
+    it("revokes access when a provider is removed", async function () {
+      await contract.removeProvider(signers.provider.address);
+      await expect(contract.connect(signers.provider).openBatch()).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+  });
+
+  describe("batch lifecycle", function () {
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+    });
+
+    it("requires an open batch before submitting", async function () {
+      await expect(submit(signers.provider, 1, 7, 1001)).to.be.revertedWithCustomError(
+        contract,
+        "BatchClosedOrInvalid",
+      );
+    });
+
+    it("opens, fills and closes batches in order", async function () {
+      await expect(contract.connect(signers.provider).openBatch()).to.emit(contract, "BatchOpened");
+      expect(await contract.totalBatches()).to.eq(1);
+      await expect(contract.connect(signers.provider).openBatch()).to.be.revertedWithCustomError(
+        contract,
+        "BatchClosedOrInvalid",
+      );
+
+      await expect(submit(signers.provider, 1, 7, 1001)).to.emit(contract, "UpdateSubmitted");
+      const batch = await contract.batches(1);
+      expect(batch.isOpen).to.eq(true);
+      expect(batch.entryCount).to.eq(1);
+      const entry = await contract.batchEntries(1, 0);
+      expect(entry.provider).to.eq(signers.provider.address);
+      expect(entry.updatePackageIdEncrypted).to.not.eq(0);
+      expect(entry.vehicleIdEncrypted).to.not.eq(0);
+
+      await expect(contract.connect(signers.provider).closeBatch(1)).to.emit(contract, "BatchClosed");
+      expect((await contract.batches(1)).isOpen).to.eq(false);
+      expect(await contract.currentBatchId()).to.eq(2);
+    });
+
+    it("only accepts the current batch id", async function () {
+      await contract.connect(signers.provider).openBatch();
+      await expect(submit(signers.provider, 2, 7, 1001)).to.be.revertedWithCustomError(contract, "InvalidBatchId");
+      await expect(contract.connect(signers.provider).closeBatch(2)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+
+      await contract.connect(signers.provider).closeBatch(1);
+      await expect(submit(signers.provider, 1, 7, 1001)).to.be.revertedWithCustomError(contract, "InvalidBatchId");
+      await expect(contract.connect(signers.provider).closeBatch(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+    });
+
+    it("appends every submission to the batch as its own entry", async function () {
+      await contract.connect(signers.provider).openBatch();
+      await expect(submit(signers.provider, 1, 7, 1001))
+        .to.emit(contract, "UpdateSubmitted")
+        .withArgs(1, 0, signers.provider.address, anyValue, anyValue, 0, MANIFEST_HASH, PAYLOAD_DIGEST, anyValue);
+      await expect(submit(signers.owner, 1, 8, 1002))
+        .to.emit(contract, "UpdateSubmitted")
+        .withArgs(1, 1, signers.owner.address, anyValue, anyValue, 0, MANIFEST_HASH, PAYLOAD_DIGEST, anyValue);
+
+      expect((await contract.batches(1)).entryCount).to.eq(2);
+      const [first, second] = [await contract.batchEntries(1, 0), await contract.batchEntries(1, 1)];
+      expect(first.provider).to.eq(signers.provider.address);
+      expect(second.provider).to.eq(signers.owner.address);
+      expect(first.updatePackageIdEncrypted).to.not.eq(second.updatePackageIdEncrypted);
+      expect(toUpdateStatus(first.status)).to.eq("pending");
+      expect(toUpdateStatus(second.status)).to.eq("pending");
+    });
+
+    it("pages through the entries of a batch", async function () {
+      await contract.connect(signers.provider).openBatch();
+      for (let i = 0; i < 5; i++) {
+        await submit(signers.provider, 1, 10 + i, 1000 + i);
+      }
+
+      const page = await contract.getBatchEntries(1, 1, 3);
+      expect(page.length).to.eq(3);
+      expect(page[0].updatePackageIdEncrypted).to.eq((await contract.batchEntries(1, 1)).updatePackageIdEncrypted);
+      expect(page[2].updatePackageIdEncrypted).to.eq((await contract.batchEntries(1, 3)).updatePackageIdEncrypted);
+      expect((await contract.getBatchEntries(1, 3, 10)).length).to.eq(2);
+      expect((await contract.getBatchEntries(1, 5, 10)).length).to.eq(0);
+      expect((await contract.getBatchEntries(2, 0, 10)).length).to.eq(0);
+    });
+
+    it("lets the submitter decrypt its own inputs", async function () {
+      await contract.connect(signers.provider).openBatch();
+      await submit(signers.provider, 1, 42, 1234);
+      const entry = await contract.batchEntries(1, 0);
+
+      const updatePackageId = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        ethers.toBeHex(entry.updatePackageIdEncrypted, 32),
+        contractAddress,
+        signers.provider,
+      );
+      const vehicleId = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        ethers.toBeHex(entry.vehicleIdEncrypted, 32),
+        contractAddress,
+        signers.provider,
+      );
+      expect(updatePackageId).to.eq(42);
+      expect(vehicleId).to.eq(1234);
+    });
+  });
+
+  describe("cooldown", function () {
+    it("spaces out submissions per provider", async function () {
+      await contract.connect(signers.provider).openBatch();
+      // CooldownActive reverts are asserted through eth_call: the fhevm plugin cannot decode them from a sent transaction
+      const input = await encryptUpdate(signers.provider, 7, 1001);
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdate.staticCall(1, input.handles[0], input.handles[1], input.inputProof, MANIFEST_HASH, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      // Other providers are not affected by someone else's cooldown
+      await expect(submit(signers.owner, 1, 7, 1001)).to.emit(contract, "UpdateSubmitted");
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(submit(signers.provider, 1, 8, 1002)).to.emit(contract, "UpdateSubmitted");
+    });
+
+    it("spaces out decryption requests separately from submissions", async function () {
+      const first = await closedBatchWithUpdate(7, 1001);
+      await time.increase(COOLDOWN_SECONDS);
+      const second = await closedBatchWithUpdate(8, 1002);
+
+      await expect(contract.connect(signers.provider).requestBatchDecryption(first)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+      await expect(
+        contract.connect(signers.provider).requestBatchDecryption.staticCall(second),
+      ).to.be.revertedWithCustomError(contract, "CooldownActive");
+
+      await time.increase(COOLDOWN_SECONDS);
+      await expect(contract.connect(signers.provider).requestBatchDecryption(second)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+    });
+
+    it("lets only the owner change the cooldown", async function () {
+      await expect(contract.connect(signers.provider).setCooldownSeconds(0)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.setCooldownSeconds(0))
+        .to.emit(contract, "CooldownSecondsSet")
+        .withArgs(COOLDOWN_SECONDS, 0);
+    });
+  });
+
+  describe("pause", function () {
+    it("lets only the owner pause and unpause", async function () {
+      await expect(contract.connect(signers.provider).pause()).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.pause()).to.emit(contract, "Paused").withArgs(signers.owner.address);
+      await expect(contract.connect(signers.provider).unpause()).to.be.revertedWithCustomError(contract, "NotOwner");
+      await expect(contract.unpause()).to.emit(contract, "Unpaused").withArgs(signers.owner.address);
+    });
+
+    it("rejects pausing twice and unpausing an active contract", async function () {
+      await expect(contract.unpause()).to.be.revertedWithCustomError(contract, "PausedState");
+      await contract.pause();
+      await expect(contract.pause()).to.be.revertedWithCustomError(contract, "PausedState");
+    });
+
+    it("blocks every provider operation while paused", async function () {
+      const batchId = await closedBatchWithUpdate(7, 1001);
+      await time.increase(COOLDOWN_SECONDS);
+      await contract.connect(signers.provider).openBatch();
+      await time.increase(COOLDOWN_SECONDS);
+      await contract.pause();
+
+      await expect(contract.connect(signers.provider).openBatch()).to.be.revertedWithCustomError(
+        contract,
+        "PausedState",
+      );
+      await expect(submit(signers.provider, batchId + 1, 7, 1001)).to.be.revertedWithCustomError(
+        contract,
+        "PausedState",
+      );
+      await expect(contract.connect(signers.provider).closeBatch(batchId + 1)).to.be.revertedWithCustomError(
+        contract,
+        "PausedState",
+      );
+      await expect(
+        contract.connect(signers.provider).requestBatchDecryption(batchId),
+      ).to.be.revertedWithCustomError(contract, "PausedState");
+    });
+  });
+
+  describe("vehicle registry", function () {
+    async function enroll(signer: HardhatEthersSigner, vehicleId: number, model = "Model S", ecuType = "TCU") {
+      const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(vehicleId).encrypt();
+      return contract.connect(signer).enrollVehicle(input.handles[0], input.inputProof, model, ecuType, "EU", "1.0.0");
+    }
+
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+    });
+
+    it("enrolls vehicles with an encrypted id readable by the enroller and owner", async function () {
+      await expect(enroll(signers.provider, 4321)).to.emit(contract, "VehicleEnrolled");
+      expect(await contract.vehicleCount()).to.eq(1);
+
+      const vehicle = await contract.vehicles(1);
+      expect(vehicle.model).to.eq("Model S");
+      expect(vehicle.ecuType).to.eq("TCU");
+      expect(vehicle.region).to.eq("EU");
+      expect(vehicle.firmwareVersion).to.eq("1.0.0");
+      expect(vehicle.enrolledBy).to.eq(signers.provider.address);
+
+      const handle = ethers.toBeHex(vehicle.vehicleIdEncrypted, 32);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.provider)).to.eq(4321);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.owner)).to.eq(4321);
+    });
+
+    it("keeps a registry vehicle's id from other providers that submit updates for it", async function () {
+      await enroll(signers.provider, 4321);
+      await contract.addProvider(signers.outsider.address);
+      await contract.connect(signers.outsider).openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.outsider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.outsider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+
+      const entry = await contract.batchEntries(1, 0);
+      const decrypt = (handle: bigint) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, ethers.toBeHex(handle, 32), contractAddress, signers.outsider);
+      expect(await decrypt(entry.updatePackageIdEncrypted)).to.eq(42);
+      await expect(decrypt(entry.vehicleIdEncrypted)).to.be.rejected;
+    });
+
+    it("requires a provider and a model and ECU type", async function () {
+      await expect(enroll(signers.outsider, 1)).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(enroll(signers.provider, 1, "")).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(enroll(signers.provider, 1, "Model S", "")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+    });
+
+    it("records the last installed firmware", async function () {
+      await enroll(signers.provider, 4321);
+      await expect(contract.connect(signers.provider).setVehicleFirmware(1, "1.1.0")).to.emit(
+        contract,
+        "VehicleFirmwareUpdated",
+      );
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("1.1.0");
+      await expect(contract.connect(signers.provider).setVehicleFirmware(2, "1.1.0")).to.be.revertedWithCustomError(
+        contract,
+        "UnknownVehicle",
+      );
+    });
+
+    it("submits updates against the stored encrypted vehicle id", async function () {
+      await enroll(signers.provider, 4321);
+      const vehicle = await contract.vehicles(1);
+      await contract.connect(signers.provider).openBatch();
+
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 2, MANIFEST_HASH, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "UnknownVehicle");
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST),
+      ).to.emit(contract, "UpdateSubmitted");
+
+      const entry = await contract.batchEntries(1, 0);
+      expect(entry.vehicleIdEncrypted).to.eq(vehicle.vehicleIdEncrypted);
+      expect(entry.vehicleIndex).to.eq(1);
+      await contract.connect(signers.provider).closeBatch(1);
+      await contract.connect(signers.provider).requestBatchDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      expect(completed.args.updatePackageIds).to.deep.eq([42n]);
+      expect(completed.args.vehicleIds).to.deep.eq([0n]);
+    });
+
+    it("never publishes registry vehicle ids when a batch is decrypted", async function () {
+      await enroll(signers.provider, 4321);
+      await contract.connect(signers.provider).openBatch();
+      await submit(signers.provider, 1, 7, 1001);
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      await submit(signers.provider, 1, 8, 1002);
+      await contract.connect(signers.provider).closeBatch(1);
+      await contract.connect(signers.provider).requestBatchDecryption(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      expect(completed).to.have.length(1);
+      expect(completed[0].args.updatePackageIds).to.deep.eq([7n, 42n, 8n]);
+      expect(completed[0].args.vehicleIds).to.deep.eq([1001n, 0n, 1002n]);
+      for (const event of completed) expect(event.args.vehicleIds).to.not.include(4321n);
+    });
+  });
+
+  describe("encrypted eligibility", function () {
+    async function setInstalledVersion(version: string) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signers.provider.address)
+        .add32(encodeVersion(version))
+        .encrypt();
+      return contract.connect(signers.provider).setVehicleVersionEncrypted(1, input.handles[0], input.inputProof);
+    }
+
+    async function setPackageRange(signer: HardhatEthersSigner, minVersion: string, targetVersion: string) {
+      const input = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(encodeVersion(minVersion))
+        .add32(encodeVersion(targetVersion))
+        .encrypt();
+      return contract
+        .connect(signer)
+        .setPackageVersions(MANIFEST_HASH, input.handles[0], input.handles[1], input.inputProof);
+    }
+
+    // Runs the check as the agent and decrypts the bit with the agent's key
+    async function checkAsAgent() {
+      await contract.connect(signers.agent).checkEligibility(1, MANIFEST_HASH);
+      const handle = ethers.toBeHex(await contract.eligibility(1, MANIFEST_HASH), 32);
+      return fhevm.userDecryptEbool(handle, contractAddress, signers.agent);
+    }
+
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(4321).encrypt();
+      await contract.connect(signers.provider).enrollVehicle(input.handles[0], input.inputProof, "Model S", "TCU", "EU", "");
+      await contract.connect(signers.provider).setVehicleAgent(1, signers.agent.address);
+    });
+
+    it("packs semantic versions into comparable uint32 values", async function () {
+      expect(encodeVersion("2.1.0")).to.eq(2_001_000);
+      expect(encodeVersion("2.1.0-rc.1")).to.eq(encodeVersion("2.1.0"));
+      expect(encodeVersion("1.999.999")).to.be.lessThan(encodeVersion("2.0.0"));
+      expect(() => encodeVersion("1.1000.0")).to.throw("must be below 1000");
+      expect(() => encodeVersion("5000.0.0")).to.throw("too large");
+    });
+
+    it("tells the vehicle agent whether the installed version is in the package range", async function () {
+      await setPackageRange(signers.provider, "1.5.0", "2.1.0");
+
+      await setInstalledVersion("2.0.3");
+      await expect(contract.connect(signers.agent).checkEligibility(1, MANIFEST_HASH)).to.emit(
+        contract,
+        "EligibilityChecked",
+      );
+      expect(await checkAsAgent()).to.eq(true);
+
+      await setInstalledVersion("2.1.0");
+      expect(await checkAsAgent()).to.eq(false);
+
+      await setInstalledVersion("1.4.9");
+      expect(await checkAsAgent()).to.eq(false);
+    });
+
+    it("shares only the eligibility bit with the agent", async function () {
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      await setInstalledVersion("1.2.0");
+      expect(await checkAsAgent()).to.eq(true);
+
+      const installed = ethers.toBeHex((await contract.vehicles(1)).firmwareVersionEncrypted, 32);
+      const range = await contract.packageVersions(MANIFEST_HASH);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint32, installed, contractAddress, signers.provider)).to.eq(
+        encodeVersion("1.2.0"),
+      );
+      for (const handle of [installed, range.minVersionEncrypted, range.targetVersionEncrypted]) {
+        await expect(
+          fhevm.userDecryptEuint(FhevmType.euint32, ethers.toBeHex(handle, 32), contractAddress, signers.agent),
+        ).to.be.rejected;
+      }
+      const eligible = ethers.toBeHex(await contract.eligibility(1, MANIFEST_HASH), 32);
+      await expect(fhevm.userDecryptEbool(eligible, contractAddress, signers.provider)).to.be.rejected;
+    });
+
+    it("moves the encrypted version to the package target on completion, without publishing a label", async function () {
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      await setInstalledVersion("1.2.0");
+      expect(await checkAsAgent()).to.eq(true);
+
+      await contract.connect(signers.provider).openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      await contract.connect(signers.provider).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST);
+      await contract.connect(signers.agent).reportInstalling(1, 0);
+      const { targetVersionEncrypted } = await contract.packageVersions(MANIFEST_HASH);
+      await expect(contract.connect(signers.agent).reportCompleted(1, 0, "2.0.0"))
+        .to.emit(contract, "VehicleVersionEncrypted")
+        .withArgs(1, targetVersionEncrypted, anyValue)
+        .and.not.to.emit(contract, "VehicleFirmwareUpdated");
+
+      // The vehicle was enrolled without a label, so it keeps none; the package no longer applies to it
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("");
+      expect((await contract.vehicles(1)).firmwareVersionEncrypted).to.eq(targetVersionEncrypted);
+      expect(await checkAsAgent()).to.eq(false);
+    });
+
+    it("keeps the public cohort label apart from the encrypted version it checks", async function () {
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      await setInstalledVersion("1.2.0");
+      const installed = (await contract.vehicles(1)).firmwareVersionEncrypted;
+
+      // The label is public by design: anyone can read it and the event carries it in the clear
+      await expect(contract.connect(signers.provider).setVehicleFirmware(1, "2.5.0"))
+        .to.emit(contract, "VehicleFirmwareUpdated")
+        .withArgs(1, "2.5.0", anyValue);
+      expect((await contract.connect(signers.outsider).vehicles(1)).firmwareVersion).to.eq("2.5.0");
+
+      // Eligibility only ever reads the encrypted version, which the label does not touch
+      expect((await contract.vehicles(1)).firmwareVersionEncrypted).to.eq(installed);
+      expect(await checkAsAgent()).to.eq(true);
+    });
+
+    it("requires the vehicle agent and both versions", async function () {
+      await expect(contract.connect(signers.agent).checkEligibility(1, MANIFEST_HASH)).to.be.revertedWithCustomError(
+        contract,
+        "NotInitialized",
+      );
+      await setInstalledVersion("1.2.0");
+      await expect(contract.connect(signers.agent).checkEligibility(1, MANIFEST_HASH)).to.be.revertedWithCustomError(
+        contract,
+        "NotInitialized",
+      );
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      await expect(
+        contract.connect(signers.provider).checkEligibility(1, MANIFEST_HASH),
+      ).to.be.revertedWithCustomError(contract, "NotVehicleAgent");
+      await expect(contract.connect(signers.agent).checkEligibility(2, MANIFEST_HASH)).to.be.revertedWithCustomError(
+        contract,
+        "UnknownVehicle",
+      );
+      await expect(setPackageRange(signers.outsider, "1.0.0", "2.0.0")).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+    });
+
+    it("keeps a package's version range once it is set", async function () {
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      const range = await contract.packageVersions(MANIFEST_HASH);
+      await contract.addProvider(signers.outsider.address);
+      await expect(setPackageRange(signers.provider, "0.0.0", "9.0.0")).to.be.revertedWithCustomError(
+        contract,
+        "PackageVersionsExist",
+      );
+      await expect(setPackageRange(signers.outsider, "0.0.0", "9.0.0")).to.be.revertedWithCustomError(
+        contract,
+        "NotManifestProvider",
+      );
+      expect((await contract.packageVersions(MANIFEST_HASH)).targetVersionEncrypted).to.eq(range.targetVersionEncrypted);
+      expect((await contract.packageVersions(MANIFEST_HASH)).setBy).to.eq(signers.provider.address);
+    });
+
+    it("lets only the provider that first used a manifest set its range", async function () {
+      await contract.addProvider(signers.outsider.address);
+      await contract.connect(signers.provider).openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      expect(await contract.manifestProviders(MANIFEST_HASH)).to.eq(signers.provider.address);
+
+      // Another provider trying to take the range of the submitted package first is turned away
+      await expect(setPackageRange(signers.outsider, "0.0.0", "9.0.0")).to.be.revertedWithCustomError(
+        contract,
+        "NotManifestProvider",
+      );
+      expect((await contract.packageVersions(MANIFEST_HASH)).targetVersionEncrypted).to.eq(0n);
+      await setPackageRange(signers.provider, "1.0.0", "2.0.0");
+      expect((await contract.packageVersions(MANIFEST_HASH)).setBy).to.eq(signers.provider.address);
+      expect(await contract.manifestProviders(MANIFEST_HASH)).to.eq(signers.provider.address);
+    });
+  });
+
+  describe("firmware manifests", function () {
+    const manifest: FirmwareManifest = {
+      packageId: 42,
+      version: "2.1.0",
+      targetModels: ["Model S"],
+      targetEcus: ["TCU"],
+      dependencies: [{ ecuType: "BCM", minVersion: "1.4.0" }],
+      minPriorVersion: "2.0.0",
+      maxPriorVersion: "",
+      payloadDigest: PAYLOAD_DIGEST,
+      payloadSize: 8,
+      chunkSize: 4096,
+      chunkRoot: chunkRoot(PAYLOAD, 4096),
+      deltas: [],
+      issuedAt: 1_700_000_000,
+    };
+
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+      await contract.connect(signers.provider).openBatch();
+    });
+
+    it("orders pre-releases by their dot-separated identifiers", function () {
+      // Precedence example of SemVer §11
+      const ordered = [
+        "1.0.0-alpha",
+        "1.0.0-alpha.1",
+        "1.0.0-alpha.beta",
+        "1.0.0-beta",
+        "1.0.0-beta.2",
+        "1.0.0-beta.11",
+        "1.0.0-rc.1",
+        "1.0.0",
+      ];
+      for (let i = 1; i < ordered.length; i++) {
+        expect(compareSemver(ordered[i - 1], ordered[i])).to.eq(-1);
+        expect(compareSemver(ordered[i], ordered[i - 1])).to.eq(1);
+      }
+      expect(compareSemver("1.0.0-rc.2", "1.0.0-rc.10")).to.eq(-1);
+      expect(compareSemver("1.0.0-rc.10+build.5", "1.0.0-rc.10")).to.eq(0);
+    });
+
+    it("commits the EIP-712 digest of the provider-signed manifest", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = manifestDomain(chainId, contractAddress);
+      const signed = await signManifest(signers.provider, manifest, domain);
+
+      const parsed = parseSignedManifest(JSON.stringify(signed));
+      expect(parsed.ok).to.eq(true);
+      const manifestHash = verifySignedManifest(signed, domain);
+
+      const input = await encryptUpdate(signers.provider, manifest.packageId, 1001);
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdate(1, input.handles[0], input.handles[1], input.inputProof, manifestHash, manifest.payloadDigest),
+      )
+        .to.emit(contract, "UpdateSubmitted")
+        .withArgs(1, 0, signers.provider.address, anyValue, anyValue, 0, manifestHash, manifest.payloadDigest, anyValue);
+      expect((await contract.batchEntries(1, 0)).manifestHash).to.eq(manifestHash);
+    });
+
+    it("rejects a submission without a manifest hash or payload digest", async function () {
+      const input = await encryptUpdate(signers.provider, 42, 1001);
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdate(1, input.handles[0], input.handles[1], input.inputProof, ethers.ZeroHash, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(
+        contract
+          .connect(signers.provider)
+          .submitUpdate(1, input.handles[0], input.handles[1], input.inputProof, MANIFEST_HASH, ethers.ZeroHash),
+      ).to.be.revertedWithCustomError(contract, "InvalidParameter");
+    });
+
+    it("detects manifests signed for another contract or by someone else", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = manifestDomain(chainId, contractAddress);
+      const signed = await signManifest(signers.provider, manifest, domain);
+
+      expect(() => verifySignedManifest(signed, manifestDomain(chainId, signers.outsider.address))).to.throw(
+        "Invalid firmware manifest",
+      );
+      expect(() => verifySignedManifest({ ...signed, signer: signers.outsider.address }, domain)).to.throw(
+        "Invalid firmware manifest",
+      );
+      expect(() =>
+        verifySignedManifest({ ...signed, manifest: { ...manifest, version: "2.1.1" } }, domain),
+      ).to.throw("Invalid firmware manifest");
+    });
+
+    it("signs deltas and rejects ones for versions the package does not apply to", async function () {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = manifestDomain(chainId, contractAddress);
+      const delta = { baseVersion: "2.0.0", baseDigest: ethers.sha256("0x00"), digest: ethers.sha256("0x01"), size: 3 };
+      const withDelta = { ...manifest, deltas: [delta] };
+      const signed = await signManifest(signers.provider, withDelta, domain);
+      expect(verifySignedManifest(signed, domain)).to.not.eq(hashManifest(manifest, domain));
+      expect(deltaFor(withDelta, "2.0.0")).to.deep.eq(delta);
+      expect(deltaFor(withDelta, "2.0.1")).to.eq(undefined);
+      expect(deltaSavings(withDelta)).to.deep.eq([{ baseVersion: "2.0.0", size: 3, saved: 5, savedPercent: 62.5 }]);
+
+      const parse = (deltas: unknown[]) => parseManifest({ ...manifest, deltas });
+      expect(parse([delta]).ok).to.eq(true);
+      expect(parse([{ ...delta, baseVersion: "1.9.0" }])).to.deep.eq({
+        ok: false,
+        errors: ["deltas[0].baseVersion must be within minPriorVersion - maxPriorVersion"],
+      });
+      expect(parse([delta, { ...delta, size: 0 }])).to.deep.eq({
+        ok: false,
+        errors: ["deltas[1].baseVersion 2.0.0 is listed twice", "deltas[1].size must be a positive integer"],
+      });
+      const withoutDeltas: Partial<FirmwareManifest> = { ...manifest };
+      delete withoutDeltas.deltas;
+      expect(parseManifest(withoutDeltas)).to.deep.eq({ ok: false, errors: ["missing field deltas", "deltas must be an array"] });
+    });
+
+    it("bounds the chunk size and requires a chunk root", function () {
+      expect(parseManifest({ ...manifest, chunkSize: 1024, chunkRoot: "0x" })).to.deep.eq({
+        ok: false,
+        errors: [
+          "chunkSize must be an integer between 4096 and 67108864",
+          "chunkRoot must be a 0x-prefixed SHA-256 Merkle root",
+        ],
+      });
+    });
+  });
+
+  describe("binary deltas", function () {
+    // A base image and a target that changes a few bytes and inserts a block in the middle
+    const base = ethers.getBytes(ethers.concat(Array.from({ length: 64 }, (_, i) => ethers.sha256(ethers.toBeHex(i, 32)))));
+    const target = ethers.getBytes(
+      ethers.concat([base.slice(0, 1000), ethers.toUtf8Bytes("inserted block"), base.slice(1000), "0x0102"]),
+    );
+    target[10] ^= 0xff;
+    target[1500] ^= 0x01;
+
+    it("rebuilds the target from the base and a patch much smaller than the image", async function () {
+      const patch = await createDelta(base, target);
+      expect(patch.length).to.be.lessThan(target.length / 4);
+      expect(ethers.hexlify(await applyDelta(base, patch))).to.eq(ethers.hexlify(target));
+      expect(ethers.hexlify(await applyDelta(new Uint8Array(0), await createDelta(new Uint8Array(0), target)))).to.eq(
+        ethers.hexlify(target),
+      );
+    });
+
+    it("rejects the wrong base or a damaged patch", async function () {
+      const patch = await createDelta(base, target);
+      await expect(applyDelta(base.slice(1), patch)).to.be.rejectedWith(DeltaError, "2048-byte base");
+      const damaged = patch.slice();
+      damaged[damaged.length - 12] ^= 0xff;
+      await expect(applyDelta(base, damaged)).to.be.rejectedWith(DeltaError);
+      await expect(applyDelta(base, target)).to.be.rejectedWith(DeltaError, "not a firmware delta");
+    });
+
+    it("checks the target size in the patch header before allocating the image", async function () {
+      const patch = await createDelta(base, target);
+      expect(ethers.hexlify(await applyDelta(base, patch, target.length))).to.eq(ethers.hexlify(target));
+      await expect(applyDelta(base, patch, target.length + 1)).to.be.rejectedWith(DeltaError, "manifest declares");
+
+      const forged = patch.slice();
+      new DataView(forged.buffer).setBigUint64(13, 2n ** 40n);
+      await expect(applyDelta(base, forged)).to.be.rejectedWith(DeltaError, "exceeds");
+    });
+  });
+
+  describe("payload integrity", function () {
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+      await contract.connect(signers.provider).openBatch();
+    });
+
+    it("moves a pending update to downloading when the digest matches", async function () {
+      await submit(signers.provider, 1, 42, 1001);
+      expect((await contract.batchEntries(1, 0)).status).to.eq(1);
+
+      await expect(contract.connect(signers.owner).verifyPayloadIntegrity(1, 0, ethers.sha256(PAYLOAD)))
+        .to.emit(contract, "IntegrityVerified")
+        .withArgs(1, 0, signers.owner.address, PAYLOAD_DIGEST, true, anyValue);
+      expect((await contract.batchEntries(1, 0)).status).to.eq(2);
+      const check = await contract.integrityChecks(1, 0);
+      expect(check.verifier).to.eq(signers.owner.address);
+      expect(check.passed).to.eq(true);
+
+      await expect(
+        contract.connect(signers.owner).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "InvalidTransition");
+    });
+
+    it("records a mismatch without advancing the update", async function () {
+      await submit(signers.provider, 1, 42, 1001);
+      const tampered = ethers.sha256(ethers.toUtf8Bytes("firmwarX"));
+
+      await expect(contract.connect(signers.provider).verifyPayloadIntegrity(1, 0, tampered))
+        .to.emit(contract, "IntegrityVerified")
+        .withArgs(1, 0, signers.provider.address, tampered, false, anyValue);
+      expect((await contract.batchEntries(1, 0)).status).to.eq(1);
+      expect((await contract.integrityChecks(1, 0)).passed).to.eq(false);
+
+      // A later check with the right payload still goes through
+      await contract.connect(signers.provider).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST);
+      expect((await contract.batchEntries(1, 0)).status).to.eq(2);
+    });
+
+    it("requires a provider and a submitted update", async function () {
+      await expect(
+        contract.connect(signers.provider).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "UnknownEntry");
+      await expect(
+        contract.connect(signers.provider).verifyPayloadIntegrity(2, 0, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "InvalidBatchId");
+
+      await submit(signers.provider, 1, 42, 1001);
+      await expect(
+        contract.connect(signers.outsider).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+  });
+
+  describe("payload keys", function () {
+    async function setKey(signer: HardhatEthersSigner, key: Uint8Array) {
+      const input = await fhevm.createEncryptedInput(contractAddress, signer.address).add256(payloadKeyToUint256(key)).encrypt();
+      return contract.connect(signer).setPayloadKey(PAYLOAD_DIGEST, input.handles[0], input.inputProof);
+    }
+
+    const decryptKey = async (signer: HardhatEthersSigner) => {
+      const { keyEncrypted } = await contract.payloadKeys(PAYLOAD_DIGEST);
+      return uint256ToPayloadKey(
+        await fhevm.userDecryptEuint(FhevmType.euint256, ethers.toBeHex(keyEncrypted, 32), contractAddress, signer),
+      );
+    };
+
+    it("stores a payload key once, readable by the provider that set it", async function () {
+      const key = generatePayloadKey();
+      await expect(setKey(signers.provider, key))
+        .to.emit(contract, "PayloadKeySet")
+        .withArgs(PAYLOAD_DIGEST, signers.provider.address, anyValue, anyValue);
+      expect((await contract.payloadKeys(PAYLOAD_DIGEST)).setBy).to.eq(signers.provider.address);
+      expect(await decryptKey(signers.provider)).to.deep.eq(key);
+      await expect(decryptKey(signers.agent)).to.be.rejected;
+
+      await expect(setKey(signers.owner, generatePayloadKey())).to.be.revertedWithCustomError(
+        contract,
+        "PayloadKeyExists",
+      );
+      await expect(setKey(signers.outsider, key)).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+
+    it("shares the key with the agent of the vehicle the payload is sent to", async function () {
+      const key = generatePayloadKey();
+      const envelope = await encryptPayload(PAYLOAD, key, PAYLOAD_DIGEST);
+      await setKey(signers.provider, key);
+
+      await contract.setCooldownSeconds(0);
+      const vehicleInput = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(4321).encrypt();
+      await contract
+        .connect(signers.provider)
+        .enrollVehicle(vehicleInput.handles[0], vehicleInput.inputProof, "Model S", "TCU", "EU", "1.0.0");
+      await contract.connect(signers.provider).setVehicleAgent(1, signers.agent.address);
+      await expect(decryptKey(signers.agent)).to.be.rejected;
+
+      await contract.connect(signers.provider).openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+
+      const agentKey = await decryptKey(signers.agent);
+      expect(await decryptPayload(envelope, agentKey, PAYLOAD_DIGEST)).to.deep.eq(PAYLOAD);
+      await expect(decryptPayload(envelope, generatePayloadKey(), PAYLOAD_DIGEST)).to.be.rejectedWith(PayloadError);
+    });
+  });
+
+  describe("chunked payloads", function () {
+    const payload = ethers.getBytes(ethers.concat(Array.from({ length: 320 }, (_, i) => ethers.sha256(ethers.toBeHex(i)))));
+    const digest = ethers.sha256(payload);
+    const chunkSize = 4096;
+
+    // Holds a single blob
+    const memoryStore = (envelope: Uint8Array): PayloadStore => ({
+      location: "memory",
+      has: async (key) => key === digest,
+      get: async (key) => (key === digest ? envelope : null),
+      getRange: async (key, offset, length) => (key === digest ? envelope.slice(offset, offset + length) : null),
+      put: async () => undefined,
+    });
+
+    it("checks each chunk on its own against the Merkle root", async function () {
+      const key = generatePayloadKey();
+      const store = memoryStore(await encryptPayload(payload, key, digest, chunkSize));
+      const header = (await readEnvelopeHeader(store, digest))!;
+      expect(header.chunkCount).to.eq(3);
+      expect(merkleRoot(header.leaves)).to.eq(chunkRoot(payload, chunkSize));
+
+      // Read out of order, as a resumed download may
+      const chunks = await Promise.all([2, 0, 1].map((i) => readChunk(store, digest, header, key, i)));
+      expect(ethers.hexlify(ethers.concat([chunks[1], chunks[2], chunks[0]]))).to.eq(ethers.hexlify(payload));
+      await expect(readChunk(store, digest, header, generatePayloadKey(), 0)).to.be.rejectedWith(PayloadError);
+      expect(await readEnvelopeHeader(store, ethers.sha256("0x00"))).to.eq(null);
+    });
+
+    it("rejects a damaged or reordered chunk without touching the others", async function () {
+      const key = generatePayloadKey();
+      const envelope = await encryptPayload(payload, key, digest, chunkSize);
+      const header = (await readEnvelopeHeader(memoryStore(envelope), digest))!;
+
+      const damaged = envelope.slice();
+      damaged[damaged.length - 100] ^= 0xff;
+      const store = memoryStore(damaged);
+      await expect(readChunk(store, digest, header, key, 2)).to.be.rejectedWith(PayloadError, "chunk 3 of 3");
+      expect(ethers.hexlify(await readChunk(store, digest, header, key, 0))).to.eq(ethers.hexlify(payload.slice(0, chunkSize)));
+      await expect(decryptPayload(damaged, key, digest)).to.be.rejectedWith(PayloadError);
+
+      // Chunks are bound to their position: swapping the first two fails both
+      const swapped = envelope.slice();
+      const sealed = chunkSize + 16;
+      swapped.set(envelope.slice(header.size + sealed, header.size + 2 * sealed), header.size);
+      swapped.set(envelope.slice(header.size, header.size + sealed), header.size + sealed);
+      await expect(readChunk(memoryStore(swapped), digest, header, key, 0)).to.be.rejectedWith(PayloadError, "chunk 1 of 3");
+    });
+
+    it("refuses a header declaring more bytes than the caller allows", async function () {
+      const key = generatePayloadKey();
+      const envelope = await encryptPayload(payload, key, digest, chunkSize);
+      await expect(readEnvelopeHeader(memoryStore(envelope), digest, payload.length - 1)).to.be.rejectedWith(
+        PayloadError,
+        "more than the",
+      );
+      await expect(decryptPayload(envelope, key, digest, payload.length - 1)).to.be.rejectedWith(PayloadError, "more than the");
+
+      // A forged size is caught before its chunk hashes are read or a buffer is allocated for it
+      const forged = envelope.slice();
+      new DataView(forged.buffer).setBigUint64(21, 2n ** 40n);
+      await expect(readEnvelopeHeader(memoryStore(forged), digest)).to.be.rejectedWith(PayloadError, "more than the");
+      expect((await readEnvelopeHeader(memoryStore(envelope), digest, payload.length))!.payloadSize).to.eq(payload.length);
+    });
+
+    it("never lets the bucket stand-in overwrite a stored blob", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ota-bucket-"));
+      const server = await startPayloadServer({ dir, bucket: "firmware", port: 0 });
+      try {
+        const bucket = s3PayloadStore(`http://127.0.0.1:${(server.address() as AddressInfo).port}/firmware`);
+        const envelope = await encryptPayload(payload, generatePayloadKey(), digest, chunkSize);
+        await bucket.put(digest, envelope);
+        const replacement = await encryptPayload(payload, generatePayloadKey(), digest, chunkSize);
+        await expect(bucket.put(digest, replacement)).to.be.rejectedWith(PayloadExistsError, "already stored");
+        expect(ethers.hexlify((await bucket.get(digest))!)).to.eq(ethers.hexlify(envelope));
+      } finally {
+        server.closeAllConnections();
+        server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("lets exactly one of two concurrent uploads to a digest through", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "ota-bucket-"));
+      try {
+        const store = fsPayloadStore(dir);
+        const envelopes = await Promise.all(
+          [0, 1].map(() => encryptPayload(payload, generatePayloadKey(), digest, chunkSize)),
+        );
+        // Both get past the existence check before either blob lands
+        const results = await Promise.allSettled(envelopes.map((envelope) => store.put(digest, envelope)));
+        const winner = results.findIndex((result) => result.status === "fulfilled");
+        const loser = results.find((result) => result.status === "rejected");
+        expect(winner).to.not.eq(-1);
+        expect(loser && loser.reason).to.be.instanceOf(PayloadExistsError);
+        expect(ethers.hexlify((await store.get(digest))!)).to.eq(ethers.hexlify(envelopes[winner]));
+        expect(fs.readdirSync(dir)).to.have.length(1);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("update status machine", function () {
+    // Enrolls a vehicle with an agent and leaves entry 0 of batch #1 holding a verified update for it
+    async function downloadingUpdate() {
+      const vehicleInput = await fhevm
+        .createEncryptedInput(contractAddress, signers.provider.address)
+        .add32(4321)
+        .encrypt();
+      await contract
+        .connect(signers.provider)
+        .enrollVehicle(vehicleInput.handles[0], vehicleInput.inputProof, "Model S", "TCU", "EU", "1.0.0");
+      await contract.connect(signers.provider).setVehicleAgent(1, signers.agent.address);
+
+      await contract.connect(signers.provider).openBatch();
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      await contract.connect(signers.provider).verifyPayloadIntegrity(1, 0, PAYLOAD_DIGEST);
+    }
+
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+    });
+
+    it("lets the vehicle agent report installing and completed", async function () {
+      await downloadingUpdate();
+      await expect(contract.connect(signers.agent).reportInstalling(1, 0))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 2, 3, signers.agent.address, "", anyValue);
+      await expect(contract.connect(signers.agent).reportCompleted(1, 0, ""))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 3, 4, signers.agent.address, "", anyValue)
+        .and.not.to.emit(contract, "VehicleFirmwareUpdated");
+      expect(toUpdateStatus((await contract.batchEntries(1, 0)).status)).to.eq("completed");
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("1.0.0");
+
+      await expect(contract.connect(signers.agent).reportFailed(1, 0, "late")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTransition",
+      );
+    });
+
+    it("verifies a booted A/B update before completing it and records rollbacks", async function () {
+      await downloadingUpdate();
+      await contract.connect(signers.agent).reportInstalling(1, 0);
+      await expect(contract.connect(signers.agent).reportRolledBack(1, 0, "watchdog")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTransition",
+      );
+      await expect(contract.connect(signers.agent).reportBooted(1, 0))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 3, 6, signers.agent.address, "", anyValue);
+      expect(await contract.statusTimeouts(6)).to.eq(DEFAULT_STATUS_TIMEOUTS.verifying);
+      await expect(contract.connect(signers.outsider).reportRolledBack(1, 0, "no")).to.be.revertedWithCustomError(
+        contract,
+        "NotVehicleAgent",
+      );
+      await expect(contract.connect(signers.agent).reportRolledBack(1, 0, "health checks failed"))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 6, 7, signers.agent.address, "health checks failed", anyValue);
+      expect(toUpdateStatus((await contract.batchEntries(1, 0)).status)).to.eq("rolledBack");
+      await expect(contract.connect(signers.agent).reportCompleted(1, 0, "1.1.0")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTransition",
+      );
+
+      // A retry whose boot passes its health checks completes like a single-slot install
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(43).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      await contract.connect(signers.provider).verifyPayloadIntegrity(1, 1, PAYLOAD_DIGEST);
+      await contract.connect(signers.agent).reportInstalling(1, 1);
+      await contract.connect(signers.agent).reportBooted(1, 1);
+      await expect(contract.connect(signers.agent).reportCompleted(1, 1, "1.1.0"))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 1, 6, 4, signers.agent.address, "", anyValue)
+        .and.to.emit(contract, "VehicleFirmwareUpdated")
+        .withArgs(1, "1.1.0", anyValue);
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("1.1.0");
+    });
+
+    it("keeps the firmware label when the vehicle agent has no manifest source", async function () {
+      await downloadingUpdate();
+      const wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, ethers.provider);
+      await signers.owner.sendTransaction({ to: wallet.address, value: ethers.parseEther("1") });
+      await contract.connect(signers.provider).setVehicleAgent(1, wallet.address);
+      await contract.connect(wallet).reportInstalling(1, 0);
+
+      const { chainId } = await ethers.provider.getNetwork();
+      const agent = await createVehicleAgent({
+        contract,
+        fhevm,
+        wallet,
+        sender: wallet,
+        vehicleIndex: 1,
+        manifestDomain: manifestDomain(chainId, contractAddress),
+        failureRates: { download: 0, install: 0, interrupt: 0, health: 0 },
+        delays: { downloadMs: 0, installMs: 0, verifyMs: 0 },
+        log: () => undefined,
+      });
+      const entry = await contract.batchEntries(1, 0);
+      const outcome = await agent.process(
+        {
+          batchId: 1,
+          entryIndex: 0,
+          vehicleIdEncrypted: toHandle(entry.vehicleIdEncrypted),
+          updatePackageIdEncrypted: toHandle(entry.updatePackageIdEncrypted),
+          manifestHash: entry.manifestHash,
+          payloadDigest: entry.payloadDigest,
+        },
+        "installing",
+      );
+
+      expect(outcome.status).to.eq("completed");
+      expect(toUpdateStatus((await contract.batchEntries(1, 0)).status)).to.eq("completed");
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("1.0.0");
+      expect(await contract.queryFilter(contract.filters.VehicleFirmwareUpdated())).to.have.length(0);
+    });
+
+    it("lets the vehicle agent report download progress while downloading", async function () {
+      await downloadingUpdate();
+      await expect(contract.connect(signers.agent).reportDownloadProgress(1, 0, 40))
+        .to.emit(contract, "DownloadProgress")
+        .withArgs(1, 0, 40, anyValue);
+      expect((await contract.batchEntries(1, 0)).downloadProgress).to.eq(40n);
+      // A download started over reports lower again
+      await contract.connect(signers.agent).reportDownloadProgress(1, 0, 10);
+      expect((await contract.batchEntries(1, 0)).downloadProgress).to.eq(10n);
+
+      await expect(contract.connect(signers.agent).reportDownloadProgress(1, 0, 101)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(contract.connect(signers.outsider).reportDownloadProgress(1, 0, 50)).to.be.revertedWithCustomError(
+        contract,
+        "NotVehicleAgent",
+      );
+      await contract.connect(signers.agent).reportInstalling(1, 0);
+      await expect(contract.connect(signers.agent).reportDownloadProgress(1, 0, 50)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTransition",
+      );
+    });
+
+    it("lets the vehicle agent user-decrypt the package it was sent", async function () {
+      await downloadingUpdate();
+      const entry = await contract.batchEntries(1, 0);
+      const decrypt = (handle: bigint) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, ethers.toBeHex(handle, 32), contractAddress, signers.agent);
+      expect(await decrypt(entry.updatePackageIdEncrypted)).to.eq(42);
+      await expect(decrypt(entry.vehicleIdEncrypted)).to.be.rejected;
+    });
+
+    it("rejects skipped steps and reports from anyone but the agent", async function () {
+      await downloadingUpdate();
+      await expect(contract.connect(signers.agent).reportCompleted(1, 0, "")).to.be.revertedWithCustomError(
+        contract,
+        "InvalidTransition",
+      );
+      await expect(contract.connect(signers.provider).reportInstalling(1, 0)).to.be.revertedWithCustomError(
+        contract,
+        "NotVehicleAgent",
+      );
+      await expect(contract.connect(signers.owner).reportFailed(1, 0, "no")).to.be.revertedWithCustomError(
+        contract,
+        "NotVehicleAgent",
+      );
+      await expect(contract.connect(signers.agent).reportInstalling(1, 1)).to.be.revertedWithCustomError(
+        contract,
+        "UnknownEntry",
+      );
+    });
+
+    it("records failures from the agent and aborts from the owner", async function () {
+      await downloadingUpdate();
+      await expect(contract.connect(signers.agent).reportFailed(1, 0, "flash error"))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 2, 5, signers.agent.address, "flash error", anyValue);
+
+      // A failed update is retried as a new entry, which the owner can then abort
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(43).encrypt();
+      await contract
+        .connect(signers.provider)
+        .submitUpdateForVehicle(1, input.handles[0], input.inputProof, 1, MANIFEST_HASH, PAYLOAD_DIGEST);
+      expect(toUpdateStatus((await contract.batchEntries(1, 1)).status)).to.eq("pending");
+      await expect(contract.connect(signers.provider).abortUpdate(1, 1, "recall")).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.abortUpdate(1, 1, "recall"))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 1, 1, 5, signers.owner.address, "recall", anyValue);
+    });
+
+    it("keeps the status of each entry separate", async function () {
+      await downloadingUpdate();
+      await submit(signers.provider, 1, 7, 1001);
+      expect(toUpdateStatus((await contract.batchEntries(1, 0)).status)).to.eq("downloading");
+      expect(toUpdateStatus((await contract.batchEntries(1, 1)).status)).to.eq("pending");
+
+      await contract.abortUpdate(1, 1, "wrong vehicle");
+      expect(toUpdateStatus((await contract.batchEntries(1, 0)).status)).to.eq("downloading");
+      await expect(contract.connect(signers.agent).reportInstalling(1, 0)).to.emit(contract, "UpdateStatusChanged");
+    });
+
+    it("lets anyone fail an update stuck past its status timeout", async function () {
+      await downloadingUpdate();
+      await contract.connect(signers.agent).reportInstalling(1, 0);
+      await expect(contract.connect(signers.outsider).expireUpdate(1, 0)).to.be.revertedWithCustomError(
+        contract,
+        "NotTimedOut",
+      );
+
+      expect(await contract.statusTimeouts(3)).to.eq(DEFAULT_STATUS_TIMEOUTS.installing);
+      await time.increase(DEFAULT_STATUS_TIMEOUTS.installing!);
+      await expect(contract.connect(signers.outsider).expireUpdate(1, 0))
+        .to.emit(contract, "UpdateStatusChanged")
+        .withArgs(1, 0, 3, 5, signers.outsider.address, "timeout", anyValue);
+    });
+
+    it("lets only the owner change timeouts of active statuses", async function () {
+      await expect(contract.connect(signers.provider).setStatusTimeout(1, 60)).to.be.revertedWithCustomError(
+        contract,
+        "NotOwner",
+      );
+      await expect(contract.setStatusTimeout(4, 60)).to.be.revertedWithCustomError(contract, "InvalidParameter");
+      await expect(contract.setStatusTimeout(1, 0)).to.emit(contract, "StatusTimeoutSet").withArgs(1, 0);
+
+      await contract.connect(signers.provider).openBatch();
+      await submit(signers.provider, 1, 7, 1001);
+      await time.increase(DEFAULT_STATUS_TIMEOUTS.pending!);
+      await expect(contract.expireUpdate(1, 0)).to.be.revertedWithCustomError(contract, "NotTimedOut");
+    });
+
+    it("describes the same transitions for clients", function () {
+      expect(canPerform("downloading", "startInstall", ["vehicle"])).to.eq(true);
+      expect(canPerform("downloading", "startInstall", ["provider", "owner"])).to.eq(false);
+      expect(canPerform("completed", "abort", ["owner"])).to.eq(false);
+      expect(canPerform("verifying", "rollBack", ["vehicle"])).to.eq(true);
+      expect(canPerform("rolledBack", "abort", ["owner"])).to.eq(false);
+
+      const enteredAt = 1_000;
+      const timedOut = enteredAt + DEFAULT_STATUS_TIMEOUTS.installing!;
+      expect(availableActions("installing", ["owner"], enteredAt, DEFAULT_STATUS_TIMEOUTS, enteredAt)).to.deep.eq([
+        "abort",
+      ]);
+      expect(availableActions("installing", [], enteredAt, DEFAULT_STATUS_TIMEOUTS, timedOut)).to.deep.eq(["expire"]);
+      expect(effectiveStatus("installing", enteredAt, DEFAULT_STATUS_TIMEOUTS, timedOut)).to.eq("failed");
+      expect(effectiveStatus("completed", enteredAt, DEFAULT_STATUS_TIMEOUTS, timedOut)).to.eq("completed");
+    });
+  });
+
+  describe("rollout campaigns", function () {
+    const PLAN: CampaignPlan = {
+      model: "Model S",
+      region: "EU",
+      firmwareVersion: "",
+      targetCount: 10,
+      waves: parseWavePercents("10, 50, 100"),
+      failureThresholdBps: 2000,
+      rollbackVersion: "",
+    };
+
+    // Enrolls `count` vehicles of the given model and region, all reporting through the agent signer
+    async function enrollFleet(count: number, model = "Model S", region = "EU") {
+      for (let i = 0; i < count; i++) {
+        const input = await fhevm
+          .createEncryptedInput(contractAddress, signers.provider.address)
+          .add32(5000 + i)
+          .encrypt();
+        await contract
+          .connect(signers.provider)
+          .enrollVehicle(input.handles[0], input.inputProof, model, "TCU", region, "1.0.0");
+        await contract.connect(signers.provider).setVehicleAgent(await contract.vehicleCount(), signers.agent.address);
+      }
+    }
+
+    async function createCampaign(plan: CampaignPlan = PLAN) {
+      const input = await fhevm.createEncryptedInput(contractAddress, signers.provider.address).add32(42).encrypt();
+      return contract
+        .connect(signers.provider)
+        .createCampaign(input.handles[0], input.inputProof, MANIFEST_HASH, PAYLOAD_DIGEST, plan);
+    }
+
+    // Walks a dispatched update through verification and installation to the given outcome; a completed update
+    // reports `version` as the vehicle's new firmware
+    async function finish(
+      batchId: bigint,
+      entryIndex: number,
+      outcome: "completed" | "failed" | "rolledBack",
+      version = "",
+    ) {
+      await contract.connect(signers.provider).verifyPayloadIntegrity(batchId, entryIndex, PAYLOAD_DIGEST);
+      if (outcome === "failed") {
+        await contract.connect(signers.agent).reportFailed(batchId, entryIndex, "flash error");
+        return;
+      }
+      await contract.connect(signers.agent).reportInstalling(batchId, entryIndex);
+      await contract.connect(signers.agent).reportBooted(batchId, entryIndex);
+      if (outcome === "rolledBack") {
+        await contract.connect(signers.agent).reportRolledBack(batchId, entryIndex, "health checks failed");
+        return;
+      }
+      await contract.connect(signers.agent).reportCompleted(batchId, entryIndex, version);
+    }
+
+    beforeEach(async function () {
+      await contract.setCooldownSeconds(0);
+    });
+
+    it("validates the wave plan", async function () {
+      await expect(createCampaign({ ...PLAN, waves: [1000, 5000] })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(createCampaign({ ...PLAN, waves: [5000, 1000, 10000] })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(createCampaign({ ...PLAN, targetCount: 0 })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(createCampaign()).to.emit(contract, "CampaignCreated");
+      expect(await contract.campaignWaves(1)).to.deep.eq([1000n, 5000n, 10000n]);
+      expect([0, 1, 2].map(wave => waveQuota(PLAN.targetCount, PLAN.waves, wave))).to.deep.eq([1, 4, 5]);
+      expect(await contract.waveQuota(1, 1)).to.eq(4);
+      expect(() => parseWavePercents("1, 10")).to.throw("100%");
+    });
+
+    it("parses wave percentages without reading a range as two waves", function () {
+      expect(parseWavePercents("1, 10, 100")).to.deep.eq([100, 1000, 10000]);
+      expect(parseWavePercents("0.5% → 10% -> 100%")).to.deep.eq([50, 1000, 10000]);
+      expect(parseWavePercents("5 50 100")).to.deep.eq([500, 5000, 10000]);
+      expect(() => parseWavePercents("1-10, 100")).to.throw('Not a wave percentage: "1-10"');
+      expect(() => parseWavePercents("-5, 100")).to.throw("Not a wave percentage");
+    });
+
+    it("dispatches cohort vehicles as the entries of one batch, within the wave quota", async function () {
+      await enrollFleet(3);
+      await enrollFleet(1, "Model 3");
+      await createCampaign({ ...PLAN, targetCount: 3, waves: [5000, 10000] });
+
+      await expect(contract.connect(signers.provider).dispatchCampaign(1, [4])).to.be.revertedWithCustomError(
+        contract,
+        "NotInCohort",
+      );
+      await expect(contract.connect(signers.provider).dispatchCampaign(1, [1, 2, 3])).to.be.revertedWithCustomError(
+        contract,
+        "WaveFull",
+      );
+      await expect(contract.connect(signers.provider).dispatchCampaign(1, [3, 1]))
+        .to.emit(contract, "CampaignDispatched")
+        .withArgs(1, 0, 1, 0, 3)
+        .and.to.emit(contract, "CampaignDispatched")
+        .withArgs(1, 0, 1, 1, 1)
+        .and.to.emit(contract, "UpdateSubmitted")
+        .withArgs(1, 1, signers.provider.address, anyValue, anyValue, 1, MANIFEST_HASH, PAYLOAD_DIGEST, anyValue);
+
+      const batch = await contract.batches(1);
+      expect(batch.isOpen).to.eq(false);
+      expect(batch.entryCount).to.eq(2);
+      const entries = await contract.getBatchEntries(1, 0, 10);
+      expect(entries.map(entry => entry.vehicleIndex)).to.deep.eq([3n, 1n]);
+      expect(entries.map(entry => toUpdateStatus(entry.status))).to.deep.eq(["pending", "pending"]);
+      expect(await contract.currentBatchId()).to.eq(2);
+      expect((await contract.campaignBatches(1)).campaignId).to.eq(1);
+      expect(await contract.campaignVehicleBatch(1, 3)).to.eq(1);
+      expect((await contract.waveStats(1, 0)).dispatched).to.eq(2);
+    });
+
+    it("advances through the waves and completes after the last one", async function () {
+      await enrollFleet(2);
+      await createCampaign({ ...PLAN, targetCount: 2, waves: [5000, 10000] });
+
+      await contract.connect(signers.provider).dispatchCampaign(1, [1]);
+      await expect(contract.connect(signers.provider).advanceCampaign(1)).to.be.revertedWithCustomError(
+        contract,
+        "WaveNotFinished",
+      );
+      await finish(1n, 0, "completed");
+      await expect(contract.connect(signers.provider).advanceCampaign(1))
+        .to.emit(contract, "CampaignWaveAdvanced")
+        .withArgs(1, 1, anyValue);
+
+      await expect(contract.connect(signers.provider).dispatchCampaign(1, [1])).to.be.revertedWithCustomError(
+        contract,
+        "AlreadyTargeted",
+      );
+      await contract.connect(signers.provider).dispatchCampaign(1, [2]);
+      await finish(2n, 0, "completed");
+      await expect(contract.connect(signers.provider).advanceCampaign(1))
+        .to.emit(contract, "CampaignStateChanged")
+        .withArgs(1, 0, 2, 1, signers.provider.address, "", anyValue);
+      expect(toCampaignState((await contract.campaigns(1)).state)).to.eq("completed");
+    });
+
+    it("halts itself when a wave fails more than its threshold", async function () {
+      await enrollFleet(10);
+      await createCampaign({ ...PLAN, waves: [5000, 10000] });
+      await contract.connect(signers.provider).dispatchCampaign(1, [1, 2, 3, 4, 5]);
+
+      // One failure out of five is exactly the 20% threshold; the second one exceeds it
+      await finish(1n, 0, "failed");
+      expect(toCampaignState((await contract.campaigns(1)).state)).to.eq("active");
+      expect(exceedsThreshold(1, 5, PLAN.failureThresholdBps)).to.eq(false);
+      await finish(1n, 1, "completed");
+      await contract.connect(signers.provider).verifyPayloadIntegrity(1, 2, PAYLOAD_DIGEST);
+      await expect(contract.abortUpdate(1, 2, "recall"))
+        .to.emit(contract, "CampaignStateChanged")
+        .withArgs(1, 0, 1, 0, signers.owner.address, "failure threshold exceeded", anyValue);
+
+      const stats = await contract.waveStats(1, 0);
+      expect([stats.dispatched, stats.completed, stats.failed]).to.deep.eq([5n, 1n, 2n]);
+      await expect(contract.connect(signers.provider).advanceCampaign(1)).to.be.revertedWithCustomError(
+        contract,
+        "CampaignNotActive",
+      );
+    });
+
+    it("keeps encrypted success and failure tallies that only the owner can decrypt", async function () {
+      await enrollFleet(3);
+      await createCampaign({ ...PLAN, targetCount: 3, waves: [10000] });
+      await contract.connect(signers.provider).dispatchCampaign(1, [1, 2, 3]);
+      await finish(1n, 0, "completed");
+      await finish(1n, 1, "failed");
+      await finish(1n, 2, "completed");
+
+      const decrypt = (handle: bigint, signer = signers.owner) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, ethers.toBeHex(handle, 32), contractAddress, signer);
+      for (const tally of [await contract.fleetTally(), await contract.batchTallies(1), await contract.campaignTallies(1)]) {
+        expect(await decrypt(tally.succeededEncrypted)).to.eq(2);
+        expect(await decrypt(tally.failedEncrypted)).to.eq(1);
+      }
+      await expect(decrypt((await contract.fleetTally()).succeededEncrypted, signers.provider)).to.be.rejected;
+
+      // Each update leaves a snapshot of the fleet totals behind
+      const updates = await contract.queryFilter(contract.filters.TallyUpdated());
+      expect(updates.map(update => [update.args.batchId, update.args.campaignId])).to.deep.eq([
+        [1n, 1n],
+        [1n, 1n],
+        [1n, 1n],
+      ]);
+      expect(await decrypt(updates[0].args.succeededEncrypted)).to.eq(1);
+      expect(updates[0].args.failedEncrypted).to.eq(0);
+    });
+
+    it("pins a rollback campaign to a known-good version and counts rollbacks as failures", async function () {
+      const rollback = { ...PLAN, firmwareVersion: "1.1.0", rollbackVersion: "1.0.0", targetCount: 2, waves: [10000] };
+      expect(validateRollback({ ...rollback, firmwareVersion: "" }, "1.0.0")).to.have.length(1);
+      expect(validateRollback(rollback, "1.1.0")).to.have.length(1);
+      await expect(createCampaign({ ...rollback, firmwareVersion: "" })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+      await expect(createCampaign({ ...rollback, rollbackVersion: "1.1.0" })).to.be.revertedWithCustomError(
+        contract,
+        "InvalidParameter",
+      );
+
+      // Two of three vehicles take the 1.1.0 release, which their agents report on completion
+      await enrollFleet(3);
+      await createCampaign({ ...PLAN, targetCount: 2, waves: [10000] });
+      await contract.connect(signers.provider).dispatchCampaign(1, [1, 2]);
+      await finish(1n, 0, "completed", "1.1.0");
+      await finish(1n, 1, "completed", "1.1.0");
+      expect((await contract.vehicles(2)).firmwareVersion).to.eq("1.1.0");
+
+      expect(validateRollback(rollback, rollback.rollbackVersion)).to.deep.eq([]);
+      await expect(createCampaign(rollback)).to.emit(contract, "CampaignCreated");
+      expect((await contract.campaigns(2)).rollbackVersion).to.eq("1.0.0");
+      // Only vehicles on the version being rolled back are in the cohort
+      await expect(contract.connect(signers.provider).dispatchCampaign(2, [3])).to.be.revertedWithCustomError(
+        contract,
+        "NotInCohort",
+      );
+      await contract.connect(signers.provider).dispatchCampaign(2, [1, 2]);
+      await finish(2n, 0, "completed", "1.0.0");
+      await finish(2n, 1, "rolledBack");
+      const stats = await contract.waveStats(2, 0);
+      expect([stats.dispatched, stats.completed, stats.failed]).to.deep.eq([2n, 1n, 1n]);
+      expect((await contract.vehicles(1)).firmwareVersion).to.eq("1.0.0");
+      expect((await contract.vehicles(2)).firmwareVersion).to.eq("1.1.0");
+    });
+
+    it("lets the campaign provider or the owner cancel it", async function () {
+      await enrollFleet(1);
+      await createCampaign();
+      await expect(contract.connect(signers.outsider).cancelCampaign(1, "no")).to.be.revertedWithCustomError(
+        contract,
+        "NotProvider",
+      );
+      await expect(contract.cancelCampaign(1, "wrong package"))
+        .to.emit(contract, "CampaignStateChanged")
+        .withArgs(1, 0, 3, 0, signers.owner.address, "wrong package", anyValue);
+      await expect(contract.connect(signers.provider).dispatchCampaign(1, [1])).to.be.revertedWithCustomError(
+        contract,
+        "CampaignNotActive",
+      );
+      await expect(contract.connect(signers.provider).cancelCampaign(2, "")).to.be.revertedWithCustomError(
+        contract,
+        "UnknownCampaign",
+      );
+    });
+  });
+
+  describe("oracle decryption", function () {
+    it("only decrypts closed batches", async function () {
+      await contract.connect(signers.provider).openBatch();
+      await expect(contract.connect(signers.provider).requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+      await expect(contract.connect(signers.provider).requestBatchDecryption(5)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidBatchId",
+      );
+    });
+
+    it("rejects batches closed without a submission", async function () {
+      await contract.connect(signers.provider).openBatch();
+      await contract.connect(signers.provider).closeBatch(1);
+      await expect(contract.connect(signers.provider).requestBatchDecryption(1)).to.be.revertedWithCustomError(
+        contract,
+        "NotInitialized",
+      );
+    });
+
+    it("publishes the cleartext through the oracle callback", async function () {
+      const batchId = await closedBatchWithUpdate(42, 1234);
+
+      await expect(contract.connect(signers.provider).requestBatchDecryption(batchId)).to.emit(
+        contract,
+        "DecryptionRequested",
+      );
+      const [requested] = await contract.queryFilter(contract.filters.DecryptionRequested());
+      const requestId = requested.args.requestId;
+
+      await fhevm.awaitDecryptionOracle();
+
+      const [completed] = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      expect(completed.args.requestId).to.eq(requestId);
+      expect(completed.args.batchId).to.eq(batchId);
+      expect(completed.args.fromEntry).to.eq(0);
+      expect(completed.args.updatePackageIds).to.deep.eq([42n]);
+      expect(completed.args.vehicleIds).to.deep.eq([1234n]);
+      expect((await contract.decryptionContexts(requestId)).processed).to.eq(true);
+    });
+
+    it("splits large batches into several requests and decrypts every entry", async function () {
+      await contract.setCooldownSeconds(0);
+      await contract.connect(signers.provider).openBatch();
+      const count = 40;
+      for (let i = 0; i < count; i++) {
+        await submit(signers.provider, 1, 100 + i, 2000 + i);
+      }
+      await contract.connect(signers.provider).closeBatch(1);
+
+      await contract.connect(signers.provider).requestBatchDecryption(1);
+      const requested = await contract.queryFilter(contract.filters.DecryptionRequested());
+      expect(requested.map(event => [event.args.fromEntry, event.args.entryCount])).to.deep.eq([
+        [0n, 32n],
+        [32n, 8n],
+      ]);
+      await fhevm.awaitDecryptionOracle();
+
+      const completed = await contract.queryFilter(contract.filters.DecryptionCompleted());
+      const updatePackageIds: bigint[] = [];
+      const vehicleIds: bigint[] = [];
+      for (const event of [...completed].sort((a, b) => Number(a.args.fromEntry - b.args.fromEntry))) {
+        updatePackageIds.push(...event.args.updatePackageIds);
+        vehicleIds.push(...event.args.vehicleIds);
+      }
+      expect(updatePackageIds).to.deep.eq(Array.from({ length: count }, (_, i) => BigInt(100 + i)));
+      expect(vehicleIds).to.deep.eq(Array.from({ length: count }, (_, i) => BigInt(2000 + i)));
+    });
+
+    it("rejects a replayed callback", async function () {
+      const batchId = await closedBatchWithUpdate(42, 1234);
+      await contract.connect(signers.provider).requestBatchDecryption(batchId);
+      const [requested] = await contract.queryFilter(contract.filters.DecryptionRequested());
+      await fhevm.awaitDecryptionOracle();
+
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [42, 1234]);
+      await expect(
+        contract.myCallback(requested.args.requestId, cleartexts, "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayAttempt");
+    });
+
+    it("rejects a callback whose ciphertexts do not match the request", async function () {
+      await closedBatchWithUpdate(42, 1234);
+
+      // An unknown request id has no recorded state hash, so the batch ciphertexts cannot match it
+      const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [42, 1234]);
+      await expect(contract.myCallback(999, cleartexts, "0x")).to.be.revertedWithCustomError(
+        contract,
+        "StateMismatch",
+      );
+    });
+
+    it("rejects an answer without valid KMS signatures", async function () {
+      const batchId = await closedBatchWithUpdate(42, 1234);
+      await contract.connect(signers.provider).requestBatchDecryption(batchId);
+      const [requested] = await contract.queryFilter(contract.filters.DecryptionRequested());
+
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32", "uint32"], [1, 1]);
+      await expect(contract.myCallback(requested.args.requestId, forged, "0x")).to.be.reverted;
+      expect((await contract.decryptionContexts(requested.args.requestId)).processed).to.eq(false);
+    });
+  });
+});
@@ -1,7 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-import type * as fheSol from "./FHE.sol";
+import type * as fheSol from "./fhe.sol";
 export type { fheSol };
-import type * as implSol from "./Impl.sol";
+import type * as implSol from "./impl.sol";
 export type { implSol };
@@ -1,5 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export type { AudioGuideFHE } from "./AudioGuideFHE";
-export type { UniversalAdapter } from "./UniversalAdapter";
+import type * as otaUpdateFheSol from "./otaUpdateFHE.sol";
+export type { otaUpdateFheSol };
@@ -1,4 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export * as zamaConfigSol from "./ZamaConfig.sol";
+export * as zamaconfigSol from "./zamaconfig.sol";
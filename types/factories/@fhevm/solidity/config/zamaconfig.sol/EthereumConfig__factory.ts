@@ -12,7 +12,7 @@ import type { NonPayableOverrides } from "../../../../../common";
 import type {
   EthereumConfig,
   EthereumConfigInterface,
-} from "../../../../../@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
+} from "../../../../../@fhevm/solidity/config/zamaconfig.sol/EthereumConfig";
 
 const _abi = [
   {
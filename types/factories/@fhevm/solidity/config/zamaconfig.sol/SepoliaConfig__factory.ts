@@ -12,7 +12,7 @@ import type { NonPayableOverrides } from "../../../../../common";
 import type {
   SepoliaConfig,
   SepoliaConfigInterface,
-} from "../../../../../@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig";
+} from "../../../../../@fhevm/solidity/config/zamaconfig.sol/SepoliaConfig";
 
 const _abi = [
   {
@@ -12,7 +12,7 @@ import type { NonPayableOverrides } from "../../../../../common";
 import type {
   FHE,
   FHEInterface,
-} from "../../../../../@fhevm/solidity/lib/FHE.sol/FHE";
+} from "../../../../../@fhevm/solidity/lib/fhe.sol/FHE";
 
 const _abi = [
   {
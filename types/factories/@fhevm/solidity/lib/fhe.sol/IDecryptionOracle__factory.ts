@@ -6,7 +6,7 @@ import { Contract, Interface, type ContractRunner } from "ethers";
 import type {
   IDecryptionOracle,
   IDecryptionOracleInterface,
-} from "../../../../../@fhevm/solidity/lib/FHE.sol/IDecryptionOracle";
+} from "../../../../../@fhevm/solidity/lib/fhe.sol/IDecryptionOracle";
 
 const _abi = [
   {
@@ -6,7 +6,7 @@ import { Contract, Interface, type ContractRunner } from "ethers";
 import type {
   IKMSVerifier,
   IKMSVerifierInterface,
-} from "../../../../../@fhevm/solidity/lib/FHE.sol/IKMSVerifier";
+} from "../../../../../@fhevm/solidity/lib/fhe.sol/IKMSVerifier";
 
 const _abi = [
   {
@@ -6,7 +6,7 @@ import { Contract, Interface, type ContractRunner } from "ethers";
 import type {
   IACL,
   IACLInterface,
-} from "../../../../../@fhevm/solidity/lib/Impl.sol/IACL";
+} from "../../../../../@fhevm/solidity/lib/impl.sol/IACL";
 
 const _abi = [
   {
@@ -6,7 +6,7 @@ import { Contract, Interface, type ContractRunner } from "ethers";
 import type {
   IFHEVMExecutor,
   IFHEVMExecutorInterface,
-} from "../../../../../@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor";
+} from "../../../../../@fhevm/solidity/lib/impl.sol/IFHEVMExecutor";
 
 const _abi = [
   {
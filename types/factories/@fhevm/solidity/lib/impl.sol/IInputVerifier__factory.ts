@@ -6,7 +6,7 @@ import { Contract, Interface, type ContractRunner } from "ethers";
 import type {
   IInputVerifier,
   IInputVerifierInterface,
-} from "../../../../../@fhevm/solidity/lib/Impl.sol/IInputVerifier";
+} from "../../../../../@fhevm/solidity/lib/impl.sol/IInputVerifier";
 
 const _abi = [
   {
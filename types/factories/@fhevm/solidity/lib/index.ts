@@ -1,5 +1,5 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export * as fheSol from "./FHE.sol";
-export * as implSol from "./Impl.sol";
+export * as fheSol from "./fhe.sol";
+export * as implSol from "./impl.sol";
@@ -1,527 +0,0 @@
-/* Autogenerated file. Do not edit manually. */
-/* tslint:disable */
-/* eslint-disable */
-import {
-  Contract,
-  ContractFactory,
-  ContractTransactionResponse,
-  Interface,
-} from "ethers";
-import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
-import type { NonPayableOverrides } from "../../common";
-import type {
-  AudioGuideFHE,
-  AudioGuideFHEInterface,
-} from "../../contracts/AudioGuideFHE";
-
-const _abi = [
-  {
-    inputs: [],
-    stateMutability: "nonpayable",
-    type: "constructor",
-  },
-  {
-    inputs: [],
-    name: "HandlesAlreadySavedForRequestID",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "InvalidKMSSignatures",
-    type: "error",
-  },
-  {
-    inputs: [],
-    name: "NoHandleFoundForRequestID",
-    type: "error",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "app",
-        type: "address",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    name: "BehaviorRecorded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "contentId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    name: "ContentAdded",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "requestID",
-        type: "uint256",
-      },
-    ],
-    name: "DecryptionFulfilled",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "recommendationId",
-        type: "uint256",
-      },
-      {
-        indexed: true,
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-      {
-        indexed: false,
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    name: "RecommendationGenerated",
-    type: "event",
-  },
-  {
-    inputs: [
-      {
-        internalType: "euint32",
-        name: "encryptedExhibitId",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "encryptedWeight",
-        type: "bytes32",
-      },
-    ],
-    name: "addAudioContent",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "appVisitors",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "audioContents",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "contentId",
-        type: "uint256",
-      },
-      {
-        internalType: "euint32",
-        name: "exhibitId",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "contentWeight",
-        type: "bytes32",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "app",
-        type: "address",
-      },
-    ],
-    name: "authorizeApp",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "",
-        type: "address",
-      },
-    ],
-    name: "authorizedApps",
-    outputs: [
-      {
-        internalType: "bool",
-        name: "",
-        type: "bool",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "requestId",
-        type: "uint256",
-      },
-      {
-        internalType: "bytes",
-        name: "cleartexts",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "proof",
-        type: "bytes",
-      },
-    ],
-    name: "calculateRecommendation",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "contentCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-    ],
-    name: "generateRecommendation",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "address",
-        name: "app",
-        type: "address",
-      },
-    ],
-    name: "getAppVisitors",
-    outputs: [
-      {
-        internalType: "uint256[]",
-        name: "",
-        type: "uint256[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "contentId",
-        type: "uint256",
-      },
-    ],
-    name: "getAudioContent",
-    outputs: [
-      {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
-      },
-      {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "recommendationId",
-        type: "uint256",
-      },
-    ],
-    name: "getRecommendation",
-    outputs: [
-      {
-        internalType: "euint32[]",
-        name: "",
-        type: "bytes32[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-    ],
-    name: "getVisitorBehavior",
-    outputs: [
-      {
-        internalType: "euint32[]",
-        name: "",
-        type: "bytes32[]",
-      },
-      {
-        internalType: "euint32[]",
-        name: "",
-        type: "bytes32[]",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "protocolId",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "pure",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "recommendationCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "recommendations",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "recommendationId",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "euint32[]",
-        name: "encryptedExhibitIds",
-        type: "bytes32[]",
-      },
-      {
-        internalType: "euint32[]",
-        name: "encryptedDwellTimes",
-        type: "bytes32[]",
-      },
-    ],
-    name: "recordVisitorBehavior",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "visitorBehaviors",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "visitorId",
-        type: "uint256",
-      },
-      {
-        internalType: "address",
-        name: "museumApp",
-        type: "address",
-      },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "visitorCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-const _bytecode =
-  "0x60806040523461016b575f606061001461016f565b828152826020820152826040820152015261002d61016f565b606073687820221192c5b662b25367f70076a37bc79b6c9182815273848b0066793bcc60346da1f49049357399b8d59580602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970391825416179055335f52600760205260405f20600160ff1982541617905560405161152890816101a38239f35b5f80fd5b60405190608082016001600160401b0381118382101761018e57604052565b634e487b7160e01b5f52604160045260245ffdfe60a06040526004361015610011575f80fd5b5f803560e01c806218ff55146111775780630ba370241461115b57806327a841e9146110e45780633f4e46a0146110a757806345067baf14610b215780637f73e19d14610ae057806386a440e8146107195780638c4c2ec8146106c3578063a1536afe14610666578063c726449e146105b5578063cc45969614610597578063d900902f146104d0578063da1f12ab146104b3578063de6b61f314610469578063ecdbf9361461041c578063ed298ae1146103fe578063f1c399ad1461012f5763faa037b4146100df575f80fd5b3461012c57602036600319011261012c5760408091338152600760205261010b60ff838320541661135d565b60043581526004602052206002600182015491015482519182526020820152f35b80fd5b503461012c57604036600319011261012c5760043567ffffffffffffffff81116103fa576101619036906004016112fd565b60243567ffffffffffffffff81116103f6576101819036906004016112fd565b338352600760205261019960ff60408520541661135d565b6101a38354611400565b9182845560405160a0810181811067ffffffffffffffff8211176103e257604052838152602081019233845260408201928352606082015242608082015283855260036020526040852091815183556001938484019060018060a01b039051166bffffffffffffffffffffffff60a01b8254161790555180519067ffffffffffffffff82116103ce57600160401b82116103ce5760028401548260028601558083106103a2575b506020016002840187526020872085885b84811061038f5750505050506003820160608201519081519167ffffffffffffffff831161037b57600160401b831161037b578154838355808410610353575b506020019087526020872085885b84811061034057505050505060806004910151910155338352600660205260408320805491600160401b83101561032c57820181556102e891906112bc565b81549060031b9083821b915f19901b1916179055604051904282527f8cd9a5e983f9d5a5bbc0c5cfac7db1b0d99e929c8d3253ebda0d3f6604d7203360203393a380f35b634e487b7160e01b85526041600452602485fd5b60208451940193818401550186906102a9565b828952868460208b2092830192015b82811061037057505061029b565b5f8155018790610362565b634e487b7160e01b88526041600452602488fd5b602084519401938184015501869061025b565b6002850188526020882090868483015b82840181106103c35750505061024a565b5f81550187906103b2565b634e487b7160e01b87526041600452602487fd5b634e487b7160e01b5f52604160045260245ffd5b8280fd5b5080fd5b503461012c578060031936011261012c576020600254604051908152f35b503461012c57602036600319011261012c57604060809160043581526004602052208054906001810154906003600282015491015491604051938452602084015260408301526060820152f35b503461012c57602036600319011261012c5760406060916004358152600360205220805490600460018060a01b036001830154169101549060405192835260208301526040820152f35b503461012c578060031936011261012c5760206040516127118152f35b503461012c576020806003193601126103fa576104eb6111cb565b3383526007825261050260ff60408520541661135d565b6001600160a01b031682526006815260408083209051815480825291845282842090938484019290918391835b8181106105835750505084610545910385611244565b60405193838594850191818652518092526040850193925b82811061056c57505050500390f35b83518552869550938101939281019260010161055d565b82548452928601926001928301920161052f565b503461012c578060031936011261012c576020600154604051908152f35b503461012c57604036600319011261012c5733815260076020526105df60ff60408320541661135d565b6105ea600154611400565b806001556040516105fa81611214565b8181526003602082016004358152604083016024358152606084019142835285875260046020526040872094518555516001850155516002840155519101557ff2caabc12feaa2fb5a7dafe9bb101fa8a217f51fdd29a28794c0767c75bf74656020604051428152a280f35b503461012c57602036600319011261012c576106ab600260406106bf93338152600760205261069a60ff838320541661135d565b60043581526005602052200161139c565b6040519182916020835260208301906111e1565b0390f35b503461012c57604036600319011261012c576106dd6111cb565b6001600160a01b031681526006602052604081208054602435929083101561012c57602061070b84846112bc565b90546040519160031b1c8152f35b5034610a3757602080600319360112610a375760043590335f526007815261074760ff60405f20541661135d565b815f526003906003815260018060a01b0360013382600160405f2001541603610aa757610775600254611400565b9384600255855f526003845260405f209060028201906003825493019182549182850193848611610a93576107c26107ac866112e5565b956107ba6040519788611244565b8087526112e5565b858a019690601f19013688375f93885f5b838110610a6757509150505f5b858110610a3b575050505050507f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0093845490807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610a37575f6040518092637d6e912360e11b82528a6004830152818381610863602482018b61142f565b03925af18015610a2c57610a19575b5089907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b156103fa57816040518092633263b83b60e01b8252856004830152606060248301528183816108cc606482018b61142f565b6345067baf60e01b604483015203925af18015610a0e576109f6575b508190527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019081875260408a20546109e457895285526040882090519167ffffffffffffffff83116109d057600160401b83116109d05781548383558084106109a9575b50908852848820885b838110610998578989897f4bea33dd6e98a3007d66505ad60749217ad78cb7ed908a8d50b7bdbeb383c05d8a8a61098c8154611400565b9055604051428152a380f35b825182820155918601918401610955565b828a528484888c2092830192015b8281106109c557505061094c565b5f81550185906109b7565b634e487b7160e01b89526041600452602489fd5b604051633f06d22b60e01b8152600490fd5b6109ff90611230565b610a0a57885f6108e8565b8880fd5b6040513d84823e3d90fd5b610a24919a50611230565b5f985f610872565b6040513d5f823e3d90fd5b5f80fd5b610a4581846112bc565b905490851b1c610a5e610a5787611400565b96896113ec565b520187906107e0565b610a7181846112bc565b905490871b1c610a8a610a8389611400565b988b6113ec565b520189906107d3565b634e487b7160e01b5f52601160045260245ffd5b60405162461bcd60e51b815260048101849052601160248201527004e6f742076697369746f7227732061707607c1b6044820152606490fd5b34610a37576020366003190112610a37576004355f526005602052606060405f20805490600360018201549101549060405192835260208301526040820152f35b34610a3757600319606036820112610a375760249067ffffffffffffffff6004358335828111610a3757610b59903690600401611266565b92604494604435848111610a3757610b75903690600401611266565b91835f527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf019560209680885260405f20541561109557855f52875260405f2060405190816080528881549283815201905f52885f20915f5b8a82821061108257505050610bea91506080519003608051611244565b8051918288019283891161106f5760400180931161105c57908791610c346040805180968551610c20818989019985018a61140e565b8201908d820152038b810187520185611244565b8860018060a01b0396877f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416610ca55f89610cb4604051978896879586946378542ead60e01b865260649e60606004880152610c966064880160805161142f565b91858884030190880152611462565b91848303016044850152611462565b03925af1908115610a2c575f91611026575b501561101457857f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a280518101918882818501940312610a37575190878211610a37570181603f82011215610a37578781015190604089610d28846112e5565b610d3483519182611244565b848152019260051b820101928311610a3757604001905b828210610ff857505050835f5260039660038752600260405f200197885495610d73876112e5565b96610d816040519889611244565b808852610d90601f19916112e5565b01368a8901375f5b8a54811015610ee957610dab818c6112bc565b905490841b1c907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970188815416908c6004888b5f6040519687948593639cd07acb60e01b85526103e8828601528401525af1908115610a2c578a89918f945f94610eb4575b50838715610ea4575b15610e94575b5416945f604051968794859363022f65e760e31b855260048501528d840152818b8401525af18015610a2c575f90610e66575b60019250610e5f828b6113ec565b5201610d98565b508a82813d8311610e8d575b610e7c8183611244565b81010312610a375760019151610e51565b503d610e72565b9250610e9e611487565b92610e1e565b9650610eae611487565b96610e18565b94925092505082813d8311610ee2575b610ece8183611244565b81010312610a3757878a8e9351925f610e0f565b503d610ec4565b508888868960405192610efb84611214565b85845284840191868352604085019081526060850193428552875f526005875260405f2095518655600193516001870155600286019151908151938411610fe557600160401b8411610fe5575086908254848455808510610fbb575b509688979695949392919601905f52855f205f5b838110610fa75788807f4bea33dd6e98a3007d66505ad60749217ad78cb7ed908a8d50b7bdbeb383c05d8a8a60038b51910155604051428152a3005b825181830155899850918701918401610f6b565b835f528585845f2092830192015b828110610fd7575050610f57565b5f81558a9450879101610fc9565b634e487b7160e01b5f9081526041600452fd5b815163ffffffff81168103610a37578152908801908801610d4b565b60405163cf6c44e960e01b8152600490fd5b90508881813d8311611055575b61103d8183611244565b81010312610a3757518015158103610a37578a610cc6565b503d611033565b83634e487b7160e01b5f5260116004525ffd5b84634e487b7160e01b5f5260116004525ffd5b8454845260019485019493019201610bcd565b60405163d66ca67560e01b8152600490fd5b34610a37576020366003190112610a37576001600160a01b036110c86111cb565b165f526007602052602060ff60405f2054166040519015158152f35b34610a37576020366003190112610a3757335f52600760205261110d60ff60405f20541661135d565b6004355f52600360205261114d60405f206106bf61113960036111326002850161139c565b930161139c565b6040519384936040855260408501906111e1565b9083820360208501526111e1565b34610a37575f366003190112610a375760205f54604051908152f35b34610a37576020366003190112610a37576111906111cb565b335f5260076020526111a860ff60405f20541661135d565b6001600160a01b03165f908152600760205260409020805460ff19166001179055005b600435906001600160a01b0382168203610a3757565b9081518082526020808093019301915f5b828110611200575050505090565b8351855293810193928101926001016111f2565b6080810190811067ffffffffffffffff8211176103e257604052565b67ffffffffffffffff81116103e257604052565b90601f8019910116810190811067ffffffffffffffff8211176103e257604052565b81601f82011215610a375780359067ffffffffffffffff82116103e2576040519261129b601f8401601f191660200185611244565b82845260208383010111610a3757815f926020809301838601378301015290565b80548210156112d1575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b67ffffffffffffffff81116103e25760051b60200190565b9080601f83011215610a37576020908235611317816112e5565b936113256040519586611244565b81855260208086019260051b820101928311610a3757602001905b82821061134e575050505090565b81358152908301908301611340565b1561136457565b60405162461bcd60e51b815260206004820152601060248201526f0556e617574686f72697a6564206170760841b6044820152606490fd5b90604051918281549182825260209260208301915f5260205f20935f905b8282106113d2575050506113d092500383611244565b565b8554845260019586019588955093810193909101906113ba565b80518210156112d15760209160051b010190565b5f198114610a935760010190565b5f5b83811061141f5750505f910152565b8181015183820152602001611410565b9081518082526020808093019301915f5b82811061144e575050505090565b835185529381019392810192600101611440565b9060209161147b8151809281855285808601910161140e565b601f01601f1916010190565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115610a2c575f916114ec575090565b90506020813d602011611513575b8161150760209383611244565b81010312610a37575190565b3d91506114fa56fea164736f6c6343000818000a";
-
-type AudioGuideFHEConstructorParams =
-  | [signer?: Signer]
-  | ConstructorParameters<typeof ContractFactory>;
-
-const isSuperArgs = (
-  xs: AudioGuideFHEConstructorParams
-): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
-
-export class AudioGuideFHE__factory extends ContractFactory {
-  constructor(...args: AudioGuideFHEConstructorParams) {
-    if (isSuperArgs(args)) {
-      super(...args);
-    } else {
-      super(_abi, _bytecode, args[0]);
-    }
-  }
-
-  override getDeployTransaction(
-    overrides?: NonPayableOverrides & { from?: string }
-  ): Promise<ContractDeployTransaction> {
-    return super.getDeployTransaction(overrides || {});
-  }
-  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
-    return super.deploy(overrides || {}) as Promise<
-      AudioGuideFHE & {
-        deploymentTransaction(): ContractTransactionResponse;
-      }
-    >;
-  }
-  override connect(runner: ContractRunner | null): AudioGuideFHE__factory {
-    return super.connect(runner) as AudioGuideFHE__factory;
-  }
-
-  static readonly bytecode = _bytecode;
-  static readonly abi = _abi;
-  static createInterface(): AudioGuideFHEInterface {
-    return new Interface(_abi) as AudioGuideFHEInterface;
-  }
-  static connect(
-    address: string,
-    runner?: ContractRunner | null
-  ): AudioGuideFHE {
-    return new Contract(address, _abi, runner) as unknown as AudioGuideFHE;
-  }
-}
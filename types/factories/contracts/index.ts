@@ -1,5 +1,4 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
-export { AudioGuideFHE__factory } from "./AudioGuideFHE__factory";
-export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
+export * as otaUpdateFheSol from "./otaUpdateFHE.sol";
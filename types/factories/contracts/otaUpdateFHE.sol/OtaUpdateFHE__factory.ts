@@ -0,0 +1,2710 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  OtaUpdateFHE,
+  OtaUpdateFHEInterface,
+} from "../../../contracts/otaUpdateFHE.sol/OtaUpdateFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyTargeted",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "BatchClosedOrInvalid",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CampaignNotActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidParameter",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTransition",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInCohort",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotInitialized",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotManifestProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotTimedOut",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotVehicleAgent",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PackageVersionsExist",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PayloadKeyExists",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownCampaign",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownEntry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "UnknownVehicle",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WaveFull",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "WaveNotFinished",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "targetCount",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "wave",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignDispatched",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum OtaUpdateFHE.CampaignState",
+        name: "from",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum OtaUpdateFHE.CampaignState",
+        name: "to",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "wave",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "actor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignStateChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "wave",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "CampaignWaveAdvanced",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fromEntry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "updatePackageIds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "vehicleIds",
+        type: "uint256[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "fromEntry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryCount",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "percent",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "DownloadProgress",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "eligibleEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "EligibilityChecked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "IntegrityVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "minVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "targetVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PackageVersionsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "keyEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "PayloadKeySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timeoutSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "StatusTimeoutSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "succeededEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "failedEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "TallyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "from",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "to",
+        type: "uint8",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "actor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "UpdateStatusChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "updatePackageIdEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "vehicleIdEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "UpdateSubmitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "agent",
+        type: "address",
+      },
+    ],
+    name: "VehicleAgentSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "enrolledBy",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "vehicleIdEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "model",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "ecuType",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "region",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VehicleEnrolled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VehicleFirmwareUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firmwareVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "VehicleVersionEncrypted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_DECRYPTION_ENTRIES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_WAVES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "abortUpdate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "advanceCampaign",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchEntries",
+    outputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "updatePackageIdEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "vehicleIdEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "downloadProgress",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "statusUpdatedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batchTallies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "succeededEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "failedEncrypted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "batches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isOpen",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "entryCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignBatches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "wave",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "campaignCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignTallies",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "succeededEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "failedEncrypted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaignVehicleBatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    name: "campaignWaves",
+    outputs: [
+      {
+        internalType: "uint16[]",
+        name: "",
+        type: "uint16[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "campaigns",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "updatePackageIdEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "model",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "region",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "targetCount",
+        type: "uint256",
+      },
+      {
+        internalType: "uint16",
+        name: "failureThresholdBps",
+        type: "uint16",
+      },
+      {
+        internalType: "string",
+        name: "rollbackVersion",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "currentWave",
+        type: "uint256",
+      },
+      {
+        internalType: "enum OtaUpdateFHE.CampaignState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "createdAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "cancelCampaign",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+    ],
+    name: "checkEligibility",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "eligibleEncrypted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "updatePackageIdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "model",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "region",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "firmwareVersion",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "targetCount",
+            type: "uint256",
+          },
+          {
+            internalType: "uint16[]",
+            name: "waves",
+            type: "uint16[]",
+          },
+          {
+            internalType: "uint16",
+            name: "failureThresholdBps",
+            type: "uint16",
+          },
+          {
+            internalType: "string",
+            name: "rollbackVersion",
+            type: "string",
+          },
+        ],
+        internalType: "struct OtaUpdateFHE.CampaignPlan",
+        name: "plan",
+        type: "tuple",
+      },
+    ],
+    name: "createCampaign",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "fromEntry",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryCount",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256[]",
+        name: "vehicleIndices",
+        type: "uint256[]",
+      },
+    ],
+    name: "dispatchCampaign",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "eligibility",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "vehicleIdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "model",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "ecuType",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "region",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+    ],
+    name: "enrollVehicle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+    ],
+    name: "expireUpdate",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "fleetTally",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "succeededEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "failedEncrypted",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBatchEntries",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "provider",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "updatePackageIdEncrypted",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "vehicleIdEncrypted",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "vehicleIndex",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes32",
+            name: "manifestHash",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "payloadDigest",
+            type: "bytes32",
+          },
+          {
+            internalType: "enum OtaUpdateFHE.UpdateStatus",
+            name: "status",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "downloadProgress",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "statusUpdatedAt",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct OtaUpdateFHE.BatchEntry[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "integrityChecks",
+    outputs: [
+      {
+        internalType: "address",
+        name: "verifier",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isProvider",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "manifestProviders",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "packageVersions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "minVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "targetVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "setBy",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "payloadKeys",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "keyEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "setBy",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "setAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+    ],
+    name: "reportBooted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+    ],
+    name: "reportCompleted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "percent",
+        type: "uint8",
+      },
+    ],
+    name: "reportDownloadProgress",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "reportFailed",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+    ],
+    name: "reportInstalling",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "reason",
+        type: "string",
+      },
+    ],
+    name: "reportRolledBack",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "requestBatchDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "minVersionInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "targetVersionInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setPackageVersions",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint256",
+        name: "keyInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setPayloadKey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "status",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "timeoutSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setStatusTimeout",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "agent",
+        type: "address",
+      },
+    ],
+    name: "setVehicleAgent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+    ],
+    name: "setVehicleFirmware",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "versionInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setVehicleVersionEncrypted",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum OtaUpdateFHE.UpdateStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    name: "statusTimeouts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "updatePackageIdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "vehicleIdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+    ],
+    name: "submitUpdate",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "updatePackageIdInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "vehicleIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "manifestHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+    ],
+    name: "submitUpdateForVehicle",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalBatches",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "vehicleCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "vehicles",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "vehicleIdEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "model",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "ecuType",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "region",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "firmwareVersion",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "firmwareVersionEncrypted",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "enrolledBy",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "enrolledAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "updatedAt",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "agent",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "entryIndex",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "payloadDigest",
+        type: "bytes32",
+      },
+    ],
+    name: "verifyPayloadIntegrity",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "passed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "campaignId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "wave",
+        type: "uint256",
+      },
+    ],
+    name: "waveQuota",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "waveStats",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "dispatched",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "completed",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "failed",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234610271575f6060610014610275565b8281528260208201528260408201520152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac6060610044610275565b73687820221192c5b662b25367f70076a37bc79b6c80825273848b0066793bcc60346da1f49049357399b8d595602080840182905273a02cda4ca3a71d7c46997716f4283aa851c28812604080860182905295909401959095527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b031990811690931790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831690911790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702805482169092179091557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497038054731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac9083161790555f8054339216821781559081526001808452828220805460ff191682179055603c6003556007556008819055600a90925262093a807fbbc70db1b6c7afd11e79c0fb0051300458f1a3acb8ee9789d9b6b26c61ad9bc755620151807fbff4442b8ed600beeb8e26b1279a0f0d14c6edfaec26d968ee13c86f7d4c2ba855611c207fa856840544dc26124927add067d799967eac11be13e14d82cc281ea46fa397595560068252610e107f10d9dd018e4cae503383c9f804c1c1603ada5856ee7894375d9b97cd8c8b27db5581549051916001600160a01b03909116907fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a9080a2615a8690816102a98239f35b5f80fd5b60405190608082016001600160401b0381118382101761029457604052565b634e487b7160e01b5f52604160045260245ffdfe60806040526004361015610011575f80fd5b5f3560e01c806301e7f2661461044457806304c7a7cd1461043f57806305485ec31461043a578063055216d714610435578063076d9516146104305780630a763da11461042b5780630f41957d14610426578063124bd04b14610421578063141961bc1461041c5780631e45960c1461041757806320ca4841146104125780632291f70f1461040d578063264e6e1e146104085780632dffab5a146104035780632f8a7f4f146103fe5780632f8c79fd146103f95780633067848d146103f45780633b4fc0bf146103ef5780633f4ba83a146103ea57806346e2577a146103e557806348f4da20146103e05780634ed52f27146103db578063527c9374146103d65780635637d1ff146103d157806356d01e7b146103cc5780635a94a079146103c75780635b6fff59146103c25780635c975abb146103bd57806362dd39b0146103b8578063646a0da0146103b357806369ff6abb146103ae5780636b074a07146103a95780636b6043af146103a45780636e21c7751461039f5780637274e30d1461039a5780637b5b1157146103955780637e20bc27146103905780637ed003841461038b5780638456cb5914610386578063882c2eb4146103815780638a355a571461037c5780638da5cb5b146103775780638f1d882114610372578063963575631461036d57806399704937146103685780639fef4a6614610363578063a00645c31461035e578063a436547614610359578063b1b8610614610354578063b1c0b18f1461034f578063b32c4d8d1461034a578063b65e894114610345578063b8221bc414610340578063b8ba95fa1461033b578063bb7c566414610336578063bfe009d114610331578063c1d204b01461032c578063c2ea065e14610327578063c4a7845914610322578063c81a842f1461031d578063d2c411d314610318578063d8583d7014610313578063d926f6df1461030e578063da1f12ab14610309578063f2fde38b14610304578063f303da57146102ff5763f590b6f2146102fa575f80fd5b612c9f565b612c46565b612b8e565b612b72565b612b06565b612a1b565b6129c7565b61298f565b612940565b6128e2565b6128ba565b612886565b6127d5565b612746565b6126a7565b61264c565b6125fb565b612557565b612503565b6124cb565b61215b565b6120c0565b6120a3565b611fc2565b611e69565b611e42565b611dbe565b611da4565b611d41565b611ca8565b611c65565b611c06565b611be9565b611b39565b611a38565b6119fb565b6119de565b61198f565b611873565b611851565b611819565b6117e1565b6117c6565b611682565b61163f565b61160d565b6115f2565b611560565b6114d4565b611467565b61143e565b6113a5565b61126c565b61120c565b61115a565b611117565b61103d565b610fbe565b610e94565b610ad5565b6108ec565b610899565b610861565b610818565b6106cd565b610651565b61047a565b9181601f84011215610476578235916001600160401b038311610476576020838186019501011161047657565b5f80fd5b34610476576080366003190112610476576004356024356044356064356001600160401b038111610476576104b3903690600401610449565b91335f52600160205260ff60405f205416156106385760ff6002541661062957841561061a576104e96104e58661400f565b1590565b61060b576001610501865f52600d60205260405f2090565b01546105fc5761052061052e9261052661058996610520368885610a81565b90614fda565b943691610a81565b61053782614065565b5061054181614065565b5061054c3383615131565b6105563382615131565b61055e610a18565b9182526020820152336040820152426060820152610584835f52600d60205260405f2090565b612e4b565b61059b815f52600d60205260405f2090565b54907f206175c322f98db987a35dcc81f9e2c07d258b18d6014421376bca568c43dd336105f760016105d5845f52600d60205260405f2090565b0154604080519586526020860191909152429085015233939081906060820190565b0390a3005b6306046ab560e01b5f5260045ffd5b630f182a3f60e41b5f5260045ffd5b630309cb8760e51b5f5260045ffd5b637b6560a960e01b5f5260045ffd5b631a40715960e11b5f5260045ffd5b5f91031261047657565b34610476575f36600319011261047657335f52600160205260ff60405f205416156106385760ff6002541661062957335f52600460205260405f205460035481018091116106c85742106106b9576106a76140a9565b335f5260046020524260405f20555f80f35b63aa9a98df60e01b5f5260045ffd5b612e8f565b346104765760603660031901126104765760043560243560443590335f52600160205260ff60405f205416156106385760ff6002541661062957610711818461415a565b926001610722600686015460ff1690565b61072b81610f4f565b0361080957821561061a5760056107ec9401548314809361078d61074d610a18565b3381526020810183905283151560408201524260608201526107888661077b875f52601160205260405f2090565b905f5260205260405f2090565b612ecc565b60408051858152602081019290925282151590820152426060820152339083907fb96aa5d7b699571af6bf7620c1672f420c15c1d5b68c87fd45bb61d85e0cb83790608090a36107f0575b505060405190151581529081906020820190565b0390f35b610802916107fc612f19565b916141fb565b5f806107d8565b63a6532e5d60e01b5f5260045ffd5b34610476576020366003190112610476576004355f526010602052606060405f20805490600260018060a01b036001830154169101549060405192835260208301526040820152f35b3461047657604036600319011261047657600435602435905f52600f60205260405f20905f52602052602060405f2054604051908152f35b34610476575f366003190112610476576020600754604051908152f35b6060600319820112610476576004359160243591604435906001600160401b038211610476576108e891600401610449565b9091565b34610476576108fa366108b6565b9060ff600254166106295760ff60066109138587614466565b01541660088110156109bd57600603610809576109415f80516020615a3a8339815191529185933691610a81565b92610954835f52600960205260405f2090565b815f5260205260405f20936006850194610974600760ff885416976141aa565b60074291015561098f604051928392600733984293866141c2565b0390a35f6109bb916109a16007610f4f565b6109ac6007826151e7565b6109b66007610f4f565b6152ed565b005b610db1565b634e487b7160e01b5f52604160045260245ffd5b61014081019081106001600160401b038211176109f257604052565b6109c2565b90601f801991011681019081106001600160401b038211176109f257604052565b60405190610a276080836109f7565b565b60405190610a276060836109f7565b60405190610a2760a0836109f7565b60405190610a27610140836109f7565b60405190610a276040836109f7565b6001600160401b0381116109f257601f01601f191660200190565b929192610a8d82610a66565b91610a9b60405193846109f7565b829481845281830111610476578281602093845f960137010152565b9080601f8301121561047657816020610ad293359101610a81565b90565b34610476576060366003190112610476576004356024356001600160401b03811161047657610b08903690600401610ab7565b906044356001600160401b03811161047657610b28903690600401610ab7565b91610b3b825f52601b60205260405f2090565b6004810190610b4b825460ff1690565b610ca85780546001820195610b6987549260028501938454916144a9565b90610b7382614563565b600385015403610c9957610b8890868861459a565b610b9485519151612f2d565b03610c8a575491610ba483612f85565b92610bae81612f85565b945f905f85548a54915b858110610c0457865460ff191660011787558b8b7f784abf81037e355ab705c54e0e563715c3c0ff0192d4a0e8d5d03e0051c7fb518c8c6105f78d549554604051938493429285613025565b610c0d85612fb7565b946020869160051b86010151610c23838c612fd9565b526003610c51610c3b855f52600960205260405f2090565b610c458588612ebf565b5f5260205260405f2090565b015415610c62575b50600101610bb8565b94906020610c71600193612fb7565b9660051b86010151610c83828d612fd9565b5290610c59565b63fdf70a8160e01b5f5260045ffd5b6313b304fb60e21b5f5260045ffd5b63dbde098160e01b5f5260045ffd5b90600182811c92168015610ce5575b6020831014610cd157565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610cc6565b9060405191825f825492610d0284610cb7565b8084529360018116908115610d6b5750600114610d27575b50610a27925003836109f7565b90505f9291925260205f20905f915b818310610d4f575050906020610a27928201015f610d1a565b6020919350806001915483858901015201910190918492610d36565b905060209250610a2794915060ff191682840152151560051b8201015f610d1a565b805180835260209291819084018484015e5f828201840152601f01601f1916010190565b634e487b7160e01b5f52602160045260245ffd5b600411156109bd57565b9060048210156109bd5752565b9b9f9e9d9a9596610e396101c09e9a986101e08f610e6a99610e8a9f99610e5599610e789f99610e1d90610e479a8652602086019060018060a01b03169052565b6040840152606083015260808201528160a08201520190610d8d565b8d810360c08f015290610d8d565b908b820360e08d0152610d8d565b936101008a015261012089019061ffff169052565b868203610140880152610d8d565b97610160850152610180840190610dcf565b6101a08201520152565b3461047657602036600319011261047657600435610eba905f52601260205260405f2090565b805460018201546001600160a01b031690600283015492600381015490600481015460058201610ee990610cef565b610ef560068401610cef565b610f0160078501610cef565b6008850154600a86015461ffff1691610f1c600b8801610cef565b93600c88015495600d890154610f329060ff1690565b97600e8a015499600f01549a6040519e8f9e8f9e6107ec9f610ddc565b600811156109bd57565b9060088210156109bd5752565b9691946101209894610fae9460ff979d9c9b98939d6101408b019e60018060a01b03168b5260208b015260408a01526060890152608088015260a087015260c0860190610f59565b1660e08301526101008201520152565b3461047657604036600319011261047657600435602435905f52600960205260405f20905f5260205260405f2060018060a01b038154166107ec60018301549160028401549360038101549160048201549060058301546006840154926008600786015495015495604051998a9960ff808860081c169716958b610f66565b346104765760c0366003190112610476576004356024356001600160401b03811161047657611070903690600401610449565b91906044356001600160401b03811161047657611091903690600401610449565b6064939193356001600160401b038111610476576110b3903690600401610449565b6084929192356001600160401b038111610476576110d5903690600401610449565b93909260a435976001600160401b038911610476576107ec996110ff6111079a3690600401610449565b999098613058565b6040519081529081906020820190565b34610476576020366003190112610476576004355f52601960205260405f2060018154910154906107ec6040519283928360209093929193604081019481520152565b34610476576060366003190112610476576004356024356044359060ff8216918281036104765760ff600254166106295760066111978386614466565b019260ff84541660088110156109bd576002036108095760641061061a57825461ff001916600882901b61ff0016179092557f89ab04122faa864f795541cdd1e81c5cf85da1e9a148bf8475c65ff5981eddb0916040805192835260ff9091166020830152429082015280606081015b0390a2005b34610476576040366003190112610476576024356004356001600160401b0382116104765736602383011215610476578160040135906001600160401b038211610476573660248360051b850101116104765760246109bb93019061341c565b34610476576060366003190112610476576004356024356044356001600160401b038111610476576112a2903690600401610449565b91335f52600160205260ff60405f205416156106385760ff6002541661062957831561061a576112da845f52601060205260405f2090565b54611387576112f16112f792611339943691610a81565b906150e3565b61130081614065565b5061130b3382615131565b611313610a29565b908152336020820152426040820152611334835f52601060205260405f2090565b613661565b61134b815f52601060205260405f2090565b54604080519182524260208301523392917feb4364d3bba1ab62af15551662a54234e59aab42f09e8237986f22950c08090d91819081016105f7565b63c70422dd60e01b5f5260045ffd5b60043590600882101561047657565b34610476576040366003190112610476576113be611396565b6024355f546001600160a01b0316330361142f576113db82614b2d565b1561061a5760088210156109bd57816040917f138770d08531df3291fd37de45de7b122949cbfc0f2dca6da76aa6492c2fcc30935f52600a60205280835f205561142783518093610f59565b6020820152a1005b6330cd747160e01b5f5260045ffd5b3461047657604036600319011261047657602061145f6024356004356136d4565b604051908152f35b346104765760a0366003190112610476576004356024356001600160401b0381116104765761149a903690600401610449565b909160443560643590608435936001600160401b0385116104765760e06003198636030112610476576107ec956111079560040194613748565b34610476575f366003190112610476575f546001600160a01b0316330361142f5760025460ff8116156106295760ff19166002557f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa6020604051338152a1005b600435906001600160a01b038216820361047657565b602435906001600160a01b038216820361047657565b3461047657602036600319011261047657611579611534565b5f546001600160a01b0316330361142f576001600160a01b0316801561061a57805f52600160205260ff60405f205416156115b057005b805f5260016020526115cc60405f20600160ff19825416179055565b7fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2005b34610476575f36600319011261047657602060405160648152f35b34610476576020366003190112610476576004355f52600e602052602060018060a01b0360405f205416604051908152f35b34610476576020366003190112610476576004355f52601760205260405f2060018154910154906107ec6040519283928360209093929193604081019481520152565b3461047657602036600319011261047657600435335f52600160205260ff60405f205416156106385760ff60025416610629576116be8161466c565b600d81015460ff166116cf81610dc5565b6117b757600c81018054906116f08261077b865f52601460205260405f2090565b6116fa83866136d4565b80825410918215611799575b505061178a5761171960098401546136b9565b82036117345750506109bb915061172e612f19565b90614bb2565b817f413815350621d951753422d78619863251e5058ab49ecd217eb11ef1286cf6aa936117749261176761120795612ea3565b9055600f42910155612ea3565b6040805191825242602083015290918291820190565b63126b8ddf60e31b5f5260045ffd5b6117af9192506002600182015491015490612ebf565b105f80611706565b63219a945b60e11b5f5260045ffd5b34610476575f366003190112610476576020604051600a8152f35b34610476576020366003190112610476576001600160a01b03611802611534565b165f526005602052602060405f2054604051908152f35b3461047657604036600319011261047657600435602435905f52601a60205260405f20905f52602052602060405f2054604051908152f35b34610476575f36600319011261047657602060ff600254166040519015158152f35b3461047657611881366108b6565b9160ff60025416610629576118968185614466565b936118a5600686015460ff1690565b6118ae81610f4f565b6003811415908161197a575b50610809576118d1916118cb612f19565b9161425d565b60038301549283600161190260046118f1845f52600b60205260405f2090565b9401545f52600d60205260405f2090565b01548061193c575b50508215159081611926575b5061191d57005b6109bb92614d32565b611934915060040154610cb7565b15155f611916565b60058301819055604080519182524260208301527f8cf2f9d6f5aa792ce8028304ed95f3a29cd9a34556c9ec95fc51ef6581244f9491a2835f61190a565b6006915061198781610f4f565b14155f6118ba565b346104765761199d366108b6565b60ff6002949392945416610629576119c460ff60066119bc8587614466565b015416614b2d565b15610809576109bb936119d8913691610a81565b916142d4565b34610476575f366003190112610476576020600854604051908152f35b34610476576020366003190112610476576001600160a01b03611a1c611534565b165f526001602052602060ff60405f2054166040519015158152f35b346104765760c0366003190112610476576024356004356044356001600160401b03811161047657611a6e903690600401610449565b9190606435916084359060a43592335f52600160205260ff60405f205416156106385760ff6002541661062957335f52600460205260405f205460035481018091116106c85742106106b95784158015611aff575b611af0576107ec96610520611add92611107983691610a81565b845f52600b60205260405f2054916148e4565b630a470b2760e31b5f5260045ffd5b50600c548511611ac3565b9060406003198301126104765760043591602435906001600160401b038211610476576108e891600401610449565b3461047657611b53611b4a36611b0a565b9192909261466c565b6001810154909190611b75906001600160a01b03165b6001600160a01b031690565b33141580611bcc575b61063857600d82015460ff16611b9381610dc5565b8015159081611bb7575b506117b7576109bb92611bb1913691610a81565b90614c34565b60019150611bc481610dc5565b14155f611b9d565b505f54611be1906001600160a01b0316611b69565b331415611b7e565b34610476575f366003190112610476576020601354604051908152f35b34610476576020366003190112610476575f54600435906001600160a01b0316330361142f5760035460408051918252602082018390527f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391a1600355005b34610476576020366003190112610476576004355f52601860205260405f2060018154910154906107ec6040519283928360209093929193604081019481520152565b34610476576040366003190112610476576004356024359060ff6002541661062957611cd4828261415a565b60ff600682015416611ce581614b2d565b156108095760088110156109bd575f52600a60205260405f20548015918215611d2a575b5050611d1b576109bb916119d8613d31565b63828630fb60e01b5f5260045ffd5b611d38925060070154612ebf565b42105f80611d09565b34610476575f366003190112610476575f546001600160a01b0316330361142f5760025460ff81166106295760019060ff1916176002557f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a2586020604051338152a1005b34610476575f366003190112610476576020604051818152f35b3461047657602036600319011261047657611dd7611534565b5f546001600160a01b0316330361142f576001600160a01b03165f8181526001602052604090205460ff16611e0857005b805f52600160205260405f2060ff1981541690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d95f80a2005b34610476575f366003190112610476575f546040516001600160a01b039091168152602090f35b34610476576040366003190112610476576004356024359060ff600254166106295780158015611fb7575b611af057611eaa815f52600b60205260405f2090565b6009810154909290611ec4906001600160a01b0316611b69565b3303611fa8576005611ede825f52600d60205260405f2090565b93015480158015611f9c575b611f8d5783611f1f91611f19611f0a60016107ec98549401549383614e6a565b92611f13614f38565b92614e6a565b9161563d565b91611f2983614065565b50611f343384615131565b82611f4b8361077b845f52600f60205260405f2090565b55604080518481524260208201527ff61b3a3d71e3370be5f24d7b95facf41dfb8758e7969c22a4d3fbc4469dd50039190a36040519081529081906020820190565b6321c4e35760e21b5f5260045ffd5b50600184015415611eea565b631435134b60e11b5f5260045ffd5b50600c548111611e94565b3461047657606036600319011261047657611fe4604435602435600435613f0f565b6040518091602082016020835281518091526020604084019201905f5b81811061200f575050500390f35b919350916020610140600192610120875161203283825160018060a01b03169052565b848101518584015260408101516040840152606081015160608401526080810151608084015260a081015160a084015261207460c082015160c0850190610f59565b60e08181015160ff16908401526101008101516101008401520151610120820152019401910191849392612001565b34610476575f366003190112610476576020600c54604051908152f35b34610476576040366003190112610476576004356024359060ff600254166106295760ff60066120f08484614466565b01541660088110156109bd57600203610809576109bb91604051916121166020846109f7565b5f835261434f565b60206040818301928281528451809452019201905f5b8181106121415750505090565b825161ffff16845260209384019390920191600101612134565b34610476576020366003190112610476576004355f526012602052600960405f20016040519081906121a06121968254809560209181520190565b915f5260205f2090565b925f935b81600f8601106123cd57916107ec9484926122419454918181106123b8575b81811061239f575b818110612387575b81811061236e575b818110612355575b81811061233c575b818110612323575b81811061230a575b8181106122f1575b8181106122d8575b8181106122bf575b8181106122a6575b81811061228d575b818110612274575b81811061225b575b1061224d575b5003826109f7565b6040519182918261211e565b60f01c81526020015f612239565b60e083901c61ffff168452926001906020019301612233565b60d083901c61ffff16845292600190602001930161222b565b60c083901c61ffff168452926001906020019301612223565b60b083901c61ffff16845292600190602001930161221b565b60a083901c61ffff168452926001906020019301612213565b609083901c61ffff16845292600190602001930161220b565b608083901c61ffff168452926001906020019301612203565b607083901c61ffff1684529260019060200193016121fb565b606083901c61ffff1684529260019060200193016121f3565b605083901c61ffff1684529260019060200193016121eb565b604083901c61ffff1684529260019060200193016121e3565b603083901c61ffff1684529260019060200193016121db565b602083811c61ffff16855290936001910193016121d3565b601083901c61ffff1684529260019060200193016121cb565b61ffff831684529260019060200193016121c3565b9160016102006010926124c086546123ec8361ffff831661ffff169052565b80861c61ffff166020840152602081901c61ffff166040840152603081901c61ffff166060840152604081901c61ffff166080840152605081901c61ffff1660a0840152606081901c61ffff1660c0840152607081901c61ffff1660e0840152608081901c61ffff16610100840152609081901c61ffff1661012084015260a081901c61ffff1661014084015260b081901c61ffff1661016084015260c081901c61ffff1661018084015260d081901c61ffff166101a084015260e081901c61ffff166101c084015260f01c6101e0830152565b0193019401936121a4565b34610476576020366003190112610476576001600160a01b036124ec611534565b165f526004602052602060405f2054604051908152f35b34610476576020366003190112610476576004355f52600d602052608060405f20805490600181015490600360018060a01b0360028301541691015491604051938452602084015260408301526060820152f35b346104765760c0366003190112610476576044356024356004356064356001600160401b03811161047657612590903690600401610449565b90916084359160a43593335f52600160205260ff60405f205416156106385760ff6002541661062957335f52600460205260405f205460035481018091116106c85742106106b9576107ec966105206125f59261052661110799610520368885610a81565b916146da565b34610476576020366003190112610476576004355f526006602052608060405f2080549060ff6001820154169060036002820154910154916040519384521515602084015260408301526060820152f35b34610476576020366003190112610476576004355f52601b60205260a060405f20805490600181015490600281015460ff60046003840154930154169260405194855260208501526040840152606083015215156080820152f35b34610476575f366003190112610476576020600354604051908152f35b98959a9996936126ff61271b946126f16101209b98956101408e61270d9781528160208201520190610d8d565b8c810360408e015290610d8d565b908a820360608c0152610d8d565b9088820360808a0152610d8d565b9760a087015260018060a01b031660c086015260e085015261010084015260018060a01b0316910152565b34610476576020366003190112610476576004355f52600b60205260405f2080546107ec61277660018401610cef565b9261278360028201610cef565b9061279060038201610cef565b61279c60048301610cef565b600583015460018060a01b0360068501541691600785015493600886015495600960018060a01b0391015416966040519a8b9a8b6126c4565b34610476576040366003190112610476576004356127f161154a565b335f52600160205260ff60405f205416156106385760ff60025416610629578115801561287b575b611af0575f828152600b602052604081206009810180546001600160a01b0319166001600160a01b03949094169384179055426008909101559091907f99474bf721088b984a709dd4d8ed27ea1f7754b7938cc2b7e889d4bda662ad3a9080a3005b50600c548211612819565b3461047657612894366108b6565b5f54919392916001600160a01b0316330361142f576119c460ff60066119bc858761415a565b34610476575f3660031901126104765760155460165460408051928352602083019190915290f35b34610476576040366003190112610476576004356024359060ff600254166106295760ff60066129128484614466565b01541660088110156109bd57600303610809576109bb91604051916129386020846109f7565b5f83526143ac565b346104765761294e36611b0a565b90335f52600160205260ff60405f205416156106385760ff600254166106295782158015612984575b611af0576109bb92614d32565b50600c548311612977565b34610476576020366003190112610476576129a8611396565b60088110156109bd575f52600a602052602060405f2054604051908152f35b3461047657602036600319011261047657600435335f52600160205260ff60405f205416156106385760ff60025416610629576007548103612a0c576109bb90614ac7565b633b98df6560e01b5f5260045ffd5b34610476576060366003190112610476576004356024356044356001600160401b03811161047657612a51903690600401610449565b90335f52600160205260ff60405f205416156106385760ff600254166106295783158015612afb575b611af0577f8cf2f9d6f5aa792ce8028304ed95f3a29cd9a34556c9ec95fc51ef6581244f9492610520612ab292611207943691610a81565b612abc3082615131565b612ac63382615131565b835f52600b60205260405f20600581019182556008429101555460405191829142908360209093929193604081019481520152565b50600c548411612a7a565b34610476576040366003190112610476576004355f908152601160209081526040808320602435845282529182902080546001820154600283015460039093015485516001600160a01b0390931683529382015260ff9091161515928101929092526060820152608090f35b34610476575f3660031901126104765760206040516127118152f35b3461047657602036600319011261047657612ba7611534565b5f546001600160a01b038116913383900361142f576001600160a01b0316918215612c015782907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e05f80a36001600160a01b031916175f55005b60405162461bcd60e51b815260206004820152601960248201527f4e6577206f776e6572206973207a65726f2061646472657373000000000000006044820152606490fd5b3461047657604036600319011261047657600435602435905f52601460205260405f20905f5260205260405f2080546107ec60026001840154930154604051938493846040919493926060820195825260208201520152565b3461047657602036600319011261047657600435335f52600160205260ff60405f205416156106385760ff6002541661062957335f52600560205260405f205460035481018091116106c85742106106b9576007548110801590612e31575b8015612e0c575b612a0c576002612d1d825f52600660205260405f2090565b0154908115611f8d575f5b828110612d4257335f908152600560205260409020429055005b8082612d51612dff93866136c7565b60208111612e04575b7f51c18b782cbfbce388342b54ed5f51af6b908dc2d93bb0968735d308d50d24cc83612d878382866144a9565b612df7612d9c612d9683614563565b926156cf565b94612dda612da8610a38565b8881528560208201528260408201528460608201525f6080820152612dd5885f52601b60205260405f2090565b613fce565b604051938493846040919493926060820195825260208201520152565b0390a3612eb1565b612d28565b506020612d5a565b50612e2c6001612e24835f52600660205260405f2090565b015460ff1690565b612d05565b50612e44815f52600660205260405f2090565b5415612cfe565b815181556020820151600182015560408201516002820180546001600160a01b0319166001600160a01b0392909216919091179055906003906060905b0151910155565b634e487b7160e01b5f52601160045260245ffd5b90600182018092116106c857565b90602082018092116106c857565b919082018092116106c857565b815181546001600160a01b0319166001600160a01b03919091161781559060039060609060208101516001850155612e8860408201511515600286019060ff801983541691151516179055565b60405190612f286020836109f7565b5f8252565b908160051b91808304602014901517156106c857565b9061271082029180830461271014901517156106c857565b818102929181159184041417156106c857565b6001600160401b0381116109f25760051b60200190565b90612f8f82612f6e565b612f9c60405191826109f7565b8281528092612fad601f1991612f6e565b0190602036910137565b5f1981146106c85760010190565b634e487b7160e01b5f52603260045260245ffd5b8051821015612fed5760209160051b010190565b612fc5565b90602080835192838152019201905f5b81811061300f5750505090565b8251845260209384019390920191600101613002565b949392613045606093613053938852608060208901526080880190612ff2565b908682036040880152612ff2565b930152565b9091999796939495929899335f52600160205260ff60405f205416156106385760ff6002541661062957851580156131bb575b61061a5761309e92610520913691610a81565b958615611f8d57613191987fd01ba65ef8fde7d51043f2f2ba502b49528759f0459075e7200c0a918f3861d4966131b5946130d88a614065565b506130e3338b615131565b5f546130f8906001600160a01b03168b615131565b613103600c54612fb7565b9b8c9a61310f8c600c55565b613117610a47565b908152613125368a8f610a81565b602082015261313536888c610a81565b6040820152613145368585610a81565b6060820152613155368787610a81565b60808201525f60a08201523360c08201524260e0820152426101008201525f61012082015261318c8c5f52600b60205260405f2090565b6132e7565b6131a38a5f52600b60205260405f2090565b5494604051988998339d42988b6133c5565b0390a390565b50831561308b565b8181106131ce575050565b5f81556001016131c3565b9190601f81116131e857505050565b610a27925f5260205f20906020601f840160051c83019310613212575b601f0160051c01906131c3565b9091508190613205565b91909182516001600160401b0381116109f2576132438161323d8454610cb7565b846131d9565b6020601f82116001146132825781906132739394955f92613277575b50508160011b915f199060031b1c19161790565b9055565b015190505f8061325f565b601f19821690613295845f5260205f2090565b915f5b8181106132cf575095836001959697106132b7575b505050811b019055565b01515f1960f88460031b161c191690555f80806132ad565b9192602060018192868b015181550194019201613298565b6009613384610120610a27948051855561330860208201516001870161321c565b61331960408201516002870161321c565b61332a60608201516003870161321c565b61333b60808201516004870161321c565b60a0810151600586015560c08101516006860180546001600160a01b0319166001600160a01b0392831617905560e0820151600787015561010082015160088701559101511690565b910180546001600160a01b0319166001600160a01b03909216919091179055565b908060209392818452848401375f828201840152601f01601f1916010190565b9a9998949361340e946133f2613053999460a09b99968f60c09061340097815281602082015201916133a5565b8d810360408f0152916133a5565b918a830360608c01526133a5565b9187830360808901526133a5565b91335f52600160205260ff60405f205416156106385760ff6002541661062957335f52600460205260405f205460035481018091116106c85742106106b9576134648361466c565b92613473600d85015460ff1690565b61347c81610dc5565b6117b757811561061a57600c840154926134a28461077b845f52601460205260405f2090565b936134ae848654612ebf565b6134b882856136d4565b106136425790600286015492600754936134d06140a9565b6135076134db610a57565b8381528560208201526134f6875f52601960205260405f2090565b906020600191805184550151910155565b600488019360038901915f5b88811061353f57505050505050509061352e61353592614ac7565b8254612ebf565b9055600f42910155565b61354a818a88613651565b359081158015613637575b611af0576135786104e58d613572855f52600b60205260405f2090565b90614690565b613628576135928261077b885f52601a60205260405f2090565b546136195788867f2a80b5d70ebc85fa8eb20cdc308959069de9faec945671ea9f7502931deacd3f846135e2818d6135d46001995f52600b60205260405f2090565b54908c549054918b896148e4565b846135f98361077b875f52601a60205260405f2090565b55604080518a81526020810192909252810191909152606090a301613513565b63093b291f60e11b5f5260045ffd5b635c49863b60e11b5f5260045ffd5b50600c548211613555565b63fa18e33b60e01b5f5260045ffd5b9190811015612fed5760051b0190565b8151815560208201516001820180546001600160a01b0319166001600160a01b039290921691909117905590600290604090612e88565b9190918054831015612fed575f52601e60205f208360041c019260011b1690565b5f198101919082116106c857565b919082039182116106c857565b5f52601260205260405f206009600882015491019061370761ffff6136f98585613698565b90549060031b1c1682614b84565b92806137135750505090565b5f1981019081116106c85761372e61ffff9161373c94613698565b90549060031b1c1690614b84565b81039081116106c85790565b9592939093335f52600160205260ff60405f205416156106385760ff600254166106295780158015613aab575b61061a57606086013580158015613a91575b61061a57608087019561379a8789613ac2565b9050158015613a7c575b8015613a46575b61061a575f5b6137bb888a613ac2565b9050811015613849576137ea6137e36137de836137d88c8e613ac2565b90613651565b613ab3565b61ffff1690565b1580156137fe575b61061a576001016137b1565b5080151580156137f257508861ffff6138406137e36137de6138318d61382b6137de896137d8848b613ac2565b96613ac2565b61383a886136b9565b91613651565b911611156137f2565b5090919295949796939660c08501976138628987613af7565b90501515806139ee575b61061a5761387f92610520913691610a81565b8015611f8d576139b86139ae61397b987ff1ceeb3a8e9665d5f017fb4a6dc990c9988f630a3ae4d29493de65fcc46842aa966138ba85614065565b506138c53386615131565b6138ce8761400f565b506139856138dd601354612fb7565b9b8c9a6138e98c601355565b6138fb8c5f52601260205260405f2090565b8c81556001810180546001600160a01b031916331790559760028901558960038901558c600489015561393b6139318580613af7565b9060058b01613b29565b61395561394b6020860186613af7565b9060068b01613b29565b61396f6139656040860186613af7565b9060078b01613b29565b88600889015583613ac2565b9060098801613c4b565b6139a961399460a08301613ab3565b600a87019061ffff1661ffff19825416179055565b613af7565b90600b8401613b29565b42600e820155600f429101556131b560405192839233974292859094939260609260808301968352602083015260408201520152565b50604086016139fd8188613af7565b905015908115613a0e575b5061386c565b9050613a38613a23613a2a613a238d8b613af7565b3691610a81565b602081519101209289613af7565b60208151910120145f613a08565b5061271061ffff613a746137de8b8b61383a613a6d613a658385613ac2565b939094613ac2565b90506136b9565b1614156137ab565b50600a613a89888a613ac2565b9050116137a4565b5061271061ffff613aa460a08a01613ab3565b1611613787565b508115613775565b3561ffff811681036104765790565b903590601e198136030182121561047657018035906001600160401b03821161047657602001918160051b3603831361047657565b903590601e198136030182121561047657018035906001600160401b0382116104765760200191813603831361047657565b9092916001600160401b0381116109f257613b488161323d8454610cb7565b5f601f8211600114613b815781906132739394955f92613b765750508160011b915f199060031b1c19161790565b013590505f8061325f565b601f19821694613b94845f5260205f2090565b915f5b878110613bcd575083600195969710613bb457505050811b019055565b01355f19600384901b60f8161c191690555f80806132ad565b90926020600181928686013581550194019101613b97565b90600160401b81116109f2578154818355808210613c0257505050565b610a27925f52600f60205f2091601e82850160041c84019460011b1680613c30575b500160041c01906131c3565b5f198501908154905f199060200360031b1c1690555f613c24565b91906001600160401b0382116109f257613c7390613c698385613be5565b925f5260205f2090565b8160041c915f5b838110613ce55750600f198116900380613c95575b50505050565b925f935f5b818110613caf5750505001555f808080613c8f565b9091946020613cdb600192613cc389613ab3565b9085851b61ffff809160031b9316831b921b19161790565b9601929101613c9a565b5f805b60108110613cfd575083820155600101613c7a565b95906020613d28600192613d1085613ab3565b908a851b61ffff809160031b9316831b921b19161790565b92019601613ce8565b60405190613d406040836109f7565b60078252661d1a5b595bdd5d60ca1b6020830152565b613d5f5f612f6e565b90613d6d60405192836109f7565b5f825281601f19613d7d5f612f6e565b01905f5b828110613d8d57505050565b602090604051613d9c816109d6565b5f81525f838201525f60408201525f60608201525f60808201525f60a08201525f60c08201525f60e08201525f6101008201525f61012082015282828501015201613d81565b90613dec82612f6e565b613df960405191826109f7565b8281528092613e0a601f1991612f6e565b01905f5b828110613e1a57505050565b602090604051613e29816109d6565b5f81525f838201525f60408201525f60608201525f60808201525f60a08201525f60c08201525f60e08201525f6101008201525f61012082015282828501015201613e0e565b60088210156109bd5752565b906008613e86610a47565b83546001600160a01b031681529260018101546020850152600281015460408501526003810154606085015260048101546080850152600581015460a0850152613efa613ef06006830154613ee7613ede8260ff1690565b60c08901613e6f565b60081c60ff1690565b60ff1660e0860152565b60078101546101008501520154610120830152565b929190835f526006602052600260405f20015480821015613fc15760648311613fb8575b613f3d82826136c7565b8311613fa4575b50613f4e82613de2565b935f5b838110613f5e5750505050565b600190613f88613f83613f79855f52600960205260405f2090565b610c458488612ebf565b613e7b565b613f928289612fd9565b52613f9d8188612fd9565b5001613f51565b81925090613fb1916136c7565b905f613f44565b60649250613f33565b5050509050610ad2613d56565b60046080610a2793805184556020810151600185015560408101516002850155606081015160038501550151151591019060ff801983541691151516179055565b5f818152600e60205260409020546001600160a01b031690811561403d575b506001600160a01b0316331490565b5f908152600e6020526040902080546001600160a01b0319163390811790915590505f61402e565b610ad23082615131565b9060606003918051845561409860208201511515600186019060ff801983541691151516179055565b604081015160028501550151910155565b600754805f52600660205260ff600160405f2001541661414b57614102906140fd604051916140d96080846109f7565b808352600160208401525f60408401524260608401525f52600660205260405f2090565b61406f565b614115614110600854612fb7565b600855565b6007546040514281527f217ff5db260372f7ab32608612dc3d218db8f3644666e2881c29c1e771e253bf9080602081015b0390a2565b631e4f783760e11b5f5260045ffd5b805f52600660205260405f205415612a0c57805f526006602052600260405f20015482101561419b575f52600960205260405f20905f5260205260405f2090565b630d8fa6af60e21b5f5260045ffd5b9060088110156109bd5760ff80198354169116179055565b959493906080936141e0613053946141ea938a5260208a0190610f59565b6040880190610f59565b60a0606087015260a0860190610d8d565b905f80516020615a3a8339815191529061421d835f52600960205260405f2090565b815f5260205260405f2093600685019461423d600260ff885416976141aa565b600742910155614258604051928392600233984293866141c2565b0390a3565b5f80516020615a3a833981519152819392614280835f52600960205260405f2090565b815f5260205260405f209360068501946142a0600460ff885416976141aa565b6007429101556142bb604051928392600433984293866141c2565b0390a36142c96004826151e7565b6001610a27916152ed565b5f80516020615a3a8339815191528193926142f7835f52600960205260405f2090565b815f5260205260405f20936006850194614317600560ff885416976141aa565b600742910155614332604051928392600533984293866141c2565b0390a35f610a27916143456005826151e7565b6109b66005610f4f565b905f80516020615a3a83398151915290614371835f52600960205260405f2090565b815f5260205260405f20936006850194614391600360ff885416976141aa565b600742910155614258604051928392600333984293866141c2565b905f80516020615a3a833981519152906143ce835f52600960205260405f2090565b815f5260205260405f209360068501946143ee600660ff885416976141aa565b600742910155614258604051928392600633984293866141c2565b905f80516020615a3a8339815191529061442b835f52600960205260405f2090565b815f5260205260405f2093600685019461444b600160ff885416976141aa565b600742910155614258604051928392600133984293866141c2565b906144709161415a565b9060038201548015908115614487575b50611fa857565b90505f52600b60205260018060a01b03600960405f200154163314155f614480565b9092918060011b818104600214821517156106c8576144c790612f85565b935f925f5b8381106144db57505050508252565b6144fa6144f0835f52600960205260405f2090565b610c458386612ebf565b9460018601549561450a87615469565b61451382612fb7565b9661451f88938b612fd9565b52600381015415614535575b50506001016144cc565b9561455b6145546002600195949901549261454f84615469565b612fb7565b978a612fd9565b52905f61452b565b604051614594816145806020820194604086526060830190612ff2565b30604083015203601f1981018352826109f7565b51902090565b9190825f525f80516020615a1a83398151915260205260405f20541561465d57825f525f80516020615a1a83398151915260205260405f206040519081602082549182815201915f5260205f20905f5b81811061464757505050918161460961460e95936104e59503826109f7565b6154d6565b614638577f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d5f80a2565b63cf6c44e960e01b5f5260045ffd5b82548452602090930192600192830192016145ea565b63d66ca67560e01b5f5260045ffd5b5f52601260205260405f209081541561468157565b6316ac9c3160e11b5f5260045ffd5b6146a060018301600583016155ac565b91826146c2575b826146b157505090565b610ad29250600401906007016155ac565b91506146d460038301600683016155ac565b916146a7565b91949394831580156148dc575b61061a576007548303612a0c57614706835f52600660205260405f2090565b956147186104e5600189015460ff1690565b61414b578215611f8d578115611f8d577f627dcdd15b904d81e363946183ef8d560c35009e72fb7de1714e172cb6f7eba78491610a279661475886614065565b5061476285614065565b5061476d3387615131565b6147773386615131565b5f8052600b6020526147b460097fdf7de25b7f1fd6d0b5205f0e18f1f35bd7b8d84cce336588d184533ce43a6f765b01546001600160a01b031690565b6001600160a01b0381166148a2575b506147cd8161400f565b5061489160028b01968754976147e289612fb7565b9055879b6147fc8961077b895f52600960205260405f2090565b80546001600160a01b0319163317815560018101928355600281019889555f6003820155846004820155856005820155600842910155600342910155426148533360018060a01b03165f52600460205260405f2090565b555495546040805189815260208101989098528701525f6060870152608086019190915260a08501919091524260c0850152339390819060e0820190565b0390a361489c612f19565b91614409565b6148ac8188615131565b6148be835f52601060205260405f2090565b5490816148cc575b506147c3565b6148d591615131565b5f806148c6565b5085156146e7565b92939091959484158015614abf575b61061a576007548403612a0c57614912845f52600660205260405f2090565b966149246104e560018a015460ff1690565b61414b578315611f8d578015611f8d57610a279585926148917f627dcdd15b904d81e363946183ef8d560c35009e72fb7de1714e172cb6f7eba79361496888614065565b5061497281614065565b5061497d3389615131565b8215614ab0575b61499b60096147a6855f52600b60205260405f2090565b6001600160a01b038116614a76575b506149b48461400f565b5060028c01978854986149c68a612fb7565b9055889c6149e08a61077b8a5f52600960205260405f2090565b80546001600160a01b03191633178155600181019283556002810193845585600382015586600482015589600582015560084291015560034291015542614a373360018060a01b03165f52600460205260405f2090565b5554905496604051948594339942948c8893909796959260c0959260e08601998652602086015260408501526060840152608083015260a08201520152565b614a80818a615131565b614a92885f52601060205260405f2090565b549081614aa0575b506149aa565b614aa991615131565b5f80614a9a565b614aba3382615131565b614984565b5081156148f3565b805f52600660205260405f2060018101805460ff81161561414b5760ff191690556003429101557fed76190d94e2079764a112387a25d1b74945a43c0b92ce5f4f65b391b66390fe60405180602081014282520390a2614b28600754612fb7565b600755565b60088110156109bd5760018114908115614b79575b8115614b64575b8115614b53575090565b60069150614b6081610f4f565b1490565b9050614b6f81610f4f565b6003811490614b49565b600281149150614b42565b61ffff614b92921690612f5b565b6127108101908181116106c85761270f019081116106c857612710900490565b60ff91600d820180549060028519831617905542600f840155614be2600c84549401549160405195869116610dcf565b7feb10059e47107f131399133734f86d8f7468629044785c9b5658fa554278b86f91614c259160026020870152604086015260a0606086015260a0850190610d8d565b924260808201528033940390a3565b60ff91600d820180549060038519831617905542600f840155614c64600c84549401549160405195869116610dcf565b7feb10059e47107f131399133734f86d8f7468629044785c9b5658fa554278b86f91614c259160036020870152604086015260a0606086015260a0850190610d8d565b60ff91600d820180549060018519831617905542600f840155614cd7600c84549401549160405195869116610dcf565b7feb10059e47107f131399133734f86d8f7468629044785c9b5658fa554278b86f91614c259160016020870152604086015260a0606086015260a0850190610d8d565b939291602091613053916040875260408701916133a5565b90929192815f52600b60205260405f209360048501946001600160401b0382116109f257614d6a82614d648854610cb7565b886131d9565b5f95601f8311600114614ddf57614dba83807f419013d95439a420d6f2978ed8749e9c9addedc69390fb544c9b91cd7e659e249798995f91614dd4575b508160011b915f199060031b1c19161790565b90555b600842910155614146604051928392429184614d1a565b90508601355f614da7565b601f19831696614df2825f5260205f2090565b975f5b818110614e52575090847f419013d95439a420d6f2978ed8749e9c9addedc69390fb544c9b91cd7e659e249798999210614e39575b5050600183811b019055614dbd565b8501355f19600386901b60f8161c191690555f80614e2a565b868301358a5560019099019860209283019201614df5565b5f602091614ed7938115614f28575b8015614f1a575b5f80516020615a5a83398151915254604051637210768160e01b8152600481019390935260248301919091526001600160f81b031983166044830152909384926001600160a01b0390921691839182906064820190565b03925af1908115614f15575f91614eec575090565b610ad2915060203d602011614f0e575b614f0681836109f7565b810190614f84565b503d614efc565b614fcf565b50614f236155eb565b614e80565b9050614f326155eb565b90614e79565b5f602060018060a01b035f80516020615a5a8339815191525416604460405180948193639cd07acb60e01b83528160048401528160248401525af1908115614f15575f91614eec575090565b90816020910312610476575190565b9081526001600160a01b03909116602082015260806040820181905290939291614fbf91850190610d8d565b9260548210156109bd5760600152565b6040513d5f823e3d90fd5b600460209161502794935f615008611b69611b695f80516020615a5a8339815191525460018060a01b031690565b926040519788958694859363196d0b9b60e01b85523390838601614f93565b03925af1918215614f15575f926150c2575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970054829061507290611b69906001600160a01b031681565b803b1561047657604051630f8e573b60e21b815260048101929092523360248301525f908290604490829084905af18015614f15576150ae5750565b806150bc5f610a27936109f7565b80610647565b6150dc91925060203d602011614f0e57614f0681836109f7565b905f615039565b600860209161502794935f615111611b69611b695f80516020615a5a8339815191525460018060a01b031690565b926040519788958694859363196d0b9b60e01b8552339060048601614f93565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561047657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015614f15576151a25750565b5f610a27916109f7565b604051906151bb6040836109f7565b601a82527f6661696c757265207468726573686f6c642065786365656465640000000000006020830152565b6151f9905f52601960205260405f2090565b805480156152e857615213905f52601460205260405f2090565b91600461522c600184019485545f5260205260405f2090565b9161523681610f4f565b146152d757600201906152498254612fb7565b82555461525e815f52601260205260405f2090565b9261526d600d85015460ff1690565b61527681610dc5565b15928361529a575b5050506152885750565b610a27906152946151ac565b90614ca7565b6152ce9293506152ad6152c89154612f43565b936152c06137e3600a88015461ffff1690565b9254906136d4565b90612f5b565b105f808061527e565b905060019150016132738154612fb7565b505050565b805f52601960205260405f205491805f14615461576015545b8015615449575b602061536d5f92615337611b69611b695f80516020615a5a8339815191525460018060a01b031690565b60405163022f65e760e31b8152600481019290925260016024830152600160f81b60448301529093849283919082906064820190565b03925af1908115614f15575f9161542a575b5061538981614065565b505f5461539f906001600160a01b031682615131565b8115615422576015555b815f5260176020526153be8160405f2061585f565b82615407575b5060155460165460408051928352602083019190915242908201527fd050bc0d9d72fc56fc5ebf246f6838503ec7b9ef6747dbf9656f1d6cada4899d90606090a3565b61541c90835f52601860205260405f2061585f565b5f6153c4565b6016556153a9565b615443915060203d602011614f0e57614f0681836109f7565b5f61537f565b505f602061536d6154586155eb565b9250505061530d565b601654615306565b15611f8d57565b60209291908391805192839101825e019081520190565b90816020910312610476575180151581036104765790565b916154c8906154ba610ad29593606086526060860190612ff2565b908482036020860152610d8d565b916040818403910152610d8d565b9091825160200191826020116106c85761556e936155186154f8602095612eb1565b9161550a604051938492888401615470565b03601f1981018352826109f7565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703545f9061555090611b69906001600160a01b031681565b92604051968795869485936378542ead60e01b85526004850161549f565b03925af1908115614f15575f91615583575090565b610ad2915060203d6020116155a5575b61559d81836109f7565b810190615487565b503d615593565b906155b78254610cb7565b159182156155c457505090565b6155e09192506155d390610cef565b6020815191012091610cef565b602081519101201490565b5f80516020615a5a83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115614f15575f91614eec575090565b9060646020925f60018060a01b035f80516020615a5a83398151915254166040519687958694637702dcff60e01b86526004860152602485015260448401525af1908115614f15575f91614eec575090565b906020610ad2928181520190612ff2565b916156be906040929594958452606060208501526060840190612ff2565b6001600160e01b0319909416910152565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf00547f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700549092919061572b90611b69906001600160a01b031681565b803b15610476575f6040518092637d6e912360e11b8252818381615752886004830161568f565b03925af18015614f155761584b575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025461579890611b69906001600160a01b031681565b90813b1561047657604051633263b83b60e01b8152915f9083908183816157cb63124bd04b60e01b888c600485016156a0565b03925af1918215614f15576157e692615837575b5083615952565b610a276158137f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0054612fb7565b7f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf0055565b806150bc5f615845936109f7565b5f6157df565b806150bc5f615859936109f7565b5f615761565b5f9180156159485781545b8015615932575b5f80516020615a5a833981519152546020916158d19161589b90611b69906001600160a01b031681565b60405163022f65e760e31b8152600481019290925260016024830152600160f81b60448301529095869283919082906064820190565b03925af1928315614f15575f93615911575b506158ed83614065565b505f54615903906001600160a01b031684615131565b1561590b5755565b60010155565b61592b91935060203d602011614f0e57614f0681836109f7565b915f6158e3565b5060206158d16159406155eb565b915050615871565b600182015461586a565b805f525f80516020615a1a83398151915260205260405f2054615a0a575f525f80516020615a1a83398151915260205260405f208151916001600160401b0383116109f257600160401b83116109f25781548383558084106159e4575b5060206159c19101915f5260205f2090565b5f5b8381106159d05750505050565b6001906020845194019381840155016159c3565b825f528360205f2091820191015b8181106159ff57506159af565b5f81556001016159f2565b633f06d22b60e01b5f5260045ffdfe878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf018751d02b13b937feced4bbdce37c44d8681db02659d2094797e59f1de0b0231d9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c634300081a000a";
+
+type OtaUpdateFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: OtaUpdateFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class OtaUpdateFHE__factory extends ContractFactory {
+  constructor(...args: OtaUpdateFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      OtaUpdateFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): OtaUpdateFHE__factory {
+    return super.connect(runner) as OtaUpdateFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): OtaUpdateFHEInterface {
+    return new Interface(_abi) as OtaUpdateFHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): OtaUpdateFHE {
+    return new Contract(address, _abi, runner) as unknown as OtaUpdateFHE;
+  }
+}
@@ -46,13 +46,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.IInputVerifier__factory>;
     getContractFactory(
-      name: "AudioGuideFHE",
+      name: "OtaUpdateFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.AudioGuideFHE__factory>;
-    getContractFactory(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | FactoryOptions
-    ): Promise<Contracts.UniversalAdapter__factory>;
+    ): Promise<Contracts.OtaUpdateFHE__factory>;
 
     getContractAt(
       name: "EthereumConfig",
@@ -95,15 +91,10 @@ declare module "hardhat/types/runtime" {
       signer?: ethers.Signer
     ): Promise<Contracts.IInputVerifier>;
     getContractAt(
-      name: "AudioGuideFHE",
-      address: string | ethers.Addressable,
-      signer?: ethers.Signer
-    ): Promise<Contracts.AudioGuideFHE>;
-    getContractAt(
-      name: "UniversalAdapter",
+      name: "OtaUpdateFHE",
       address: string | ethers.Addressable,
       signer?: ethers.Signer
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.OtaUpdateFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -138,13 +129,9 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "AudioGuideFHE",
+      name: "OtaUpdateFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.AudioGuideFHE>;
-    deployContract(
-      name: "UniversalAdapter",
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.OtaUpdateFHE>;
 
     deployContract(
       name: "EthereumConfig",
@@ -187,15 +174,10 @@ declare module "hardhat/types/runtime" {
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.IInputVerifier>;
     deployContract(
-      name: "AudioGuideFHE",
-      args: any[],
-      signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.AudioGuideFHE>;
-    deployContract(
-      name: "UniversalAdapter",
+      name: "OtaUpdateFHE",
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
-    ): Promise<Contracts.UniversalAdapter>;
+    ): Promise<Contracts.OtaUpdateFHE>;
 
     // default types
     getContractFactory(
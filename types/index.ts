@@ -6,23 +6,21 @@ export type { fhevm };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
-export type { EthereumConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig";
-export { EthereumConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/EthereumConfig__factory";
-export type { SepoliaConfig } from "./@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig";
-export { SepoliaConfig__factory } from "./factories/@fhevm/solidity/config/ZamaConfig.sol/SepoliaConfig__factory";
-export type { FHE } from "./@fhevm/solidity/lib/FHE.sol/FHE";
-export { FHE__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/FHE__factory";
-export type { IDecryptionOracle } from "./@fhevm/solidity/lib/FHE.sol/IDecryptionOracle";
-export { IDecryptionOracle__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IDecryptionOracle__factory";
-export type { IKMSVerifier } from "./@fhevm/solidity/lib/FHE.sol/IKMSVerifier";
-export { IKMSVerifier__factory } from "./factories/@fhevm/solidity/lib/FHE.sol/IKMSVerifier__factory";
-export type { IACL } from "./@fhevm/solidity/lib/Impl.sol/IACL";
-export { IACL__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IACL__factory";
-export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor";
-export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
-export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
-export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
-export type { AudioGuideFHE } from "./contracts/AudioGuideFHE";
-export { AudioGuideFHE__factory } from "./factories/contracts/AudioGuideFHE__factory";
-export type { UniversalAdapter } from "./contracts/UniversalAdapter";
-export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";
+export type { EthereumConfig } from "./@fhevm/solidity/config/zamaconfig.sol/EthereumConfig";
+export { EthereumConfig__factory } from "./factories/@fhevm/solidity/config/zamaconfig.sol/EthereumConfig__factory";
+export type { SepoliaConfig } from "./@fhevm/solidity/config/zamaconfig.sol/SepoliaConfig";
+export { SepoliaConfig__factory } from "./factories/@fhevm/solidity/config/zamaconfig.sol/SepoliaConfig__factory";
+export type { FHE } from "./@fhevm/solidity/lib/fhe.sol/FHE";
+export { FHE__factory } from "./factories/@fhevm/solidity/lib/fhe.sol/FHE__factory";
+export type { IDecryptionOracle } from "./@fhevm/solidity/lib/fhe.sol/IDecryptionOracle";
+export { IDecryptionOracle__factory } from "./factories/@fhevm/solidity/lib/fhe.sol/IDecryptionOracle__factory";
+export type { IKMSVerifier } from "./@fhevm/solidity/lib/fhe.sol/IKMSVerifier";
+export { IKMSVerifier__factory } from "./factories/@fhevm/solidity/lib/fhe.sol/IKMSVerifier__factory";
+export type { IACL } from "./@fhevm/solidity/lib/impl.sol/IACL";
+export { IACL__factory } from "./factories/@fhevm/solidity/lib/impl.sol/IACL__factory";
+export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/impl.sol/IFHEVMExecutor";
+export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/impl.sol/IFHEVMExecutor__factory";
+export type { IInputVerifier } from "./@fhevm/solidity/lib/impl.sol/IInputVerifier";
+export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/impl.sol/IInputVerifier__factory";
+export type { OtaUpdateFHE } from "./contracts/otaUpdateFHE.sol/OtaUpdateFHE";
+export { OtaUpdateFHE__factory } from "./factories/contracts/otaUpdateFHE.sol/OtaUpdateFHE__factory";